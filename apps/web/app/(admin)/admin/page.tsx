@@ -24,9 +24,27 @@ import {
   DialogTitle,
   DialogFooter,
   DialogDescription,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
 } from "@sme/ui";
-import { Building2, Users, Package, Activity, Plus, Loader2 } from "lucide-react";
+import {
+  Building2,
+  Users,
+  Package,
+  Activity,
+  Plus,
+  Loader2,
+  Trash2,
+  Copy,
+  ShieldCheck,
+  RotateCcw,
+  Eye,
+} from "lucide-react";
 import { trpc } from "@/trpc/client";
+import { startImpersonation } from "@/lib/auth";
 
 function slugify(text: string): string {
   return text
@@ -47,6 +65,10 @@ export default function AdminPage() {
   });
 
   const [selectedTenant, setSelectedTenant] = useState<string | null>(null);
+  const [impersonateTenant, setImpersonateTenant] = useState<{
+    id: string;
+    name: string;
+  } | null>(null);
 
   // Create tenant dialog
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
@@ -178,6 +200,16 @@ export default function AdminPage() {
                         >
                           {selectedTenant === tenant.id ? "Hide" : "Modules"}
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Impersonate a member"
+                          onClick={() =>
+                            setImpersonateTenant({ id: tenant.id, name: tenant.name })
+                          }
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -202,6 +234,25 @@ export default function AdminPage() {
           tenantName={
             allTenants?.find((t) => t.id === selectedTenant)?.name ?? ""
           }
+          planId={
+            allTenants?.find((t) => t.id === selectedTenant)?.planId ?? null
+          }
+          onPlanChanged={() => refetchTenants()}
+        />
+      )}
+
+      <RoleTemplatesPanel
+        tenants={(allTenants ?? []).map((t) => ({ id: t.id, name: t.name }))}
+      />
+
+      <AuditArchivesPanel
+        tenants={(allTenants ?? []).map((t) => ({ id: t.id, name: t.name }))}
+      />
+
+      {impersonateTenant && (
+        <ImpersonateDialog
+          tenant={impersonateTenant}
+          onClose={() => setImpersonateTenant(null)}
         />
       )}
 
@@ -279,23 +330,660 @@ export default function AdminPage() {
   );
 }
 
+const ALL_TENANTS = "all";
+
+/** Platform role templates: create, clone from a tenant role, preview and apply */
+function RoleTemplatesPanel({
+  tenants,
+}: {
+  tenants: { id: string; name: string }[];
+}) {
+  const utils = trpc.useUtils();
+  const { data: templates } = trpc.admin.roleTemplates.list.useQuery();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [permissions, setPermissions] = useState("");
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const [cloneTenant, setCloneTenant] = useState("");
+  const [cloneRole, setCloneRole] = useState("");
+  const { data: tenantRoles } = trpc.admin.roleTemplates.tenantRoles.useQuery(
+    { tenantId: cloneTenant },
+    { enabled: !!cloneTenant }
+  );
+
+  const [applyTemplate, setApplyTemplate] = useState<string | null>(null);
+  const [applyTarget, setApplyTarget] = useState(ALL_TENANTS);
+  const applyInput = {
+    templateId: applyTemplate ?? "",
+    tenantId: applyTarget === ALL_TENANTS ? undefined : applyTarget,
+  };
+  const { data: preview } = trpc.admin.roleTemplates.preview.useQuery(
+    applyInput,
+    { enabled: !!applyTemplate }
+  );
+
+  const refresh = () => {
+    utils.admin.roleTemplates.list.invalidate();
+    utils.admin.roleTemplates.preview.invalidate();
+  };
+
+  const createTemplate = trpc.admin.roleTemplates.create.useMutation({
+    onSuccess: () => {
+      setCreateOpen(false);
+      setName("");
+      setPermissions("");
+      setCreateError(null);
+      refresh();
+    },
+    onError: (err) => setCreateError(err.message),
+  });
+  const fromRole = trpc.admin.roleTemplates.fromRole.useMutation({
+    onSuccess: () => {
+      setCloneRole("");
+      refresh();
+    },
+  });
+  const deleteTemplate = trpc.admin.roleTemplates.delete.useMutation({
+    onSuccess: refresh,
+  });
+  const apply = trpc.admin.roleTemplates.applyToTenants.useMutation({
+    onSuccess: refresh,
+  });
+
+  const statusVariant: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+    create: "default",
+    update_available: "secondary",
+    up_to_date: "outline",
+    conflict: "destructive",
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Role Templates</CardTitle>
+          <CardDescription>
+            Reusable roles for every tenant. Template changes reach tenants as
+            opt-in updates.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Template
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Template</TableHead>
+              <TableHead>Version</TableHead>
+              <TableHead>Permissions</TableHead>
+              <TableHead className="w-[160px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {templates?.map((template) => (
+              <TableRow key={template.id}>
+                <TableCell>
+                  <div className="font-medium">{template.name}</div>
+                  <div className="font-mono text-xs text-muted-foreground">
+                    {template.slug}
+                  </div>
+                </TableCell>
+                <TableCell>v{template.version}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {template.permissions.map((perm) => (
+                      <Badge
+                        key={perm}
+                        variant={perm.startsWith("!") ? "destructive" : "outline"}
+                        className="text-xs"
+                      >
+                        {perm}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setApplyTemplate(template.id)}
+                    >
+                      Apply...
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete template"
+                      onClick={() => {
+                        if (
+                          window.confirm(
+                            "Delete this template? Roles created from it are kept."
+                          )
+                        ) {
+                          deleteTemplate.mutate({ templateId: template.id });
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {(!templates || templates.length === 0) && (
+              <TableRow>
+                <TableCell colSpan={4} className="py-8 text-center text-muted-foreground">
+                  No role templates yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {/* Clone a tenant's role */}
+        <div className="space-y-2">
+          <Label>Clone from a tenant role</Label>
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={cloneTenant}
+              onValueChange={(v) => {
+                setCloneTenant(v);
+                setCloneRole("");
+              }}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Tenant" />
+              </SelectTrigger>
+              <SelectContent>
+                {tenants.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={cloneRole} onValueChange={setCloneRole}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Role" />
+              </SelectTrigger>
+              <SelectContent>
+                {tenantRoles
+                  ?.filter((r) => !r.isSystem && !r.templateId)
+                  .map((r) => (
+                    <SelectItem key={r.id} value={r.id}>
+                      {r.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              disabled={!cloneRole || fromRole.isPending}
+              onClick={() => fromRole.mutate({ roleId: cloneRole })}
+            >
+              <Copy className="mr-2 h-4 w-4" />
+              Create Template
+            </Button>
+          </div>
+          {fromRole.error && (
+            <p className="text-sm text-destructive">{fromRole.error.message}</p>
+          )}
+        </div>
+      </CardContent>
+
+      {/* Create template */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Role Template</DialogTitle>
+            <DialogDescription>
+              Tenants get a role with these permissions when you apply it
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Kitchen Lead"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-perms">Permissions</Label>
+              <Input
+                id="template-perms"
+                value={permissions}
+                onChange={(e) => setPermissions(e.target.value)}
+                placeholder="costing:*, !costing:admin"
+              />
+              <p className="text-xs text-muted-foreground">
+                Comma-separated. Format: module:resource:action (wildcards and
+                ! denies allowed)
+              </p>
+            </div>
+            {createError && (
+              <p className="text-sm text-destructive">{createError}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!name || createTemplate.isPending}
+              onClick={() =>
+                createTemplate.mutate({
+                  name,
+                  slug: slugify(name),
+                  permissions: permissions
+                    .split(",")
+                    .map((p) => p.trim())
+                    .filter(Boolean),
+                })
+              }
+            >
+              {createTemplate.isPending ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Preview + apply */}
+      <Dialog
+        open={!!applyTemplate}
+        onOpenChange={(open) => !open && setApplyTemplate(null)}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Apply Template</DialogTitle>
+            <DialogDescription>
+              Creates the role where missing. Existing roles are never
+              overwritten — tenants accept updates themselves.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={applyTarget} onValueChange={setApplyTarget}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TENANTS}>All active tenants</SelectItem>
+              {tenants.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {preview?.map((diff) => (
+              <div key={diff.tenantId} className="rounded-md border p-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{diff.tenantName}</span>
+                  <Badge variant={statusVariant[diff.status] ?? "outline"}>
+                    {diff.status.replace("_", " ")}
+                  </Badge>
+                </div>
+                {diff.reason && (
+                  <p className="text-xs text-muted-foreground">{diff.reason}</p>
+                )}
+                {(diff.added.length > 0 || diff.removed.length > 0) && (
+                  <div className="mt-1 flex flex-wrap gap-1 font-mono text-xs">
+                    {diff.added.map((p) => (
+                      <span key={`+${p}`} className="text-green-700">+{p}</span>
+                    ))}
+                    {diff.removed.map((p) => (
+                      <span key={`-${p}`} className="text-destructive">-{p}</span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {apply.data && (
+            <p className="text-sm text-muted-foreground">
+              Created {apply.data.created}, skipped {apply.data.skipped}
+            </p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplyTemplate(null)}>
+              Close
+            </Button>
+            <Button
+              disabled={
+                apply.isPending ||
+                !preview?.some((d) => d.status === "create")
+              }
+              onClick={() => apply.mutate(applyInput)}
+            >
+              {apply.isPending ? "Applying..." : "Apply"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+/** Audit archives written by tenant retention: verify and restore */
+function AuditArchivesPanel({
+  tenants,
+}: {
+  tenants: { id: string; name: string }[];
+}) {
+  const utils = trpc.useUtils();
+  const [tenantFilter, setTenantFilter] = useState(ALL_TENANTS);
+  const { data: archives } = trpc.admin.auditArchives.list.useQuery({
+    tenantId: tenantFilter === ALL_TENANTS ? undefined : tenantFilter,
+  });
+  const [results, setResults] = useState<Record<string, string>>({});
+
+  const setResult = (archiveId: string, text: string) =>
+    setResults((prev) => ({ ...prev, [archiveId]: text }));
+
+  const verify = trpc.admin.auditArchives.verify.useMutation({
+    onSuccess: (result, { archiveId }) =>
+      setResult(
+        archiveId,
+        result.valid
+          ? `Intact — ${result.checked} entries verified`
+          : `Broken: ${result.firstBroken?.reason.replace(/_/g, " ")}${
+              result.firstBroken?.seq ? ` at #${result.firstBroken.seq}` : ""
+            }`
+      ),
+    onError: (err, { archiveId }) => setResult(archiveId, err.message),
+  });
+  const restore = trpc.admin.auditArchives.restore.useMutation({
+    onSuccess: (result, { archiveId }) => {
+      setResult(archiveId, `Restored ${result.restored} entries`);
+      utils.admin.auditArchives.list.invalidate();
+    },
+    onError: (err, { archiveId }) => setResult(archiveId, err.message),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Audit Archives</CardTitle>
+          <CardDescription>
+            Monthly audit log archives for tenants with a retention period
+          </CardDescription>
+        </div>
+        <Select value={tenantFilter} onValueChange={setTenantFilter}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TENANTS}>All tenants</SelectItem>
+            {tenants.map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tenant</TableHead>
+              <TableHead>Month</TableHead>
+              <TableHead>Entries</TableHead>
+              <TableHead>Size</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[120px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {archives?.map(({ archive, tenantName }) => (
+              <TableRow key={archive.id}>
+                <TableCell className="font-medium">{tenantName}</TableCell>
+                <TableCell>{archive.period}</TableCell>
+                <TableCell>
+                  {archive.entryCount.toLocaleString()}
+                  <div className="text-xs text-muted-foreground">
+                    #{archive.firstSeq}–#{archive.lastSeq}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {(archive.sizeBytes / 1024).toFixed(1)} KB
+                </TableCell>
+                <TableCell>
+                  {archive.restoredAt ? (
+                    <Badge variant="secondary">Restored</Badge>
+                  ) : (
+                    <Badge variant="outline">Archived</Badge>
+                  )}
+                  {results[archive.id] && (
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {results[archive.id]}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Verify archive"
+                      disabled={verify.isPending}
+                      onClick={() => verify.mutate({ archiveId: archive.id })}
+                    >
+                      <ShieldCheck className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Restore into the audit log"
+                      disabled={restore.isPending || !!archive.restoredAt}
+                      onClick={() => {
+                        if (
+                          window.confirm(
+                            "Restore these entries into the tenant's audit log? The next retention run archives them again."
+                          )
+                        ) {
+                          restore.mutate({ archiveId: archive.id });
+                        }
+                      }}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {(!archives || archives.length === 0) && (
+              <TableRow>
+                <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                  No audit archives yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ImpersonateDialog({
+  tenant,
+  onClose,
+}: {
+  tenant: { id: string; name: string };
+  onClose: () => void;
+}) {
+  const { data: members } = trpc.admin.tenantMembers.useQuery({
+    tenantId: tenant.id,
+  });
+  const [userId, setUserId] = useState("");
+  const [reason, setReason] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState(30);
+  const [allowWrites, setAllowWrites] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState("");
+  const revokeSessions = trpc.admin.revokeUserSessions.useMutation();
+
+  const candidates = (members ?? []).filter((m) => m.isActive && !m.isSuperAdmin);
+
+  const start = async () => {
+    setPending(true);
+    setError("");
+    try {
+      const { tenantSlug } = await startImpersonation({
+        tenantId: tenant.id,
+        userId,
+        reason,
+        durationMinutes,
+        allowWrites,
+      });
+      window.location.href = `/${tenantSlug}`;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to impersonate");
+      setPending(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Impersonate in {tenant.name}</DialogTitle>
+          <DialogDescription>
+            See the app exactly as a member does. Everything you do is audited
+            under both your name and theirs.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {(error || revokeSessions.error) && (
+            <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+              {error || revokeSessions.error?.message}
+            </div>
+          )}
+          {revokeSessions.data && (
+            <p className="text-sm text-muted-foreground">
+              Signed out of {revokeSessions.data.revoked} session
+              {revokeSessions.data.revoked === 1 ? "" : "s"} in every tenant
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label>Member</Label>
+            <Select value={userId} onValueChange={setUserId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a member" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((m) => (
+                  <SelectItem key={m.userId} value={m.userId}>
+                    {m.fullName} ({m.email}) — {m.roleName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="impersonate-reason">Reason</Label>
+            <Input
+              id="impersonate-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Support ticket #1234"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="impersonate-duration">Duration (minutes)</Label>
+            <Input
+              id="impersonate-duration"
+              type="number"
+              min={5}
+              max={120}
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Number(e.target.value))}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Allow changes</Label>
+              <p className="text-xs text-muted-foreground">
+                Off: the session is read-only
+              </p>
+            </div>
+            <Switch checked={allowWrites} onCheckedChange={setAllowWrites} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            className="sm:mr-auto"
+            disabled={!userId || revokeSessions.isPending}
+            onClick={() => revokeSessions.mutate({ userId })}
+          >
+            Sign Out Everywhere
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={start}
+            disabled={!userId || reason.trim().length < 3 || pending}
+          >
+            {pending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Starting...
+              </>
+            ) : (
+              "Start Impersonation"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type DisableMode = "keep" | "archive" | "purge";
+
+const NO_PLAN = "none";
+
 function TenantModulePanel({
   tenantId,
   tenantName,
+  planId,
+  onPlanChanged,
 }: {
   tenantId: string;
   tenantName: string;
+  planId: string | null;
+  onPlanChanged: () => void;
 }) {
   const { data: available } = trpc.modules.available.useQuery();
+  const { data: plans } = trpc.admin.plans.list.useQuery();
+  const setTenantPlan = trpc.admin.setTenantPlan.useMutation({
+    onSuccess: () => onPlanChanged(),
+  });
+  const entitled = new Set(
+    plans?.find((p) => p.id === planId)?.modules ?? []
+  );
   const { data: enabledModules, refetch: refetchModules } =
     trpc.admin.getTenantModules.useQuery({ tenantId });
+  const [disableTarget, setDisableTarget] = useState<{
+    id: string;
+    name: string;
+  } | null>(null);
 
   const enableModule = trpc.admin.enableModule.useMutation({
     onSuccess: () => refetchModules(),
   });
-  const disableModule = trpc.admin.disableModule.useMutation({
-    onSuccess: () => refetchModules(),
-  });
 
   const enabledIds = new Set(enabledModules?.map((m) => m.moduleId) ?? []);
 
@@ -304,15 +992,41 @@ function TenantModulePanel({
       <CardHeader>
         <CardTitle>Modules for {tenantName}</CardTitle>
         <CardDescription>
-          Enable or disable modules for this tenant
+          Enable or disable modules for this tenant. Owners can toggle
+          modules included in the tenant&apos;s plan themselves.
         </CardDescription>
+        <div className="flex items-center gap-3 pt-2">
+          <Label htmlFor="tenant-plan">Plan</Label>
+          <Select
+            value={planId ?? NO_PLAN}
+            onValueChange={(v) =>
+              setTenantPlan.mutate({
+                tenantId,
+                planId: v === NO_PLAN ? null : v,
+              })
+            }
+            disabled={setTenantPlan.isPending}
+          >
+            <SelectTrigger id="tenant-plan" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PLAN}>No plan</SelectItem>
+              {plans
+                ?.filter((p) => p.isActive || p.id === planId)
+                .map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
           {available?.map((mod) => {
             const isEnabled = enabledIds.has(mod.id);
-            const isPending =
-              enableModule.isPending || disableModule.isPending;
 
             return (
               <div
@@ -320,19 +1034,26 @@ function TenantModulePanel({
                 className="flex items-center justify-between p-3 border rounded-lg"
               >
                 <div>
-                  <div className="font-medium">{mod.name}</div>
+                  <div className="font-medium">
+                    {mod.name}
+                    {entitled.has(mod.id) && (
+                      <Badge variant="secondary" className="ml-2 text-xs">
+                        In plan
+                      </Badge>
+                    )}
+                  </div>
                   <div className="text-sm text-muted-foreground">
                     {mod.description ?? "No description"} · v{mod.version}
                   </div>
                 </div>
                 <Switch
                   checked={isEnabled}
-                  disabled={isPending}
+                  disabled={enableModule.isPending}
                   onCheckedChange={(checked) => {
                     if (checked) {
                       enableModule.mutate({ tenantId, moduleId: mod.id });
                     } else {
-                      disableModule.mutate({ tenantId, moduleId: mod.id });
+                      setDisableTarget({ id: mod.id, name: mod.name });
                     }
                   }}
                 />
@@ -346,6 +1067,178 @@ function TenantModulePanel({
           )}
         </div>
       </CardContent>
+
+      {disableTarget && (
+        <DisableModuleDialog
+          key={disableTarget.id}
+          tenantId={tenantId}
+          moduleId={disableTarget.id}
+          moduleName={disableTarget.name}
+          onClose={() => setDisableTarget(null)}
+          onDisabled={() => refetchModules()}
+        />
+      )}
     </Card>
   );
 }
+
+// ============================================
+// Disable Module Dialog — keep / archive / purge
+// ============================================
+function DisableModuleDialog({
+  tenantId,
+  moduleId,
+  moduleName,
+  onClose,
+  onDisabled,
+}: {
+  tenantId: string;
+  moduleId: string;
+  moduleName: string;
+  onClose: () => void;
+  onDisabled: () => void;
+}) {
+  const [mode, setMode] = useState<DisableMode>("keep");
+  const [confirmText, setConfirmText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [archivePath, setArchivePath] = useState<string | null>(null);
+
+  const requestPurge = trpc.admin.requestModulePurge.useMutation({
+    onError: (err) => setError(err.message),
+  });
+  const disableModule = trpc.admin.disableModule.useMutation({
+    onSuccess: (result) => {
+      onDisabled();
+      if (result.archive) {
+        setArchivePath(result.archive.path);
+      } else {
+        onClose();
+      }
+    },
+    onError: (err) => setError(err.message),
+  });
+
+  const purgeRequest = requestPurge.data;
+  const isPending = requestPurge.isPending || disableModule.isPending;
+  const canSubmit =
+    mode !== "purge" || (!!purgeRequest && confirmText === moduleId);
+
+  const handleSubmit = () => {
+    setError(null);
+    disableModule.mutate({
+      tenantId,
+      moduleId,
+      mode,
+      confirmationToken: mode === "purge" ? purgeRequest?.token : undefined,
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Disable {moduleName}</DialogTitle>
+          <DialogDescription>
+            Choose what happens to this tenant&apos;s {moduleName} data.
+          </DialogDescription>
+        </DialogHeader>
+
+        {archivePath ? (
+          <div className="space-y-2 py-2">
+            <p className="text-sm">Module disabled. Data archived to:</p>
+            <code className="block break-all rounded bg-muted p-2 text-xs">
+              {archivePath}
+            </code>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="disable-mode">Data</Label>
+              <Select
+                value={mode}
+                onValueChange={(v) => {
+                  setMode(v as DisableMode);
+                  setError(null);
+                  if (v === "purge" && !requestPurge.data) {
+                    requestPurge.mutate({ tenantId, moduleId });
+                  }
+                }}
+                disabled={isPending}
+              >
+                <SelectTrigger id="disable-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keep">Keep data</SelectItem>
+                  <SelectItem value="archive">
+                    Keep data and export an archive
+                  </SelectItem>
+                  <SelectItem value="purge">Permanently delete data</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {mode === "purge" && purgeRequest && (
+              <div className="space-y-3 rounded-lg border border-destructive/50 p-3">
+                <p className="text-sm text-destructive">
+                  The following rows will be permanently deleted:
+                </p>
+                <ul className="text-sm text-muted-foreground">
+                  {Object.entries(purgeRequest.rowCounts).map(
+                    ([table, rows]) => (
+                      <li key={table}>
+                        {table}: {rows}
+                      </li>
+                    )
+                  )}
+                </ul>
+                <div className="space-y-2">
+                  <Label htmlFor="purge-confirm">
+                    Type <span className="font-mono">{moduleId}</span> to
+                    confirm
+                  </Label>
+                  <Input
+                    id="purge-confirm"
+                    value={confirmText}
+                    onChange={(e) => setConfirmText(e.target.value)}
+                    autoComplete="off"
+                  />
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {archivePath ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button
+                variant={mode === "purge" ? "destructive" : "default"}
+                onClick={handleSubmit}
+                disabled={!canSubmit || isPending}
+              >
+                {disableModule.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Disabling...
+                  </>
+                ) : mode === "purge" ? (
+                  "Delete Data & Disable"
+                ) : (
+                  "Disable Module"
+                )}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,26 @@
+import { getInvitationByToken } from "@sme/core/tenant";
+import { AcceptInvitationCard } from "@/components/auth/accept-invitation-card";
+
+/**
+ * Landing page for invitation links (/invite?token=…).
+ */
+export default async function InvitePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const invitation = token ? await getInvitationByToken(token) : null;
+
+  return (
+    <AcceptInvitationCard
+      token={token ?? ""}
+      invitation={
+        invitation && {
+          ...invitation,
+          expiresAt: invitation.expiresAt.toISOString(),
+        }
+      }
+    />
+  );
+}
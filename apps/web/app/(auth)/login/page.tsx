@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
@@ -14,6 +14,7 @@ import {
   Input,
   Label,
 } from "@sme/ui";
+import { OidcProviderButtons } from "@/components/auth/oidc-provider-buttons";
 
 export default function LoginPage() {
   const router = useRouter();
@@ -21,6 +22,35 @@ export default function LoginPage() {
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
+  // Second step for accounts with two-factor authentication
+  const [mfaStep, setMfaStep] = useState(false);
+  const [code, setCode] = useState("");
+
+  // Provider sign-ins come back here with ?error= or, for accounts with
+  // two-factor authentication, ?mfa=1 (the challenge cookie is already set)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get("mfa") === "1") setMfaStep(true);
+    if (params.get("error")) setError(params.get("error")!);
+  }, []);
+
+  // Cookie is already set by the API route response.
+  // Navigate based on user type and tenant state.
+  const redirectAfterLogin = (data: {
+    isSuperAdmin: boolean;
+    tenantId: string | null;
+    hasMultipleTenants: boolean;
+  }) => {
+    if (data.isSuperAdmin) {
+      router.push("/admin");
+    } else if (data.tenantId) {
+      router.push("/select-tenant");
+    } else if (data.hasMultipleTenants) {
+      router.push("/select-tenant");
+    } else {
+      router.push("/create-tenant");
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,23 +74,105 @@ export default function LoginPage() {
         return;
       }
 
-      // Cookie is already set by the API route response.
-      // Navigate based on user type and tenant state.
-      if (data.isSuperAdmin) {
-        router.push("/admin");
-      } else if (data.tenantId) {
-        router.push("/select-tenant");
-      } else if (data.hasMultipleTenants) {
-        router.push("/select-tenant");
-      } else {
-        router.push("/create-tenant");
+      if (data.mfaRequired) {
+        setMfaStep(true);
+        setLoading(false);
+        return;
+      }
+
+      redirectAfterLogin(data);
+    } catch {
+      setError("Network error. Please try again.");
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/auth/login/mfa", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error ?? "Verification failed");
+        setLoading(false);
+        // The challenge is gone — start over from the password
+        if (res.status === 401 && /sign in again/i.test(data.error ?? "")) {
+          setMfaStep(false);
+          setCode("");
+        }
+        return;
       }
+
+      redirectAfterLogin(data);
     } catch {
       setError("Network error. Please try again.");
       setLoading(false);
     }
   };
 
+  if (mfaStep) {
+    return (
+      <Card>
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl text-center">Two-factor authentication</CardTitle>
+          <CardDescription className="text-center">
+            Enter the 6-digit code from your authenticator app
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleVerify}>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+                {error}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="code">Verification code</Label>
+              <Input
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                required
+                autoComplete="one-time-code"
+                autoFocus
+              />
+              <p className="text-xs text-muted-foreground">
+                Lost your device? Enter one of your recovery codes instead.
+              </p>
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-4">
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? "Verifying..." : "Verify"}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => {
+                setMfaStep(false);
+                setCode("");
+                setError("");
+              }}
+            >
+              Back to sign in
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  }
+
   return (
     <Card>
       <CardHeader className="space-y-1">
@@ -90,7 +202,15 @@ export default function LoginPage() {
             />
           </div>
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="password">Password</Label>
+              <Link
+                href="/forgot-password"
+                className="text-xs text-muted-foreground underline-offset-4 hover:underline"
+              >
+                Forgot password?
+              </Link>
+            </div>
             <Input
               id="password"
               type="password"
@@ -106,6 +226,7 @@ export default function LoginPage() {
           <Button type="submit" className="w-full" disabled={loading}>
             {loading ? "Signing in..." : "Sign In"}
           </Button>
+          <OidcProviderButtons />
           <p className="text-sm text-muted-foreground text-center">
             Don&apos;t have an account?{" "}
             <Link href="/register" className="text-primary underline-offset-4 hover:underline">
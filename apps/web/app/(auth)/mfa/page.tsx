@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Input,
+  Label,
+} from "@sme/ui";
+import { trpc } from "@/trpc/client";
+import { TwoFactorSetup } from "@/components/auth/two-factor-setup";
+
+/**
+ * Where members land when their organization requires two-factor
+ * authentication for their role and this session wasn't verified with it:
+ * set it up, or enter a code if it already is.
+ */
+export default function MfaRequiredPage() {
+  const router = useRouter();
+  const { data: status, isLoading } = trpc.auth.mfa.status.useQuery();
+  const [code, setCode] = useState("");
+
+  const verifySession = trpc.auth.mfa.verifySession.useMutation({
+    onSuccess: () => router.push("/"),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl text-center">Two-factor authentication</CardTitle>
+        <CardDescription className="text-center">
+          Your organization requires a second factor for your role
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center">Loading...</p>
+        ) : status?.enabled ? (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              verifySession.mutate({ code });
+            }}
+          >
+            {verifySession.error && (
+              <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+                {verifySession.error.message}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="code">Verification code</Label>
+              <Input
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                autoComplete="one-time-code"
+                autoFocus
+              />
+              <p className="text-xs text-muted-foreground">
+                From your authenticator app, or one of your recovery codes
+              </p>
+            </div>
+            <Button type="submit" className="w-full" disabled={!code || verifySession.isPending}>
+              {verifySession.isPending ? "Verifying..." : "Continue"}
+            </Button>
+          </form>
+        ) : (
+          <TwoFactorSetup onDone={() => router.push("/")} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,6 +14,7 @@ import {
   Input,
   Label,
 } from "@sme/ui";
+import { OidcProviderButtons } from "@/components/auth/oidc-provider-buttons";
 
 export default function RegisterPage() {
   const router = useRouter();
@@ -129,6 +130,7 @@ export default function RegisterPage() {
           <Button type="submit" className="w-full" disabled={loading}>
             {loading ? "Creating account..." : "Create Account"}
           </Button>
+          <OidcProviderButtons />
           <p className="text-sm text-muted-foreground text-center">
             Already have an account?{" "}
             <Link href="/login" className="text-primary underline-offset-4 hover:underline">
@@ -0,0 +1,13 @@
+import { ResetPasswordForm } from "@/components/auth/reset-password-form";
+
+/**
+ * Landing page for password reset links (/reset-password?token=…).
+ */
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  return <ResetPasswordForm token={token ?? ""} />;
+}
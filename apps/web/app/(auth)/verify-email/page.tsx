@@ -0,0 +1,13 @@
+import { VerifyEmailCard } from "@/components/auth/verify-email-card";
+
+/**
+ * Landing page for email verification links (/verify-email?token=…).
+ */
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  return <VerifyEmailCard token={token ?? ""} />;
+}
@@ -23,7 +23,7 @@ export default function NewProductPage() {
   const [brand, setBrand] = useState("");
   const [description, setDescription] = useState("");
   const [price, setPrice] = useState("");
-  const [currency, setCurrency] = useState("PHP");
+  const [currency, setCurrency] = useState("");
   const [categoryId, setCategoryId] = useState("");
   const [stockStatus, setStockStatus] = useState("in_stock");
   const [isFeatured, setIsFeatured] = useState(false);
@@ -31,6 +31,7 @@ export default function NewProductPage() {
   const [selectedSubcategories, setSelectedSubcategories] = useState<string[]>([]);
 
   const { data: categories } = trpc.catalog.categories.list.useQuery();
+  const { data: catalogConfig } = trpc.modules.config.useQuery({ moduleId: "catalog" });
   const { data: subcategories } = trpc.catalog.subcategories.list.useQuery(
     categoryId ? { categoryId } : undefined,
   );
@@ -56,7 +57,7 @@ export default function NewProductPage() {
       brand: brand || undefined,
       description: description || undefined,
       price: price || undefined,
-      currency,
+      currency: currency || undefined,
       categoryId,
       stockStatus: stockStatus as "in_stock" | "out_of_stock" | "pre_order" | "reserved",
       isFeatured,
@@ -119,7 +120,7 @@ export default function NewProductPage() {
               </div>
               <div className="space-y-2">
                 <Label htmlFor="currency">Currency</Label>
-                <Input id="currency" value={currency} onChange={(e) => setCurrency(e.target.value)} maxLength={3} />
+                <Input id="currency" value={currency} onChange={(e) => setCurrency(e.target.value.toUpperCase())} placeholder={String(catalogConfig?.defaultCurrency ?? "")} maxLength={3} />
               </div>
             </div>
             <div className="space-y-2">
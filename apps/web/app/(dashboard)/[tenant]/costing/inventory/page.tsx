@@ -84,6 +84,7 @@ export default function InventoryPage() {
   const [showDetailItem, setShowDetailItem] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
 
+  const { data: categories } = trpc.costing.categories.list.useQuery();
   const { data, refetch, isLoading } = trpc.costing.inventory.list.useQuery({
     search: search || undefined,
     category: categoryFilter || undefined,
@@ -137,9 +138,9 @@ export default function InventoryPage() {
               onChange={(e) => setCategoryFilter(e.target.value)}
             >
               <option value="">All Categories</option>
-              <option value="critical">Critical</option>
-              <option value="secondary">Secondary</option>
-              <option value="packaging">Packaging</option>
+              {categories?.map((c) => (
+                <option key={c.id} value={c.slug}>{c.name}</option>
+              ))}
             </select>
           </div>
 
@@ -293,6 +294,7 @@ function ItemFormDialog({
   isPending: boolean;
 }) {
   const isEdit = !!item;
+  const { data: categories } = trpc.costing.categories.list.useQuery();
   const [name, setName] = useState(item?.name ?? "");
   const [brand, setBrand] = useState(item?.brand ?? "");
   const [unitType, setUnitType] = useState(item?.unitType ?? "weight");
@@ -392,9 +394,9 @@ function ItemFormDialog({
               value={category}
               onChange={(e) => setCategory(e.target.value)}
             >
-              <option value="critical">Critical</option>
-              <option value="secondary">Secondary</option>
-              <option value="packaging">Packaging</option>
+              {categories?.map((c) => (
+                <option key={c.id} value={c.slug}>{c.name}</option>
+              ))}
             </select>
           </div>
           <div className="grid grid-cols-2 gap-4">
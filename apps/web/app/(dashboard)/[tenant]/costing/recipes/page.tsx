@@ -221,9 +221,10 @@ function CreateRecipeDialog({
   const [type, setType] = useState<"base" | "final">(defaultType);
   const [yieldLossPct, setYieldLossPct] = useState("0");
   const [sellingPrice, setSellingPrice] = useState("");
-  const [vatPct, setVatPct] = useState("12");
+  const [vatPct, setVatPct] = useState("");
   const [discountPct, setDiscountPct] = useState("0");
 
+  const { data: costingConfig } = trpc.modules.config.useQuery({ moduleId: "costing" });
   const createRecipe = trpc.costing.recipes.create.useMutation({
     onSuccess: (recipe) => {
       router.push(`/${tenantSlug}/costing/recipes/${recipe.id}`);
@@ -265,7 +266,7 @@ function CreateRecipeDialog({
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label>VAT %</Label>
-                  <Input value={vatPct} onChange={(e) => setVatPct(e.target.value)} type="number" step="0.01" min="0" />
+                  <Input value={vatPct} onChange={(e) => setVatPct(e.target.value)} placeholder={String(costingConfig?.defaultVatPct ?? "")} type="number" step="0.01" min="0" />
                 </div>
                 <div className="space-y-2">
                   <Label>Discount %</Label>
@@ -33,11 +33,29 @@ export default async function TenantLayout({
     redirect("/select-tenant");
   }
 
+  // The tenant requires a second factor for this role (enforced on every
+  // tenant procedure too) — impersonating admins are exempt
+  if (
+    session.membership.mfaRequired &&
+    !session.session.mfaVerified &&
+    !session.session.impersonator
+  ) {
+    redirect("/mfa");
+  }
+
   return (
     <DashboardShell
       user={session.user}
       membership={session.membership}
+      locationId={session.session.locationId}
       tenantSlug={tenantSlug}
+      impersonation={
+        session.session.impersonator && {
+          impersonatorName: session.session.impersonator.fullName,
+          readOnly: session.session.readOnly,
+          expiresAt: session.session.expiresAt,
+        }
+      }
     >
       {children}
     </DashboardShell>
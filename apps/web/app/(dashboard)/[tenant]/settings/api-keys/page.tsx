@@ -0,0 +1,274 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Input,
+  Label,
+  Badge,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@sme/ui";
+import { Plus, Ban } from "lucide-react";
+import { trpc } from "@/trpc/client";
+
+/**
+ * API keys page — bearer keys for scripts calling the tRPC API.
+ * A key acts as the member who created it, limited to its permissions.
+ */
+export default function ApiKeysPage() {
+  const utils = trpc.useUtils();
+  const { data: keys } = trpc.apiKeys.list.useQuery();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [permissions, setPermissions] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+
+  const refresh = () => utils.apiKeys.list.invalidate();
+
+  const createKey = trpc.apiKeys.create.useMutation({
+    onSuccess: (created) => {
+      setCreateOpen(false);
+      setName("");
+      setPermissions("");
+      setExpiresInDays("90");
+      setCreateError(null);
+      setRevealedKey(created.key);
+      refresh();
+    },
+    onError: (err) => setCreateError(err.message),
+  });
+  const revokeKey = trpc.apiKeys.revoke.useMutation({ onSuccess: refresh });
+
+  const keyStatus = (key: { revokedAt: Date | null; expiresAt: Date }) =>
+    key.revokedAt
+      ? { label: "revoked", variant: "destructive" as const }
+      : new Date(key.expiresAt) < new Date()
+        ? { label: "expired", variant: "secondary" as const }
+        : { label: "active", variant: "default" as const };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">API Keys</h1>
+          <p className="text-muted-foreground">
+            Let scripts and integrations call the API on your behalf
+          </p>
+        </div>
+        <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Key
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create API Key</DialogTitle>
+              <DialogDescription>
+                The key acts as you, with only the permissions you give it
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="key-name">Name</Label>
+                <Input
+                  id="key-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Supplier price sync"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="key-permissions">Permissions</Label>
+                <Input
+                  id="key-permissions"
+                  value={permissions}
+                  onChange={(e) => setPermissions(e.target.value)}
+                  placeholder="costing:view, costing:manage"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Comma-separated, same format as role permissions. You can
+                  only give permissions you have.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="key-expiry">Expires after (days)</Label>
+                <Input
+                  id="key-expiry"
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                />
+              </div>
+              {createError && (
+                <p className="text-sm text-destructive">{createError}</p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() =>
+                  createKey.mutate({
+                    name,
+                    permissions: permissions
+                      .split(",")
+                      .map((p) => p.trim())
+                      .filter(Boolean),
+                    expiresInDays: Number(expiresInDays),
+                  })
+                }
+                disabled={
+                  !name.trim() ||
+                  !permissions.trim() ||
+                  !expiresInDays ||
+                  createKey.isPending
+                }
+              >
+                {createKey.isPending ? "Creating..." : "Create Key"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Keys</CardTitle>
+          <CardDescription>
+            Send the key as <code>Authorization: Bearer &lt;key&gt;</code>.
+            Requests made with a key are audited under its name.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="w-[60px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keys?.map((key) => {
+                const status = keyStatus(key);
+                return (
+                  <TableRow key={key.id}>
+                    <TableCell>
+                      <div className="font-medium">{key.name}</div>
+                      <div className="font-mono text-xs text-muted-foreground">
+                        {key.keyPrefix}_••••
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Created by {key.createdByName}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {key.permissions.map((p) => (
+                          <Badge key={p} variant="outline" className="text-xs">
+                            {p}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {key.lastUsedAt
+                        ? new Date(key.lastUsedAt).toLocaleString()
+                        : "Never"}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(key.expiresAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      {!key.revokedAt && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Revoke key"
+                          disabled={revokeKey.isPending}
+                          onClick={() => {
+                            if (
+                              window.confirm(
+                                `Revoke "${key.name}"? Requests using it fail immediately.`
+                              )
+                            ) {
+                              revokeKey.mutate({ keyId: key.id });
+                            }
+                          }}
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {(!keys || keys.length === 0) && (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="py-8 text-center text-muted-foreground"
+                  >
+                    No API keys yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* One-time key reveal */}
+      <Dialog
+        open={revealedKey !== null}
+        onOpenChange={(open) => !open && setRevealedKey(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>API Key</DialogTitle>
+            <DialogDescription>
+              Copy this key now — it won&apos;t be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <code className="block break-all rounded bg-muted p-3 text-sm">
+            {revealedKey}
+          </code>
+          <DialogFooter>
+            <Button onClick={() => setRevealedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
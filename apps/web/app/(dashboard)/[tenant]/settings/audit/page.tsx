@@ -0,0 +1,394 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Input,
+  Label,
+  Badge,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@sme/ui";
+import { ChevronDown, ChevronRight, Download, ShieldCheck } from "lucide-react";
+import { diffAuditChanges } from "@sme/shared/utils";
+import { trpc } from "@/trpc/client";
+
+const ALL = "all";
+
+const kindClass: Record<string, string> = {
+  added: "text-green-600",
+  removed: "text-destructive line-through",
+  changed: "text-amber-600",
+  unchanged: "text-muted-foreground",
+};
+
+/** Start or end of a yyyy-mm-dd day in local time */
+function dayBound(day: string, end: boolean): Date | undefined {
+  if (!day) return undefined;
+  return new Date(`${day}T${end ? "23:59:59.999" : "00:00:00"}`);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Audit log page — who changed what, with a before/after diff per entry,
+ * filters, CSV/NDJSON export and hash-chain verification.
+ */
+export default function AuditLogPage() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [actionPrefix, setActionPrefix] = useState("");
+  const [resourceType, setResourceType] = useState(ALL);
+  const [search, setSearch] = useState("");
+  const [requestId, setRequestId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const filter = {
+    from: dayBound(from, false),
+    to: dayBound(to, true),
+    actionPrefix: actionPrefix.trim() || undefined,
+    resourceType: resourceType === ALL ? undefined : resourceType,
+    search: search.trim() || undefined,
+    requestId: requestId ?? undefined,
+  };
+
+  const { data: facets } = trpc.audit.facets.useQuery();
+  const entries = trpc.audit.list.useInfiniteQuery(
+    { limit: 50, ...filter },
+    { getNextPageParam: (page) => page.nextCursor ?? undefined }
+  );
+  const verify = trpc.audit.verify.useQuery(undefined, { enabled: false });
+
+  const rows = entries.data?.pages.flatMap((page) => page.data) ?? [];
+
+  const exportUrl = (format: "csv" | "ndjson") => {
+    const params = new URLSearchParams({
+      from: filter.from!.toISOString(),
+      to: filter.to!.toISOString(),
+      format,
+    });
+    if (filter.actionPrefix) params.set("actionPrefix", filter.actionPrefix);
+    if (filter.resourceType) params.set("resourceType", filter.resourceType);
+    if (filter.search) params.set("search", filter.search);
+    if (filter.requestId) params.set("requestId", filter.requestId);
+    return `/api/audit/export?${params}`;
+  };
+  const canExport = Boolean(from && to);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every change made in your organization, newest first
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => verify.refetch()}
+          disabled={verify.isFetching}
+        >
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          {verify.isFetching ? "Verifying..." : "Verify Integrity"}
+        </Button>
+      </div>
+
+      {verify.data && (
+        <Card>
+          <CardContent className="pt-6 text-sm">
+            {verify.data.valid ? (
+              <p>
+                <Badge variant="default" className="mr-2">Intact</Badge>
+                {verify.data.checked} entries verified
+                {verify.data.head && (
+                  <>
+                    {" "}— latest #{verify.data.head.seq}, hash{" "}
+                    <span className="font-mono">{verify.data.head.hash}</span>
+                  </>
+                )}
+              </p>
+            ) : (
+              <p>
+                <Badge variant="destructive" className="mr-2">Broken</Badge>
+                Chain breaks at entry #{verify.data.firstBroken?.seq} (
+                {verify.data.firstBroken?.reason.replace(/_/g, " ")}, logged{" "}
+                {verify.data.firstBroken &&
+                  new Date(verify.data.firstBroken.createdAt).toLocaleString()}
+                )
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>
+            Export needs a date range and uses the same filters
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-action">Action</Label>
+              <Input
+                id="audit-action"
+                list="audit-actions"
+                value={actionPrefix}
+                onChange={(e) => setActionPrefix(e.target.value)}
+                placeholder="e.g., role: or costing:"
+              />
+              <datalist id="audit-actions">
+                {facets?.actions.map((action) => (
+                  <option key={action} value={action} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label>Resource</Label>
+              <Select value={resourceType} onValueChange={setResourceType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All resources</SelectItem>
+                  {facets?.resourceTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-search">Search changes</Label>
+              <Input
+                id="audit-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder='e.g., "unit cost" -draft'
+              />
+            </div>
+          </div>
+          {requestId && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Request</span>
+              <span className="font-mono text-xs">{requestId}</span>
+              <Button variant="ghost" size="sm" onClick={() => setRequestId(null)}>
+                Clear
+              </Button>
+            </div>
+          )}
+          <div className="flex gap-2">
+            {(["csv", "ndjson"] as const).map((format) => (
+              <Button
+                key={format}
+                variant="outline"
+                size="sm"
+                disabled={!canExport}
+                onClick={() => {
+                  window.location.href = exportUrl(format);
+                }}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export {format.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[32px]" />
+                <TableHead>When</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Resource</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((entry) => {
+                const isOpen = expanded === entry.id;
+                const diff = diffAuditChanges(entry.changes);
+                const hasDetail = diff.length > 0 || Boolean(entry.requestId);
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(isOpen ? null : entry.id)}
+                    >
+                      <TableCell>
+                        {hasDetail &&
+                          (isOpen ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          ))}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-mono text-xs">
+                          {entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.resourceType ?? "—"}
+                        {entry.resourceId && (
+                          <div className="font-mono text-xs text-muted-foreground">
+                            {entry.resourceId}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.userName ?? "System"}
+                        {entry.userEmail && (
+                          <div className="text-xs text-muted-foreground">
+                            {entry.userEmail}
+                          </div>
+                        )}
+                        {entry.impersonatorId && (
+                          <div className="text-xs text-amber-600">
+                            impersonated by {entry.impersonatorName ?? "an admin"}
+                          </div>
+                        )}
+                        {entry.apiKeyId && (
+                          <div className="text-xs text-muted-foreground">
+                            via API key {entry.apiKeyName ?? ""}{" "}
+                            <span className="font-mono">{entry.apiKeyPrefix}</span>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {entry.ipAddress ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                    {isOpen && hasDetail && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={5} className="space-y-2">
+                          {entry.requestId && (
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                              Request
+                              <span className="font-mono">{entry.requestId}</span>
+                              {entry.requestId !== requestId && (
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto p-0 text-xs"
+                                  onClick={() => setRequestId(entry.requestId)}
+                                >
+                                  Show all entries from this request
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                          {entry.userAgent && (
+                            <div className="break-all text-xs text-muted-foreground">
+                              {entry.userAgent}
+                            </div>
+                          )}
+                          {diff.length > 0 && (
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-left text-muted-foreground">
+                                  <th className="pb-1 font-medium">Field</th>
+                                  <th className="pb-1 font-medium">Before</th>
+                                  <th className="pb-1 font-medium">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {diff.map((field) => (
+                                  <tr key={field.key} className={kindClass[field.kind]}>
+                                    <td className="py-0.5 pr-4 font-mono">{field.key}</td>
+                                    <td className="break-all py-0.5 pr-4 font-mono">
+                                      {formatValue(field.before)}
+                                    </td>
+                                    <td className="break-all py-0.5 font-mono">
+                                      {formatValue(field.after)}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+              {rows.length === 0 && (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="py-8 text-center text-muted-foreground"
+                  >
+                    {entries.isLoading ? "Loading..." : "No matching entries"}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {entries.hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => entries.fetchNextPage()}
+            disabled={entries.isFetchingNextPage}
+          >
+            {entries.isFetchingNextPage ? "Loading..." : "Load More"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
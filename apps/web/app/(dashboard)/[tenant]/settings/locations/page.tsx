@@ -0,0 +1,369 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Input,
+  Label,
+  Badge,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@sme/ui";
+import { Plus, Trash2, UserPlus, X } from "lucide-react";
+import { trpc } from "@/trpc/client";
+
+const TENANT_ROLE = "tenant-role";
+
+/**
+ * Locations page — branches, stores or warehouses within the tenant.
+ * Members with no assignments can work at every location; a per-location
+ * role replaces their tenant role while that location is active.
+ */
+export default function LocationsPage() {
+  const utils = trpc.useUtils();
+  const { data: locations } = trpc.locations.list.useQuery();
+  const { data: assignments } = trpc.locations.assignments.useQuery();
+  const { data: members } = trpc.users.list.useQuery({ limit: 100 });
+  const { data: roles } = trpc.roles.list.useQuery();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [address, setAddress] = useState("");
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const [assignOpen, setAssignOpen] = useState(false);
+  const [assignLocationId, setAssignLocationId] = useState("");
+  const [assignMembershipId, setAssignMembershipId] = useState("");
+  const [assignRoleId, setAssignRoleId] = useState(TENANT_ROLE);
+  const [assignError, setAssignError] = useState<string | null>(null);
+
+  const refresh = () => {
+    utils.locations.list.invalidate();
+    utils.locations.assignments.invalidate();
+    utils.auth.myLocations.invalidate();
+  };
+
+  const createLocation = trpc.locations.create.useMutation({
+    onSuccess: () => {
+      setCreateOpen(false);
+      setName("");
+      setCode("");
+      setAddress("");
+      setCreateError(null);
+      refresh();
+    },
+    onError: (err) => setCreateError(err.message),
+  });
+  const updateLocation = trpc.locations.update.useMutation({ onSuccess: refresh });
+  const deleteLocation = trpc.locations.delete.useMutation({ onSuccess: refresh });
+  const assign = trpc.locations.assign.useMutation({
+    onSuccess: () => {
+      setAssignOpen(false);
+      setAssignMembershipId("");
+      setAssignRoleId(TENANT_ROLE);
+      setAssignError(null);
+      refresh();
+    },
+    onError: (err) => setAssignError(err.message),
+  });
+  const unassign = trpc.locations.unassign.useMutation({ onSuccess: refresh });
+
+  const openAssign = (locationId: string) => {
+    setAssignLocationId(locationId);
+    setAssignError(null);
+    setAssignOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Locations</h1>
+          <p className="text-muted-foreground">
+            Manage branches and which members work at each one
+          </p>
+        </div>
+        <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Location
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Location</DialogTitle>
+              <DialogDescription>
+                Members can switch to this location from the sidebar
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="location-name">Name</Label>
+                <Input
+                  id="location-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Makati Branch"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location-code">Code</Label>
+                <Input
+                  id="location-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="e.g., MKT-01"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location-address">Address</Label>
+                <Input
+                  id="location-address"
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                />
+              </div>
+              {createError && (
+                <p className="text-sm text-destructive">{createError}</p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() =>
+                  createLocation.mutate({
+                    name,
+                    code: code || undefined,
+                    address: address || undefined,
+                  })
+                }
+                disabled={!name.trim() || createLocation.isPending}
+              >
+                {createLocation.isPending ? "Adding..." : "Add Location"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Locations */}
+      <Card>
+        <CardHeader>
+          <CardTitle>All Locations</CardTitle>
+          <CardDescription>
+            Inactive locations are hidden from the location switcher
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-[100px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {locations?.map((location) => {
+                const locationAssignments =
+                  assignments?.filter((a) => a.locationId === location.id) ?? [];
+                return (
+                  <TableRow key={location.id}>
+                    <TableCell>
+                      <div className="font-medium">{location.name}</div>
+                      {location.address && (
+                        <div className="text-xs text-muted-foreground">
+                          {location.address}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {location.code ?? "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {locationAssignments.map((a) => (
+                          <Badge key={a.id} variant="outline" className="gap-1 text-xs">
+                            {a.userName}
+                            {a.roleName && (
+                              <span className="text-muted-foreground">
+                                ({a.roleName})
+                              </span>
+                            )}
+                            <button
+                              title="Remove from location"
+                              onClick={() =>
+                                unassign.mutate({
+                                  membershipId: a.membershipId,
+                                  locationId: a.locationId,
+                                })
+                              }
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                        {locationAssignments.length === 0 && (
+                          <span className="text-sm text-muted-foreground">
+                            No assigned members
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={location.isActive}
+                        disabled={updateLocation.isPending}
+                        onCheckedChange={(checked) =>
+                          updateLocation.mutate({
+                            id: location.id,
+                            isActive: checked,
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Assign member"
+                          onClick={() => openAssign(location.id)}
+                        >
+                          <UserPlus className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete location"
+                          onClick={() => {
+                            if (
+                              window.confirm(
+                                "Delete this location and its member assignments?"
+                              )
+                            ) {
+                              deleteLocation.mutate({ id: location.id });
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {(!locations || locations.length === 0) && (
+                <TableRow>
+                  <TableCell
+                    colSpan={5}
+                    className="py-8 text-center text-muted-foreground"
+                  >
+                    No locations yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Assign member */}
+      <Dialog open={assignOpen} onOpenChange={setAssignOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign Member</DialogTitle>
+            <DialogDescription>
+              Once assigned, a member can only switch to their assigned
+              locations
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Member</Label>
+              <Select
+                value={assignMembershipId}
+                onValueChange={setAssignMembershipId}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members?.data.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.fullName} ({member.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Role at this location</Label>
+              <Select value={assignRoleId} onValueChange={setAssignRoleId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TENANT_ROLE}>Same as tenant role</SelectItem>
+                  {roles?.map((role) => (
+                    <SelectItem key={role.id} value={role.id}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {assignError && (
+              <p className="text-sm text-destructive">{assignError}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAssignOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                assign.mutate({
+                  membershipId: assignMembershipId,
+                  locationId: assignLocationId,
+                  roleId: assignRoleId === TENANT_ROLE ? null : assignRoleId,
+                })
+              }
+              disabled={!assignMembershipId || assign.isPending}
+            >
+              {assign.isPending ? "Assigning..." : "Assign"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
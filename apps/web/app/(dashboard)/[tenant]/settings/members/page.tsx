@@ -30,7 +30,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@sme/ui";
-import { Plus, UserMinus } from "lucide-react";
+import { Plus, UserMinus, Clock, X, LogOut, Send } from "lucide-react";
 import { trpc } from "@/trpc/client";
 
 export default function MembersPage() {
@@ -42,6 +42,9 @@ export default function MembersPage() {
   const [inviteRoleId, setInviteRoleId] = useState("");
   const [invitePin, setInvitePin] = useState("");
 
+  const { data: invitations, refetch: refetchInvitations } =
+    trpc.users.listInvitations.useQuery();
+
   const inviteUser = trpc.users.invite.useMutation({
     onSuccess: () => {
       setInviteOpen(false);
@@ -49,7 +52,7 @@ export default function MembersPage() {
       setInviteName("");
       setInviteRoleId("");
       setInvitePin("");
-      refetch();
+      refetchInvitations();
     },
   });
 
@@ -57,6 +60,12 @@ export default function MembersPage() {
     onSuccess: () => refetch(),
   });
 
+  const revokeSessions = trpc.users.revokeMemberSessions.useMutation();
+
+  const [grantsFor, setGrantsFor] = useState<{ id: string; name: string } | null>(
+    null
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -77,10 +86,15 @@ export default function MembersPage() {
             <DialogHeader>
               <DialogTitle>Invite Team Member</DialogTitle>
               <DialogDescription>
-                Add a new member to your organization
+                We&apos;ll email them an invitation — they join once they accept it
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
+              {inviteUser.error && (
+                <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+                  {inviteUser.error.message}
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="invite-name">Full Name</Label>
                 <Input
@@ -149,13 +163,25 @@ export default function MembersPage() {
                   !inviteEmail || !inviteName || !inviteRoleId || inviteUser.isPending
                 }
               >
-                {inviteUser.isPending ? "Inviting..." : "Invite"}
+                {inviteUser.isPending ? "Sending..." : "Send Invitation"}
               </Button>
             </DialogFooter>
           </DialogContent>
         </Dialog>
       </div>
 
+      {revokeSessions.error && (
+        <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+          {revokeSessions.error.message}
+        </div>
+      )}
+      {revokeSessions.data && (
+        <p className="text-sm text-muted-foreground">
+          Signed out of {revokeSessions.data.revoked} session
+          {revokeSessions.data.revoked === 1 ? "" : "s"}
+        </p>
+      )}
+
       <Card>
         <CardContent className="p-0">
           <Table>
@@ -165,7 +191,7 @@ export default function MembersPage() {
                 <TableHead>Email</TableHead>
                 <TableHead>Role</TableHead>
                 <TableHead>Status</TableHead>
-                <TableHead className="w-[100px]">Actions</TableHead>
+                <TableHead className="w-[140px]">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -186,19 +212,42 @@ export default function MembersPage() {
                     </Badge>
                   </TableCell>
                   <TableCell>
-                    {member.roleSlug !== "owner" && (
+                    <div className="flex gap-1">
                       <Button
                         variant="ghost"
                         size="icon"
+                        title="Temporary access"
                         onClick={() =>
-                          removeMember.mutate({
-                            membershipId: member.id,
-                          })
+                          setGrantsFor({ id: member.id, name: member.fullName })
                         }
                       >
-                        <UserMinus className="h-4 w-4" />
+                        <Clock className="h-4 w-4" />
                       </Button>
-                    )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Sign out of all devices"
+                        disabled={revokeSessions.isPending}
+                        onClick={() =>
+                          revokeSessions.mutate({ membershipId: member.id })
+                        }
+                      >
+                        <LogOut className="h-4 w-4" />
+                      </Button>
+                      {member.roleSlug !== "owner" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            removeMember.mutate({
+                              membershipId: member.id,
+                            })
+                          }
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
                   </TableCell>
                 </TableRow>
               ))}
@@ -213,6 +262,284 @@ export default function MembersPage() {
           </Table>
         </CardContent>
       </Card>
+
+      <InvitationsCard
+        invitations={invitations ?? []}
+        onChange={() => refetchInvitations()}
+      />
+
+      {grantsFor && (
+        <GrantsDialog
+          membershipId={grantsFor.id}
+          memberName={grantsFor.name}
+          onClose={() => setGrantsFor(null)}
+        />
+      )}
     </div>
   );
 }
+
+const invitationBadge: Record<
+  string,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "default",
+  accepted: "secondary",
+  revoked: "outline",
+  expired: "destructive",
+};
+
+/** Sent invitations — pending ones can be resent or revoked */
+function InvitationsCard({
+  invitations,
+  onChange,
+}: {
+  invitations: {
+    id: string;
+    email: string;
+    fullName: string;
+    roleName: string;
+    status: string;
+    invitedBy: string | null;
+    expiresAt: Date;
+  }[];
+  onChange: () => void;
+}) {
+  const resend = trpc.users.resendInvitation.useMutation({ onSuccess: onChange });
+  const revoke = trpc.users.revokeInvitation.useMutation({ onSuccess: onChange });
+  const error = resend.error ?? revoke.error;
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invitations</CardTitle>
+        <CardDescription>
+          Members join once they accept. Invitations expire after 7 days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {error && (
+          <div className="mx-6 mb-4 bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+            {error.message}
+          </div>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Invited By</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[100px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invitations.map((invitation) => (
+              <TableRow key={invitation.id}>
+                <TableCell className="font-medium">{invitation.fullName}</TableCell>
+                <TableCell>{invitation.email}</TableCell>
+                <TableCell>
+                  <Badge variant="secondary">{invitation.roleName}</Badge>
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {invitation.invitedBy ?? "—"}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={invitationBadge[invitation.status] ?? "outline"}
+                    title={
+                      invitation.status === "pending"
+                        ? `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`
+                        : undefined
+                    }
+                  >
+                    {invitation.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {(invitation.status === "pending" ||
+                    invitation.status === "expired") && (
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Resend invitation"
+                        disabled={resend.isPending}
+                        onClick={() =>
+                          resend.mutate({ invitationId: invitation.id })
+                        }
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                      {invitation.status === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Revoke invitation"
+                          disabled={revoke.isPending}
+                          onClick={() =>
+                            revoke.mutate({ invitationId: invitation.id })
+                          }
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Temporary grants/denies for one member, on top of their role */
+function GrantsDialog({
+  membershipId,
+  memberName,
+  onClose,
+}: {
+  membershipId: string;
+  memberName: string;
+  onClose: () => void;
+}) {
+  const { data: grants, refetch } = trpc.users.grants.useQuery({ membershipId });
+  const { data: catalog } = trpc.roles.permissions.useQuery();
+  const [permission, setPermission] = useState("");
+  const [deny, setDeny] = useState(false);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const grant = trpc.users.grantPermission.useMutation({
+    onSuccess: () => {
+      setPermission("");
+      setDeny(false);
+      setExpiresOn("");
+      setReason("");
+      setError(null);
+      refetch();
+    },
+    onError: (err) => setError(err.message),
+  });
+  const revoke = trpc.users.revokeGrant.useMutation({
+    onSuccess: () => refetch(),
+  });
+
+  const now = new Date();
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Temporary Access — {memberName}</DialogTitle>
+          <DialogDescription>
+            Extra permissions or denies on top of the member&apos;s role, until
+            they expire
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {grants?.map((g) => {
+            const active = new Date(g.expiresAt) > now;
+            return (
+              <div
+                key={g.id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <div className={active ? "" : "text-muted-foreground line-through"}>
+                  <span className="font-mono">{g.permission}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    until {new Date(g.expiresAt).toLocaleString()}
+                    {g.reason && ` — ${g.reason}`}
+                  </span>
+                </div>
+                {active && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Revoke"
+                    onClick={() => revoke.mutate({ grantId: g.id })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+          {grants?.length === 0 && (
+            <p className="text-sm text-muted-foreground">No temporary grants</p>
+          )}
+        </div>
+        <div className="space-y-4 border-t pt-4">
+          <div className="space-y-2">
+            <Label>Permission</Label>
+            <Select value={permission} onValueChange={setPermission}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a permission" />
+              </SelectTrigger>
+              <SelectContent>
+                {catalog?.map((perm) => (
+                  <SelectItem key={perm.key} value={perm.key}>
+                    {perm.key} — {perm.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={deny}
+                onChange={(e) => setDeny(e.target.checked)}
+              />
+              Deny instead of grant
+            </label>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="grant-expires">Expires on</Label>
+            <Input
+              id="grant-expires"
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="grant-reason">Reason</Label>
+            <Input
+              id="grant-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Covering inventory for two weeks"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            onClick={() =>
+              grant.mutate({
+                membershipId,
+                permission: deny ? `!${permission}` : permission,
+                // End of the chosen day, local time
+                expiresAt: new Date(`${expiresOn}T23:59:59`),
+                reason: reason || undefined,
+              })
+            }
+            disabled={!permission || !expiresOn || grant.isPending}
+          >
+            {grant.isPending ? "Saving..." : deny ? "Add Deny" : "Add Grant"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
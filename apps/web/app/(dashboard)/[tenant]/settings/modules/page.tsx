@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import {
   Card,
   CardContent,
@@ -7,58 +8,305 @@ import {
   CardHeader,
   CardTitle,
   Badge,
+  Button,
+  Input,
+  Label,
+  Switch,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
 } from "@sme/ui";
 import { Package } from "lucide-react";
 import { trpc } from "@/trpc/client";
 
+type ConfigField = {
+  key: string;
+  label: string;
+  type: "string" | "number" | "boolean" | "enum";
+  options?: string[];
+  min?: number;
+  max?: number;
+  defaultValue?: unknown;
+};
+
 /**
- * Modules page — read-only view of enabled modules.
- * Module enable/disable is now a platform admin operation only.
- * Tenants can view what modules they have access to, but cannot toggle them.
+ * Modules page — enabled modules and their per-tenant settings.
+ * Owners can enable/disable modules included in the tenant's plan; other
+ * modules are enabled by the platform administrator.
+ * Owners/admins can edit module settings; the form is generated from each
+ * module's config schema.
  */
 export default function ModulesPage() {
   const { data: enabled } = trpc.modules.enabled.useQuery();
+  const { data: entitlements } = trpc.modules.entitlements.useQuery();
+
+  const available =
+    entitlements?.modules.filter((m) => !m.enabled) ?? [];
 
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold tracking-tight">Modules</h1>
         <p className="text-muted-foreground">
-          Modules enabled for your organization. Contact the platform
-          administrator to enable or disable modules.
+          {entitlements?.plan
+            ? `Your organization is on the ${entitlements.plan.name} plan. Modules outside your plan are enabled by the platform administrator.`
+            : "Modules enabled for your organization. Contact the platform administrator to enable or disable modules."}
         </p>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2">
-        {enabled?.map((mod) => (
-          <Card key={mod.moduleId}>
-            <CardHeader className="flex flex-row items-start gap-3 space-y-0">
-              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10 mt-0.5">
-                <Package className="h-5 w-5 text-primary" />
-              </div>
-              <div>
-                <CardTitle className="text-base">{mod.name}</CardTitle>
-                <CardDescription className="mt-1">
-                  Version {mod.version}
-                </CardDescription>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <Badge variant="default" className="text-xs">
-                Enabled
-              </Badge>
-            </CardContent>
-          </Card>
-        ))}
+        {enabled?.map((mod) => {
+          const entitlement = entitlements?.modules.find(
+            (m) => m.id === mod.moduleId
+          );
+          return (
+            <Card key={mod.moduleId}>
+              <CardHeader className="flex flex-row items-start gap-3 space-y-0">
+                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10 mt-0.5">
+                  <Package className="h-5 w-5 text-primary" />
+                </div>
+                <div className="flex-1">
+                  <CardTitle className="text-base">{mod.name}</CardTitle>
+                  <CardDescription className="mt-1">
+                    Version {mod.version}
+                  </CardDescription>
+                </div>
+                {entitlements?.canManage && entitlement?.entitled && (
+                  <ModuleToggle moduleId={mod.moduleId} enabled />
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Badge variant="default" className="text-xs">
+                  Enabled
+                </Badge>
+                {mod.configFields.length > 0 && (
+                  <ModuleConfigForm
+                    moduleId={mod.moduleId}
+                    fields={mod.configFields}
+                    values={mod.config}
+                    readOnly={!mod.canConfigure}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
         {(!enabled || enabled.length === 0) && (
           <Card className="col-span-full">
             <CardContent className="py-8 text-center text-muted-foreground">
               No modules are currently enabled for your organization.
-              Contact your platform administrator.
+              {entitlements?.canManage && available.some((m) => m.entitled)
+                ? " Enable one from your plan below."
+                : " Contact your platform administrator."}
             </CardContent>
           </Card>
         )}
       </div>
+
+      {available.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-xl font-semibold tracking-tight">
+            Available Modules
+          </h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            {available.map((mod) => (
+              <Card key={mod.id}>
+                <CardHeader className="flex flex-row items-start gap-3 space-y-0">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-muted mt-0.5">
+                    <Package className="h-5 w-5 text-muted-foreground" />
+                  </div>
+                  <div className="flex-1">
+                    <CardTitle className="text-base">{mod.name}</CardTitle>
+                    <CardDescription className="mt-1">
+                      {mod.description ?? `Version ${mod.version}`}
+                    </CardDescription>
+                  </div>
+                  {entitlements?.canManage && mod.entitled && (
+                    <ModuleToggle moduleId={mod.id} enabled={false} />
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <Badge
+                    variant={mod.entitled ? "secondary" : "outline"}
+                    className="text-xs"
+                  >
+                    {mod.entitled ? "Included in your plan" : "Not in your plan"}
+                  </Badge>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Module Toggle — owner self-service for plan modules
+// ============================================
+function ModuleToggle({
+  moduleId,
+  enabled,
+}: {
+  moduleId: string;
+  enabled: boolean;
+}) {
+  const utils = trpc.useUtils();
+  const [error, setError] = useState<string | null>(null);
+
+  const onSuccess = () => {
+    setError(null);
+    utils.modules.enabled.invalidate();
+    utils.modules.entitlements.invalidate();
+  };
+  const selfEnable = trpc.modules.selfEnable.useMutation({
+    onSuccess,
+    onError: (err) => setError(err.message),
+  });
+  const selfDisable = trpc.modules.selfDisable.useMutation({
+    onSuccess,
+    onError: (err) => setError(err.message),
+  });
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Switch
+        checked={enabled}
+        disabled={selfEnable.isPending || selfDisable.isPending}
+        onCheckedChange={(checked) => {
+          if (checked) {
+            selfEnable.mutate({ moduleId });
+          } else if (
+            window.confirm(
+              "Disable this module? Its data is kept and returns if you enable it again."
+            )
+          ) {
+            selfDisable.mutate({ moduleId });
+          }
+        }}
+      />
+      {error && (
+        <p className="max-w-[200px] text-right text-xs text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Module Config Form
+// ============================================
+function ModuleConfigForm({
+  moduleId,
+  fields,
+  values,
+  readOnly,
+}: {
+  moduleId: string;
+  fields: ConfigField[];
+  values: Record<string, unknown>;
+  readOnly: boolean;
+}) {
+  const utils = trpc.useUtils();
+  const [draft, setDraft] = useState<Record<string, unknown>>(values);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateConfig = trpc.modules.updateConfig.useMutation({
+    onSuccess: () => {
+      setError(null);
+      utils.modules.enabled.invalidate();
+      utils.modules.config.invalidate({ moduleId });
+    },
+    onError: (err) => setError(err.message),
+  });
+
+  const setField = (key: string, value: unknown) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const isDirty = fields.some((f) => draft[f.key] !== values[f.key]);
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      {fields.map((field) => (
+        <div key={field.key} className="space-y-1">
+          {field.type === "boolean" ? (
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`${moduleId}-${field.key}`}>{field.label}</Label>
+              <Switch
+                id={`${moduleId}-${field.key}`}
+                checked={Boolean(draft[field.key])}
+                onCheckedChange={(checked) => setField(field.key, checked)}
+                disabled={readOnly}
+              />
+            </div>
+          ) : (
+            <>
+              <Label htmlFor={`${moduleId}-${field.key}`}>{field.label}</Label>
+              {field.type === "enum" ? (
+                <Select
+                  value={String(draft[field.key] ?? "")}
+                  onValueChange={(v) => setField(field.key, v)}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger id={`${moduleId}-${field.key}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {field.options?.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={`${moduleId}-${field.key}`}
+                  type={field.type === "number" ? "number" : "text"}
+                  min={field.min}
+                  max={field.max}
+                  step={field.type === "number" ? "any" : undefined}
+                  value={String(draft[field.key] ?? "")}
+                  placeholder={
+                    field.defaultValue !== undefined
+                      ? String(field.defaultValue)
+                      : undefined
+                  }
+                  onChange={(e) =>
+                    setField(
+                      field.key,
+                      field.type === "number"
+                        ? e.target.value === ""
+                          ? undefined
+                          : Number(e.target.value)
+                        : e.target.value
+                    )
+                  }
+                  disabled={readOnly}
+                />
+              )}
+            </>
+          )}
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {!readOnly && (
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => updateConfig.mutate({ moduleId, config: draft })}
+            disabled={!isDirty || updateConfig.isPending}
+          >
+            {updateConfig.isPending ? "Saving..." : "Save Settings"}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
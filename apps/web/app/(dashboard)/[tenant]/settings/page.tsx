@@ -11,28 +11,49 @@ import {
   Button,
   Input,
   Label,
+  Switch,
+  Badge,
 } from "@sme/ui";
+import { Trash2 } from "lucide-react";
+import { MIN_AUDIT_RETENTION_DAYS, MAX_AUDIT_RETENTION_DAYS } from "@sme/shared";
 import { trpc } from "@/trpc/client";
 
 export default function SettingsPage() {
   const { data: tenant, refetch } = trpc.tenants.current.useQuery();
+  const { data: roles } = trpc.roles.list.useQuery();
   const [name, setName] = useState("");
+  const [retentionDays, setRetentionDays] = useState("");
+  const [mfaRoles, setMfaRoles] = useState<string[]>([]);
+  const [ssoRoleId, setSsoRoleId] = useState("");
+  const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
 
   const updateTenant = trpc.tenants.update.useMutation({
     onSuccess: () => {
       refetch();
       setSaving(false);
+      setError(null);
+    },
+    onError: (err) => {
+      setSaving(false);
+      setError(err.message);
     },
-    onError: () => setSaving(false),
   });
 
   // FIX: Use useEffect instead of render-time state update (H9)
   useEffect(() => {
     if (tenant) {
       setName(tenant.name);
+      setRetentionDays(tenant.settings?.auditRetentionDays?.toString() ?? "");
+      setMfaRoles(tenant.settings?.mfaRequiredRoles ?? []);
+      setSsoRoleId(tenant.settings?.ssoAutoProvisionRoleId ?? "");
     }
-  }, [tenant?.name]);
+  }, [
+    tenant?.name,
+    tenant?.settings?.auditRetentionDays,
+    tenant?.settings?.mfaRequiredRoles,
+    tenant?.settings?.ssoAutoProvisionRoleId,
+  ]);
 
   return (
     <div className="space-y-6">
@@ -66,6 +87,71 @@ export default function SettingsPage() {
               URL slug cannot be changed after creation
             </p>
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-retention">Audit Log Retention (days)</Label>
+            <Input
+              id="audit-retention"
+              type="number"
+              min={MIN_AUDIT_RETENTION_DAYS}
+              max={MAX_AUDIT_RETENTION_DAYS}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+              placeholder="Keep forever"
+            />
+            <p className="text-xs text-muted-foreground">
+              Older entries are moved to monthly archives, which stay
+              verifiable and can be restored by the platform operator
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Require Two-Factor Authentication</Label>
+            <div className="space-y-2 rounded-md border p-3">
+              {roles?.map((role) => (
+                <div key={role.id} className="flex items-center justify-between">
+                  <span className="text-sm">{role.name}</span>
+                  <Switch
+                    checked={mfaRoles.includes(role.slug)}
+                    onCheckedChange={(checked) =>
+                      setMfaRoles((current) =>
+                        checked
+                          ? [...current, role.slug]
+                          : current.filter((slug) => slug !== role.slug)
+                      )
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Members with these roles must sign in with an authenticator code
+              (PIN sign-in no longer works for them). Members without one set
+              it up at their next visit.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sso-role">Single Sign-On Auto-Provisioning</Label>
+            <select
+              id="sso-role"
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={ssoRoleId}
+              onChange={(e) => setSsoRoleId(e.target.value)}
+            >
+              <option value="">Don&apos;t add members automatically</option>
+              {roles
+                ?.filter((role) => role.slug !== "owner")
+                .map((role) => (
+                  <option key={role.id} value={role.id}>
+                    Add as {role.name}
+                  </option>
+                ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              People who sign in with a connected provider using a verified
+              email at one of your verified domains join your organization
+              with this role
+            </p>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
         </CardContent>
         <CardFooter>
           <Button
@@ -73,7 +159,15 @@ export default function SettingsPage() {
               if (!tenant) return;
               setSaving(true);
               // SECURITY FIX: Don't pass tenant ID — server uses session's tenant ID
-              updateTenant.mutate({ name });
+              updateTenant.mutate({
+                name,
+                settings: {
+                  ...tenant.settings,
+                  auditRetentionDays: retentionDays ? Number(retentionDays) : null,
+                  mfaRequiredRoles: mfaRoles,
+                  ssoAutoProvisionRoleId: ssoRoleId || null,
+                },
+              });
             }}
             disabled={saving || !tenant}
           >
@@ -81,6 +175,95 @@ export default function SettingsPage() {
           </Button>
         </CardFooter>
       </Card>
+
+      <SsoDomainsCard />
     </div>
   );
 }
+
+function SsoDomainsCard() {
+  const utils = trpc.useUtils();
+  const { data: domains } = trpc.tenants.ssoDomains.list.useQuery();
+  const [domain, setDomain] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const onSuccess = () => {
+    setError(null);
+    utils.tenants.ssoDomains.list.invalidate();
+  };
+  const onError = (err: { message: string }) => setError(err.message);
+  const add = trpc.tenants.ssoDomains.add.useMutation({
+    onSuccess: () => {
+      setDomain("");
+      onSuccess();
+    },
+    onError,
+  });
+  const verify = trpc.tenants.ssoDomains.verify.useMutation({ onSuccess, onError });
+  const remove = trpc.tenants.ssoDomains.remove.useMutation({ onSuccess, onError });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Single Sign-On Domains</CardTitle>
+        <CardDescription>
+          Email domains whose users join automatically. Prove you own each
+          domain by adding the TXT record shown to its DNS, then verify it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {domains?.map((d) => (
+          <div key={d.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{d.domain}</span>
+                <Badge variant={d.verifiedAt ? "default" : "secondary"}>
+                  {d.verifiedAt ? "Verified" : "Unverified"}
+                </Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                {!d.verifiedAt && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => verify.mutate({ domainId: d.id })}
+                    disabled={verify.isPending}
+                  >
+                    Verify
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => remove.mutate({ domainId: d.id })}
+                  disabled={remove.isPending}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+            {!d.verifiedAt && (
+              <p className="break-all font-mono text-xs text-muted-foreground">
+                {d.record.name} TXT &quot;{d.record.value}&quot;
+              </p>
+            )}
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Input
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            placeholder="example.com"
+          />
+          <Button
+            onClick={() => add.mutate({ domain })}
+            disabled={add.isPending || !domain.trim()}
+          >
+            Add Domain
+          </Button>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
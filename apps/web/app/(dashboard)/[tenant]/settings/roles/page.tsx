@@ -24,31 +24,70 @@ import {
   DialogHeader,
   DialogTitle,
   DialogTrigger,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
 } from "@sme/ui";
-import { Plus, Trash2, Edit } from "lucide-react";
+import { Plus, Trash2, Edit, Search } from "lucide-react";
 import { trpc } from "@/trpc/client";
 
 export default function RolesPage() {
   const { data: roles, refetch } = trpc.roles.list.useQuery();
+  const { data: catalog } = trpc.roles.permissions.useQuery();
+  const { data: members } = trpc.users.list.useQuery({ limit: 100 });
   const [createOpen, setCreateOpen] = useState(false);
   const [roleName, setRoleName] = useState("");
   const [roleSlug, setRoleSlug] = useState("");
-  const [rolePerms, setRolePerms] = useState("");
+  const [rolePerms, setRolePerms] = useState<string[]>([]);
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const [explainMember, setExplainMember] = useState("");
+  const [explainPerm, setExplainPerm] = useState("");
+  const explain = trpc.roles.explain.useQuery(
+    { membershipId: explainMember, permission: explainPerm },
+    { enabled: !!explainMember && !!explainPerm }
+  );
 
   const createRole = trpc.roles.create.useMutation({
     onSuccess: () => {
       setCreateOpen(false);
       setRoleName("");
       setRoleSlug("");
-      setRolePerms("");
+      setRolePerms([]);
+      setCreateError(null);
       refetch();
     },
+    onError: (err) => setCreateError(err.message),
   });
 
+  // Catalog grouped by source (Core / module name), then by group
+  const grouped = new Map<string, Map<string, NonNullable<typeof catalog>>>();
+  for (const perm of catalog ?? []) {
+    const source = grouped.get(perm.source) ?? new Map();
+    source.set(perm.group, [...(source.get(perm.group) ?? []), perm]);
+    grouped.set(perm.source, source);
+  }
+
+  const togglePerm = (key: string, checked: boolean) =>
+    setRolePerms((prev) =>
+      checked ? [...prev, key] : prev.filter((p) => p !== key)
+    );
+
   const deleteRole = trpc.roles.delete.useMutation({
     onSuccess: () => refetch(),
   });
 
+  const { data: templateUpdates, refetch: refetchUpdates } =
+    trpc.roles.templateUpdates.useQuery();
+  const resolveUpdate = trpc.roles.resolveTemplateUpdate.useMutation({
+    onSuccess: () => {
+      refetchUpdates();
+      refetch();
+    },
+  });
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -65,7 +104,7 @@ export default function RolesPage() {
               Create Role
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Create Custom Role</DialogTitle>
               <DialogDescription>
@@ -96,34 +135,87 @@ export default function RolesPage() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="role-perms">Permissions</Label>
-                <Input
-                  id="role-perms"
-                  value={rolePerms}
-                  onChange={(e) => setRolePerms(e.target.value)}
-                  placeholder="core:dashboard:read, notes:*"
-                />
+                <Label>Permissions</Label>
                 <p className="text-xs text-muted-foreground">
-                  Comma-separated. Format: module:resource:action
+                  &quot;All&quot; grants the whole module; a deny overrides any
+                  grant, e.g. all of Catalog except deleting products
                 </p>
+                {[...grouped.entries()].map(([source, groups]) => {
+                  const first = [...groups.values()][0]![0]!;
+                  const wildcard = `${first.key.split(":")[0]}:*`;
+                  return (
+                    <div key={source} className="space-y-2 rounded-md border p-3">
+                      <label className="flex items-center justify-between text-sm font-semibold">
+                        {source}
+                        <span className="flex items-center gap-2 text-xs font-normal">
+                          <input
+                            type="checkbox"
+                            checked={rolePerms.includes(wildcard)}
+                            onChange={(e) => togglePerm(wildcard, e.target.checked)}
+                          />
+                          All
+                        </span>
+                      </label>
+                      {[...groups.entries()].map(([group, perms]) => (
+                        <div key={group} className="space-y-1">
+                          {groups.size > 1 && (
+                            <div className="text-xs font-medium text-muted-foreground">
+                              {group}
+                            </div>
+                          )}
+                          {perms.map((perm) => (
+                            <div
+                              key={perm.key}
+                              className="flex items-start gap-2 text-sm"
+                            >
+                              <input
+                                type="checkbox"
+                                className="mt-1"
+                                checked={rolePerms.includes(perm.key)}
+                                onChange={(e) =>
+                                  togglePerm(perm.key, e.target.checked)
+                                }
+                              />
+                              <span className="flex-1">
+                                {perm.description}
+                                <span className="ml-2 font-mono text-xs text-muted-foreground">
+                                  {perm.key}
+                                </span>
+                              </span>
+                              <label className="flex items-center gap-1 text-xs text-destructive">
+                                <input
+                                  type="checkbox"
+                                  checked={rolePerms.includes(`!${perm.key}`)}
+                                  onChange={(e) =>
+                                    togglePerm(`!${perm.key}`, e.target.checked)
+                                  }
+                                />
+                                Deny
+                              </label>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
               </div>
+              {createError && (
+                <p className="text-sm text-destructive">{createError}</p>
+              )}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setCreateOpen(false)}>
                 Cancel
               </Button>
               <Button
-                onClick={() => {
-                  const perms = rolePerms
-                    .split(",")
-                    .map((p) => p.trim())
-                    .filter(Boolean);
+                onClick={() =>
                   createRole.mutate({
                     name: roleName,
                     slug: roleSlug,
-                    permissions: perms,
-                  });
-                }}
+                    permissions: rolePerms,
+                  })
+                }
                 disabled={!roleName || !roleSlug || createRole.isPending}
               >
                 {createRole.isPending ? "Creating..." : "Create Role"}
@@ -133,6 +225,71 @@ export default function RolesPage() {
         </Dialog>
       </div>
 
+      {/* Opt-in platform template updates */}
+      {templateUpdates && templateUpdates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Role Updates Available</CardTitle>
+            <CardDescription>
+              The platform updated templates some of your roles were created
+              from. Accept to apply the changes, or dismiss to keep your role as
+              is.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {templateUpdates.map((update) => (
+              <div
+                key={update.roleId}
+                className="flex items-start justify-between gap-4 rounded-md border p-3"
+              >
+                <div className="space-y-1">
+                  <div className="font-medium">
+                    {update.roleName}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      v{update.fromVersion ?? 0} → v{update.toVersion}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 font-mono text-xs">
+                    {update.added.map((p) => (
+                      <span key={`+${p}`} className="text-green-700">+{p}</span>
+                    ))}
+                    {update.removed.map((p) => (
+                      <span key={`-${p}`} className="text-destructive">-{p}</span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolveUpdate.isPending}
+                    onClick={() =>
+                      resolveUpdate.mutate({ roleId: update.roleId, accept: false })
+                    }
+                  >
+                    Dismiss
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={resolveUpdate.isPending}
+                    onClick={() =>
+                      resolveUpdate.mutate({ roleId: update.roleId, accept: true })
+                    }
+                  >
+                    Accept
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {resolveUpdate.error && (
+              <p className="text-sm text-destructive">
+                {resolveUpdate.error.message}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardContent className="p-0">
           <Table>
@@ -154,7 +311,7 @@ export default function RolesPage() {
                   </TableCell>
                   <TableCell>
                     <Badge variant={role.isSystem ? "default" : "secondary"}>
-                      {role.isSystem ? "System" : "Custom"}
+                      {role.isSystem ? "System" : role.templateId ? "Template" : "Custom"}
                     </Badge>
                   </TableCell>
                   <TableCell>
@@ -162,7 +319,7 @@ export default function RolesPage() {
                       {(role.permissions ?? []).slice(0, 3).map((perm) => (
                         <Badge
                           key={perm}
-                          variant="outline"
+                          variant={perm.startsWith("!") ? "destructive" : "outline"}
                           className="text-xs"
                         >
                           {perm}
@@ -192,6 +349,60 @@ export default function RolesPage() {
           </Table>
         </CardContent>
       </Card>
+
+      {/* Effective-permission explainer */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Check Access</CardTitle>
+          <CardDescription>
+            See whether a member has a permission and which grant decides it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <Select value={explainMember} onValueChange={setExplainMember}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a member" />
+              </SelectTrigger>
+              <SelectContent>
+                {members?.data.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.fullName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={explainPerm} onValueChange={setExplainPerm}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a permission" />
+              </SelectTrigger>
+              <SelectContent>
+                {catalog?.map((perm) => (
+                  <SelectItem key={perm.key} value={perm.key}>
+                    {perm.key}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {explain.data && (
+            <div className="flex items-start gap-3 rounded-md border p-3">
+              <Search className="mt-0.5 h-4 w-4 text-muted-foreground" />
+              <div className="space-y-1">
+                <Badge variant={explain.data.allowed ? "default" : "destructive"}>
+                  {explain.data.allowed ? "Allowed" : "Denied"}
+                </Badge>
+                <p className="text-sm">{explain.data.reason}</p>
+                {explain.data.description && (
+                  <p className="text-xs text-muted-foreground">
+                    {explain.data.permission}: {explain.data.description}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
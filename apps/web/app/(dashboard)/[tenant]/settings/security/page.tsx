@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Input,
+  Label,
+  Badge,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@sme/ui";
+import { Monitor, Smartphone, Tablet, LogOut } from "lucide-react";
+import { trpc } from "@/trpc/client";
+import {
+  TwoFactorSetup,
+  RecoveryCodes,
+} from "@/components/auth/two-factor-setup";
+
+const deviceIcon = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+};
+
+/**
+ * Security page — the signed-in user's email verification, connected
+ * sign-in providers, two-factor authentication and their sessions on every
+ * device. Available to all members; it only touches
+ * their own account.
+ */
+export default function SecurityPage() {
+  const { data: sessions, refetch } = trpc.auth.listSessions.useQuery();
+
+  const revokeSession = trpc.auth.revokeSession.useMutation({
+    onSuccess: () => refetch(),
+  });
+  const revokeOthers = trpc.auth.revokeOtherSessions.useMutation({
+    onSuccess: () => refetch(),
+  });
+
+  const otherCount = sessions?.filter((s) => !s.current).length ?? 0;
+  const error = revokeSession.error ?? revokeOthers.error;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Security</h1>
+        <p className="text-muted-foreground">
+          Devices signed in to your account
+        </p>
+      </div>
+
+      <EmailCard />
+
+      <ConnectedAccountsCard />
+
+      <TwoFactorCard />
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+          {error.message}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Active Sessions</CardTitle>
+            <CardDescription>
+              Sign out any device you don&apos;t recognise
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            disabled={otherCount === 0 || revokeOthers.isPending}
+            onClick={() => revokeOthers.mutate()}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            {revokeOthers.isPending ? "Signing out..." : "Sign out other sessions"}
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>Organization</TableHead>
+                <TableHead>Signed In</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions?.map((session) => {
+                const Icon = deviceIcon[session.device];
+                return (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Icon className="h-4 w-4 text-muted-foreground" />
+                        <div>
+                          <div className="font-medium">
+                            {session.browser ?? "Unknown browser"}
+                            {session.os && ` on ${session.os}`}
+                          </div>
+                          <div className="flex gap-1 mt-0.5">
+                            {session.current && <Badge>This device</Badge>}
+                            {session.authMethod === "pin" && (
+                              <Badge variant="secondary">PIN</Badge>
+                            )}
+                            {session.authMethod === "oauth" && (
+                              <Badge variant="secondary">SSO</Badge>
+                            )}
+                            {session.impersonated && (
+                              <Badge variant="outline">Platform support</Badge>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {session.ipAddress ?? "—"}
+                    </TableCell>
+                    <TableCell>{session.tenantName ?? "—"}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(session.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(session.expiresAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      {!session.current && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={revokeSession.isPending}
+                          onClick={() =>
+                            revokeSession.mutate({ sessionId: session.id })
+                          }
+                        >
+                          Sign out
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function EmailCard() {
+  const { data: me } = trpc.auth.me.useQuery();
+  const resend = trpc.auth.resendVerification.useMutation();
+
+  if (!me) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Email Address
+          {me.user.emailVerified ? (
+            <Badge>Verified</Badge>
+          ) : (
+            <Badge variant="secondary">Not verified</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Password reset links and account notices go to {me.user.email}
+        </CardDescription>
+      </CardHeader>
+      {!me.user.emailVerified && (
+        <CardContent className="space-y-3">
+          {resend.error && (
+            <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+              {resend.error.message}
+            </div>
+          )}
+          {resend.isSuccess ? (
+            <p className="text-sm text-muted-foreground">
+              Verification email sent — check your inbox.
+            </p>
+          ) : (
+            <Button
+              variant="outline"
+              disabled={resend.isPending}
+              onClick={() => resend.mutate()}
+            >
+              {resend.isPending ? "Sending..." : "Send verification email"}
+            </Button>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+/** OpenID Connect identities — only shown when providers are configured */
+function ConnectedAccountsCard() {
+  const pathname = usePathname();
+  const { data: providers } = trpc.auth.oidcProviders.useQuery();
+  const { data: identities, refetch } = trpc.auth.identities.useQuery();
+  const unlink = trpc.auth.unlinkIdentity.useMutation({
+    onSuccess: () => refetch(),
+  });
+  // Connecting is a redirect through the provider — it returns with
+  // ?linked= or ?error=
+  const [notice, setNotice] = useState<{ error: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const error = params.get("error");
+    const linked = params.get("linked");
+    if (error) setNotice({ error: true, message: error });
+    else if (linked) setNotice({ error: false, message: "Account connected." });
+  }, []);
+
+  if (!providers || providers.length === 0) return null;
+
+  const connected = new Set(identities?.map((i) => i.provider));
+  const message = unlink.error
+    ? { error: true, message: unlink.error.message }
+    : notice;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connected Accounts</CardTitle>
+        <CardDescription>
+          Sign in with another provider instead of your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {message && (
+          <div
+            className={
+              message.error
+                ? "bg-destructive/10 text-destructive text-sm p-3 rounded-md"
+                : "bg-muted text-sm p-3 rounded-md"
+            }
+          >
+            {message.message}
+          </div>
+        )}
+        {identities?.map((identity) => (
+          <div key={identity.id} className="flex items-center justify-between">
+            <div>
+              <div className="font-medium">{identity.providerName}</div>
+              <div className="text-sm text-muted-foreground">
+                {identity.email ?? "No email shared"}
+                {identity.lastLoginAt &&
+                  ` · last used ${new Date(identity.lastLoginAt).toLocaleDateString()}`}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={unlink.isPending}
+              onClick={() => unlink.mutate({ identityId: identity.id })}
+            >
+              Disconnect
+            </Button>
+          </div>
+        ))}
+        <div className="flex flex-wrap gap-2">
+          {providers
+            .filter((provider) => !connected.has(provider.id))
+            .map((provider) => (
+              <Button key={provider.id} asChild variant="outline">
+                <a
+                  href={`/api/auth/oidc/${provider.id}?link=1&returnTo=${encodeURIComponent(pathname)}`}
+                >
+                  Connect {provider.name}
+                </a>
+              </Button>
+            ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TwoFactorCard() {
+  const { data: status, refetch } = trpc.auth.mfa.status.useQuery();
+  const [mode, setMode] = useState<"idle" | "regenerate" | "disable">("idle");
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const reset = () => {
+    setMode("idle");
+    setCode("");
+    setPassword("");
+    refetch();
+  };
+
+  const regenerate = trpc.auth.mfa.regenerateRecoveryCodes.useMutation({
+    onSuccess: (data) => {
+      setNewCodes(data.recoveryCodes);
+      reset();
+    },
+  });
+  const disable = trpc.auth.mfa.disable.useMutation({ onSuccess: reset });
+  const error = regenerate.error ?? disable.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status?.enabled && <Badge>On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          A code from your phone on top of your password when you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+            {error.message}
+          </div>
+        )}
+        {!status ? null : newCodes ? (
+          <RecoveryCodes codes={newCodes} onDone={() => setNewCodes(null)} />
+        ) : !status.enabled ? (
+          <TwoFactorSetup onDone={() => refetch()} />
+        ) : mode === "idle" ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} recovery code
+              {status.recoveryCodesRemaining === 1 ? "" : "s"} left
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setMode("regenerate")}>
+                New recovery codes
+              </Button>
+              <Button variant="outline" onClick={() => setMode("disable")}>
+                Turn off
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form
+            className="space-y-4 max-w-sm"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (mode === "regenerate") {
+                regenerate.mutate({ code });
+              } else {
+                disable.mutate({ password, code });
+              }
+            }}
+          >
+            {mode === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="mfa-password">Password</Label>
+                <Input
+                  id="mfa-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="mfa-code">Verification code</Label>
+              <Input
+                id="mfa-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                autoComplete="one-time-code"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                variant={mode === "disable" ? "destructive" : "default"}
+                disabled={
+                  !code ||
+                  (mode === "disable" && !password) ||
+                  regenerate.isPending ||
+                  disable.isPending
+                }
+              >
+                {mode === "disable" ? "Turn off" : "Generate codes"}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setMode("idle")}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,431 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Input,
+  Label,
+  Badge,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@sme/ui";
+import { Plus, Trash2, Send, KeyRound, RotateCcw } from "lucide-react";
+import { trpc } from "@/trpc/client";
+
+type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+const statusVariant: Record<string, "default" | "secondary" | "destructive"> = {
+  succeeded: "default",
+  pending: "secondary",
+  failed: "destructive",
+};
+
+/**
+ * Webhooks page — outbound endpoints for tenant integrations.
+ * Events use the permission wildcard grammar (e.g. catalog:product:*).
+ */
+export default function WebhooksPage() {
+  const utils = trpc.useUtils();
+  const { data: endpoints } = trpc.webhooks.list.useQuery();
+  const { data: eventTypes } = trpc.webhooks.eventTypes.useQuery();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState("");
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatus | "all">("all");
+  const { data: deliveries } = trpc.webhooks.deliveries.useQuery({
+    limit: 50,
+    status: statusFilter === "all" ? undefined : statusFilter,
+  });
+
+  const refresh = () => {
+    utils.webhooks.list.invalidate();
+    utils.webhooks.deliveries.invalidate();
+  };
+
+  const createEndpoint = trpc.webhooks.create.useMutation({
+    onSuccess: (endpoint) => {
+      setCreateOpen(false);
+      setUrl("");
+      setDescription("");
+      setEvents("");
+      setCreateError(null);
+      setRevealedSecret(endpoint.secret);
+      refresh();
+    },
+    onError: (err) => setCreateError(err.message),
+  });
+  const updateEndpoint = trpc.webhooks.update.useMutation({ onSuccess: refresh });
+  const deleteEndpoint = trpc.webhooks.delete.useMutation({ onSuccess: refresh });
+  const rotateSecret = trpc.webhooks.rotateSecret.useMutation({
+    onSuccess: (result) => setRevealedSecret(result.secret),
+  });
+  const ping = trpc.webhooks.ping.useMutation({ onSuccess: refresh });
+  const replay = trpc.webhooks.replay.useMutation({ onSuccess: refresh });
+
+  const endpointUrl = (id: string) =>
+    endpoints?.find((e) => e.id === id)?.url ?? "Deleted endpoint";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Webhooks</h1>
+          <p className="text-muted-foreground">
+            Send signed HTTP notifications to your systems when data changes
+          </p>
+        </div>
+        <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Endpoint
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Webhook Endpoint</DialogTitle>
+              <DialogDescription>
+                We&apos;ll POST a JSON payload to this URL for each matching event
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">URL</Label>
+                <Input
+                  id="webhook-url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/webhooks/sme"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-description">Description</Label>
+                <Input
+                  id="webhook-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="e.g., Storefront sync"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-events">Events</Label>
+                <Input
+                  id="webhook-events"
+                  value={events}
+                  onChange={(e) => setEvents(e.target.value)}
+                  placeholder="catalog:product:*, costing:price:*"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Comma-separated. Format: module:resource:action (wildcards allowed)
+                </p>
+                {eventTypes && eventTypes.length > 0 && (
+                  <div className="flex max-h-32 flex-wrap gap-1 overflow-y-auto">
+                    {eventTypes.map((e) => (
+                      <Badge
+                        key={e.type}
+                        variant="outline"
+                        className="cursor-pointer text-xs"
+                        onClick={() =>
+                          setEvents((prev) =>
+                            prev.trim() ? `${prev.trim()}, ${e.type}` : e.type
+                          )
+                        }
+                      >
+                        {e.type}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {createError && (
+                <p className="text-sm text-destructive">{createError}</p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() =>
+                  createEndpoint.mutate({
+                    url,
+                    description: description || undefined,
+                    events: events
+                      .split(",")
+                      .map((e) => e.trim())
+                      .filter(Boolean),
+                  })
+                }
+                disabled={!url || !events.trim() || createEndpoint.isPending}
+              >
+                {createEndpoint.isPending ? "Adding..." : "Add Endpoint"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Endpoints */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Endpoints</CardTitle>
+          <CardDescription>
+            Verify the X-Webhook-Signature header with your endpoint&apos;s
+            signing secret
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Secret</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-[160px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {endpoints?.map((endpoint) => (
+                <TableRow key={endpoint.id}>
+                  <TableCell>
+                    <div className="font-mono text-sm break-all">
+                      {endpoint.url}
+                    </div>
+                    {endpoint.description && (
+                      <div className="text-xs text-muted-foreground">
+                        {endpoint.description}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map((e) => (
+                        <Badge key={e} variant="outline" className="text-xs">
+                          {e}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">
+                    ••••{endpoint.secretHint}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={endpoint.isActive}
+                      disabled={updateEndpoint.isPending}
+                      onCheckedChange={(checked) =>
+                        updateEndpoint.mutate({
+                          endpointId: endpoint.id,
+                          isActive: checked,
+                        })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Send test ping"
+                        onClick={() => ping.mutate({ endpointId: endpoint.id })}
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Rotate secret"
+                        onClick={() => {
+                          if (
+                            window.confirm(
+                              "Rotate the signing secret? The old secret stops working immediately."
+                            )
+                          ) {
+                            rotateSecret.mutate({ endpointId: endpoint.id });
+                          }
+                        }}
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete endpoint"
+                        onClick={() => {
+                          if (window.confirm("Delete this endpoint and its delivery log?")) {
+                            deleteEndpoint.mutate({ endpointId: endpoint.id });
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {(!endpoints || endpoints.length === 0) && (
+                <TableRow>
+                  <TableCell
+                    colSpan={5}
+                    className="py-8 text-center text-muted-foreground"
+                  >
+                    No webhook endpoints yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Delivery log */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Recent Deliveries</CardTitle>
+            <CardDescription>
+              Failed deliveries are retried with backoff; replay sends the
+              same payload again
+            </CardDescription>
+          </div>
+          <Select
+            value={statusFilter}
+            onValueChange={(v) => setStatusFilter(v as DeliveryStatus | "all")}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="succeeded">Succeeded</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="w-[60px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries?.data.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-mono text-sm">
+                    {delivery.eventType}
+                    {delivery.replayOf && (
+                      <Badge variant="outline" className="ml-2 text-xs">
+                        replay
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-[240px] truncate text-sm">
+                    {endpointUrl(delivery.endpointId)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant[delivery.status] ?? "secondary"}>
+                      {delivery.status}
+                    </Badge>
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {delivery.responseStatus ?? "—"}
+                    {delivery.lastError && (
+                      <div className="max-w-[240px] truncate text-xs text-destructive">
+                        {delivery.lastError}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(delivery.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    {delivery.status !== "pending" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Replay"
+                        disabled={replay.isPending}
+                        onClick={() => replay.mutate({ deliveryId: delivery.id })}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {(!deliveries || deliveries.data.length === 0) && (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="py-8 text-center text-muted-foreground"
+                  >
+                    No deliveries
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* One-time secret reveal */}
+      <Dialog
+        open={revealedSecret !== null}
+        onOpenChange={(open) => !open && setRevealedSecret(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+            <DialogDescription>
+              Copy this secret now — it won&apos;t be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <code className="block break-all rounded bg-muted p-3 text-sm">
+            {revealedSecret}
+          </code>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
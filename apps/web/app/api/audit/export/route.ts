@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { exportAuditLogs, createAuditLog } from "@sme/core/audit";
+import { checkTenantAccess } from "@sme/core/auth";
+import { checkPermission } from "@sme/core/rbac";
+import { exportAuditLogsSchema } from "@sme/shared";
+import { getSession } from "@/lib/auth";
+
+// ============================================
+// GET /api/audit/export?from=&to=&format=csv|ndjson[&filters]
+//
+// Streams the active tenant's audit log for a date range. Rows are read in
+// batches (see exportAuditLogs), so the response starts immediately and
+// memory stays flat regardless of range size.
+// ============================================
+
+export const dynamic = "force-dynamic";
+
+const DENIED_STATUS = { UNAUTHORIZED: 401, BAD_REQUEST: 400, FORBIDDEN: 403 };
+
+export async function GET(req: NextRequest) {
+  // Same tenant checks as tenant procedures, MFA requirement included
+  const access = checkTenantAccess(await getSession());
+  if (!access.ok) {
+    return NextResponse.json(
+      { error: access.message },
+      { status: DENIED_STATUS[access.code] }
+    );
+  }
+  const { session, tenantId, membership } = access;
+  if (!checkPermission(membership.permissions, "core:audit:read")) {
+    return NextResponse.json(
+      { error: "Missing permission: core:audit:read" },
+      { status: 403 }
+    );
+  }
+
+  const params = Object.fromEntries(req.nextUrl.searchParams);
+  const parsed = exportAuditLogsSchema.safeParse(params);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid input", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+  const { format, ...filter } = parsed.data;
+
+  const ipAddress =
+    req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+    req.headers.get("x-real-ip") ??
+    undefined;
+
+  await createAuditLog({
+    tenantId,
+    userId: session.user.id,
+    action: "audit:exported",
+    resourceType: "audit_log",
+    changes: {
+      after: {
+        format,
+        from: filter.from.toISOString(),
+        to: filter.to.toISOString(),
+      },
+    },
+    ipAddress,
+    userAgent: req.headers.get("user-agent") ?? undefined,
+  });
+
+  const encoder = new TextEncoder();
+  const chunks = exportAuditLogs(tenantId, filter, format);
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (error) {
+        console.error("Audit export error:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  const filename = `audit-${day(filter.from)}-${day(filter.to)}.${format === "csv" ? "csv" : "ndjson"}`;
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type":
+        format === "csv"
+          ? "text/csv; charset=utf-8"
+          : "application/x-ndjson; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
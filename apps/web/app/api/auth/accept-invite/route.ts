@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "@sme/core/auth";
+import { acceptInvitation } from "@sme/core/tenant";
+import { acceptInvitationSchema } from "@sme/shared";
+
+// ============================================
+// POST /api/auth/accept-invite
+//
+// Accepts a tenant invitation with the token from its email. A new
+// account is created with the chosen password and signed in (session
+// token set as an httpOnly cookie); existing users sign in as usual.
+// ============================================
+
+const COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = acceptInvitationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const ipAddress =
+      req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+      req.headers.get("x-real-ip") ??
+      undefined;
+    const userAgent = req.headers.get("user-agent") ?? undefined;
+
+    const result = await acceptInvitation({
+      ...parsed.data,
+      ipAddress,
+      userAgent,
+    });
+
+    const response = NextResponse.json({
+      tenantSlug: result.tenantSlug,
+      signedIn: !!result.session,
+    });
+
+    if (result.session) {
+      response.cookies.set("session_token", result.session.token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        maxAge: COOKIE_MAX_AGE,
+        path: "/",
+      });
+    }
+
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+    console.error("Accept invitation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requestPasswordReset } from "@sme/core/auth";
+import { forgotPasswordSchema } from "@sme/shared";
+
+// ============================================
+// POST /api/auth/forgot-password
+//
+// Emails a password reset link. Always answers the same way, whether or
+// not the email belongs to an account.
+// ============================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = forgotPasswordSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const ipAddress =
+      req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+      req.headers.get("x-real-ip") ??
+      undefined;
+
+    await requestPasswordReset({ email: parsed.data.email, ipAddress });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Forgot password error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
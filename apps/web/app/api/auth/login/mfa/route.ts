@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyMfaLogin, AuthError } from "@sme/core/auth";
+import { verifyMfaSchema } from "@sme/shared";
+
+// ============================================
+// POST /api/auth/login/mfa
+//
+// Second login step for users with two-factor authentication. The
+// challenge comes from the mfa_token cookie set by /api/auth/login; the
+// session token is set as an httpOnly cookie, as there.
+// ============================================
+
+const COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = verifyMfaSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const mfaToken = req.cookies.get("mfa_token")?.value;
+    if (!mfaToken) {
+      return NextResponse.json(
+        { error: "Verification expired. Please sign in again." },
+        { status: 401 }
+      );
+    }
+
+    const ipAddress =
+      req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+      req.headers.get("x-real-ip") ??
+      undefined;
+    const userAgent = req.headers.get("user-agent") ?? undefined;
+
+    const result = await verifyMfaLogin({
+      mfaToken,
+      code: parsed.data.code,
+      ipAddress,
+      userAgent,
+    });
+
+    const response = NextResponse.json({
+      user: result.user,
+      tenantId: result.tenantId,
+      hasMultipleTenants: result.hasMultipleTenants,
+      isSuperAdmin: result.isSuperAdmin,
+      expiresAt: result.expiresAt,
+    });
+
+    response.cookies.set("session_token", result.token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: COOKIE_MAX_AGE,
+      path: "/",
+    });
+    response.cookies.delete({ name: "mfa_token", path: "/api/auth" });
+
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+    console.error("MFA login error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
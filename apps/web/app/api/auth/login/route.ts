@@ -7,9 +7,12 @@ import { loginSchema } from "@sme/shared";
 //
 // SECURITY: Session token is set as an httpOnly cookie in the response.
 // The token NEVER appears in the response body, preventing XSS theft.
+// Users with two-factor authentication get an mfa_token cookie instead and
+// finish at /api/auth/login/mfa.
 // ============================================
 
 const COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days
+const MFA_COOKIE_MAX_AGE = 5 * 60; // 5 minutes — matches the challenge
 
 export async function POST(req: NextRequest) {
   try {
@@ -36,6 +39,18 @@ export async function POST(req: NextRequest) {
       userAgent,
     });
 
+    if (result.mfaRequired) {
+      const response = NextResponse.json({ mfaRequired: true });
+      response.cookies.set("mfa_token", result.mfaToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        maxAge: MFA_COOKIE_MAX_AGE,
+        path: "/api/auth",
+      });
+      return response;
+    }
+
     // Build response WITHOUT the token
     const response = NextResponse.json({
       user: result.user,
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { completeOidcLogin, AuthError } from "@sme/core/auth";
+
+// ============================================
+// GET /api/auth/oidc/[provider]/callback
+//
+// Where the provider sends the browser back. The session token (or, for
+// accounts with two-factor authentication, the mfa_token challenge that
+// /login picks up with ?mfa=1) is set as an httpOnly cookie, as in
+// /api/auth/login. Errors go back to /login?error=; connecting an account
+// returns to the page it started from with ?linked= or ?error=.
+// ============================================
+
+const COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days
+const MFA_COOKIE_MAX_AGE = 5 * 60; // 5 minutes — matches the challenge
+
+/** Same destinations as the login page */
+function landingPath(result: {
+  isSuperAdmin: boolean;
+  tenantId: string | null;
+  hasMultipleTenants: boolean;
+}): string {
+  if (result.isSuperAdmin) return "/admin";
+  if (result.tenantId || result.hasMultipleTenants) return "/select-tenant";
+  return "/create-tenant";
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  const search = req.nextUrl.searchParams;
+
+  const redirect = (path: string) => {
+    const response = NextResponse.redirect(new URL(path, req.url));
+    response.cookies.delete({ name: "oidc_state", path: "/api/auth/oidc" });
+    return response;
+  };
+  const fail = (message: string) =>
+    redirect(`/login?error=${encodeURIComponent(message)}`);
+
+  // The user cancelled or the provider refused
+  if (search.get("error")) {
+    return fail(search.get("error_description") ?? "Sign-in was cancelled");
+  }
+
+  const state = search.get("state");
+  const code = search.get("code");
+  if (!state || !code) {
+    return fail("Sign-in failed. Please try again.");
+  }
+
+  try {
+    const ipAddress =
+      req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+      req.headers.get("x-real-ip") ??
+      undefined;
+    const userAgent = req.headers.get("user-agent") ?? undefined;
+
+    const outcome = await completeOidcLogin({
+      providerId: provider,
+      state,
+      expectedState: req.cookies.get("oidc_state")?.value,
+      code,
+      ipAddress,
+      userAgent,
+    });
+
+    if (outcome.kind === "link") {
+      const target = new URL(outcome.returnTo ?? "/select-tenant", req.url);
+      if (outcome.error) target.searchParams.set("error", outcome.error);
+      else target.searchParams.set("linked", provider);
+      return redirect(`${target.pathname}${target.search}`);
+    }
+
+    const { result } = outcome;
+    if (result.mfaRequired) {
+      const response = redirect("/login?mfa=1");
+      response.cookies.set("mfa_token", result.mfaToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        maxAge: MFA_COOKIE_MAX_AGE,
+        path: "/api/auth",
+      });
+      return response;
+    }
+
+    const response = redirect(outcome.returnTo ?? landingPath(result));
+    response.cookies.set("session_token", result.token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: COOKIE_MAX_AGE,
+      path: "/",
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return fail(error.message);
+    }
+    console.error("OIDC callback error:", error);
+    return fail("Sign-in failed. Please try again.");
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { beginOidcLogin, validateSession, AuthError } from "@sme/core/auth";
+
+// ============================================
+// GET /api/auth/oidc/[provider]
+//
+// Starts an OpenID Connect sign-in: redirects to the provider with a fresh
+// state, kept in an httpOnly cookie that the callback checks. With
+// ?link=1 a signed-in user connects the provider account to their own
+// instead. ?returnTo=/path is where the browser lands afterwards.
+// ============================================
+
+const STATE_COOKIE_MAX_AGE = 10 * 60; // 10 minutes — matches the request
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  const link = req.nextUrl.searchParams.get("link") === "1";
+  const returnTo = req.nextUrl.searchParams.get("returnTo") ?? undefined;
+
+  try {
+    let linkUserId: string | undefined;
+    if (link) {
+      const token = req.cookies.get("session_token")?.value;
+      const session = token ? await validateSession(token) : null;
+      if (!session) {
+        return NextResponse.redirect(new URL("/login", req.url));
+      }
+      if (session.session.impersonator) {
+        throw new AuthError("Not available while impersonating", 403);
+      }
+      linkUserId = session.user.id;
+    }
+
+    const { url, state } = await beginOidcLogin({
+      providerId: provider,
+      linkUserId,
+      returnTo,
+    });
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set("oidc_state", state, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: STATE_COOKIE_MAX_AGE,
+      path: "/api/auth/oidc",
+    });
+    return response;
+  } catch (error) {
+    const message =
+      error instanceof AuthError ? error.message : "Sign-in failed. Please try again.";
+    if (!(error instanceof AuthError)) {
+      console.error("OIDC sign-in error:", error);
+    }
+    const target = new URL(link && returnTo?.startsWith("/") ? returnTo : "/login", req.url);
+    target.searchParams.set("error", message);
+    return NextResponse.redirect(target);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resetPassword, AuthError } from "@sme/core/auth";
+import { resetPasswordSchema } from "@sme/shared";
+
+// ============================================
+// POST /api/auth/reset-password
+//
+// Sets a new password with the token from a reset or invite email. All of
+// the user's sessions end, so they sign in again with the new password.
+// ============================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = resetPasswordSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const ipAddress =
+      req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+      req.headers.get("x-real-ip") ??
+      undefined;
+
+    await resetPassword({ ...parsed.data, ipAddress });
+
+    const response = NextResponse.json({ success: true });
+    // This browser's session (if any) was invalidated too
+    response.cookies.delete("session_token");
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+    console.error("Reset password error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
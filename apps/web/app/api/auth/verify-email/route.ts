@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyEmail, AuthError } from "@sme/core/auth";
+import { verifyEmailSchema } from "@sme/shared";
+
+// ============================================
+// POST /api/auth/verify-email
+//
+// Marks the user's email verified with the token from a verification
+// email. Works without a session — the link may be opened anywhere.
+// ============================================
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = verifyEmailSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const ipAddress =
+      req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+      req.headers.get("x-real-ip") ??
+      undefined;
+
+    await verifyEmail({ token: parsed.data.token, ipAddress });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+    console.error("Verify email error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -11,9 +11,15 @@ const handler = async (req: Request) => {
     req,
     router: appRouter,
     createContext: async () => {
+      // API key requests authenticate with the Authorization header;
+      // createContext resolves the key, so the cookie is not consulted
+      const authorization = req.headers.get("authorization");
+
       // Read session token from cookie
       const cookieStore = await cookies();
-      const sessionToken = cookieStore.get("session_token")?.value;
+      const sessionToken = authorization
+        ? undefined
+        : cookieStore.get("session_token")?.value;
 
       let session = null;
       if (sessionToken) {
@@ -30,7 +36,18 @@ const handler = async (req: Request) => {
       // Extract CSRF/source header for CSRF protection
       const trpcSource = req.headers.get("x-trpc-source") ?? undefined;
 
-      return createContext({ session, ipAddress, userAgent, trpcSource });
+      return createContext({
+        session,
+        authorization,
+        ipAddress,
+        userAgent,
+        trpcSource,
+        requestId: req.headers.get("x-request-id"),
+      });
+    },
+    // Lets a client quote the ID that its audit entries carry
+    responseMeta({ ctx }) {
+      return ctx ? { headers: { "x-request-id": ctx.requestId } } : {};
     },
     onError({ error, path }) {
       console.error(`❌ tRPC error on '${path}':`, error.message);
@@ -0,0 +1,59 @@
+/**
+ * Next.js startup hook (Node.js runtime only).
+ * - Starts the domain event dispatcher (outbox poller), the webhook
+ *   delivery worker and the mail worker. Set EVENT_DISPATCHER="false" on
+ *   processes that should not deliver events.
+ * - Starts the background job worker. Set JOB_WORKER="false" when jobs run
+ *   in a dedicated `pnpm jobs:worker` process.
+ * - Detects module version drift and runs pending per-tenant module upgrades
+ *   before the app serves traffic. Set MODULE_AUTO_UPGRADE="false" to only
+ *   log the drift and leave upgrades to the admin panel.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // Root entry registers all built-in modules as a side effect
+  const {
+    detectModuleVersionDrift,
+    runModuleUpgrades,
+    startEventDispatcher,
+    startWebhookWorker,
+    startMailWorker,
+    startJobWorker,
+  } = await import("@sme/core");
+
+  if (process.env.EVENT_DISPATCHER !== "false") {
+    startEventDispatcher();
+    startWebhookWorker();
+    startMailWorker();
+  }
+
+  if (process.env.JOB_WORKER !== "false") {
+    startJobWorker();
+  }
+
+  try {
+    if (process.env.MODULE_AUTO_UPGRADE === "false") {
+      const drift = await detectModuleVersionDrift();
+      if (drift.length > 0) {
+        console.warn(
+          `[modules] ${drift.length} tenant module(s) behind the code version — run upgrades from the admin panel`
+        );
+      }
+      return;
+    }
+
+    const results = await runModuleUpgrades();
+    for (const result of results) {
+      const line = `[modules] ${result.moduleId} ${result.fromVersion} → ${result.toVersion} (tenant ${result.tenantId}): ${result.status}`;
+      if (result.status === "upgraded") {
+        console.log(line);
+      } else {
+        console.warn(`${line} — ${result.error}`);
+      }
+    }
+  } catch (error) {
+    // Never block startup on upgrades — they can be re-run from the admin panel
+    console.error("[modules] Module upgrade check failed:", error);
+  }
+}
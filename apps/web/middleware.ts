@@ -24,6 +24,11 @@ export function middleware(request: NextRequest) {
       !pathname.startsWith("/_next") &&
       !pathname.startsWith("/login") &&
       !pathname.startsWith("/register") &&
+      // Emailed links work without a session
+      !pathname.startsWith("/forgot-password") &&
+      !pathname.startsWith("/reset-password") &&
+      !pathname.startsWith("/verify-email") &&
+      !pathname.startsWith("/invite") &&
       pathname !== "/");
 
   if (isProtectedRoute && !sessionToken) {
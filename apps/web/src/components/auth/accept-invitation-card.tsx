@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+  Button,
+  Input,
+  Label,
+} from "@sme/ui";
+
+interface Invitation {
+  status: "pending" | "accepted" | "revoked" | "expired";
+  email: string;
+  fullName: string;
+  tenantName: string;
+  roleName: string;
+  invitedBy: string | null;
+  expiresAt: string;
+  hasAccount: boolean;
+}
+
+const closedMessages: Record<Exclude<Invitation["status"], "pending">, string> = {
+  accepted: "This invitation was already accepted. Sign in to continue.",
+  revoked: "This invitation was withdrawn.",
+  expired: "This invitation has expired. Ask the person who invited you to send it again.",
+};
+
+function InvitationUnavailable({ message }: { message: string }) {
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl text-center">Invitation unavailable</CardTitle>
+        <CardDescription className="text-center">{message}</CardDescription>
+      </CardHeader>
+      <CardFooter>
+        <Button asChild variant="outline" className="w-full">
+          <Link href="/login">Go to sign in</Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+/**
+ * Accept a tenant invitation. New users choose their password here and are
+ * signed in; existing users confirm, then continue with their own sign-in.
+ */
+export function AcceptInvitationCard({
+  token,
+  invitation,
+}: {
+  token: string;
+  invitation: Invitation | null;
+}) {
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  if (!invitation) {
+    return (
+      <InvitationUnavailable message="This invitation link is invalid. Open the link from your email again." />
+    );
+  }
+  if (invitation.status !== "pending") {
+    return <InvitationUnavailable message={closedMessages[invitation.status]} />;
+  }
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!invitation.hasAccount && password !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/auth/accept-invite", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          token,
+          password: invitation.hasAccount ? undefined : password,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(
+          data.details?.fieldErrors?.password?.[0] ?? data.error ?? "Could not accept invitation"
+        );
+        setLoading(false);
+        return;
+      }
+
+      // New accounts are signed in; existing users go through sign-in
+      // (middleware sends them to /login if this browser has no session)
+      router.push(data.signedIn ? `/${data.tenantSlug}` : "/select-tenant");
+    } catch {
+      setError("Network error. Please try again.");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl text-center">
+          Join {invitation.tenantName}
+        </CardTitle>
+        <CardDescription className="text-center">
+          {invitation.invitedBy ?? "An administrator"} invited {invitation.email} to
+          join as {invitation.roleName}
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleAccept}>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+              {error}
+            </div>
+          )}
+          {invitation.hasAccount ? (
+            <p className="text-sm text-muted-foreground">
+              You already have an account with this email. Accept to add{" "}
+              {invitation.tenantName} to it.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="password">Choose a Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Min 8 characters"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={8}
+                  autoComplete="new-password"
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Repeat password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={8}
+                  autoComplete="new-password"
+                />
+              </div>
+            </>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+          </p>
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Joining..." : "Accept Invitation"}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
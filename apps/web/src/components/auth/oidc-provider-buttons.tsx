@@ -0,0 +1,30 @@
+"use client";
+
+import { Button } from "@sme/ui";
+import { trpc } from "@/trpc/client";
+
+/**
+ * "Continue with …" buttons for the configured OpenID Connect providers.
+ * Renders nothing when none are configured. Sign-in is a full-page
+ * redirect through /api/auth/oidc/[provider].
+ */
+export function OidcProviderButtons() {
+  const { data: providers } = trpc.auth.oidcProviders.useQuery();
+
+  if (!providers || providers.length === 0) return null;
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <div className="h-px flex-1 bg-border" />
+        or
+        <div className="h-px flex-1 bg-border" />
+      </div>
+      {providers.map((provider) => (
+        <Button key={provider.id} asChild variant="outline" className="w-full">
+          <a href={`/api/auth/oidc/${provider.id}`}>Continue with {provider.name}</a>
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Input, Label } from "@sme/ui";
+import { trpc } from "@/trpc/client";
+
+/** Recovery codes, shown once after enabling or regenerating them */
+export function RecoveryCodes({
+  codes,
+  onDone,
+}: {
+  codes: string[];
+  onDone: () => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        Save these recovery codes somewhere safe. Each one signs you in once
+        if you lose your authenticator — they won&apos;t be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button onClick={onDone}>I&apos;ve saved my codes</Button>
+    </div>
+  );
+}
+
+/**
+ * TOTP enrollment: issue a secret, confirm a first code, show the
+ * recovery codes. Calls onDone once the user has seen them.
+ */
+export function TwoFactorSetup({ onDone }: { onDone: () => void }) {
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const begin = trpc.auth.mfa.beginEnrollment.useMutation();
+  const confirm = trpc.auth.mfa.confirmEnrollment.useMutation({
+    onSuccess: (data) => setRecoveryCodes(data.recoveryCodes),
+  });
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={onDone} />;
+  }
+
+  if (!begin.data) {
+    return (
+      <div className="space-y-3">
+        {begin.error && (
+          <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+            {begin.error.message}
+          </div>
+        )}
+        <p className="text-sm text-muted-foreground">
+          Use an authenticator app (Google Authenticator, 1Password, Authy…)
+          to generate a code each time you sign in.
+        </p>
+        <Button onClick={() => begin.mutate()} disabled={begin.isPending}>
+          {begin.isPending ? "Starting..." : "Set up two-factor authentication"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        confirm.mutate({ code });
+      }}
+    >
+      {confirm.error && (
+        <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+          {confirm.error.message}
+        </div>
+      )}
+      <div className="space-y-2 text-sm">
+        <p>
+          Add this account to your authenticator app —{" "}
+          <a href={begin.data.uri} className="text-primary underline-offset-4 hover:underline">
+            open it directly
+          </a>{" "}
+          on this device, or enter the key:
+        </p>
+        <code className="block break-all rounded-md border bg-muted/40 p-3 font-mono">
+          {begin.data.secret}
+        </code>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="totp-confirm">Code from the app</Label>
+        <Input
+          id="totp-confirm"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+          autoComplete="one-time-code"
+          inputMode="numeric"
+          maxLength={6}
+        />
+      </div>
+      <Button type="submit" disabled={code.length !== 6 || confirm.isPending}>
+        {confirm.isPending ? "Verifying..." : "Enable"}
+      </Button>
+    </form>
+  );
+}
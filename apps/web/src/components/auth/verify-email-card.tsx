@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+  Button,
+} from "@sme/ui";
+
+/**
+ * Confirm an email address with a token from a verification email.
+ * Verification waits for a click, so link scanners that fetch the page
+ * don't spend the token.
+ */
+export function VerifyEmailCard({ token }: { token: string }) {
+  const [status, setStatus] = useState<"idle" | "verifying" | "verified">("idle");
+  const [error, setError] = useState(token ? "" : "This link is missing its token.");
+
+  const handleVerify = async () => {
+    setError("");
+    setStatus("verifying");
+
+    try {
+      const res = await fetch("/api/auth/verify-email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error ?? "Verification failed");
+        setStatus("idle");
+        return;
+      }
+
+      setStatus("verified");
+    } catch {
+      setError("Network error. Please try again.");
+      setStatus("idle");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl text-center">
+          {status === "verified" ? "Email verified" : "Verify your email"}
+        </CardTitle>
+        <CardDescription className="text-center">
+          {status === "verified"
+            ? "Thanks — your email address is confirmed."
+            : "Confirm this is your email address."}
+        </CardDescription>
+      </CardHeader>
+      {error && (
+        <div className="mx-6 mb-4 space-y-1 bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+          <p>{error}</p>
+          <p>You can send a new link from your account&apos;s security settings.</p>
+        </div>
+      )}
+      <CardFooter className="flex flex-col space-y-4">
+        {status === "verified" ? (
+          <Button asChild className="w-full">
+            <Link href="/">Continue</Link>
+          </Button>
+        ) : (
+          <Button
+            className="w-full"
+            onClick={handleVerify}
+            disabled={!token || status === "verifying"}
+          >
+            {status === "verifying" ? "Verifying..." : "Verify Email"}
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
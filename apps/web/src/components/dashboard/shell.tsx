@@ -32,9 +32,16 @@ import {
   FolderTree,
   ChefHat,
   BarChart3,
+  Webhook,
+  KeyRound,
+  MapPin,
+  ScrollText,
+  Eye,
+  Lock,
 } from "lucide-react";
+import { hasPermission } from "@sme/shared/utils";
 import { trpc } from "@/trpc/client";
-import { clearSessionCookie } from "@/lib/auth";
+import { clearSessionCookie, stopImpersonation } from "@/lib/auth";
 
 interface DashboardShellProps {
   children: React.ReactNode;
@@ -52,7 +59,14 @@ interface DashboardShellProps {
     roleSlug: string;
     permissions: string[];
   };
+  locationId: string | null;
   tenantSlug: string;
+  /** Set when a platform admin is acting as this user */
+  impersonation?: {
+    impersonatorName: string;
+    readOnly: boolean;
+    expiresAt: Date;
+  } | null;
 }
 
 const coreNavItems = [
@@ -82,33 +96,63 @@ const settingsNavItems = [
     icon: Shield,
     permission: "core:users:read",
   },
+  {
+    label: "Locations",
+    href: "/settings/locations",
+    icon: MapPin,
+    permission: "core:locations:manage",
+  },
   {
     label: "Modules",
     href: "/settings/modules",
     icon: Package,
     permission: "core:settings:manage",
   },
+  {
+    label: "Webhooks",
+    href: "/settings/webhooks",
+    icon: Webhook,
+    permission: "core:webhooks:manage",
+  },
+  {
+    label: "API Keys",
+    href: "/settings/api-keys",
+    icon: KeyRound,
+    permission: "core:api_keys:manage",
+  },
+  {
+    label: "Audit Log",
+    href: "/settings/audit",
+    icon: ScrollText,
+    permission: "core:audit:read",
+  },
+  {
+    label: "Security",
+    href: "/settings/security",
+    icon: Lock,
+  },
 ];
 
-function hasPermission(userPerms: string[], required: string): boolean {
-  if (userPerms.includes("*")) return true;
-  if (userPerms.includes(required)) return true;
-  const parts = required.split(":");
-  if (parts.length >= 2 && userPerms.includes(`${parts[0]}:*`)) return true;
-  if (parts.length === 3 && userPerms.includes(`${parts[0]}:${parts[1]}:*`))
-    return true;
-  return false;
-}
-
 export function DashboardShell({
   children,
   user,
   membership,
+  locationId,
   tenantSlug,
+  impersonation,
 }: DashboardShellProps) {
   const pathname = usePathname();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [endingImpersonation, setEndingImpersonation] = useState(false);
   const { data: enabledModules } = trpc.modules.enabled.useQuery();
+  const { data: myLocations } = trpc.auth.myLocations.useQuery();
+
+  const switchLocation = trpc.auth.switchLocation.useMutation({
+    onSuccess: () => {
+      // Reload to pick up location-scoped permissions in the new session context
+      window.location.reload();
+    },
+  });
 
   const logoutMutation = trpc.auth.logout.useMutation({
     onSuccess: async () => {
@@ -117,6 +161,12 @@ export function DashboardShell({
     },
   });
 
+  const endImpersonation = async () => {
+    setEndingImpersonation(true);
+    const { redirectTo } = await stopImpersonation();
+    window.location.href = redirectTo;
+  };
+
   const basePath = `/${tenantSlug}`;
   const initials = user.fullName
     .split(" ")
@@ -171,6 +221,31 @@ export function DashboardShell({
             </Button>
           </div>
 
+          {/* Location switcher — only for tenants that use locations */}
+          {myLocations && myLocations.length > 0 && (
+            <div className="px-3 pt-4">
+              <label className="flex items-center gap-2 px-1 mb-1 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                <MapPin className="h-3.5 w-3.5" />
+                Location
+              </label>
+              <select
+                className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm"
+                value={locationId ?? ""}
+                disabled={switchLocation.isPending}
+                onChange={(e) =>
+                  switchLocation.mutate({ locationId: e.target.value || null })
+                }
+              >
+                <option value="">All locations</option>
+                {myLocations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Nav items */}
           <nav className="flex-1 overflow-y-auto py-4 px-3 space-y-1">
             {/* Core nav */}
@@ -296,11 +371,13 @@ export function DashboardShell({
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem
-                  onClick={() => logoutMutation.mutate()}
+                  onClick={() =>
+                    impersonation ? endImpersonation() : logoutMutation.mutate()
+                  }
                   className="text-destructive focus:text-destructive"
                 >
                   <LogOut className="mr-2 h-4 w-4" />
-                  Sign Out
+                  {impersonation ? "End Impersonation" : "Sign Out"}
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -322,6 +399,28 @@ export function DashboardShell({
           <div className="font-semibold">SME Platform</div>
         </header>
 
+        {/* Impersonation banner */}
+        {impersonation && (
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 border-b border-amber-300 bg-amber-100 px-4 py-2 text-sm text-amber-900">
+            <Eye className="h-4 w-4" />
+            <span>
+              Viewing as <strong>{user.fullName}</strong> ({user.email}) —
+              impersonated by {impersonation.impersonatorName}.{" "}
+              {impersonation.readOnly ? "Read-only. " : "Changes are saved. "}
+              Ends at {new Date(impersonation.expiresAt).toLocaleTimeString()}.
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto h-7 border-amber-400 bg-transparent"
+              onClick={endImpersonation}
+              disabled={endingImpersonation}
+            >
+              {endingImpersonation ? "Ending..." : "End impersonation"}
+            </Button>
+          </div>
+        )}
+
         {/* Page content */}
         <main className="p-4 md:p-6 lg:p-8">{children}</main>
       </div>
@@ -1,10 +1,17 @@
 "use server";
 
-import { cookies } from "next/headers";
-import { validateSession } from "@sme/core/auth";
+import { cookies, headers } from "next/headers";
+import {
+  validateSession,
+  startImpersonation as startImpersonationSession,
+} from "@sme/core/auth";
+import { appRouter, createCallerFactory, createContext } from "@sme/core/trpc";
+import { impersonateSchema, type ImpersonateInput } from "@sme/shared";
 
 const COOKIE_NAME = "session_token";
 const COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days
+/** The admin's own session while they impersonate someone */
+const IMPERSONATOR_COOKIE_NAME = "impersonator_session_token";
 
 export async function setSessionCookie(token: string) {
   const cookieStore = await cookies();
@@ -20,6 +27,7 @@ export async function setSessionCookie(token: string) {
 export async function clearSessionCookie() {
   const cookieStore = await cookies();
   cookieStore.delete(COOKIE_NAME);
+  cookieStore.delete(IMPERSONATOR_COOKIE_NAME);
 }
 
 export async function getSession() {
@@ -28,3 +36,85 @@ export async function getSession() {
   if (!token) return null;
   return validateSession(token);
 }
+
+/** Client IP and user agent of the current request */
+async function requestInfo() {
+  const headerStore = await headers();
+  return {
+    ipAddress:
+      headerStore.get("x-forwarded-for")?.split(",")[0]?.trim() ??
+      headerStore.get("x-real-ip") ??
+      undefined,
+    userAgent: headerStore.get("user-agent") ?? undefined,
+  };
+}
+
+/** tRPC caller for the current request — same checks and auditing as /api/trpc */
+async function serverCaller() {
+  return createCallerFactory(appRouter)(
+    await createContext({
+      session: await getSession(),
+      ...(await requestInfo()),
+      trpcSource: "server",
+    })
+  );
+}
+
+/**
+ * Start impersonating a tenant member. The admin's session token is kept
+ * aside and restored by stopImpersonation. Calls core directly rather than
+ * through tRPC so the new session's token never leaves the server.
+ */
+export async function startImpersonation(input: ImpersonateInput) {
+  const session = await getSession();
+  if (!session?.user.isSuperAdmin) {
+    throw new Error("Platform admin access required");
+  }
+
+  const result = await startImpersonationSession({
+    adminUserId: session.user.id,
+    ...impersonateSchema.parse(input),
+    ...(await requestInfo()),
+  });
+
+  const cookieStore = await cookies();
+  const adminToken = cookieStore.get(COOKIE_NAME)?.value;
+  if (adminToken) {
+    cookieStore.set(IMPERSONATOR_COOKIE_NAME, adminToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: COOKIE_MAX_AGE,
+      path: "/",
+    });
+  }
+  cookieStore.set(COOKIE_NAME, result.token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    expires: result.expiresAt,
+    path: "/",
+  });
+
+  return { tenantSlug: result.tenantSlug };
+}
+
+/**
+ * End the current impersonation and switch back to the admin's session.
+ * Returns where to go next.
+ */
+export async function stopImpersonation() {
+  const caller = await serverCaller();
+  await caller.auth.stopImpersonating();
+
+  const cookieStore = await cookies();
+  const adminToken = cookieStore.get(IMPERSONATOR_COOKIE_NAME)?.value;
+  cookieStore.delete(IMPERSONATOR_COOKIE_NAME);
+  if (!adminToken) {
+    cookieStore.delete(COOKIE_NAME);
+    return { redirectTo: "/login" };
+  }
+
+  await setSessionCookie(adminToken);
+  return { redirectTo: "/admin" };
+}
@@ -0,0 +1,29 @@
+-- ============================================
+-- Migration: Per-Module Schema Versions
+-- - Track which module migration has been applied (system_modules.schema_version)
+-- - Module-owned tables now ship in each module's own migrations/ folder
+--   and are applied by enableModule() — see modules/migrations.ts
+-- - Backfill: databases that already have the costing tables (created by the
+--   old global 0004_costing-module / 0005_costing-check-constraints) are
+--   marked as having costing migrations 0001 (and 0002 if its constraints
+--   exist), so they are not re-run on enable or upgrade
+-- ============================================
+
+ALTER TABLE "system_modules" ADD COLUMN IF NOT EXISTS "schema_version" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+DO $$
+DECLARE
+  costing_version integer;
+BEGIN
+  IF to_regclass('public.costing_inventory_items') IS NOT NULL THEN
+    costing_version := CASE
+      WHEN EXISTS (SELECT FROM pg_constraint WHERE conname = 'chk_recipe_type') THEN 2
+      ELSE 1
+    END;
+
+    INSERT INTO "system_modules" ("id", "name", "version", "schema_version")
+    VALUES ('costing', 'Recipe Costing', '1.0.0', costing_version)
+    ON CONFLICT ("id") DO UPDATE
+      SET "schema_version" = GREATEST("system_modules"."schema_version", EXCLUDED."schema_version");
+  END IF;
+END $$;
@@ -0,0 +1,7 @@
+-- Track the module version each tenant is running, so code upgrades can be
+-- detected and applied per tenant (see src/modules/upgrades.ts)
+ALTER TABLE "tenant_modules" ADD COLUMN IF NOT EXISTS "version" varchar(20);
+--> statement-breakpoint
+UPDATE "tenant_modules" tm SET "version" = sm."version" FROM "system_modules" sm WHERE sm."id" = tm."module_id" AND tm."version" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "tenant_modules" ALTER COLUMN "version" SET NOT NULL;
@@ -0,0 +1,33 @@
+-- ============================================
+-- Migration: Module Purge Requests
+-- - Single-use confirmation tokens for disableModule({ mode: "purge" })
+-- - Token is stored hashed (SHA-256), like session tokens
+-- ============================================
+
+CREATE TABLE "module_purge_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"module_id" varchar(50) NOT NULL,
+	"token_hash" text NOT NULL,
+	"requested_by" uuid,
+	"row_counts" jsonb NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"consumed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "module_purge_requests_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "module_purge_requests" ADD CONSTRAINT "module_purge_requests_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "module_purge_requests" ADD CONSTRAINT "module_purge_requests_module_id_system_modules_id_fk" FOREIGN KEY ("module_id") REFERENCES "public"."system_modules"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "module_purge_requests" ADD CONSTRAINT "module_purge_requests_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_module_purge_requests_tenant" ON "module_purge_requests" USING btree ("tenant_id", "module_id");--> statement-breakpoint
+ALTER TABLE "module_purge_requests" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_module_purge_requests ON "module_purge_requests"
+  USING (tenant_id = current_setting('app.current_tenant_id', true)::UUID)
+  WITH CHECK (tenant_id = current_setting('app.current_tenant_id', true)::UUID);--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "module_purge_requests" TO sme_app;
+  END IF;
+END $$;
@@ -0,0 +1,32 @@
+-- ============================================
+-- Migration: Plans & Entitlements
+-- - plans: global catalog of module entitlements + limits
+-- - tenants.plan_id: tenant's current plan (NULL = super-admin managed)
+-- - sme_app can read plans; only admins write them
+-- ============================================
+
+CREATE TABLE "plans" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"slug" varchar(50) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"modules" text[] DEFAULT '{}' NOT NULL,
+	"limits" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "plans_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "tenants" ADD COLUMN "plan_id" uuid;--> statement-breakpoint
+ALTER TABLE "tenants" ADD CONSTRAINT "tenants_plan_id_plans_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."plans"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_tenants_plan" ON "tenants" USING btree ("plan_id");--> statement-breakpoint
+CREATE TRIGGER trg_plans_updated_at BEFORE UPDATE ON "plans"
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    REVOKE INSERT, UPDATE, DELETE ON "plans" FROM sme_app;
+    GRANT SELECT ON "plans" TO sme_app;
+  END IF;
+END $$;
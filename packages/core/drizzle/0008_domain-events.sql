@@ -0,0 +1,35 @@
+-- ============================================
+-- Migration: Domain Events Outbox
+-- - Events are inserted in the same transaction as the change
+-- - Dispatched to module subscribers after commit, with retries
+-- ============================================
+
+CREATE TABLE "domain_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"user_id" uuid,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"completed_handlers" text[] DEFAULT '{}' NOT NULL,
+	"last_error" text,
+	"available_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"delivered_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "domain_events" ADD CONSTRAINT "domain_events_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "domain_events" ADD CONSTRAINT "domain_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_domain_events_pending" ON "domain_events" USING btree ("status", "available_at");--> statement-breakpoint
+CREATE INDEX "idx_domain_events_tenant" ON "domain_events" USING btree ("tenant_id", "created_at");--> statement-breakpoint
+ALTER TABLE "domain_events" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_domain_events ON "domain_events"
+  USING (tenant_id = current_setting('app.current_tenant_id', true)::UUID)
+  WITH CHECK (tenant_id = current_setting('app.current_tenant_id', true)::UUID);--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "domain_events" TO sme_app;
+  END IF;
+END $$;
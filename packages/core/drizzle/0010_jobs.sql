@@ -0,0 +1,52 @@
+-- ============================================
+-- Migration: Background Jobs
+-- - jobs: queue polled with FOR UPDATE SKIP LOCKED (tenant_id NULL = platform job)
+-- - job_schedules: next fire time per cron-scheduled job
+-- ============================================
+
+CREATE TABLE "jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid,
+	"name" varchar(100) NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'queued' NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"dedupe_key" varchar(200),
+	"locked_by" varchar(100),
+	"locked_at" timestamp with time zone,
+	"result" jsonb,
+	"last_error" text,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"started_at" timestamp with time zone,
+	"finished_at" timestamp with time zone,
+	CONSTRAINT "jobs_dedupe_key_unique" UNIQUE("dedupe_key")
+);
+--> statement-breakpoint
+CREATE TABLE "job_schedules" (
+	"name" varchar(100) PRIMARY KEY NOT NULL,
+	"cron" varchar(100) NOT NULL,
+	"next_run_at" timestamp with time zone NOT NULL,
+	"last_run_at" timestamp with time zone,
+	"last_job_id" uuid,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_jobs_queued" ON "jobs" USING btree ("status", "run_at");--> statement-breakpoint
+CREATE INDEX "idx_jobs_tenant_status" ON "jobs" USING btree ("tenant_id", "status");--> statement-breakpoint
+ALTER TABLE "jobs" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_jobs ON "jobs"
+  USING (tenant_id = current_setting('app.current_tenant_id', true)::UUID)
+  WITH CHECK (tenant_id = current_setting('app.current_tenant_id', true)::UUID);--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "jobs" TO sme_app;
+    GRANT SELECT ON "job_schedules" TO sme_app;
+  END IF;
+END $$;
@@ -0,0 +1,110 @@
+-- ============================================
+-- Migration: Tenant RLS enforcement
+-- - tenant-scoped requests now run in a transaction that switches to sme_app
+--   (SET LOCAL ROLE) with app.current_tenant_id set — see db/index.ts
+-- - ensure sme_app exists and the migrating role may SET ROLE to it
+-- - recreate every tenant policy with explicit WITH CHECK; NULLIF turns an
+--   unset tenant ('' once set_config has been used on the connection) into
+--   "no rows" instead of a uuid cast error
+-- - join tables without tenant_id check through their parent row
+-- Global tables (users, tenants, sessions, plans, system_modules,
+-- job_schedules) have no tenant policy.
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    CREATE ROLE sme_app NOLOGIN;
+    GRANT USAGE ON SCHEMA public TO sme_app;
+    GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO sme_app;
+    GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public TO sme_app;
+  END IF;
+  IF current_user <> 'sme_app' THEN
+    EXECUTE format('GRANT sme_app TO %I', current_user);
+  END IF;
+END $$;
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_roles ON "roles";--> statement-breakpoint
+CREATE POLICY tenant_isolation_roles ON "roles"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_memberships ON "tenant_memberships";--> statement-breakpoint
+CREATE POLICY tenant_isolation_memberships ON "tenant_memberships"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_modules ON "tenant_modules";--> statement-breakpoint
+CREATE POLICY tenant_isolation_modules ON "tenant_modules"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_audit ON "audit_logs";--> statement-breakpoint
+CREATE POLICY tenant_isolation_audit ON "audit_logs"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_notes ON "notes";--> statement-breakpoint
+CREATE POLICY tenant_isolation_notes ON "notes"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_module_purge_requests ON "module_purge_requests";--> statement-breakpoint
+CREATE POLICY tenant_isolation_module_purge_requests ON "module_purge_requests"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_domain_events ON "domain_events";--> statement-breakpoint
+CREATE POLICY tenant_isolation_domain_events ON "domain_events"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_webhook_endpoints ON "webhook_endpoints";--> statement-breakpoint
+CREATE POLICY tenant_isolation_webhook_endpoints ON "webhook_endpoints"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_webhook_deliveries ON "webhook_deliveries";--> statement-breakpoint
+CREATE POLICY tenant_isolation_webhook_deliveries ON "webhook_deliveries"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_jobs ON "jobs";--> statement-breakpoint
+CREATE POLICY tenant_isolation_jobs ON "jobs"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_catalog_categories ON "catalog_categories";--> statement-breakpoint
+CREATE POLICY tenant_isolation_catalog_categories ON "catalog_categories"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_catalog_subcategories ON "catalog_subcategories";--> statement-breakpoint
+CREATE POLICY tenant_isolation_catalog_subcategories ON "catalog_subcategories"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_catalog_products ON "catalog_products";--> statement-breakpoint
+CREATE POLICY tenant_isolation_catalog_products ON "catalog_products"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_catalog_product_photos ON "catalog_product_photos";--> statement-breakpoint
+CREATE POLICY tenant_isolation_catalog_product_photos ON "catalog_product_photos"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_catalog_attribute_definitions ON "catalog_attribute_definitions";--> statement-breakpoint
+CREATE POLICY tenant_isolation_catalog_attribute_definitions ON "catalog_attribute_definitions"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_catalog_product_subcategories ON "catalog_product_subcategories";--> statement-breakpoint
+CREATE POLICY tenant_isolation_catalog_product_subcategories ON "catalog_product_subcategories"
+  USING (product_id IN (SELECT id FROM catalog_products WHERE tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID))
+  WITH CHECK (product_id IN (SELECT id FROM catalog_products WHERE tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID));
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_catalog_product_attributes ON "catalog_product_attributes";--> statement-breakpoint
+CREATE POLICY tenant_isolation_catalog_product_attributes ON "catalog_product_attributes"
+  USING (product_id IN (SELECT id FROM catalog_products WHERE tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID))
+  WITH CHECK (product_id IN (SELECT id FROM catalog_products WHERE tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID));
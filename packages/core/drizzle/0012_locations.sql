@@ -0,0 +1,55 @@
+-- ============================================
+-- Migration: Locations
+-- - locations: branches / sites within a tenant
+-- - membership_locations: member ↔ location assignments with optional role override
+-- - sessions.location_id: active location, switched like the active tenant
+-- ============================================
+
+CREATE TABLE "locations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"code" varchar(20),
+	"address" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "membership_locations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"membership_id" uuid NOT NULL,
+	"location_id" uuid NOT NULL,
+	"role_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "location_id" uuid;--> statement-breakpoint
+ALTER TABLE "locations" ADD CONSTRAINT "locations_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "membership_locations" ADD CONSTRAINT "membership_locations_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "membership_locations" ADD CONSTRAINT "membership_locations_membership_id_tenant_memberships_id_fk" FOREIGN KEY ("membership_id") REFERENCES "public"."tenant_memberships"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "membership_locations" ADD CONSTRAINT "membership_locations_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "membership_locations" ADD CONSTRAINT "membership_locations_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "public"."roles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_locations_tenant" ON "locations" USING btree ("tenant_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_locations_tenant_code" ON "locations" USING btree ("tenant_id", "code");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_membership_locations_unique" ON "membership_locations" USING btree ("membership_id", "location_id");--> statement-breakpoint
+CREATE INDEX "idx_membership_locations_location" ON "membership_locations" USING btree ("location_id");--> statement-breakpoint
+CREATE TRIGGER trg_locations_updated_at BEFORE UPDATE ON "locations"
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();--> statement-breakpoint
+ALTER TABLE "locations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "membership_locations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_locations ON "locations"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);--> statement-breakpoint
+CREATE POLICY tenant_isolation_membership_locations ON "membership_locations"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "locations" TO sme_app;
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "membership_locations" TO sme_app;
+  END IF;
+END $$;
@@ -0,0 +1,32 @@
+-- ============================================
+-- Migration: Permission grants
+-- - membership_permission_grants: time-bound extra grants (or denies) for one
+--   member, merged with their role's permissions while unexpired
+-- ============================================
+
+CREATE TABLE "membership_permission_grants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"membership_id" uuid NOT NULL,
+	"permission" varchar(150) NOT NULL,
+	"reason" text,
+	"expires_at" timestamp with time zone NOT NULL,
+	"granted_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "membership_permission_grants" ADD CONSTRAINT "membership_permission_grants_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "membership_permission_grants" ADD CONSTRAINT "membership_permission_grants_membership_id_tenant_memberships_id_fk" FOREIGN KEY ("membership_id") REFERENCES "public"."tenant_memberships"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "membership_permission_grants" ADD CONSTRAINT "membership_permission_grants_granted_by_users_id_fk" FOREIGN KEY ("granted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_permission_grants_membership" ON "membership_permission_grants" USING btree ("membership_id", "expires_at");--> statement-breakpoint
+CREATE INDEX "idx_permission_grants_tenant" ON "membership_permission_grants" USING btree ("tenant_id");--> statement-breakpoint
+ALTER TABLE "membership_permission_grants" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_membership_permission_grants ON "membership_permission_grants"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "membership_permission_grants" TO sme_app;
+  END IF;
+END $$;
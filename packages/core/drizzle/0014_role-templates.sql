@@ -0,0 +1,33 @@
+-- ============================================
+-- Migration: Role Templates
+-- - role_templates: global roles super admins apply to tenants
+-- - roles.template_id / template_version: link to the template and the
+--   version the role last synced to (newer versions are opt-in per tenant)
+-- - sme_app can read role_templates; only admins write them
+-- ============================================
+
+CREATE TABLE "role_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"slug" varchar(50) NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"description" text,
+	"permissions" text[] DEFAULT '{}' NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "role_templates_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "roles" ADD COLUMN "template_id" uuid;--> statement-breakpoint
+ALTER TABLE "roles" ADD COLUMN "template_version" integer;--> statement-breakpoint
+ALTER TABLE "roles" ADD CONSTRAINT "roles_template_id_role_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."role_templates"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_roles_template" ON "roles" USING btree ("template_id");--> statement-breakpoint
+CREATE TRIGGER trg_role_templates_updated_at BEFORE UPDATE ON "role_templates"
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    REVOKE INSERT, UPDATE, DELETE ON "role_templates" FROM sme_app;
+    GRANT SELECT ON "role_templates" TO sme_app;
+  END IF;
+END $$;
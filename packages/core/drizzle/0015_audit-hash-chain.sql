@@ -0,0 +1,124 @@
+-- ============================================
+-- Migration: Tamper-evident audit log
+-- - audit_logs gains a per-tenant sequence number and a SHA-256 hash chain:
+--   each row's hash covers its own content plus the previous row's hash
+-- - a BEFORE INSERT trigger assigns seq/prev_hash/hash under a per-tenant
+--   advisory lock, so every insert path (single, batch, raw SQL) is chained
+-- - existing rows are backfilled in created_at order
+-- - UPDATE and TRUNCATE are rejected; DELETE only when the tenant itself is
+--   being deleted (FK cascade). sme_app loses UPDATE/DELETE outright
+-- - user_id no longer nulls out on user delete (that would rewrite hashed
+--   rows); users with audit history are deactivated instead
+-- ============================================
+
+ALTER TABLE "audit_logs" ADD COLUMN "seq" bigint DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "prev_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "hash" varchar(64) DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "audit_logs" DROP CONSTRAINT "audit_logs_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Canonical hash of one entry. jsonb text output and UTC timestamps keep it
+-- independent of session settings (DateStyle, TimeZone).
+CREATE OR REPLACE FUNCTION audit_log_hash(
+  p_prev_hash varchar,
+  p_seq bigint,
+  p_id uuid,
+  p_tenant_id uuid,
+  p_user_id uuid,
+  p_action varchar,
+  p_resource_type varchar,
+  p_resource_id uuid,
+  p_changes jsonb,
+  p_ip_address inet,
+  p_created_at timestamptz
+) RETURNS varchar
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(jsonb_build_array(
+    p_prev_hash, p_seq, p_id, p_tenant_id, p_user_id, p_action,
+    p_resource_type, p_resource_id, p_changes, p_ip_address::text,
+    p_created_at AT TIME ZONE 'UTC'
+  )::text, 'UTF8')), 'hex')::varchar
+$$;
+--> statement-breakpoint
+-- Backfill: chain existing rows per tenant in created_at order
+DO $$
+DECLARE
+  r RECORD;
+  v_tenant uuid := NULL;
+  v_seq bigint := 0;
+  v_prev varchar := NULL;
+  v_hash varchar;
+BEGIN
+  FOR r IN SELECT * FROM "audit_logs" ORDER BY tenant_id, created_at, id LOOP
+    IF v_tenant IS DISTINCT FROM r.tenant_id THEN
+      v_tenant := r.tenant_id;
+      v_seq := 0;
+      v_prev := NULL;
+    END IF;
+    v_seq := v_seq + 1;
+    v_hash := audit_log_hash(v_prev, v_seq, r.id, r.tenant_id, r.user_id, r.action,
+      r.resource_type, r.resource_id, r.changes, r.ip_address, r.created_at);
+    UPDATE "audit_logs" SET seq = v_seq, prev_hash = v_prev, hash = v_hash WHERE id = r.id;
+    v_prev := v_hash;
+  END LOOP;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_audit_tenant_seq" ON "audit_logs" USING btree ("tenant_id", "seq");--> statement-breakpoint
+-- SECURITY DEFINER: the chain head must be read across RLS context
+CREATE OR REPLACE FUNCTION audit_logs_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_seq bigint;
+  v_prev varchar;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended('audit_logs:' || NEW.tenant_id::text, 0));
+
+  SELECT seq, hash INTO v_seq, v_prev
+  FROM audit_logs
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.seq := COALESCE(v_seq, 0) + 1;
+  NEW.prev_hash := v_prev;
+  NEW.hash := audit_log_hash(NEW.prev_hash, NEW.seq, NEW.id, NEW.tenant_id,
+    NEW.user_id, NEW.action, NEW.resource_type, NEW.resource_id, NEW.changes,
+    NEW.ip_address, NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+--> statement-breakpoint
+CREATE TRIGGER trg_audit_logs_chain
+  BEFORE INSERT ON "audit_logs"
+  FOR EACH ROW EXECUTE FUNCTION audit_logs_chain();--> statement-breakpoint
+CREATE OR REPLACE FUNCTION audit_logs_forbid_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Deleting the tenant cascades to its whole chain — allowed
+  IF TG_OP = 'DELETE' THEN
+    IF NOT EXISTS (SELECT 1 FROM tenants WHERE id = OLD.tenant_id) THEN
+      RETURN OLD;
+    END IF;
+  END IF;
+  RAISE EXCEPTION 'audit_logs is append-only (% rejected)', TG_OP
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+--> statement-breakpoint
+CREATE TRIGGER trg_audit_logs_forbid_mutation
+  BEFORE UPDATE OR DELETE ON "audit_logs"
+  FOR EACH ROW EXECUTE FUNCTION audit_logs_forbid_mutation();--> statement-breakpoint
+CREATE TRIGGER trg_audit_logs_forbid_truncate
+  BEFORE TRUNCATE ON "audit_logs"
+  FOR EACH STATEMENT EXECUTE FUNCTION audit_logs_forbid_mutation();--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    REVOKE UPDATE, DELETE, TRUNCATE ON "audit_logs" FROM sme_app;
+    GRANT SELECT, INSERT ON "audit_logs" TO sme_app;
+  END IF;
+END $$;
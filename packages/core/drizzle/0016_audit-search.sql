@@ -0,0 +1,11 @@
+-- ============================================
+-- Migration: Audit log search
+-- - idx_audit_tenant_date gains id so (created_at, id) keyset pages are
+--   served from the index
+-- - GIN index for full-text search over keys and values in `changes`
+--   (expression must match changesSearchVector in src/audit/index.ts)
+-- ============================================
+
+DROP INDEX IF EXISTS "idx_audit_tenant_date";--> statement-breakpoint
+CREATE INDEX "idx_audit_tenant_date" ON "audit_logs" USING btree ("tenant_id", "created_at", "id");--> statement-breakpoint
+CREATE INDEX "idx_audit_changes_search" ON "audit_logs" USING gin (jsonb_to_tsvector('simple'::regconfig, "changes", '["string","numeric","key"]'::jsonb));
@@ -0,0 +1,115 @@
+-- ============================================
+-- Migration: Audit retention archives
+-- - audit_log_archives: gzipped NDJSON files holding audit entries past the
+--   tenant's retention period (TenantSettings.auditRetentionDays)
+-- - audit_logs DELETE is now also allowed for entries covered by an archive
+--   (never as sme_app); anything else is still rejected
+-- - the chain trigger no longer needs SECURITY DEFINER (inserts as sme_app
+--   are limited to the current tenant, whose rows RLS shows) and keeps an
+--   entry's original seq/hash when restoring from an archive
+--   (app.audit_restore = 'on', never as sme_app, hash must verify)
+-- ============================================
+
+CREATE TABLE "audit_log_archives" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"period" varchar(7) NOT NULL,
+	"path" text NOT NULL,
+	"entry_count" integer NOT NULL,
+	"first_seq" bigint NOT NULL,
+	"last_seq" bigint NOT NULL,
+	"first_prev_hash" varchar(64),
+	"last_hash" varchar(64) NOT NULL,
+	"file_sha256" varchar(64) NOT NULL,
+	"size_bytes" bigint NOT NULL,
+	"restored_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_log_archives" ADD CONSTRAINT "audit_log_archives_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_audit_archives_tenant_seq" ON "audit_log_archives" USING btree ("tenant_id", "last_seq");--> statement-breakpoint
+CREATE INDEX "idx_audit_archives_tenant_period" ON "audit_log_archives" USING btree ("tenant_id", "period");--> statement-breakpoint
+ALTER TABLE "audit_log_archives" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_audit_log_archives ON "audit_log_archives"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT ON "audit_log_archives" TO sme_app;
+  END IF;
+END $$;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION audit_logs_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+DECLARE
+  v_seq bigint;
+  v_prev varchar;
+  v_archived_seq bigint;
+  v_archived_hash varchar;
+BEGIN
+  IF current_setting('app.audit_restore', true) = 'on' AND current_user <> 'sme_app' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM audit_log_archives
+      WHERE tenant_id = NEW.tenant_id AND NEW.seq BETWEEN first_seq AND last_seq
+    ) OR NEW.hash IS DISTINCT FROM audit_log_hash(NEW.prev_hash, NEW.seq, NEW.id,
+      NEW.tenant_id, NEW.user_id, NEW.action, NEW.resource_type, NEW.resource_id,
+      NEW.changes, NEW.ip_address, NEW.created_at) THEN
+      RAISE EXCEPTION 'audit_logs restore rejected: entry % does not match an archive', NEW.seq
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended('audit_logs:' || NEW.tenant_id::text, 0));
+
+  SELECT seq, hash INTO v_seq, v_prev
+  FROM audit_logs
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  -- The head may have been archived away
+  SELECT last_seq, last_hash INTO v_archived_seq, v_archived_hash
+  FROM audit_log_archives
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY last_seq DESC
+  LIMIT 1;
+  IF v_archived_seq > COALESCE(v_seq, 0) THEN
+    v_seq := v_archived_seq;
+    v_prev := v_archived_hash;
+  END IF;
+
+  NEW.seq := COALESCE(v_seq, 0) + 1;
+  NEW.prev_hash := v_prev;
+  NEW.hash := audit_log_hash(NEW.prev_hash, NEW.seq, NEW.id, NEW.tenant_id,
+    NEW.user_id, NEW.action, NEW.resource_type, NEW.resource_id, NEW.changes,
+    NEW.ip_address, NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION audit_logs_forbid_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting the tenant cascades to its whole chain — allowed
+    IF NOT EXISTS (SELECT 1 FROM tenants WHERE id = OLD.tenant_id) THEN
+      RETURN OLD;
+    END IF;
+    -- Retention: the entry is safely archived
+    IF current_user <> 'sme_app' AND EXISTS (
+      SELECT 1 FROM audit_log_archives
+      WHERE tenant_id = OLD.tenant_id AND OLD.seq BETWEEN first_seq AND last_seq
+    ) THEN
+      RETURN OLD;
+    END IF;
+  END IF;
+  RAISE EXCEPTION 'audit_logs is append-only (% rejected)', TG_OP
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
@@ -0,0 +1,92 @@
+-- ============================================
+-- Migration: Audit request context
+-- - audit_logs gains request_id (one user action → many entries) and
+--   user_agent, both filled in by createAuditLog from the request scope
+-- - audit_log_hash() covers them; rows where both are null hash exactly as
+--   before, so existing chains and archives still verify
+-- ============================================
+
+ALTER TABLE "audit_logs" ADD COLUMN "request_id" varchar(64);--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "user_agent" varchar(500);--> statement-breakpoint
+CREATE INDEX "idx_audit_request" ON "audit_logs" USING btree ("tenant_id", "request_id");--> statement-breakpoint
+CREATE OR REPLACE FUNCTION audit_log_hash(
+  p_prev_hash varchar,
+  p_seq bigint,
+  p_id uuid,
+  p_tenant_id uuid,
+  p_user_id uuid,
+  p_action varchar,
+  p_resource_type varchar,
+  p_resource_id uuid,
+  p_changes jsonb,
+  p_ip_address inet,
+  p_created_at timestamptz,
+  p_request_id varchar,
+  p_user_agent varchar
+) RETURNS varchar
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to((
+    jsonb_build_array(
+      p_prev_hash, p_seq, p_id, p_tenant_id, p_user_id, p_action,
+      p_resource_type, p_resource_id, p_changes, p_ip_address::text,
+      p_created_at AT TIME ZONE 'UTC'
+    ) || CASE
+      WHEN p_request_id IS NULL AND p_user_agent IS NULL THEN '[]'::jsonb
+      ELSE jsonb_build_array(p_request_id, p_user_agent)
+    END
+  )::text, 'UTF8')), 'hex')::varchar
+$$;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION audit_logs_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+DECLARE
+  v_seq bigint;
+  v_prev varchar;
+  v_archived_seq bigint;
+  v_archived_hash varchar;
+BEGIN
+  IF current_setting('app.audit_restore', true) = 'on' AND current_user <> 'sme_app' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM audit_log_archives
+      WHERE tenant_id = NEW.tenant_id AND NEW.seq BETWEEN first_seq AND last_seq
+    ) OR NEW.hash IS DISTINCT FROM audit_log_hash(NEW.prev_hash, NEW.seq, NEW.id,
+      NEW.tenant_id, NEW.user_id, NEW.action, NEW.resource_type, NEW.resource_id,
+      NEW.changes, NEW.ip_address, NEW.created_at, NEW.request_id, NEW.user_agent) THEN
+      RAISE EXCEPTION 'audit_logs restore rejected: entry % does not match an archive', NEW.seq
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended('audit_logs:' || NEW.tenant_id::text, 0));
+
+  SELECT seq, hash INTO v_seq, v_prev
+  FROM audit_logs
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  -- The head may have been archived away
+  SELECT last_seq, last_hash INTO v_archived_seq, v_archived_hash
+  FROM audit_log_archives
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY last_seq DESC
+  LIMIT 1;
+  IF v_archived_seq > COALESCE(v_seq, 0) THEN
+    v_seq := v_archived_seq;
+    v_prev := v_archived_hash;
+  END IF;
+
+  NEW.seq := COALESCE(v_seq, 0) + 1;
+  NEW.prev_hash := v_prev;
+  NEW.hash := audit_log_hash(NEW.prev_hash, NEW.seq, NEW.id, NEW.tenant_id,
+    NEW.user_id, NEW.action, NEW.resource_type, NEW.resource_id, NEW.changes,
+    NEW.ip_address, NEW.created_at, NEW.request_id, NEW.user_agent);
+  RETURN NEW;
+END;
+$$;
+--> statement-breakpoint
+DROP FUNCTION audit_log_hash(varchar, bigint, uuid, uuid, uuid, varchar, varchar, uuid, jsonb, inet, timestamptz);
@@ -0,0 +1,102 @@
+-- ============================================
+-- Migration: Super-admin impersonation
+-- - sessions.impersonator_id: the super admin acting as sessions.user_id;
+--   such sessions are short-lived and read_only unless writes were allowed
+-- - audit_logs.impersonator_id records the admin behind every entry written
+--   during one, alongside user_id. audit_log_hash() covers it; entries
+--   without it hash exactly as before
+-- ============================================
+
+ALTER TABLE "sessions" ADD COLUMN "impersonator_id" uuid;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "read_only" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_impersonator_id_users_id_fk" FOREIGN KEY ("impersonator_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_sessions_impersonator" ON "sessions" USING btree ("impersonator_id");--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "impersonator_id" uuid;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_impersonator_id_users_id_fk" FOREIGN KEY ("impersonator_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE OR REPLACE FUNCTION audit_log_hash(
+  p_prev_hash varchar,
+  p_seq bigint,
+  p_id uuid,
+  p_tenant_id uuid,
+  p_user_id uuid,
+  p_action varchar,
+  p_resource_type varchar,
+  p_resource_id uuid,
+  p_changes jsonb,
+  p_ip_address inet,
+  p_created_at timestamptz,
+  p_request_id varchar,
+  p_user_agent varchar,
+  p_impersonator_id uuid
+) RETURNS varchar
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to((
+    jsonb_build_array(
+      p_prev_hash, p_seq, p_id, p_tenant_id, p_user_id, p_action,
+      p_resource_type, p_resource_id, p_changes, p_ip_address::text,
+      p_created_at AT TIME ZONE 'UTC'
+    ) || CASE
+      WHEN p_impersonator_id IS NOT NULL
+        THEN jsonb_build_array(p_request_id, p_user_agent, p_impersonator_id)
+      WHEN p_request_id IS NOT NULL OR p_user_agent IS NOT NULL
+        THEN jsonb_build_array(p_request_id, p_user_agent)
+      ELSE '[]'::jsonb
+    END
+  )::text, 'UTF8')), 'hex')::varchar
+$$;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION audit_logs_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+DECLARE
+  v_seq bigint;
+  v_prev varchar;
+  v_archived_seq bigint;
+  v_archived_hash varchar;
+BEGIN
+  IF current_setting('app.audit_restore', true) = 'on' AND current_user <> 'sme_app' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM audit_log_archives
+      WHERE tenant_id = NEW.tenant_id AND NEW.seq BETWEEN first_seq AND last_seq
+    ) OR NEW.hash IS DISTINCT FROM audit_log_hash(NEW.prev_hash, NEW.seq, NEW.id,
+      NEW.tenant_id, NEW.user_id, NEW.action, NEW.resource_type, NEW.resource_id,
+      NEW.changes, NEW.ip_address, NEW.created_at, NEW.request_id, NEW.user_agent,
+      NEW.impersonator_id) THEN
+      RAISE EXCEPTION 'audit_logs restore rejected: entry % does not match an archive', NEW.seq
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended('audit_logs:' || NEW.tenant_id::text, 0));
+
+  SELECT seq, hash INTO v_seq, v_prev
+  FROM audit_logs
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  -- The head may have been archived away
+  SELECT last_seq, last_hash INTO v_archived_seq, v_archived_hash
+  FROM audit_log_archives
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY last_seq DESC
+  LIMIT 1;
+  IF v_archived_seq > COALESCE(v_seq, 0) THEN
+    v_seq := v_archived_seq;
+    v_prev := v_archived_hash;
+  END IF;
+
+  NEW.seq := COALESCE(v_seq, 0) + 1;
+  NEW.prev_hash := v_prev;
+  NEW.hash := audit_log_hash(NEW.prev_hash, NEW.seq, NEW.id, NEW.tenant_id,
+    NEW.user_id, NEW.action, NEW.resource_type, NEW.resource_id, NEW.changes,
+    NEW.ip_address, NEW.created_at, NEW.request_id, NEW.user_agent,
+    NEW.impersonator_id);
+  RETURN NEW;
+END;
+$$;
+--> statement-breakpoint
+DROP FUNCTION audit_log_hash(varchar, bigint, uuid, uuid, uuid, varchar, varchar, uuid, jsonb, inet, timestamptz, varchar, varchar);
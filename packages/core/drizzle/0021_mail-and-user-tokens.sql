@@ -0,0 +1,47 @@
+-- ============================================
+-- Migration: Password reset, email verification and the mail outbox
+-- - user_tokens: hashed single-use tokens mailed to users (password reset,
+--   email verification); spent tokens are kept until they expire
+-- - mail_outbox: queued outgoing mail, sent by the mail worker with retries
+--   (one row per message doubles as the send log)
+-- ============================================
+
+CREATE TABLE "user_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"purpose" varchar(30) NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"used_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "user_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "mail_outbox" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid,
+	"to" varchar(255) NOT NULL,
+	"subject" varchar(500) NOT NULL,
+	"text" text NOT NULL,
+	"html" text,
+	"template" varchar(50),
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_error" text,
+	"sent_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_tokens" ADD CONSTRAINT "user_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mail_outbox" ADD CONSTRAINT "mail_outbox_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_user_tokens_user" ON "user_tokens" USING btree ("user_id", "purpose");--> statement-breakpoint
+CREATE INDEX "idx_user_tokens_expires" ON "user_tokens" USING btree ("expires_at");--> statement-breakpoint
+CREATE INDEX "idx_mail_outbox_pending" ON "mail_outbox" USING btree ("status", "next_attempt_at");--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT, INSERT ON "user_tokens" TO sme_app;
+    GRANT INSERT ON "mail_outbox" TO sme_app;
+  END IF;
+END $$;
@@ -0,0 +1,44 @@
+-- ============================================
+-- Migration: Tenant invitations
+-- - tenant_invitations: pending invites with role, inviter, expiry and a
+--   hashed token; the membership is only created when the invitee accepts
+-- - At most one pending invitation per email per tenant
+-- ============================================
+
+CREATE TABLE "tenant_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"full_name" varchar(255) NOT NULL,
+	"role_id" uuid NOT NULL,
+	"pin_hash" text,
+	"invited_by" uuid,
+	"token_hash" text NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"accepted_by" uuid,
+	"accepted_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "tenant_invitations_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "tenant_invitations" ADD CONSTRAINT "tenant_invitations_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenant_invitations" ADD CONSTRAINT "tenant_invitations_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "public"."roles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenant_invitations" ADD CONSTRAINT "tenant_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenant_invitations" ADD CONSTRAINT "tenant_invitations_accepted_by_users_id_fk" FOREIGN KEY ("accepted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_tenant_invitations_tenant" ON "tenant_invitations" USING btree ("tenant_id", "status");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_tenant_invitations_pending_email" ON "tenant_invitations" USING btree ("tenant_id", "email") WHERE "status" = 'pending';--> statement-breakpoint
+CREATE TRIGGER trg_tenant_invitations_updated_at BEFORE UPDATE ON "tenant_invitations"
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();--> statement-breakpoint
+ALTER TABLE "tenant_invitations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_tenant_invitations ON "tenant_invitations"
+  USING (tenant_id = current_setting('app.current_tenant_id', true)::UUID)
+  WITH CHECK (tenant_id = current_setting('app.current_tenant_id', true)::UUID);--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "tenant_invitations" TO sme_app;
+  END IF;
+END $$;
@@ -0,0 +1,38 @@
+-- ============================================
+-- Migration: OpenID Connect login
+-- - user_identities: provider accounts (issuer subject) linked to users
+-- - oidc_auth_requests: in-flight authorization requests — state (hashed),
+--   nonce and PKCE verifier, kept until the callback or expiry
+-- - mfa_challenges.auth_method: how the first factor was given, so the
+--   session created after the code carries it
+-- ============================================
+
+CREATE TABLE "user_identities" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"provider" varchar(50) NOT NULL,
+	"subject" varchar(255) NOT NULL,
+	"email" varchar(255),
+	"last_login_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "oidc_auth_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"state_hash" text NOT NULL,
+	"provider" varchar(50) NOT NULL,
+	"nonce" text NOT NULL,
+	"code_verifier" text NOT NULL,
+	"link_user_id" uuid,
+	"return_to" text,
+	"expires_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "oidc_auth_requests_state_hash_unique" UNIQUE("state_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "mfa_challenges" ADD COLUMN "auth_method" varchar(20) DEFAULT 'password' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_identities" ADD CONSTRAINT "user_identities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "oidc_auth_requests" ADD CONSTRAINT "oidc_auth_requests_link_user_id_users_id_fk" FOREIGN KEY ("link_user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_user_identities_provider_subject" ON "user_identities" USING btree ("provider", "subject");--> statement-breakpoint
+CREATE INDEX "idx_user_identities_user" ON "user_identities" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_oidc_auth_requests_expires" ON "oidc_auth_requests" USING btree ("expires_at");
@@ -0,0 +1,137 @@
+-- ============================================
+-- Migration: Tenant API keys
+-- - api_keys: hashed bearer keys for machine-to-machine access, acting as
+--   their creator with a subset of the creator's permissions; key_prefix is
+--   the non-secret part shown to identify a key
+-- - audit_logs.api_key_id records the key behind every entry written with
+--   it, alongside user_id. audit_log_hash() covers it; entries without it
+--   hash exactly as before
+-- ============================================
+
+CREATE TABLE "api_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"key_prefix" varchar(20) NOT NULL,
+	"key_hash" text NOT NULL,
+	"permissions" text[] DEFAULT '{}' NOT NULL,
+	"created_by" uuid NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"last_used_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"revoked_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "api_keys_key_prefix_unique" UNIQUE("key_prefix"),
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_revoked_by_users_id_fk" FOREIGN KEY ("revoked_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_api_keys_tenant" ON "api_keys" USING btree ("tenant_id");--> statement-breakpoint
+CREATE TRIGGER trg_api_keys_updated_at BEFORE UPDATE ON "api_keys"
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();--> statement-breakpoint
+ALTER TABLE "api_keys" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_api_keys ON "api_keys"
+  USING (tenant_id = current_setting('app.current_tenant_id', true)::UUID)
+  WITH CHECK (tenant_id = current_setting('app.current_tenant_id', true)::UUID);--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT, INSERT, UPDATE ON "api_keys" TO sme_app;
+  END IF;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "api_key_id" uuid;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE OR REPLACE FUNCTION audit_log_hash(
+  p_prev_hash varchar,
+  p_seq bigint,
+  p_id uuid,
+  p_tenant_id uuid,
+  p_user_id uuid,
+  p_action varchar,
+  p_resource_type varchar,
+  p_resource_id uuid,
+  p_changes jsonb,
+  p_ip_address inet,
+  p_created_at timestamptz,
+  p_request_id varchar,
+  p_user_agent varchar,
+  p_impersonator_id uuid,
+  p_api_key_id uuid
+) RETURNS varchar
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to((
+    jsonb_build_array(
+      p_prev_hash, p_seq, p_id, p_tenant_id, p_user_id, p_action,
+      p_resource_type, p_resource_id, p_changes, p_ip_address::text,
+      p_created_at AT TIME ZONE 'UTC'
+    ) || CASE
+      WHEN p_api_key_id IS NOT NULL
+        THEN jsonb_build_array(p_request_id, p_user_agent, p_impersonator_id, p_api_key_id)
+      WHEN p_impersonator_id IS NOT NULL
+        THEN jsonb_build_array(p_request_id, p_user_agent, p_impersonator_id)
+      WHEN p_request_id IS NOT NULL OR p_user_agent IS NOT NULL
+        THEN jsonb_build_array(p_request_id, p_user_agent)
+      ELSE '[]'::jsonb
+    END
+  )::text, 'UTF8')), 'hex')::varchar
+$$;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION audit_logs_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+DECLARE
+  v_seq bigint;
+  v_prev varchar;
+  v_archived_seq bigint;
+  v_archived_hash varchar;
+BEGIN
+  IF current_setting('app.audit_restore', true) = 'on' AND current_user <> 'sme_app' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM audit_log_archives
+      WHERE tenant_id = NEW.tenant_id AND NEW.seq BETWEEN first_seq AND last_seq
+    ) OR NEW.hash IS DISTINCT FROM audit_log_hash(NEW.prev_hash, NEW.seq, NEW.id,
+      NEW.tenant_id, NEW.user_id, NEW.action, NEW.resource_type, NEW.resource_id,
+      NEW.changes, NEW.ip_address, NEW.created_at, NEW.request_id, NEW.user_agent,
+      NEW.impersonator_id, NEW.api_key_id) THEN
+      RAISE EXCEPTION 'audit_logs restore rejected: entry % does not match an archive', NEW.seq
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended('audit_logs:' || NEW.tenant_id::text, 0));
+
+  SELECT seq, hash INTO v_seq, v_prev
+  FROM audit_logs
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  -- The head may have been archived away
+  SELECT last_seq, last_hash INTO v_archived_seq, v_archived_hash
+  FROM audit_log_archives
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY last_seq DESC
+  LIMIT 1;
+  IF v_archived_seq > COALESCE(v_seq, 0) THEN
+    v_seq := v_archived_seq;
+    v_prev := v_archived_hash;
+  END IF;
+
+  NEW.seq := COALESCE(v_seq, 0) + 1;
+  NEW.prev_hash := v_prev;
+  NEW.hash := audit_log_hash(NEW.prev_hash, NEW.seq, NEW.id, NEW.tenant_id,
+    NEW.user_id, NEW.action, NEW.resource_type, NEW.resource_id, NEW.changes,
+    NEW.ip_address, NEW.created_at, NEW.request_id, NEW.user_agent,
+    NEW.impersonator_id, NEW.api_key_id);
+  RETURN NEW;
+END;
+$$;
+--> statement-breakpoint
+DROP FUNCTION audit_log_hash(varchar, bigint, uuid, uuid, uuid, varchar, varchar, uuid, jsonb, inet, timestamptz, varchar, varchar, uuid);
@@ -0,0 +1,9 @@
+-- ============================================
+-- Migration: Stop storing webhook response bodies
+-- - The delivery log kept the first 1,000 characters of each response,
+--   which let an endpoint pointed at an internal address read it back.
+--   Only response_status is kept now; existing bodies are dropped with
+--   the column
+-- ============================================
+
+ALTER TABLE "webhook_deliveries" DROP COLUMN "response_body";
@@ -0,0 +1,16 @@
+-- ============================================
+-- Migration: Default sme_app privileges
+-- - 0011 creates sme_app and grants the tables that existed then; core
+--   migrations since grant their own tables, but module migrations run on
+--   enable and never did, so their tables were unusable by tenant requests
+-- - tables the migrating role creates from now on are granted to sme_app by
+--   default; tables that need narrower access revoke it in their own migration
+-- ============================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO sme_app;
+    ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT USAGE, SELECT ON SEQUENCES TO sme_app;
+  END IF;
+END $$;
@@ -0,0 +1,16 @@
+-- ============================================
+-- Migration: Tenant role can only insert into mail_outbox
+-- - the outbox has no RLS and holds every tenant's mail (reset links
+--   included), so sme_app gets INSERT only, as 0021 intended; databases
+--   set up with scripts/init-db.sql also got SELECT/UPDATE/DELETE through
+--   its default privileges
+-- - queueMail() no longer needs RETURNING (it generates the row ID)
+-- ============================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    REVOKE SELECT, UPDATE, DELETE, TRUNCATE ON "mail_outbox" FROM sme_app;
+    GRANT INSERT ON "mail_outbox" TO sme_app;
+  END IF;
+END $$;
@@ -0,0 +1,36 @@
+-- ============================================
+-- Migration: Verified SSO domains
+-- - tenant_sso_domains replaces settings.ssoAllowedDomains: a tenant lists
+--   a domain, proves it controls it with a DNS TXT record, and only then do
+--   the domain's users join it on SSO sign-in
+-- - domains already in settings are carried over unverified, so they stop
+--   provisioning until their tenant verifies them
+-- ============================================
+
+CREATE TABLE "tenant_sso_domains" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"domain" varchar(255) NOT NULL,
+	"verification_token" text NOT NULL,
+	"verified_at" timestamp with time zone,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tenant_sso_domains" ADD CONSTRAINT "tenant_sso_domains_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenant_sso_domains" ADD CONSTRAINT "tenant_sso_domains_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_tenant_sso_domains_tenant_domain" ON "tenant_sso_domains" USING btree ("tenant_id", "domain");--> statement-breakpoint
+ALTER TABLE "tenant_sso_domains" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_tenant_sso_domains ON "tenant_sso_domains"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);--> statement-breakpoint
+INSERT INTO "tenant_sso_domains" ("tenant_id", "domain", "verification_token")
+SELECT DISTINCT t.id, lower(d.domain), replace(gen_random_uuid()::text, '-', '')
+FROM "tenants" t
+CROSS JOIN LATERAL jsonb_array_elements_text(
+  CASE WHEN jsonb_typeof(t.settings -> 'ssoAllowedDomains') = 'array'
+    THEN t.settings -> 'ssoAllowedDomains' ELSE '[]'::jsonb END
+) AS d(domain)
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+UPDATE "tenants" SET "settings" = "settings" - 'ssoAllowedDomains'
+WHERE "settings" ? 'ssoAllowedDomains';
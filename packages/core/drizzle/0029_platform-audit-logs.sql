@@ -0,0 +1,47 @@
+-- ============================================
+-- Migration: Platform audit log
+-- - platform_audit_logs records super-admin changes that belong to no
+--   tenant (plans, role templates), which audit_logs can't hold: its
+--   entries are chained per tenant
+-- - append-only like audit_logs; only the platform connection reads or
+--   writes it, so sme_app gets no privileges
+-- ============================================
+
+CREATE TABLE "platform_audit_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"action" varchar(100) NOT NULL,
+	"resource_type" varchar(50),
+	"resource_id" uuid,
+	"changes" jsonb,
+	"ip_address" "inet",
+	"request_id" varchar(64),
+	"user_agent" varchar(500),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "platform_audit_logs" ADD CONSTRAINT "platform_audit_logs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_platform_audit_date" ON "platform_audit_logs" USING btree ("created_at", "id");--> statement-breakpoint
+CREATE INDEX "idx_platform_audit_resource" ON "platform_audit_logs" USING btree ("resource_type", "resource_id");--> statement-breakpoint
+CREATE OR REPLACE FUNCTION platform_audit_logs_forbid_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'platform_audit_logs is append-only (% rejected)', TG_OP
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+--> statement-breakpoint
+CREATE TRIGGER trg_platform_audit_logs_forbid_mutation
+  BEFORE UPDATE OR DELETE ON "platform_audit_logs"
+  FOR EACH ROW EXECUTE FUNCTION platform_audit_logs_forbid_mutation();--> statement-breakpoint
+CREATE TRIGGER trg_platform_audit_logs_forbid_truncate
+  BEFORE TRUNCATE ON "platform_audit_logs"
+  FOR EACH STATEMENT EXECUTE FUNCTION platform_audit_logs_forbid_mutation();--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    REVOKE ALL ON "platform_audit_logs" FROM sme_app;
+  END IF;
+END $$;
@@ -0,0 +1,543 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, stat } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { createInterface } from "node:readline";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { createGzip, createGunzip } from "node:zlib";
+import path from "node:path";
+import { eq, and, gt, gte, lt, lte, asc, desc, isNotNull, sql } from "drizzle-orm";
+import type { TenantSettings } from "@sme/shared";
+import { adminDb, type Database, type Transaction } from "../db/index";
+import { auditLogs, auditLogArchives, tenants } from "../db/schema/index";
+import type { AuditLogArchive } from "../db/schema/index";
+import { createAuditLog } from "./index";
+
+// ============================================
+// Audit Archives — retention for audit_logs
+// ============================================
+// Entries older than the tenant's auditRetentionDays are moved, one UTC
+// month at a time, into gzipped NDJSON files under AUDIT_ARCHIVE_DIR
+// (default ./.data/audit-archives): a header line, one line per entry, a
+// footer line. Each archive covers a contiguous seq range, so the hash chain
+// continues across archives and the hot table; the database only lets an
+// entry be deleted once an archive covering it is recorded.
+//
+// Entry lines are produced by Postgres (jsonb text, UTC timestamps with
+// microseconds) and fed back to it verbatim when verifying or restoring, so
+// audit_log_hash() sees exactly the values it hashed on insert.
+// ============================================
+
+const ARCHIVE_FORMAT = "sme-audit-archive";
+const ARCHIVE_FORMAT_VERSION = 1;
+const BATCH_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AuditArchiveBreakReason =
+  | "file_modified"
+  | "entry_count_mismatch"
+  | "sequence_gap"
+  | "prev_hash_mismatch"
+  | "hash_mismatch";
+
+export interface AuditArchiveVerification {
+  valid: boolean;
+  /** Entries read from the file */
+  checked: number;
+  /** File SHA-256 matches the one recorded at archive time */
+  fileIntact: boolean;
+  firstBroken: { seq: number | null; reason: AuditArchiveBreakReason } | null;
+}
+
+export interface AuditRetentionResult {
+  tenantId: string;
+  archived: { period: string; entryCount: number }[];
+  /** Restored entries removed again from audit_logs */
+  repurged: number;
+}
+
+function getArchiveDir(): string {
+  return path.resolve(
+    process.env.AUDIT_ARCHIVE_DIR ?? path.join(".data", "audit-archives")
+  );
+}
+
+function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function addUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/** Entry as written to the archive — built in SQL, see the header note */
+const entryLine = sql<string>`jsonb_build_object(
+  'type', 'entry',
+  'id', ${auditLogs.id},
+  'seq', ${auditLogs.seq},
+  'tenantId', ${auditLogs.tenantId},
+  'userId', ${auditLogs.userId},
+  'action', ${auditLogs.action},
+  'resourceType', ${auditLogs.resourceType},
+  'resourceId', ${auditLogs.resourceId},
+  'changes', ${auditLogs.changes},
+  'ipAddress', ${auditLogs.ipAddress}::text,
+  'requestId', ${auditLogs.requestId},
+  'userAgent', ${auditLogs.userAgent},
+  'impersonatorId', ${auditLogs.impersonatorId},
+  'apiKeyId', ${auditLogs.apiKeyId},
+  'createdAt', to_char(${auditLogs.createdAt} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+  'prevHash', ${auditLogs.prevHash},
+  'hash', ${auditLogs.hash}
+)::text`;
+
+/** Column expressions over `e`, one archived entry as jsonb */
+const ENTRY_COLUMNS = sql.raw(`(e->>'id')::uuid, (e->>'tenantId')::uuid,
+  (e->>'userId')::uuid, e->>'action', e->>'resourceType',
+  (e->>'resourceId')::uuid, NULLIF(e->'changes', 'null'::jsonb),
+  (e->>'ipAddress')::inet, (e->>'createdAt')::timestamptz,
+  (e->>'seq')::bigint, e->>'prevHash', e->>'hash',
+  e->>'requestId', e->>'userAgent', (e->>'impersonatorId')::uuid,
+  (e->>'apiKeyId')::uuid`);
+
+async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+async function* readArchiveLines(filePath: string): AsyncGenerator<string> {
+  const input = createReadStream(filePath);
+  const gunzip = createGunzip();
+  input.on("error", (err) => gunzip.destroy(err));
+  const lines = createInterface({ input: input.pipe(gunzip), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line) yield line;
+  }
+}
+
+/** Entry lines of an archive in batches, plus the parsed footer */
+async function* readArchiveEntries(
+  filePath: string
+): AsyncGenerator<{ lines: string[]; footer?: { entryCount: number } }> {
+  let batch: string[] = [];
+  for await (const line of readArchiveLines(filePath)) {
+    const record = JSON.parse(line) as { type: string; entryCount?: number };
+    if (record.type === "entry") {
+      // Keep the raw line — Postgres re-reads it, see the header note
+      batch.push(line);
+      if (batch.length >= BATCH_SIZE) {
+        yield { lines: batch };
+        batch = [];
+      }
+    } else if (record.type === "footer") {
+      yield { lines: batch, footer: { entryCount: record.entryCount ?? -1 } };
+      return;
+    }
+  }
+  yield { lines: batch };
+}
+
+async function getArchive(
+  archiveId: string,
+  database: Database | Transaction
+): Promise<AuditLogArchive> {
+  const [archive] = await database
+    .select()
+    .from(auditLogArchives)
+    .where(eq(auditLogArchives.id, archiveId))
+    .limit(1);
+  if (!archive) throw new Error("Audit archive not found");
+  return archive;
+}
+
+/**
+ * Write the tenant's entries in [firstSeq, lastSeq] to a new archive file.
+ * The name is derived from the range, so a retry after a crash overwrites
+ * the orphaned file instead of adding a second one.
+ */
+async function writeArchiveFile(
+  tenantId: string,
+  period: string,
+  firstSeq: number,
+  lastSeq: number,
+  database: Database | Transaction
+): Promise<{ filePath: string; entryCount: number }> {
+  const dir = path.join(getArchiveDir(), tenantId);
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, `audit-${period}-${firstSeq}-${lastSeq}.ndjson.gz`);
+
+  let entryCount = 0;
+  async function* lines() {
+    yield JSON.stringify({
+      type: "header",
+      format: ARCHIVE_FORMAT,
+      formatVersion: ARCHIVE_FORMAT_VERSION,
+      tenantId,
+      period,
+      firstSeq,
+      lastSeq,
+      createdAt: new Date().toISOString(),
+    }) + "\n";
+
+    let after = firstSeq - 1;
+    for (;;) {
+      const rows = await database
+        .select({ seq: auditLogs.seq, line: entryLine })
+        .from(auditLogs)
+        .where(
+          and(
+            eq(auditLogs.tenantId, tenantId),
+            gt(auditLogs.seq, after),
+            lte(auditLogs.seq, lastSeq)
+          )
+        )
+        .orderBy(asc(auditLogs.seq))
+        .limit(BATCH_SIZE);
+      if (rows.length === 0) break;
+
+      entryCount += rows.length;
+      after = rows[rows.length - 1]!.seq;
+      yield rows.map((row) => row.line + "\n").join("");
+    }
+
+    yield JSON.stringify({ type: "footer", entryCount }) + "\n";
+  }
+
+  await pipeline(Readable.from(lines()), createGzip(), createWriteStream(filePath));
+  return { filePath, entryCount };
+}
+
+/**
+ * Move the tenant's audit entries past the retention period into monthly
+ * archives (whole UTC months only), and remove restored entries that are
+ * past it again. Safe to re-run.
+ *
+ * Months are cut on seq, not created_at: an archive holds every entry from
+ * the previous archive's last seq up to the month's last entry, so an entry
+ * committed across midnight may land in the neighbouring month's file.
+ */
+export async function archiveExpiredAuditLogs(
+  tenantId: string,
+  retentionDays: number,
+  now: Date = new Date(),
+  database: Database | Transaction = adminDb
+): Promise<AuditRetentionResult> {
+  const cutoff = startOfUtcMonth(new Date(now.getTime() - retentionDays * DAY_MS));
+  const cutoffPeriod = cutoff.toISOString().slice(0, 7);
+  const result: AuditRetentionResult = { tenantId, archived: [], repurged: 0 };
+
+  // Restored archives past retention — drop their entries from the hot table again
+  const restored = await database
+    .select()
+    .from(auditLogArchives)
+    .where(
+      and(
+        eq(auditLogArchives.tenantId, tenantId),
+        isNotNull(auditLogArchives.restoredAt),
+        lt(auditLogArchives.period, cutoffPeriod)
+      )
+    );
+  for (const archive of restored) {
+    result.repurged += await database.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(auditLogs)
+        .where(
+          and(
+            eq(auditLogs.tenantId, tenantId),
+            gte(auditLogs.seq, archive.firstSeq),
+            lte(auditLogs.seq, archive.lastSeq)
+          )
+        )
+        .returning({ id: auditLogs.id });
+      await tx
+        .update(auditLogArchives)
+        .set({ restoredAt: null })
+        .where(eq(auditLogArchives.id, archive.id));
+      return deleted.length;
+    });
+  }
+
+  for (;;) {
+    const [last] = await database
+      .select({ lastSeq: auditLogArchives.lastSeq })
+      .from(auditLogArchives)
+      .where(eq(auditLogArchives.tenantId, tenantId))
+      .orderBy(desc(auditLogArchives.lastSeq))
+      .limit(1);
+    const firstSeq = (last?.lastSeq ?? 0) + 1;
+
+    const [first] = await database
+      .select({
+        seq: auditLogs.seq,
+        createdAt: auditLogs.createdAt,
+        prevHash: auditLogs.prevHash,
+      })
+      .from(auditLogs)
+      .where(
+        and(
+          eq(auditLogs.tenantId, tenantId),
+          gte(auditLogs.seq, firstSeq),
+          lt(auditLogs.createdAt, cutoff)
+        )
+      )
+      .orderBy(asc(auditLogs.seq))
+      .limit(1);
+    if (!first) break;
+    if (first.seq !== firstSeq) {
+      throw new Error(
+        `Audit chain for tenant ${tenantId} is missing entries before seq ${first.seq}`
+      );
+    }
+
+    const periodStart = startOfUtcMonth(first.createdAt);
+    const periodEnd = addUtcMonth(periodStart);
+    const period = periodStart.toISOString().slice(0, 7);
+
+    const [range] = await database
+      .select({ lastSeq: sql<number>`max(${auditLogs.seq})`.mapWith(Number) })
+      .from(auditLogs)
+      .where(
+        and(
+          eq(auditLogs.tenantId, tenantId),
+          gte(auditLogs.seq, firstSeq),
+          lt(auditLogs.createdAt, periodEnd < cutoff ? periodEnd : cutoff)
+        )
+      );
+    const lastSeq = range!.lastSeq;
+
+    const [lastEntry] = await database
+      .select({ hash: auditLogs.hash })
+      .from(auditLogs)
+      .where(and(eq(auditLogs.tenantId, tenantId), eq(auditLogs.seq, lastSeq)))
+      .limit(1);
+
+    const { filePath, entryCount } = await writeArchiveFile(
+      tenantId,
+      period,
+      firstSeq,
+      lastSeq,
+      database
+    );
+    if (entryCount !== lastSeq - firstSeq + 1) {
+      throw new Error(
+        `Audit chain for tenant ${tenantId} has gaps between seq ${firstSeq} and ${lastSeq}`
+      );
+    }
+    const fileSha256 = await sha256File(filePath);
+    const { size } = await stat(filePath);
+
+    await database.transaction(async (tx) => {
+      const [archive] = await tx
+        .insert(auditLogArchives)
+        .values({
+          tenantId,
+          period,
+          path: filePath,
+          entryCount,
+          firstSeq,
+          lastSeq,
+          firstPrevHash: first.prevHash,
+          lastHash: lastEntry!.hash,
+          fileSha256,
+          sizeBytes: size,
+        })
+        .returning();
+
+      // Allowed by the audit_logs trigger now that the archive row exists
+      await tx
+        .delete(auditLogs)
+        .where(
+          and(
+            eq(auditLogs.tenantId, tenantId),
+            gte(auditLogs.seq, firstSeq),
+            lte(auditLogs.seq, lastSeq)
+          )
+        );
+
+      await createAuditLog(
+        {
+          tenantId,
+          action: "audit:archived",
+          resourceType: "audit_archive",
+          resourceId: archive!.id,
+          changes: { after: { period, entryCount, firstSeq, lastSeq } },
+        },
+        tx
+      );
+    });
+
+    result.archived.push({ period, entryCount });
+  }
+
+  return result;
+}
+
+/**
+ * Apply every tenant's retention setting. Run daily by the
+ * core:audit:retention job. A failing tenant doesn't stop the others.
+ * @throws Error listing the tenants that failed, after all were attempted
+ */
+export async function runAuditRetention(
+  database: Database | Transaction = adminDb
+): Promise<AuditRetentionResult[]> {
+  const rows = await database
+    .select({ id: tenants.id, settings: tenants.settings })
+    .from(tenants)
+    .where(sql`(${tenants.settings}->>'auditRetentionDays') IS NOT NULL`);
+
+  const results: AuditRetentionResult[] = [];
+  const failures: string[] = [];
+  for (const tenant of rows) {
+    const days = Number((tenant.settings as TenantSettings | null)?.auditRetentionDays);
+    if (!Number.isInteger(days) || days <= 0) continue;
+    try {
+      results.push(await archiveExpiredAuditLogs(tenant.id, days, new Date(), database));
+    } catch (error) {
+      failures.push(`${tenant.id}: ${(error as Error).message}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Audit retention failed for ${failures.join("; ")}`);
+  }
+  return results;
+}
+
+/**
+ * Check an archive file against its record and the hash chain: file
+ * checksum, entry count, consecutive seq, prev_hash links (including to the
+ * previous archive) and every entry's hash.
+ */
+export async function verifyAuditArchive(
+  archiveId: string,
+  database: Database | Transaction = adminDb
+): Promise<AuditArchiveVerification> {
+  const archive = await getArchive(archiveId, database);
+  const fileIntact = (await sha256File(archive.path)) === archive.fileSha256;
+
+  const [previous] = await database
+    .select({ lastHash: auditLogArchives.lastHash })
+    .from(auditLogArchives)
+    .where(
+      and(
+        eq(auditLogArchives.tenantId, archive.tenantId),
+        eq(auditLogArchives.lastSeq, archive.firstSeq - 1)
+      )
+    )
+    .limit(1);
+
+  let checked = 0;
+  let expectedSeq = archive.firstSeq;
+  let expectedPrev: string | null = previous?.lastHash ?? archive.firstPrevHash;
+  let firstBroken: AuditArchiveVerification["firstBroken"] = null;
+  let footerCount: number | null = null;
+
+  for await (const { lines, footer } of readArchiveEntries(archive.path)) {
+    if (footer) footerCount = footer.entryCount;
+    if (lines.length === 0) continue;
+
+    const hashOk = await database.execute<{ ok: boolean }>(
+      sql`SELECT e->>'hash' = audit_log_hash(e->>'prevHash', (e->>'seq')::bigint,
+            (e->>'id')::uuid, (e->>'tenantId')::uuid, (e->>'userId')::uuid,
+            e->>'action', e->>'resourceType', (e->>'resourceId')::uuid,
+            NULLIF(e->'changes', 'null'::jsonb), (e->>'ipAddress')::inet,
+            (e->>'createdAt')::timestamptz, e->>'requestId', e->>'userAgent',
+            (e->>'impersonatorId')::uuid, (e->>'apiKeyId')::uuid) AS ok
+          FROM jsonb_array_elements(${`[${lines.join(",")}]`}::jsonb) WITH ORDINALITY AS t(e, n)
+          ORDER BY n`
+    );
+
+    for (let i = 0; i < lines.length && !firstBroken; i++) {
+      const entry = JSON.parse(lines[i]!) as {
+        seq: number;
+        prevHash: string | null;
+        hash: string;
+        tenantId: string;
+      };
+      if (entry.seq !== expectedSeq || entry.tenantId !== archive.tenantId) {
+        firstBroken = { seq: entry.seq, reason: "sequence_gap" };
+      } else if (entry.prevHash !== expectedPrev) {
+        firstBroken = { seq: entry.seq, reason: "prev_hash_mismatch" };
+      } else if (!hashOk[i]?.ok) {
+        firstBroken = { seq: entry.seq, reason: "hash_mismatch" };
+      }
+      expectedSeq = entry.seq + 1;
+      expectedPrev = entry.hash;
+    }
+    checked += lines.length;
+  }
+
+  if (!firstBroken) {
+    if (checked !== archive.entryCount || footerCount !== archive.entryCount) {
+      firstBroken = { seq: null, reason: "entry_count_mismatch" };
+    } else if (expectedPrev !== archive.lastHash) {
+      firstBroken = { seq: archive.lastSeq, reason: "hash_mismatch" };
+    } else if (!fileIntact) {
+      firstBroken = { seq: null, reason: "file_modified" };
+    }
+  }
+
+  return { valid: !firstBroken, checked, fileIntact, firstBroken };
+}
+
+/**
+ * Copy an archive's entries back into audit_logs with their original seq
+ * and hashes, e.g. for an investigation. The archive must verify first.
+ * Entries already present are skipped. The next retention run removes them
+ * again if they are still past the tenant's retention period.
+ * @returns Number of entries inserted
+ */
+export async function restoreAuditArchive(
+  archiveId: string,
+  options: { userId?: string; ipAddress?: string } = {},
+  database: Database | Transaction = adminDb
+): Promise<number> {
+  const archive = await getArchive(archiveId, database);
+  const verification = await verifyAuditArchive(archiveId, database);
+  if (!verification.valid) {
+    throw new Error(
+      `Archive failed verification (${verification.firstBroken?.reason}) — not restoring`
+    );
+  }
+
+  return database.transaction(async (tx) => {
+    await tx.execute(sql`SELECT set_config('app.audit_restore', 'on', true)`);
+
+    let restored = 0;
+    for await (const { lines } of readArchiveEntries(archive.path)) {
+      if (lines.length === 0) continue;
+      const inserted = await tx.execute(
+        sql`INSERT INTO ${auditLogs} (id, tenant_id, user_id, action, resource_type,
+              resource_id, changes, ip_address, created_at, seq, prev_hash, hash,
+              request_id, user_agent, impersonator_id, api_key_id)
+            SELECT ${ENTRY_COLUMNS}
+            FROM jsonb_array_elements(${`[${lines.join(",")}]`}::jsonb) AS t(e)
+            ON CONFLICT DO NOTHING
+            RETURNING id`
+      );
+      restored += inserted.length;
+    }
+
+    await tx.execute(sql`SELECT set_config('app.audit_restore', 'off', true)`);
+    await tx
+      .update(auditLogArchives)
+      .set({ restoredAt: new Date() })
+      .where(eq(auditLogArchives.id, archive.id));
+
+    await createAuditLog(
+      {
+        tenantId: archive.tenantId,
+        userId: options.userId,
+        action: "audit:restored",
+        resourceType: "audit_archive",
+        resourceId: archive.id,
+        changes: { after: { period: archive.period, restored } },
+        ipAddress: options.ipAddress,
+      },
+      tx
+    );
+
+    return restored;
+  });
+}
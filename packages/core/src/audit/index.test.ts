@@ -0,0 +1,142 @@
+import { randomUUID } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { and, eq, sql } from "drizzle-orm";
+import { adminDb, type Transaction } from "../db/index";
+import { auditLogs, tenants } from "../db/schema/index";
+import { createAuditLog, csvField, verifyAuditChain } from "./index";
+
+describe("csvField", () => {
+  it("writes plain values as they are", () => {
+    expect(csvField("user:invited")).toBe("user:invited");
+    expect(csvField(42)).toBe("42");
+    expect(csvField(null)).toBe("");
+    expect(csvField(undefined)).toBe("");
+    expect(csvField(new Date("2024-01-02T03:04:05.000Z"))).toBe("2024-01-02T03:04:05.000Z");
+  });
+
+  it.each(["=1+1", "+1", "-1", "@SUM(A1)", "\tcmd", "\rcmd"])(
+    "neutralises %j as a formula",
+    (value) => {
+      expect(csvField(value).replace(/^"/, "").startsWith("'")).toBe(true);
+    }
+  );
+
+  it("quotes commas, quotes and line breaks", () => {
+    expect(csvField("a,b")).toBe('"a,b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField("line\nbreak")).toBe('"line\nbreak"');
+  });
+
+  it("neutralises a formula before quoting it", () => {
+    expect(csvField('=HYPERLINK("http://evil.example","x")')).toBe(
+      `"'=HYPERLINK(""http://evil.example"",""x"")"`
+    );
+  });
+
+  it("writes objects as JSON", () => {
+    expect(csvField({ after: { name: "x" } })).toBe('"{""after"":{""name"":""x""}}"');
+  });
+});
+
+// ============================================
+// Audit chain — runs against a migrated database (DATABASE_URL)
+// ============================================
+// Each test writes a short chain in a transaction that is rolled back.
+// Tampering goes around the append-only trigger with
+// session_replication_role = replica, the way someone with direct database
+// access would.
+// ============================================
+
+const ROLLBACK = Symbol("rollback");
+
+/** Run fn with a new tenant holding three audit entries, then roll back */
+async function withChain(
+  fn: (tx: Transaction, tenantId: string) => Promise<void>
+): Promise<void> {
+  await adminDb
+    .transaction(async (tx) => {
+      const [tenant] = await tx
+        .insert(tenants)
+        .values({ name: "Audit chain", slug: `audit-${randomUUID().slice(0, 8)}` })
+        .returning({ id: tenants.id });
+      for (const name of ["first", "second", "third"]) {
+        await createAuditLog(
+          { tenantId: tenant!.id, action: "test:chained", changes: { after: { name } } },
+          tx
+        );
+      }
+
+      await fn(tx, tenant!.id);
+      throw ROLLBACK;
+    })
+    .catch((error) => {
+      if (error !== ROLLBACK) throw error;
+    });
+}
+
+/** Bypass the append-only trigger for the rest of the transaction */
+async function bypassTriggers(tx: Transaction): Promise<void> {
+  await tx.execute(sql`SET LOCAL session_replication_role = replica`);
+}
+
+function entryAt(tenantId: string, seq: number) {
+  return and(eq(auditLogs.tenantId, tenantId), eq(auditLogs.seq, seq));
+}
+
+describe.skipIf(!process.env.DATABASE_URL)("verifyAuditChain", () => {
+  it("accepts an untouched chain", async () => {
+    await withChain(async (tx, tenantId) => {
+      const result = await verifyAuditChain(tenantId, tx);
+
+      expect(result).toMatchObject({ valid: true, checked: 3, firstBroken: null });
+      expect(result.head?.seq).toBe(3);
+    });
+  });
+
+  it("detects an edited entry", async () => {
+    await withChain(async (tx, tenantId) => {
+      await bypassTriggers(tx);
+      await tx
+        .update(auditLogs)
+        .set({ changes: { after: { name: "forged" } } })
+        .where(entryAt(tenantId, 2));
+
+      const result = await verifyAuditChain(tenantId, tx);
+      expect(result.valid).toBe(false);
+      expect(result.firstBroken).toMatchObject({ seq: 2, reason: "hash_mismatch" });
+    });
+  });
+
+  it("detects a deleted entry", async () => {
+    await withChain(async (tx, tenantId) => {
+      await bypassTriggers(tx);
+      await tx.delete(auditLogs).where(entryAt(tenantId, 2));
+
+      const result = await verifyAuditChain(tenantId, tx);
+      expect(result.valid).toBe(false);
+      expect(result.firstBroken).toMatchObject({ seq: 3, reason: "sequence_gap" });
+    });
+  });
+
+  it("detects an entry re-hashed over edited content", async () => {
+    await withChain(async (tx, tenantId) => {
+      // Recompute the edited entry's own hash, leaving its successor's
+      // prev_hash pointing at the original
+      await bypassTriggers(tx);
+      await tx
+        .update(auditLogs)
+        .set({ changes: { after: { name: "forged" } } })
+        .where(entryAt(tenantId, 2));
+      await tx
+        .update(auditLogs)
+        .set({
+          hash: sql`audit_log_hash(${auditLogs.prevHash}, ${auditLogs.seq}, ${auditLogs.id}, ${auditLogs.tenantId}, ${auditLogs.userId}, ${auditLogs.action}, ${auditLogs.resourceType}, ${auditLogs.resourceId}, ${auditLogs.changes}, ${auditLogs.ipAddress}, ${auditLogs.createdAt}, ${auditLogs.requestId}, ${auditLogs.userAgent}, ${auditLogs.impersonatorId}, ${auditLogs.apiKeyId})`,
+        })
+        .where(entryAt(tenantId, 2));
+
+      const result = await verifyAuditChain(tenantId, tx);
+      expect(result.valid).toBe(false);
+      expect(result.firstBroken).toMatchObject({ seq: 3, reason: "prev_hash_mismatch" });
+    });
+  });
+});
@@ -1,9 +1,40 @@
-import { adminDb, type Database } from "../db/index";
-import { auditLogs } from "../db/schema/index";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { eq, and, asc, desc, sql, or, ne, gte, lte, like } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import type { AuditLogFilterInput } from "@sme/shared";
+import {
+  adminDb,
+  withTenantTransaction,
+  type Database,
+  type Transaction,
+} from "../db/index";
+import {
+  auditLogs,
+  auditLogArchives,
+  platformAuditLogs,
+  users,
+  tenantMemberships,
+} from "../db/schema/index";
+import {
+  publishEvent,
+  isPublishedEvent,
+  type AuditEventPayload,
+} from "../events/index";
 
 // ============================================
 // Audit Logging — append-only audit trail
 // ============================================
+// Entries form a per-tenant hash chain: the database assigns each row a
+// sequence number and a SHA-256 hash over its content and the previous hash
+// (trg_audit_logs_chain), and rejects UPDATE/DELETE. verifyAuditChain()
+// recomputes the chain to detect edits or removals made around the trigger.
+//
+// Entries written while a request is handled carry its request ID and user
+// agent (see runWithAuditScope), so one user action can be traced across
+// every entry it produced — including ones written by lib functions.
+// Requests authenticated with an API key also stamp the key, with userId
+// set to the key's creator.
+// ============================================
 
 export interface AuditLogEntry {
   tenantId: string;
@@ -16,11 +47,62 @@ export interface AuditLogEntry {
     after?: Record<string, unknown>;
   };
   ipAddress?: string;
+  /** Defaults to the current audit scope's request ID */
+  requestId?: string;
+  /** Defaults to the current audit scope's user agent */
+  userAgent?: string;
+  /** Defaults to the current audit scope's impersonator */
+  impersonatorId?: string;
+  /** Defaults to the current audit scope's API key */
+  apiKeyId?: string;
+}
+
+/** Per-request context applied to every entry written inside it */
+export interface AuditScope {
+  requestId: string;
+  userAgent?: string;
+  /** Super admin impersonating the request's user, if any */
+  impersonatorId?: string;
+  /** API key the request authenticated with, if any */
+  apiKeyId?: string;
+  /** Entries written so far — the tRPC layer checks mutations wrote one */
+  entries: number;
+}
+
+const auditScope = new AsyncLocalStorage<AuditScope>();
+
+/** Run fn with every audit entry it writes stamped and counted in scope */
+export function runWithAuditScope<T>(scope: AuditScope, fn: () => T): T {
+  return auditScope.run(scope, fn);
+}
+
+/** The audit scope of the current request, if any */
+export function getAuditScope(): AuditScope | undefined {
+  return auditScope.getStore();
+}
+
+function toAuditRow(entry: AuditLogEntry, scope: AuditScope | undefined) {
+  return {
+    tenantId: entry.tenantId,
+    userId: entry.userId ?? null,
+    action: entry.action,
+    resourceType: entry.resourceType ?? null,
+    resourceId: entry.resourceId ?? null,
+    changes: entry.changes ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    requestId: entry.requestId ?? scope?.requestId ?? null,
+    userAgent: (entry.userAgent ?? scope?.userAgent)?.slice(0, 500) ?? null,
+    impersonatorId: entry.impersonatorId ?? scope?.impersonatorId ?? null,
+    apiKeyId: entry.apiKeyId ?? scope?.apiKeyId ?? null,
+  };
 }
 
 /**
  * Create an audit log entry.
- * This is append-only — audit logs are never updated or deleted.
+ * This is append-only — the database rejects updates and deletes, and
+ * chains the entry to the tenant's previous one on insert.
+ * Actions a module declares in `publishes` are also published as domain
+ * events on the same connection (see src/events/index.ts).
  *
  * @param entry - The audit log data
  * @param database - Database connection to use. Pass ctx.db from route handlers
@@ -29,37 +111,416 @@ export interface AuditLogEntry {
  */
 export async function createAuditLog(
   entry: AuditLogEntry,
-  database: Database = adminDb
+  database: Database | Transaction = adminDb
 ): Promise<void> {
-  await database.insert(auditLogs).values({
-    tenantId: entry.tenantId,
+  const scope = auditScope.getStore();
+  await database.insert(auditLogs).values(toAuditRow(entry, scope));
+  if (scope) scope.entries++;
+
+  await publishAuditEvent(entry, database);
+}
+
+/**
+ * Create multiple audit log entries in a batch.
+ */
+export async function createAuditLogBatch(
+  entries: AuditLogEntry[],
+  database: Database | Transaction = adminDb
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const scope = auditScope.getStore();
+  await database
+    .insert(auditLogs)
+    .values(entries.map((entry) => toAuditRow(entry, scope)));
+  if (scope) scope.entries += entries.length;
+
+  for (const entry of entries) {
+    await publishAuditEvent(entry, database);
+  }
+}
+
+/**
+ * Audit an account-level event (password, two-factor, email changes).
+ * Users are global, so the entry is written in every tenant the user
+ * belongs to — a user without memberships has no audit log.
+ */
+export async function createUserAuditLog(
+  entry: Omit<AuditLogEntry, "tenantId" | "userId" | "resourceType" | "resourceId"> & {
+    userId: string;
+  },
+  database: Database | Transaction = adminDb
+): Promise<void> {
+  const memberships = await database
+    .select({ tenantId: tenantMemberships.tenantId })
+    .from(tenantMemberships)
+    .where(eq(tenantMemberships.userId, entry.userId));
+
+  await createAuditLogBatch(
+    memberships.map((membership) => ({
+      ...entry,
+      tenantId: membership.tenantId,
+      resourceType: "user",
+      resourceId: entry.userId,
+    })),
+    database
+  );
+}
+
+/** A platform-wide change — the tenant-only fields don't apply */
+export type PlatformAuditLogEntry = Omit<
+  AuditLogEntry,
+  "tenantId" | "impersonatorId" | "apiKeyId"
+>;
+
+/**
+ * Audit a super-admin change that belongs to no tenant (plans, role
+ * templates) in platform_audit_logs. Append-only like createAuditLog, but
+ * not chained or published as a domain event. Counts toward the request's
+ * audit scope, so a mutation writing one needs no auditExempt.
+ */
+export async function createPlatformAuditLog(
+  entry: PlatformAuditLogEntry,
+  database: Database | Transaction = adminDb
+): Promise<void> {
+  const scope = auditScope.getStore();
+  await database.insert(platformAuditLogs).values({
     userId: entry.userId ?? null,
     action: entry.action,
     resourceType: entry.resourceType ?? null,
     resourceId: entry.resourceId ?? null,
     changes: entry.changes ?? null,
     ipAddress: entry.ipAddress ?? null,
+    requestId: entry.requestId ?? scope?.requestId ?? null,
+    userAgent: (entry.userAgent ?? scope?.userAgent)?.slice(0, 500) ?? null,
   });
+  if (scope) scope.entries++;
 }
 
-/**
- * Create multiple audit log entries in a batch.
- */
-export async function createAuditLogBatch(
-  entries: AuditLogEntry[],
-  database: Database = adminDb
+/** Publish the entry as a domain event if a module declares its action */
+async function publishAuditEvent(
+  entry: AuditLogEntry,
+  database: Database | Transaction
 ): Promise<void> {
-  if (entries.length === 0) return;
+  if (!isPublishedEvent(entry.action)) return;
 
-  await database.insert(auditLogs).values(
-    entries.map((entry) => ({
+  const payload: AuditEventPayload = {
+    resourceType: entry.resourceType ?? null,
+    resourceId: entry.resourceId ?? null,
+    ...entry.changes,
+  };
+  await publishEvent(
+    {
       tenantId: entry.tenantId,
-      userId: entry.userId ?? null,
-      action: entry.action,
-      resourceType: entry.resourceType ?? null,
-      resourceId: entry.resourceId ?? null,
-      changes: entry.changes ?? null,
-      ipAddress: entry.ipAddress ?? null,
-    }))
+      type: entry.action,
+      payload,
+      userId: entry.userId,
+    },
+    database
   );
 }
+
+// ============================================
+// Chain verification
+// ============================================
+
+export type AuditChainBreakReason =
+  | "sequence_gap"
+  | "prev_hash_mismatch"
+  | "hash_mismatch";
+
+export interface AuditChainVerification {
+  valid: boolean;
+  /** Number of entries in the tenant's chain */
+  checked: number;
+  /**
+   * Latest entry. Removing entries from the end of the chain leaves it
+   * consistent, so auditors record the head to compare on the next check.
+   */
+  head: { seq: number; hash: string; createdAt: Date } | null;
+  /** First entry that does not link to its predecessor, or null */
+  firstBroken: {
+    id: string;
+    seq: number;
+    createdAt: Date;
+    reason: AuditChainBreakReason;
+  } | null;
+}
+
+/**
+ * Walk a tenant's audit chain in sequence order and report the first broken
+ * link: a missing sequence number (deleted entry), a prev_hash that does not
+ * match the previous entry's hash, or a hash that no longer matches the
+ * entry's content (edited entry). Hashes are recomputed in the database
+ * with the same audit_log_hash() function the insert trigger uses.
+ *
+ * Entries moved to archives are checked against the archive records; use
+ * verifyAuditArchive() for their contents.
+ */
+export async function verifyAuditChain(
+  tenantId: string,
+  database: Database | Transaction = adminDb
+): Promise<AuditChainVerification> {
+  // An archive ending right before an entry explains a seq gap: the entry
+  // links to the archive's last hash instead of the previous hot entry.
+  const chain = database
+    .select({
+      id: auditLogs.id,
+      seq: auditLogs.seq,
+      prevHash: auditLogs.prevHash,
+      hash: auditLogs.hash,
+      createdAt: auditLogs.createdAt,
+      lagSeq: sql<number | null>`lag(${auditLogs.seq}) over (order by ${auditLogs.seq})`.as("lag_seq"),
+      lagHash: sql<string | null>`lag(${auditLogs.hash}) over (order by ${auditLogs.seq})`.as("lag_hash"),
+      archivedHash: sql<string | null>`(SELECT ${auditLogArchives.lastHash} FROM ${auditLogArchives} WHERE ${auditLogArchives.tenantId} = ${auditLogs.tenantId} AND ${auditLogArchives.lastSeq} = ${auditLogs.seq} - 1)`.as("archived_hash"),
+      expectedHash: sql<string>`audit_log_hash(${auditLogs.prevHash}, ${auditLogs.seq}, ${auditLogs.id}, ${auditLogs.tenantId}, ${auditLogs.userId}, ${auditLogs.action}, ${auditLogs.resourceType}, ${auditLogs.resourceId}, ${auditLogs.changes}, ${auditLogs.ipAddress}, ${auditLogs.createdAt}, ${auditLogs.requestId}, ${auditLogs.userAgent}, ${auditLogs.impersonatorId}, ${auditLogs.apiKeyId})`.as("expected_hash"),
+    })
+    .from(auditLogs)
+    .where(eq(auditLogs.tenantId, tenantId))
+    .as("chain");
+
+  const follows = sql`${chain.lagSeq} = ${chain.seq} - 1`;
+  const seqOk = sql<boolean>`(${follows} OR ${chain.archivedHash} IS NOT NULL OR (${chain.lagSeq} IS NULL AND ${chain.seq} = 1))`;
+  const prevOk = sql<boolean>`${chain.prevHash} IS NOT DISTINCT FROM (CASE WHEN ${follows} THEN ${chain.lagHash} ELSE ${chain.archivedHash} END)`;
+
+  const [broken] = await database
+    .select({
+      id: chain.id,
+      seq: chain.seq,
+      createdAt: chain.createdAt,
+      seqOk,
+      prevOk,
+    })
+    .from(chain)
+    .where(
+      or(
+        sql`NOT ${seqOk}`,
+        sql`NOT ${prevOk}`,
+        ne(chain.hash, chain.expectedHash)
+      )
+    )
+    .orderBy(asc(chain.seq))
+    .limit(1);
+
+  const [stats] = await database
+    .select({ count: sql<number>`count(*)::int` })
+    .from(auditLogs)
+    .where(eq(auditLogs.tenantId, tenantId));
+
+  const [head] = await database
+    .select({
+      seq: auditLogs.seq,
+      hash: auditLogs.hash,
+      createdAt: auditLogs.createdAt,
+    })
+    .from(auditLogs)
+    .where(eq(auditLogs.tenantId, tenantId))
+    .orderBy(desc(auditLogs.seq))
+    .limit(1);
+
+  return {
+    valid: !broken,
+    checked: stats?.count ?? 0,
+    head: head ?? null,
+    firstBroken: broken
+      ? {
+          id: broken.id,
+          seq: Number(broken.seq),
+          createdAt: broken.createdAt,
+          reason: !broken.seqOk
+            ? "sequence_gap"
+            : !broken.prevOk
+              ? "prev_hash_mismatch"
+              : "hash_mismatch",
+        }
+      : null,
+  };
+}
+
+// ============================================
+// Filtering & export
+// ============================================
+
+/** Must match the idx_audit_changes_search expression index */
+const changesSearchVector = sql`jsonb_to_tsvector('simple'::regconfig, ${auditLogs.changes}, '["string","numeric","key"]'::jsonb)`;
+
+function escapeLike(s: string): string {
+  return s.replace(/[%_\\]/g, "\\$&");
+}
+
+/**
+ * WHERE conditions for a tenant's audit entries matching the filter.
+ * `search` is full-text (all words must appear in the keys or values of
+ * `changes`; quoted phrases and -exclusions are supported).
+ */
+export function auditLogConditions(
+  tenantId: string,
+  filter: AuditLogFilterInput
+): SQL | undefined {
+  return and(
+    eq(auditLogs.tenantId, tenantId),
+    filter.from ? gte(auditLogs.createdAt, filter.from) : undefined,
+    filter.to ? lte(auditLogs.createdAt, filter.to) : undefined,
+    filter.action ? eq(auditLogs.action, filter.action) : undefined,
+    filter.actionPrefix
+      ? like(auditLogs.action, `${escapeLike(filter.actionPrefix)}%`)
+      : undefined,
+    filter.resourceType
+      ? eq(auditLogs.resourceType, filter.resourceType)
+      : undefined,
+    filter.userId ? eq(auditLogs.userId, filter.userId) : undefined,
+    filter.requestId ? eq(auditLogs.requestId, filter.requestId) : undefined,
+    filter.search
+      ? sql`${changesSearchVector} @@ websearch_to_tsquery('simple', ${filter.search})`
+      : undefined
+  );
+}
+
+/**
+ * Keyset condition on (created_at, id) relative to the cursor entry —
+ * "before" for newest-first pages, "after" for oldest-first. The cursor's
+ * timestamp is read in SQL: a JS Date would drop its microseconds.
+ */
+export function auditLogKeyset(
+  cursorId: string,
+  direction: "before" | "after"
+): SQL {
+  const cursor = sql`(SELECT ${auditLogs.createdAt}, ${auditLogs.id} FROM ${auditLogs} WHERE ${auditLogs.id} = ${cursorId})`;
+  return direction === "before"
+    ? sql`(${auditLogs.createdAt}, ${auditLogs.id}) < ${cursor}`
+    : sql`(${auditLogs.createdAt}, ${auditLogs.id}) > ${cursor}`;
+}
+
+export type AuditExportFormat = "csv" | "ndjson";
+
+const EXPORT_BATCH_SIZE = 500;
+
+const CSV_COLUMNS = [
+  "id",
+  "seq",
+  "created_at",
+  "action",
+  "resource_type",
+  "resource_id",
+  "user_id",
+  "user_email",
+  "impersonator_id",
+  "api_key_id",
+  "ip_address",
+  "request_id",
+  "changes",
+  "hash",
+] as const;
+
+/** One CSV cell, quoted when needed and never readable as a formula */
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  // Spreadsheets run cells starting with these as formulas — audit fields
+  // hold user-supplied text, so force them to plain text
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One oldest-first export batch after the cursor entry */
+function fetchExportBatch(
+  tenantId: string,
+  filter: AuditLogFilterInput,
+  afterId: string | null
+) {
+  return withTenantTransaction(tenantId, (tx) =>
+    tx
+      .select({
+        id: auditLogs.id,
+        seq: auditLogs.seq,
+        createdAt: auditLogs.createdAt,
+        action: auditLogs.action,
+        resourceType: auditLogs.resourceType,
+        resourceId: auditLogs.resourceId,
+        userId: auditLogs.userId,
+        userEmail: users.email,
+        impersonatorId: auditLogs.impersonatorId,
+        apiKeyId: auditLogs.apiKeyId,
+        ipAddress: auditLogs.ipAddress,
+        requestId: auditLogs.requestId,
+        changes: auditLogs.changes,
+        hash: auditLogs.hash,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.userId, users.id))
+      .where(
+        and(
+          auditLogConditions(tenantId, filter),
+          afterId ? auditLogKeyset(afterId, "after") : undefined
+        )
+      )
+      .orderBy(asc(auditLogs.createdAt), asc(auditLogs.id))
+      .limit(EXPORT_BATCH_SIZE)
+  );
+}
+
+/**
+ * Stream a tenant's audit entries as CSV or NDJSON text chunks, oldest
+ * first. Rows are read in keyset-paginated batches on (created_at, id),
+ * each batch in its own RLS-scoped transaction, so exports of any size
+ * never hold a transaction open or buffer the whole range.
+ */
+export async function* exportAuditLogs(
+  tenantId: string,
+  filter: AuditLogFilterInput,
+  format: AuditExportFormat
+): AsyncGenerator<string> {
+  if (format === "csv") yield CSV_COLUMNS.join(",") + "\n";
+
+  let cursor: string | null = null;
+  for (;;) {
+    const batch = await fetchExportBatch(tenantId, filter, cursor);
+
+    if (batch.length === 0) return;
+
+    yield batch
+      .map((row) =>
+        format === "csv"
+          ? [
+              row.id,
+              row.seq,
+              row.createdAt,
+              row.action,
+              row.resourceType,
+              row.resourceId,
+              row.userId,
+              row.userEmail,
+              row.impersonatorId,
+              row.apiKeyId,
+              row.ipAddress,
+              row.requestId,
+              row.changes,
+              row.hash,
+            ]
+              .map(csvField)
+              .join(",") + "\n"
+          : JSON.stringify(row) + "\n"
+      )
+      .join("");
+
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1]!.id;
+  }
+}
+
+export {
+  archiveExpiredAuditLogs,
+  runAuditRetention,
+  verifyAuditArchive,
+  restoreAuditArchive,
+} from "./archive";
+export type {
+  AuditArchiveVerification,
+  AuditArchiveBreakReason,
+  AuditRetentionResult,
+} from "./archive";
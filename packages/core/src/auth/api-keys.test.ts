@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { effectiveKeyPermissions, generateApiKey, isApiKey } from "./api-keys";
+
+describe("isApiKey", () => {
+  it("accepts a generated key", async () => {
+    const { key, keyPrefix } = await generateApiKey();
+
+    expect(isApiKey(key)).toBe(true);
+    expect(key.startsWith(`${keyPrefix}_`)).toBe(true);
+  });
+
+  it("rejects tokens of another shape", async () => {
+    const { key, keyPrefix } = await generateApiKey();
+
+    expect(isApiKey(keyPrefix)).toBe(false);
+    expect(isApiKey(`${key}x`)).toBe(false);
+    expect(isApiKey(key.slice(0, -1))).toBe(false);
+    expect(isApiKey(key.replace(/^sme_/, "abc_"))).toBe(false);
+    expect(isApiKey(key.replace(/^sme_[0-9a-f]/, "sme_G"))).toBe(false);
+    expect(isApiKey("a-session-token")).toBe(false);
+  });
+});
+
+describe("effectiveKeyPermissions", () => {
+  it("keeps grants the creator still holds", () => {
+    expect(
+      effectiveKeyPermissions(["core:users:read", "catalog:*"], ["core:*", "catalog:*"])
+    ).toEqual(["core:users:read", "catalog:*"]);
+  });
+
+  it("drops grants the creator has lost", () => {
+    expect(
+      effectiveKeyPermissions(["core:users:read", "catalog:products:write"], ["core:users:read"])
+    ).toEqual(["core:users:read"]);
+  });
+
+  it("drops a wildcard that would re-grant a creator deny", () => {
+    expect(
+      effectiveKeyPermissions(["core:*"], ["core:*", "!core:api_keys:manage"])
+    ).toEqual(["!core:api_keys:manage"]);
+  });
+
+  it("adds the creator's denies once", () => {
+    expect(
+      effectiveKeyPermissions(
+        ["core:users:read", "!core:audit:read"],
+        ["core:*", "!core:audit:read", "!core:webhooks:manage"]
+      )
+    ).toEqual(["core:users:read", "!core:audit:read", "!core:webhooks:manage"]);
+  });
+});
@@ -0,0 +1,193 @@
+import { eq, and, gt, isNull, or, lt } from "drizzle-orm";
+import crypto from "crypto";
+import { hashToken } from "@sme/shared";
+import { adminDb } from "../db/index";
+import {
+  apiKeys,
+  users,
+  tenantMemberships,
+  roles,
+  membershipLocations,
+} from "../db/schema/index";
+import {
+  getActivePermissionGrants,
+  mergePermissionGrants,
+} from "../rbac/grants";
+import { canAssignPermissions } from "../rbac/index";
+import type { SessionValidationResult } from "./session";
+
+// ============================================
+// API Keys — tenant-scoped bearer keys for scripts and integrations
+// ============================================
+// Keys look like `sme_<prefix>_<secret>`; only the SHA-256 hash of the whole
+// key is stored, the prefix identifies it in lists and audit entries.
+// A key authenticates as its creator in the key's tenant, with the key's
+// permissions — but only those the creator still holds, so demoting or
+// deactivating the creator narrows or disables their keys too.
+// ============================================
+
+const KEY_PREFIX = "sme_";
+
+/** Record lastUsedAt at most this often per key */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Generate a new API key. The raw key is shown to the user once; store
+ * only keyPrefix and keyHash.
+ */
+export async function generateApiKey(): Promise<{
+  key: string;
+  keyPrefix: string;
+  keyHash: string;
+}> {
+  const keyPrefix = `${KEY_PREFIX}${crypto.randomBytes(5).toString("hex")}`;
+  const key = `${keyPrefix}_${crypto.randomBytes(32).toString("base64url")}`;
+  return { key, keyPrefix, keyHash: await hashToken(key) };
+}
+
+/** Whether a bearer token has the shape of an API key (not whether it's valid) */
+export function isApiKey(token: string): boolean {
+  return /^sme_[0-9a-f]{10}_[A-Za-z0-9_-]{43}$/.test(token);
+}
+
+/**
+ * The permissions a key has right now: its own grants the creator still
+ * holds, plus the creator's denies. Grants the creator has since lost are
+ * dropped rather than failing the whole key.
+ */
+export function effectiveKeyPermissions(
+  keyPermissions: string[],
+  creatorPermissions: string[]
+): string[] {
+  const kept = keyPermissions.filter((permission) =>
+    canAssignPermissions(creatorPermissions, [permission])
+  );
+  const denies = creatorPermissions.filter((p) => p.startsWith("!"));
+  return [...new Set([...kept, ...denies])];
+}
+
+/**
+ * Validate an API key.
+ * Returns a principal shaped like a session (session.apiKey set, no active
+ * location, never a super admin) or null if the key is unknown, revoked,
+ * expired, or its creator is no longer an active member of the tenant.
+ */
+export async function validateApiKey(
+  key: string
+): Promise<SessionValidationResult | null> {
+  if (!isApiKey(key)) return null;
+  const keyHash = await hashToken(key);
+  const now = new Date();
+
+  const [row] = await adminDb
+    .select({
+      keyId: apiKeys.id,
+      keyName: apiKeys.name,
+      keyPrefix: apiKeys.keyPrefix,
+      keyPermissions: apiKeys.permissions,
+      keyExpiresAt: apiKeys.expiresAt,
+      tenantId: apiKeys.tenantId,
+      userId: users.id,
+      userEmail: users.email,
+      userFullName: users.fullName,
+      userAvatarUrl: users.avatarUrl,
+      userIsActive: users.isActive,
+      userEmailVerified: users.emailVerified,
+    })
+    .from(apiKeys)
+    .innerJoin(users, eq(apiKeys.createdBy, users.id))
+    .where(
+      and(
+        eq(apiKeys.keyHash, keyHash),
+        isNull(apiKeys.revokedAt),
+        gt(apiKeys.expiresAt, now)
+      )
+    )
+    .limit(1);
+
+  if (!row || !row.userIsActive) return null;
+
+  const [membership] = await adminDb
+    .select({
+      id: tenantMemberships.id,
+      isActive: tenantMemberships.isActive,
+      roleId: roles.id,
+      roleName: roles.name,
+      roleSlug: roles.slug,
+      permissions: roles.permissions,
+    })
+    .from(tenantMemberships)
+    .innerJoin(roles, eq(tenantMemberships.roleId, roles.id))
+    .where(
+      and(
+        eq(tenantMemberships.userId, row.userId),
+        eq(tenantMemberships.tenantId, row.tenantId)
+      )
+    )
+    .limit(1);
+
+  if (!membership || !membership.isActive) return null;
+
+  const assignments = await adminDb
+    .select({ locationId: membershipLocations.locationId })
+    .from(membershipLocations)
+    .where(eq(membershipLocations.membershipId, membership.id));
+  const grants = await getActivePermissionGrants(membership.id);
+  const creatorPermissions = mergePermissionGrants(
+    membership.permissions ?? [],
+    grants
+  );
+
+  await adminDb
+    .update(apiKeys)
+    .set({ lastUsedAt: now })
+    .where(
+      and(
+        eq(apiKeys.id, row.keyId),
+        or(
+          isNull(apiKeys.lastUsedAt),
+          lt(
+            apiKeys.lastUsedAt,
+            new Date(now.getTime() - LAST_USED_RESOLUTION_MS)
+          )
+        )
+      )
+    );
+
+  return {
+    session: {
+      id: row.keyId,
+      userId: row.userId,
+      tenantId: row.tenantId,
+      locationId: null,
+      authMethod: "api_key",
+      expiresAt: row.keyExpiresAt,
+      readOnly: false,
+      impersonator: null,
+      // Keys are created from a session that met the tenant's MFA policy
+      mfaVerified: true,
+      apiKey: { id: row.keyId, name: row.keyName, prefix: row.keyPrefix },
+    },
+    user: {
+      id: row.userId,
+      email: row.userEmail,
+      fullName: row.userFullName,
+      avatarUrl: row.userAvatarUrl,
+      // A key never carries platform access, whoever created it
+      isSuperAdmin: false,
+      emailVerified: row.userEmailVerified,
+    },
+    membership: {
+      id: membership.id,
+      roleId: membership.roleId,
+      roleName: membership.roleName,
+      roleSlug: membership.roleSlug,
+      permissions: effectiveKeyPermissions(
+        row.keyPermissions,
+        creatorPermissions
+      ),
+      locationIds: assignments.map((a) => a.locationId),
+      mfaRequired: false,
+    },
+  };
+}
@@ -0,0 +1,173 @@
+import { eq, and, isNotNull } from "drizzle-orm";
+import { adminDb, type Database, type Transaction } from "../db/index";
+import {
+  users,
+  tenants,
+  tenantMemberships,
+  sessions,
+} from "../db/schema/index";
+import { createSession, invalidateSession } from "./session";
+import { createAuditLog } from "../audit/index";
+
+// ============================================
+// Impersonation — super admins acting as a tenant member
+// ============================================
+// The session belongs to the member, so permissions, RLS and data are
+// exactly theirs; sessions.impersonator_id points at the real admin.
+// Sessions are bound to one tenant, expire within MAX_IMPERSONATION_MINUTES
+// and are read-only unless writes were allowed when starting. Entries
+// audited during one carry both identities (user_id + impersonator_id).
+// ============================================
+
+export interface ImpersonationResult {
+  /** Raw token — set as the session cookie, never returned to clients */
+  token: string;
+  sessionId: string;
+  expiresAt: Date;
+  tenantSlug: string;
+}
+
+/**
+ * Start an impersonation session as a member of a tenant.
+ * Throws if the admin is not an active super admin, or the member is not
+ * an active, non-admin member of the tenant.
+ *
+ * @param database - Connection for the checks and the audit entry
+ */
+export async function startImpersonation(
+  params: {
+    adminUserId: string;
+    tenantId: string;
+    userId: string;
+    reason: string;
+    durationMinutes: number;
+    allowWrites: boolean;
+    ipAddress?: string;
+    userAgent?: string;
+  },
+  database: Database | Transaction = adminDb
+): Promise<ImpersonationResult> {
+  if (params.adminUserId === params.userId) {
+    throw new Error("You cannot impersonate yourself");
+  }
+
+  const [admin] = await database
+    .select({ isActive: users.isActive, isSuperAdmin: users.isSuperAdmin })
+    .from(users)
+    .where(eq(users.id, params.adminUserId))
+    .limit(1);
+
+  if (!admin?.isActive || !admin.isSuperAdmin) {
+    throw new Error("Only platform admins can impersonate");
+  }
+
+  const [tenant] = await database
+    .select({ slug: tenants.slug })
+    .from(tenants)
+    .where(eq(tenants.id, params.tenantId))
+    .limit(1);
+
+  if (!tenant) {
+    throw new Error("Tenant not found");
+  }
+
+  const [member] = await database
+    .select({
+      isActive: users.isActive,
+      isSuperAdmin: users.isSuperAdmin,
+      membershipActive: tenantMemberships.isActive,
+    })
+    .from(tenantMemberships)
+    .innerJoin(users, eq(tenantMemberships.userId, users.id))
+    .where(
+      and(
+        eq(tenantMemberships.tenantId, params.tenantId),
+        eq(tenantMemberships.userId, params.userId)
+      )
+    )
+    .limit(1);
+
+  if (!member || !member.isActive || !member.membershipActive) {
+    throw new Error("User is not an active member of this tenant");
+  }
+  if (member.isSuperAdmin) {
+    throw new Error("Platform admins cannot be impersonated");
+  }
+
+  const readOnly = !params.allowWrites;
+  const { token, sessionId, expiresAt } = await createSession({
+    userId: params.userId,
+    tenantId: params.tenantId,
+    authMethod: "impersonation",
+    impersonatorId: params.adminUserId,
+    readOnly,
+    expiresAt: new Date(Date.now() + params.durationMinutes * 60 * 1000),
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+  });
+
+  await createAuditLog(
+    {
+      tenantId: params.tenantId,
+      userId: params.adminUserId,
+      action: "admin:impersonation:started",
+      resourceType: "user",
+      resourceId: params.userId,
+      changes: {
+        after: {
+          sessionId,
+          reason: params.reason,
+          readOnly,
+          expiresAt: expiresAt.toISOString(),
+        },
+      },
+      ipAddress: params.ipAddress,
+    },
+    database
+  );
+
+  return { token, sessionId, expiresAt, tenantSlug: tenant.slug };
+}
+
+/**
+ * End an impersonation session. The audit entry carries both identities,
+ * like everything else done during the session.
+ * Throws if the session is not an impersonation session.
+ */
+export async function endImpersonation(
+  sessionId: string,
+  options: { ipAddress?: string } = {},
+  database: Database | Transaction = adminDb
+): Promise<void> {
+  const [session] = await database
+    .select({
+      userId: sessions.userId,
+      tenantId: sessions.tenantId,
+      impersonatorId: sessions.impersonatorId,
+    })
+    .from(sessions)
+    .where(and(eq(sessions.id, sessionId), isNotNull(sessions.impersonatorId)))
+    .limit(1);
+
+  if (!session) {
+    throw new Error("Not an impersonation session");
+  }
+
+  await invalidateSession(sessionId);
+
+  if (session.tenantId) {
+    await createAuditLog(
+      {
+        tenantId: session.tenantId,
+        userId: session.userId,
+        impersonatorId: session.impersonatorId!,
+        action: "admin:impersonation:ended",
+        resourceType: "user",
+        resourceId: session.userId,
+        changes: { before: { sessionId } },
+        ipAddress: options.ipAddress,
+      },
+      database
+    );
+  }
+}
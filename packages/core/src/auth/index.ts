@@ -4,15 +4,60 @@ export {
   validateSession,
   invalidateSession,
   invalidateAllUserSessions,
+  listUserSessions,
+  markSessionMfaVerified,
   cleanupExpiredSessions,
+  checkTenantAccess,
   type SessionValidationResult,
+  type TenantAccess,
+  type ActiveSession,
 } from "./session";
 export {
   loginWithPassword,
+  verifyMfaLogin,
   registerUser,
   registerUserWithTenant,
   AuthError,
   type LoginResult,
+  type MfaChallengeResult,
   type RegisterResult,
   type RegisterWithTenantResult,
 } from "./login";
+export {
+  startImpersonation,
+  endImpersonation,
+  type ImpersonationResult,
+} from "./impersonation";
+export {
+  getMfaStatus,
+  isMfaEnabled,
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableMfa,
+  regenerateRecoveryCodes,
+  verifyMfaCode,
+  type MfaStatus,
+} from "./mfa";
+export {
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+  verifyEmail,
+} from "./user-tokens";
+export {
+  listOidcProviders,
+  oidcRedirectUri,
+  beginOidcLogin,
+  completeOidcLogin,
+  listUserIdentities,
+  unlinkIdentity,
+  type OidcProvider,
+  type OidcIdentity,
+  type OidcCallbackResult,
+} from "./oidc";
+export {
+  generateSsoDomainToken,
+  ssoDomainVerificationRecord,
+  assertSsoDomainVerified,
+} from "./sso-domains";
+export { generateApiKey, isApiKey, validateApiKey } from "./api-keys";
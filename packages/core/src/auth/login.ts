@@ -1,10 +1,23 @@
-import { eq, and } from "drizzle-orm";
+import { eq, and, gt, lt, sql } from "drizzle-orm";
 import { adminDb } from "../db/index";
-import { users, tenantMemberships, tenants, roles } from "../db/schema/index";
+import {
+  users,
+  tenantMemberships,
+  tenants,
+  roles,
+  mfaChallenges,
+} from "../db/schema/index";
 import { verifyPassword, hashPassword } from "./password";
 import { createSession } from "./session";
+import { verifyMfaCode, auditRecoveryCodeUsed } from "./mfa";
+import { sendEmailVerification } from "./user-tokens";
 import { createAuditLog } from "../audit/index";
-import { SYSTEM_ROLES, SYSTEM_ROLE_PERMISSIONS } from "@sme/shared";
+import {
+  SYSTEM_ROLES,
+  SYSTEM_ROLE_PERMISSIONS,
+  generateToken,
+  hashToken,
+} from "@sme/shared";
 
 // ============================================
 // Auth Logic — extracted for use by API routes
@@ -15,7 +28,11 @@ import { SYSTEM_ROLES, SYSTEM_ROLE_PERMISSIONS } from "@sme/shared";
 const MAX_LOGIN_ATTEMPTS = 10;
 const LOGIN_LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
 
+const MFA_CHALLENGE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_MFA_ATTEMPTS = 5;
+
 export interface LoginResult {
+  mfaRequired: false;
   token: string;
   user: { id: string; email: string; fullName: string };
   tenantId: string | null;
@@ -24,6 +41,14 @@ export interface LoginResult {
   expiresAt: Date;
 }
 
+/** Password accepted, second factor outstanding — see verifyMfaLogin */
+export interface MfaChallengeResult {
+  mfaRequired: true;
+  /** Raw challenge token — set as a short-lived httpOnly cookie */
+  mfaToken: string;
+  expiresAt: Date;
+}
+
 export interface RegisterResult {
   token: string;
   user: { id: string; email: string; fullName: string };
@@ -40,14 +65,16 @@ export interface RegisterWithTenantResult {
 /**
  * Authenticate a user with email + password.
  * Includes rate limiting (max 10 failed attempts per 15 min).
- * Returns the raw token for the caller to set as httpOnly cookie.
+ * Returns the raw token for the caller to set as httpOnly cookie — or, for
+ * users with two-factor authentication, a challenge to pass to
+ * verifyMfaLogin along with their code.
  */
 export async function loginWithPassword(params: {
   email: string;
   password: string;
   ipAddress?: string;
   userAgent?: string;
-}): Promise<LoginResult> {
+}): Promise<LoginResult | MfaChallengeResult> {
   const { email, password, ipAddress, userAgent } = params;
 
   // Find user
@@ -102,6 +129,120 @@ export async function loginWithPassword(params: {
       .where(eq(users.id, user.id));
   }
 
+  return beginSession(user, { authMethod: "password", ipAddress, userAgent });
+}
+
+/**
+ * Finish a first-factor sign-in (password or OpenID Connect): create the
+ * session, or — for users with two-factor authentication — the challenge to
+ * pass to verifyMfaLogin. The caller has already authenticated the user.
+ */
+export async function beginSession(
+  user: typeof users.$inferSelect,
+  options: {
+    authMethod: "password" | "oauth";
+    ipAddress?: string;
+    userAgent?: string;
+  }
+): Promise<LoginResult | MfaChallengeResult> {
+  if (user.totpEnabledAt) {
+    const mfaToken = generateToken();
+    const expiresAt = new Date(Date.now() + MFA_CHALLENGE_DURATION_MS);
+    await adminDb.insert(mfaChallenges).values({
+      userId: user.id,
+      tokenHash: await hashToken(mfaToken),
+      authMethod: options.authMethod,
+      expiresAt,
+    });
+    return { mfaRequired: true, mfaToken, expiresAt };
+  }
+
+  return completeLogin(user, { ...options, mfaVerified: false });
+}
+
+/**
+ * Second login step: check the code for a pending challenge and create the
+ * session. Each challenge allows MAX_MFA_ATTEMPTS wrong codes, then the
+ * first step (password or provider sign-in) has to be repeated.
+ */
+export async function verifyMfaLogin(params: {
+  mfaToken: string;
+  code: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<LoginResult> {
+  const { mfaToken, code, ipAddress, userAgent } = params;
+
+  // Count the attempt before checking the code, in the same statement as the
+  // limit check, so concurrent guesses can't all pass a stale count
+  const [challenge] = await adminDb
+    .update(mfaChallenges)
+    .set({ failedAttempts: sql`${mfaChallenges.failedAttempts} + 1` })
+    .where(
+      and(
+        eq(mfaChallenges.tokenHash, await hashToken(mfaToken)),
+        gt(mfaChallenges.expiresAt, new Date()),
+        lt(mfaChallenges.failedAttempts, MAX_MFA_ATTEMPTS)
+      )
+    )
+    .returning({
+      id: mfaChallenges.id,
+      userId: mfaChallenges.userId,
+      authMethod: mfaChallenges.authMethod,
+    });
+
+  if (!challenge) {
+    throw new AuthError("Verification expired. Please sign in again.", 401);
+  }
+
+  const method = await verifyMfaCode(challenge.userId, code);
+  if (!method) {
+    throw new AuthError("Invalid verification code", 401);
+  }
+
+  // Only one of several concurrent correct codes gets the session
+  const [consumed] = await adminDb
+    .delete(mfaChallenges)
+    .where(eq(mfaChallenges.id, challenge.id))
+    .returning({ id: mfaChallenges.id });
+  if (!consumed) {
+    throw new AuthError("Verification expired. Please sign in again.", 401);
+  }
+
+  const [user] = await adminDb
+    .select()
+    .from(users)
+    .where(eq(users.id, challenge.userId))
+    .limit(1);
+
+  if (!user || !user.isActive) {
+    throw new AuthError("Invalid email or password", 401);
+  }
+
+  if (method === "recovery") {
+    await auditRecoveryCodeUsed(user.id, ipAddress);
+  }
+
+  return completeLogin(user, {
+    authMethod: challenge.authMethod === "oauth" ? "oauth" : "password",
+    ipAddress,
+    userAgent,
+    mfaVerified: true,
+  });
+}
+
+/**
+ * Pick the tenant to start in and create the session.
+ */
+async function completeLogin(
+  user: typeof users.$inferSelect,
+  options: {
+    authMethod: "password" | "oauth";
+    ipAddress?: string;
+    userAgent?: string;
+    mfaVerified: boolean;
+  }
+): Promise<LoginResult> {
   // Check memberships
   const memberships = await adminDb
     .select({ tenantId: tenantMemberships.tenantId })
@@ -122,12 +263,14 @@ export async function loginWithPassword(params: {
   const { token, expiresAt } = await createSession({
     userId: user.id,
     tenantId,
-    authMethod: "password",
-    ipAddress,
-    userAgent,
+    authMethod: options.authMethod,
+    ipAddress: options.ipAddress,
+    userAgent: options.userAgent,
+    mfaVerified: options.mfaVerified,
   });
 
   return {
+    mfaRequired: false,
     token,
     user: { id: user.id, email: user.email, fullName: user.fullName },
     tenantId,
@@ -138,7 +281,7 @@ export async function loginWithPassword(params: {
 }
 
 /**
- * Register a new user account.
+ * Register a new user account and email them a verification link.
  * Returns the raw token for the caller to set as httpOnly cookie.
  */
 export async function registerUser(params: {
@@ -172,6 +315,8 @@ export async function registerUser(params: {
     throw new AuthError("Failed to create account", 500);
   }
 
+  await sendEmailVerification(user.id);
+
   const { token, expiresAt } = await createSession({
     userId: user.id,
     authMethod: "password",
@@ -239,6 +384,8 @@ export async function registerUserWithTenant(params: {
     throw new AuthError("Failed to create account", 500);
   }
 
+  await sendEmailVerification(user.id);
+
   // Create tenant
   const [tenant] = await adminDb
     .insert(tenants)
@@ -0,0 +1,310 @@
+import crypto from "crypto";
+import { eq, and, isNull, or, lt, count } from "drizzle-orm";
+import { adminDb } from "../db/index";
+import { users, mfaRecoveryCodes } from "../db/schema/index";
+import { hashToken } from "@sme/shared";
+import { verifyPassword } from "./password";
+import { generateTotpSecret, findTotpStep, buildTotpUri } from "./totp";
+import { createUserAuditLog } from "../audit/index";
+
+// ============================================
+// Two-factor authentication — TOTP + recovery codes
+// ============================================
+// Enrollment is two steps: beginTotpEnrollment stores a pending secret,
+// confirmTotpEnrollment enables it once the user proves their app produces
+// codes, and hands out the recovery codes (shown once, stored hashed).
+// Login with MFA enabled is also two steps — see loginWithPassword.
+//
+// Users are global, so changes are audited in every tenant the user
+// belongs to.
+// ============================================
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export interface MfaStatus {
+  enabled: boolean;
+  /** Secret issued, first code not confirmed yet */
+  pending: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Whether a code looks like an authenticator code rather than a recovery code.
+ */
+function isTotpCode(code: string): boolean {
+  return /^\d{6}$/.test(code.replace(/\s/g, ""));
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function generateRecoveryCode(): string {
+  const bytes = crypto.randomBytes(10);
+  const chars = Array.from(
+    bytes,
+    (b) => RECOVERY_CODE_ALPHABET[b % RECOVERY_CODE_ALPHABET.length]
+  ).join("");
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+/**
+ * Replace a user's recovery codes with a fresh set. Returns the raw codes —
+ * the only time they exist outside the user's hands.
+ */
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  const hashes = await Promise.all(
+    codes.map((code) => hashToken(normalizeRecoveryCode(code)))
+  );
+
+  await adminDb.transaction(async (tx) => {
+    await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+    await tx
+      .insert(mfaRecoveryCodes)
+      .values(hashes.map((codeHash) => ({ userId, codeHash })));
+  });
+
+  return codes;
+}
+
+/**
+ * Check a code against the user's authenticator, then their unused
+ * recovery codes. A matching code is spent: authenticator codes can't be
+ * replayed within their window, recovery codes work once.
+ * Returns how the user verified, or null if the code is wrong.
+ */
+export async function verifyMfaCode(
+  userId: string,
+  code: string
+): Promise<"totp" | "recovery" | null> {
+  if (isTotpCode(code)) {
+    const [user] = await adminDb
+      .select({ totpSecret: users.totpSecret, totpEnabledAt: users.totpEnabledAt })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    // A pending (unconfirmed) secret doesn't count yet
+    if (!user?.totpSecret || !user.totpEnabledAt) return null;
+    const step = findTotpStep(user.totpSecret, code.replace(/\s/g, ""));
+    if (step === null) return null;
+
+    // Conditional update — a concurrent request with the same code loses
+    const accepted = await adminDb
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(
+        and(
+          eq(users.id, userId),
+          or(isNull(users.totpLastStep), lt(users.totpLastStep, step))
+        )
+      )
+      .returning({ id: users.id });
+    return accepted.length > 0 ? "totp" : null;
+  }
+
+  const codeHash = await hashToken(normalizeRecoveryCode(code));
+  const spent = await adminDb
+    .update(mfaRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(mfaRecoveryCodes.userId, userId),
+        eq(mfaRecoveryCodes.codeHash, codeHash),
+        isNull(mfaRecoveryCodes.usedAt)
+      )
+    )
+    .returning({ id: mfaRecoveryCodes.id });
+  return spent.length > 0 ? "recovery" : null;
+}
+
+/**
+ * Whether a user has two-factor authentication enabled.
+ */
+export async function isMfaEnabled(userId: string): Promise<boolean> {
+  const [user] = await adminDb
+    .select({ totpEnabledAt: users.totpEnabledAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return !!user?.totpEnabledAt;
+}
+
+/**
+ * A user's two-factor state, for the account security page.
+ */
+export async function getMfaStatus(userId: string): Promise<MfaStatus> {
+  const [user] = await adminDb
+    .select({ totpSecret: users.totpSecret, totpEnabledAt: users.totpEnabledAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const [remaining] = await adminDb
+    .select({ count: count() })
+    .from(mfaRecoveryCodes)
+    .where(
+      and(eq(mfaRecoveryCodes.userId, userId), isNull(mfaRecoveryCodes.usedAt))
+    );
+
+  return {
+    enabled: !!user?.totpEnabledAt,
+    pending: !!user?.totpSecret && !user.totpEnabledAt,
+    recoveryCodesRemaining: remaining?.count ?? 0,
+  };
+}
+
+/**
+ * Issue a new (pending) TOTP secret. Starting over replaces any pending one.
+ * Throws if two-factor authentication is already enabled.
+ */
+export async function beginTotpEnrollment(
+  userId: string
+): Promise<{ secret: string; uri: string }> {
+  const [user] = await adminDb
+    .select({ email: users.email, totpEnabledAt: users.totpEnabledAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) throw new Error("User not found");
+  if (user.totpEnabledAt) {
+    throw new Error("Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+  await adminDb
+    .update(users)
+    .set({ totpSecret: secret, totpLastStep: null, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  const issuer = process.env.TOTP_ISSUER ?? "SME Platform";
+  return { secret, uri: buildTotpUri(secret, user.email, issuer) };
+}
+
+/**
+ * Enable the pending secret once the user enters a code from it.
+ * Returns the recovery codes to show the user.
+ * Throws if there is no pending secret or the code is wrong.
+ */
+export async function confirmTotpEnrollment(
+  userId: string,
+  code: string,
+  options: { ipAddress?: string } = {}
+): Promise<string[]> {
+  const [user] = await adminDb
+    .select({ totpSecret: users.totpSecret, totpEnabledAt: users.totpEnabledAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user?.totpSecret || user.totpEnabledAt) {
+    throw new Error("No two-factor enrollment in progress");
+  }
+
+  const step = isTotpCode(code)
+    ? findTotpStep(user.totpSecret, code.replace(/\s/g, ""))
+    : null;
+  if (step === null) {
+    throw new Error("Invalid code — check your authenticator app's clock");
+  }
+
+  await adminDb
+    .update(users)
+    .set({ totpEnabledAt: new Date(), totpLastStep: step, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  const codes = await issueRecoveryCodes(userId);
+  await createUserAuditLog({
+    userId,
+    action: "auth:mfa:enabled",
+    ipAddress: options.ipAddress,
+  });
+  return codes;
+}
+
+/**
+ * Turn two-factor authentication off. Needs the password and a current
+ * code (or recovery code), so a hijacked session alone can't do it.
+ */
+export async function disableMfa(
+  userId: string,
+  params: { password: string; code: string; ipAddress?: string }
+): Promise<void> {
+  const [user] = await adminDb
+    .select({ passwordHash: users.passwordHash, totpEnabledAt: users.totpEnabledAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user?.totpEnabledAt) {
+    throw new Error("Two-factor authentication is not enabled");
+  }
+  if (!(await verifyPassword(params.password, user.passwordHash))) {
+    throw new Error("Incorrect password");
+  }
+  if (!(await verifyMfaCode(userId, params.code))) {
+    throw new Error("Invalid code");
+  }
+
+  await adminDb.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+    await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+  });
+
+  await createUserAuditLog({
+    userId,
+    action: "auth:mfa:disabled",
+    ipAddress: params.ipAddress,
+  });
+}
+
+/**
+ * Replace the recovery codes (all old ones stop working).
+ * Needs a current code. Returns the new codes.
+ */
+export async function regenerateRecoveryCodes(
+  userId: string,
+  code: string,
+  options: { ipAddress?: string } = {}
+): Promise<string[]> {
+  if (!(await isMfaEnabled(userId))) {
+    throw new Error("Two-factor authentication is not enabled");
+  }
+  if (!(await verifyMfaCode(userId, code))) {
+    throw new Error("Invalid code");
+  }
+
+  const codes = await issueRecoveryCodes(userId);
+  await createUserAuditLog({
+    userId,
+    action: "auth:mfa:recovery_codes_regenerated",
+    ipAddress: options.ipAddress,
+  });
+  return codes;
+}
+
+/**
+ * Audit a login that used a recovery code — the user should look into
+ * why they no longer have their authenticator.
+ */
+export async function auditRecoveryCodeUsed(
+  userId: string,
+  ipAddress?: string
+): Promise<void> {
+  await createUserAuditLog({
+    userId,
+    action: "auth:mfa:recovery_code_used",
+    ipAddress,
+  });
+}
@@ -0,0 +1,373 @@
+import crypto from "crypto";
+
+// ============================================
+// OpenID Connect client — authorization code flow with PKCE
+// ============================================
+// Providers are configured in the environment:
+//
+//   OIDC_PROVIDERS="google,mock"          IDs, in display order
+//   OIDC_<ID>_ISSUER                      Issuer URL (discovery is used)
+//   OIDC_<ID>_CLIENT_ID / _CLIENT_SECRET  Client credentials (secret optional
+//                                         for public clients)
+//   OIDC_<ID>_NAME                        Button label (defaults to the ID)
+//   OIDC_<ID>_SCOPES                      Defaults to "openid email profile"
+//
+// <ID> is the provider ID upper-cased with "-" as "_". ID tokens are
+// verified here (signature against the issuer's JWKS, iss, aud, exp, nonce)
+// with node:crypto — no client library.
+// ============================================
+
+const DEFAULT_SCOPES = "openid email profile";
+const REQUEST_TIMEOUT_MS = 10_000;
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+/** Clock skew tolerated on exp / iat */
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  scopes: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+/** The ID token claims the platform uses */
+export interface OidcClaims {
+  sub: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+interface TokenResponse {
+  id_token?: string;
+  access_token?: string;
+  token_type?: string;
+}
+
+// ------------------------------------------
+// Configuration
+// ------------------------------------------
+
+function envKey(providerId: string, suffix: string): string {
+  return `OIDC_${providerId.toUpperCase().replace(/-/g, "_")}_${suffix}`;
+}
+
+/**
+ * Providers configured in the environment. Entries missing an issuer or
+ * client ID are skipped with a warning.
+ */
+export function getOidcProviderConfigs(): OidcProviderConfig[] {
+  const ids = (process.env.OIDC_PROVIDERS ?? "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const configs: OidcProviderConfig[] = [];
+  for (const id of ids) {
+    if (!/^[a-z0-9-]+$/.test(id)) {
+      console.warn(`[oidc] Ignoring provider "${id}" — IDs are letters, digits and "-"`);
+      continue;
+    }
+    const issuer = process.env[envKey(id, "ISSUER")];
+    const clientId = process.env[envKey(id, "CLIENT_ID")];
+    if (!issuer || !clientId) {
+      console.warn(`[oidc] Ignoring provider "${id}" — ${envKey(id, "ISSUER")} and ${envKey(id, "CLIENT_ID")} are required`);
+      continue;
+    }
+    configs.push({
+      id,
+      name: process.env[envKey(id, "NAME")] ?? id,
+      issuer: issuer.replace(/\/+$/, ""),
+      clientId,
+      clientSecret: process.env[envKey(id, "CLIENT_SECRET")] || null,
+      scopes: process.env[envKey(id, "SCOPES")] ?? DEFAULT_SCOPES,
+    });
+  }
+  return configs;
+}
+
+export function getOidcProviderConfig(providerId: string): OidcProviderConfig | null {
+  return getOidcProviderConfigs().find((p) => p.id === providerId) ?? null;
+}
+
+// ------------------------------------------
+// HTTP
+// ------------------------------------------
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: "application/json", ...init?.headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(
+      `${new URL(url).host} responded ${response.status}${body ? `: ${body.slice(0, 200)}` : ""}`
+    );
+  }
+  return (await response.json()) as T;
+}
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>();
+
+/** The issuer's discovery document (cached for an hour) */
+async function discover(config: OidcProviderConfig): Promise<DiscoveryDocument> {
+  const cached = discoveryCache.get(config.issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.document;
+  }
+
+  const document = await fetchJson<DiscoveryDocument>(
+    `${config.issuer}/.well-known/openid-configuration`
+  );
+  if (document.issuer.replace(/\/+$/, "") !== config.issuer) {
+    throw new Error(`Discovery issuer ${document.issuer} doesn't match ${config.issuer}`);
+  }
+  discoveryCache.set(config.issuer, { document, fetchedAt: Date.now() });
+  return document;
+}
+
+// ------------------------------------------
+// Authorization request
+// ------------------------------------------
+
+function base64url(bytes: Buffer): string {
+  return bytes.toString("base64url");
+}
+
+/** A random value for state, nonce or the PKCE verifier */
+export function randomUrlToken(): string {
+  return base64url(crypto.randomBytes(32));
+}
+
+/** PKCE S256 code challenge for a verifier (RFC 7636 §4.2) */
+export function pkceChallenge(codeVerifier: string): string {
+  return base64url(crypto.createHash("sha256").update(codeVerifier).digest());
+}
+
+/**
+ * The provider URL to send the browser to.
+ */
+export async function buildAuthorizationUrl(
+  config: OidcProviderConfig,
+  params: { redirectUri: string; state: string; nonce: string; codeVerifier: string }
+): Promise<string> {
+  const { authorization_endpoint } = await discover(config);
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("scope", config.scopes);
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("nonce", params.nonce);
+  url.searchParams.set("code_challenge", pkceChallenge(params.codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+}
+
+// ------------------------------------------
+// Code exchange
+// ------------------------------------------
+
+/**
+ * Redeem an authorization code and return the verified identity.
+ * Falls back to the userinfo endpoint when the ID token carries no email.
+ */
+export async function exchangeAuthorizationCode(
+  config: OidcProviderConfig,
+  params: { code: string; redirectUri: string; codeVerifier: string; nonce: string }
+): Promise<OidcClaims> {
+  const discovery = await discover(config);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+  };
+
+  // client_secret_basic is the spec default; use _post only when the
+  // provider doesn't accept basic
+  const methods = discovery.token_endpoint_auth_methods_supported ?? ["client_secret_basic"];
+  if (!config.clientSecret) {
+    body.set("client_id", config.clientId);
+  } else if (methods.includes("client_secret_basic")) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    body.set("client_id", config.clientId);
+    body.set("client_secret", config.clientSecret);
+  }
+
+  const tokens = await fetchJson<TokenResponse>(discovery.token_endpoint, {
+    method: "POST",
+    headers,
+    body: body.toString(),
+  });
+  if (!tokens.id_token) {
+    throw new Error("Provider returned no ID token — is the openid scope configured?");
+  }
+
+  const payload = await verifyIdToken(config, discovery, tokens.id_token, params.nonce);
+  const claims: OidcClaims = {
+    sub: payload.sub as string,
+    email: typeof payload.email === "string" ? payload.email.toLowerCase() : null,
+    emailVerified: payload.email_verified === true || payload.email_verified === "true",
+    name: typeof payload.name === "string" ? payload.name : null,
+  };
+
+  if (!claims.email && tokens.access_token && discovery.userinfo_endpoint) {
+    const info = await fetchJson<Record<string, unknown>>(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    // Userinfo must describe the same subject (OIDC Core §5.3.2)
+    if (info.sub === claims.sub) {
+      if (typeof info.email === "string") claims.email = info.email.toLowerCase();
+      claims.emailVerified =
+        info.email_verified === true || info.email_verified === "true";
+      if (!claims.name && typeof info.name === "string") claims.name = info.name;
+    }
+  }
+
+  return claims;
+}
+
+// ------------------------------------------
+// ID token verification
+// ------------------------------------------
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+  alg?: string;
+}
+
+const jwksCache = new Map<string, Jwk[]>();
+
+async function fetchJwks(jwksUri: string): Promise<Jwk[]> {
+  const { keys } = await fetchJson<{ keys: Jwk[] }>(jwksUri);
+  jwksCache.set(jwksUri, keys);
+  return keys;
+}
+
+/** Hash and key options per JWS algorithm (RFC 7518 §3.1) */
+function verifyOptions(
+  alg: string,
+  key: crypto.KeyObject
+): { hash: string | null; key: crypto.VerifyKeyObjectInput } | null {
+  const bits = alg.slice(2);
+  switch (alg) {
+    case "RS256":
+    case "RS384":
+    case "RS512":
+      return { hash: `sha${bits}`, key: { key } };
+    case "PS256":
+    case "PS384":
+    case "PS512":
+      return {
+        hash: `sha${bits}`,
+        key: {
+          key,
+          padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+          saltLength: Number(bits) / 8,
+        },
+      };
+    case "ES256":
+    case "ES384":
+    case "ES512":
+      return { hash: `sha${bits}`, key: { key, dsaEncoding: "ieee-p1363" } };
+    case "EdDSA":
+      return { hash: null, key: { key } };
+    default:
+      return null;
+  }
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+/**
+ * Verify an ID token's signature and claims (OIDC Core §3.1.3.7).
+ */
+async function verifyIdToken(
+  config: OidcProviderConfig,
+  discovery: DiscoveryDocument,
+  idToken: string,
+  nonce: string
+): Promise<Record<string, unknown>> {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) throw new Error("Malformed ID token");
+  const [headerPart, payloadPart, signaturePart] = parts as [string, string, string];
+
+  const header = decodeSegment(headerPart);
+  const alg = String(header.alg);
+  const kid = typeof header.kid === "string" ? header.kid : undefined;
+
+  const findKey = (keys: Jwk[]) =>
+    keys.find(
+      (k) =>
+        (kid === undefined || k.kid === kid) &&
+        (k.use === undefined || k.use === "sig") &&
+        (k.alg === undefined || k.alg === alg)
+    );
+
+  // A kid we haven't seen usually means the issuer rotated keys — refetch once
+  let jwk = findKey(jwksCache.get(discovery.jwks_uri) ?? []);
+  if (!jwk) jwk = findKey(await fetchJwks(discovery.jwks_uri));
+  if (!jwk) throw new Error("ID token signed with an unknown key");
+
+  const options = verifyOptions(alg, crypto.createPublicKey({ key: jwk, format: "jwk" }));
+  if (!options) throw new Error(`Unsupported ID token algorithm ${alg}`);
+
+  const valid = crypto.verify(
+    options.hash,
+    Buffer.from(`${headerPart}.${payloadPart}`),
+    options.key,
+    Buffer.from(signaturePart, "base64url")
+  );
+  if (!valid) throw new Error("ID token signature is invalid");
+
+  const payload = decodeSegment(payloadPart);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+
+  if (String(payload.iss).replace(/\/+$/, "") !== config.issuer) {
+    throw new Error("ID token issuer mismatch");
+  }
+  if (!audiences.includes(config.clientId)) {
+    throw new Error("ID token audience mismatch");
+  }
+  if (audiences.length > 1 && payload.azp !== undefined && payload.azp !== config.clientId) {
+    throw new Error("ID token authorized party mismatch");
+  }
+  if (typeof payload.exp !== "number" || payload.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error("ID token has expired");
+  }
+  if (typeof payload.iat === "number" && payload.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new Error("ID token issued in the future");
+  }
+  if (payload.nonce !== nonce) {
+    throw new Error("ID token nonce mismatch");
+  }
+  if (typeof payload.sub !== "string" || !payload.sub) {
+    throw new Error("ID token has no subject");
+  }
+
+  return payload;
+}
@@ -0,0 +1,271 @@
+import crypto from "crypto";
+import http from "http";
+
+// ============================================
+// Mock OpenID Connect issuer — local development and manual testing
+//
+//   pnpm --filter @sme/core oidc:mock
+//
+// A minimal issuer for the "mock" provider: discovery, an authorize page
+// where you type any email and name (and choose whether the email counts as
+// verified), a token endpoint that checks the PKCE verifier, JWKS and
+// userinfo. Configure the app with:
+//
+//   OIDC_PROVIDERS="mock"
+//   OIDC_MOCK_ISSUER="http://localhost:9400"
+//   OIDC_MOCK_CLIENT_ID="sme-dev"
+//   OIDC_MOCK_CLIENT_SECRET="sme-dev-secret"
+//
+// It reads the same variables. Keys and issued codes live in memory only —
+// NEVER expose this server beyond localhost.
+// ============================================
+
+const port = Number(process.env.OIDC_MOCK_PORT ?? 9400);
+const issuer = (process.env.OIDC_MOCK_ISSUER ?? `http://localhost:${port}`).replace(/\/+$/, "");
+const clientId = process.env.OIDC_MOCK_CLIENT_ID ?? "sme-dev";
+const clientSecret = process.env.OIDC_MOCK_CLIENT_SECRET || null;
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 3600;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+const kid = crypto.randomBytes(8).toString("hex");
+
+interface MockUser {
+  sub: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+}
+
+const codes = new Map<
+  string,
+  {
+    user: MockUser;
+    redirectUri: string;
+    codeChallenge: string;
+    nonce: string | null;
+    expiresAt: number;
+  }
+>();
+const accessTokens = new Map<string, MockUser>();
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: http.ServerResponse, status: number, error: string, description: string): void {
+  sendJson(res, status, { error, error_description: description });
+}
+
+async function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+}
+
+function signJwt(payload: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT", kid })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${body}`), privateKey);
+  return `${header}.${body}.${signature.toString("base64url")}`;
+}
+
+/** The same email always gets the same subject, so sign-ins are repeatable */
+function subjectFor(email: string): string {
+  return crypto.createHash("sha256").update(email).digest("hex").slice(0, 24);
+}
+
+function authorizePage(params: URLSearchParams): string {
+  const hidden = ["client_id", "redirect_uri", "state", "nonce", "code_challenge", "code_challenge_method"]
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? "")}">`)
+    .join("\n    ");
+  return `<!doctype html>
+<html>
+<body style="font-family: sans-serif; max-width: 360px; margin: 60px auto;">
+  <h2>Mock OIDC sign-in</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" type="email" required autofocus style="width: 100%"></label></p>
+    <p><label>Name<br><input name="name" style="width: 100%"></label></p>
+    <p><label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label></p>
+    <p><button type="submit">Sign in</button></p>
+  </form>
+</body>
+</html>`;
+}
+
+/** Check the authorization request; returns an error description or null */
+function checkAuthorizeParams(params: URLSearchParams): string | null {
+  if (params.get("client_id") !== clientId) return "Unknown client_id";
+  if (!params.get("redirect_uri")) return "redirect_uri is required";
+  if (params.get("code_challenge_method") !== "S256" || !params.get("code_challenge")) {
+    return "PKCE with S256 is required";
+  }
+  return null;
+}
+
+async function handleToken(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const form = await readForm(req);
+
+  // client_secret_basic or client_secret_post
+  let id = form.get("client_id");
+  let secret = form.get("client_secret");
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Basic ")) {
+    const [user, pass] = Buffer.from(authorization.slice(6), "base64").toString("utf8").split(":");
+    id = decodeURIComponent(user ?? "");
+    secret = decodeURIComponent(pass ?? "");
+  }
+  if (id !== clientId || (clientSecret && secret !== clientSecret)) {
+    return sendError(res, 401, "invalid_client", "Client authentication failed");
+  }
+
+  if (form.get("grant_type") !== "authorization_code") {
+    return sendError(res, 400, "unsupported_grant_type", "Only authorization_code is supported");
+  }
+
+  const code = form.get("code") ?? "";
+  const grant = codes.get(code);
+  codes.delete(code);
+  if (!grant || grant.expiresAt < Date.now()) {
+    return sendError(res, 400, "invalid_grant", "Unknown or expired code");
+  }
+  if (grant.redirectUri !== form.get("redirect_uri")) {
+    return sendError(res, 400, "invalid_grant", "redirect_uri mismatch");
+  }
+  const verifier = form.get("code_verifier") ?? "";
+  const challenge = crypto.createHash("sha256").update(verifier).digest("base64url");
+  if (challenge !== grant.codeChallenge) {
+    return sendError(res, 400, "invalid_grant", "PKCE verification failed");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(24).toString("base64url");
+  accessTokens.set(accessToken, grant.user);
+
+  sendJson(res, 200, {
+    token_type: "Bearer",
+    access_token: accessToken,
+    expires_in: TOKEN_TTL_SECONDS,
+    id_token: signJwt({
+      iss: issuer,
+      sub: grant.user.sub,
+      aud: clientId,
+      iat: now,
+      exp: now + TOKEN_TTL_SECONDS,
+      ...(grant.nonce ? { nonce: grant.nonce } : {}),
+      email: grant.user.email,
+      email_verified: grant.user.emailVerified,
+      name: grant.user.name,
+    }),
+  });
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? "/", issuer);
+
+  if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+    return sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+      token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+      scopes_supported: ["openid", "email", "profile"],
+    });
+  }
+
+  if (req.method === "GET" && url.pathname === "/jwks") {
+    const jwk = publicKey.export({ format: "jwk" });
+    return sendJson(res, 200, { keys: [{ ...jwk, kid, use: "sig", alg: "RS256" }] });
+  }
+
+  if (url.pathname === "/authorize") {
+    const params = req.method === "POST" ? await readForm(req) : url.searchParams;
+    const problem = checkAuthorizeParams(params);
+    if (problem) return sendError(res, 400, "invalid_request", problem);
+
+    if (req.method === "GET") {
+      if (params.get("response_type") !== "code") {
+        return sendError(res, 400, "unsupported_response_type", "Only code is supported");
+      }
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(authorizePage(params));
+      return;
+    }
+
+    const email = (params.get("email") ?? "").trim().toLowerCase();
+    if (!email.includes("@")) return sendError(res, 400, "invalid_request", "Email is required");
+
+    const code = crypto.randomBytes(24).toString("base64url");
+    codes.set(code, {
+      user: {
+        sub: subjectFor(email),
+        email,
+        name: params.get("name")?.trim() || email.split("@")[0]!,
+        emailVerified: params.get("email_verified") === "true",
+      },
+      redirectUri: params.get("redirect_uri")!,
+      codeChallenge: params.get("code_challenge")!,
+      nonce: params.get("nonce"),
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const redirect = new URL(params.get("redirect_uri")!);
+    redirect.searchParams.set("code", code);
+    if (params.get("state")) redirect.searchParams.set("state", params.get("state")!);
+    res.writeHead(302, { Location: redirect.toString() });
+    res.end();
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/token") {
+    return handleToken(req, res);
+  }
+
+  if (req.method === "GET" && url.pathname === "/userinfo") {
+    const token = req.headers.authorization?.replace(/^Bearer /, "") ?? "";
+    const user = accessTokens.get(token);
+    if (!user) return sendError(res, 401, "invalid_token", "Unknown access token");
+    return sendJson(res, 200, {
+      sub: user.sub,
+      email: user.email,
+      email_verified: user.emailVerified,
+      name: user.name,
+    });
+  }
+
+  sendError(res, 404, "not_found", `${req.method} ${url.pathname} not found`);
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((err) => {
+    console.error("❌ Mock issuer error:", err);
+    if (!res.headersSent) sendError(res, 500, "server_error", "Internal error");
+  });
+});
+
+server.listen(port, "127.0.0.1", () => {
+  console.log(`✅ Mock OIDC issuer at ${issuer} (client_id "${clientId}")`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
@@ -0,0 +1,492 @@
+import { eq, and, gt, isNotNull } from "drizzle-orm";
+import { adminDb } from "../db/index";
+import {
+  users,
+  userIdentities,
+  oidcAuthRequests,
+  tenants,
+  tenantMemberships,
+  roles,
+  tenantSsoDomains,
+  type OidcAuthRequest,
+} from "../db/schema/index";
+import { hashToken } from "@sme/shared";
+import {
+  getOidcProviderConfigs,
+  getOidcProviderConfig,
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  randomUrlToken,
+  type OidcClaims,
+  type OidcProviderConfig,
+} from "./oidc-client";
+import { hashPassword } from "./password";
+import { emailDomain } from "./sso-domains";
+import {
+  beginSession,
+  AuthError,
+  type LoginResult,
+  type MfaChallengeResult,
+} from "./login";
+import { sendEmailVerification } from "./user-tokens";
+import { assertMemberLimit } from "../modules/entitlements";
+import { createAuditLog, createUserAuditLog } from "../audit/index";
+import { appUrl } from "../mail/index";
+
+// ============================================
+// OpenID Connect sign-in
+// ============================================
+// beginOidcLogin stores the request (state, nonce, PKCE verifier) and
+// returns the provider URL; completeOidcLogin redeems the code and signs the
+// user in. Identities are matched on (provider, subject). An unknown subject
+// is linked to the account with the same email only when the provider says
+// the email is verified — otherwise anyone able to register that address at
+// the provider could take over the account — and creates a new account when
+// no account has the email.
+//
+// Tenants can list email domains whose verified users join them
+// automatically with a chosen role (tenant_sso_domains /
+// settings.ssoAutoProvisionRoleId) — once the tenant has verified the
+// domain through DNS (see sso-domains.ts).
+// ============================================
+
+const AUTH_REQUEST_DURATION_MS = 10 * 60 * 1000; // 10 minutes
+
+export interface OidcProvider {
+  id: string;
+  name: string;
+}
+
+export interface OidcIdentity {
+  id: string;
+  provider: string;
+  providerName: string;
+  email: string | null;
+  createdAt: Date;
+  lastLoginAt: Date | null;
+}
+
+/** Outcome of a provider callback */
+export type OidcCallbackResult =
+  | {
+      kind: "login";
+      result: LoginResult | MfaChallengeResult;
+      returnTo: string | null;
+    }
+  | {
+      /** A signed-in user connecting the identity to their account */
+      kind: "link";
+      /** Why it wasn't connected — shown on the page they return to */
+      error: string | null;
+      returnTo: string | null;
+    };
+
+/** Configured providers, for sign-in buttons */
+export function listOidcProviders(): OidcProvider[] {
+  return getOidcProviderConfigs().map(({ id, name }) => ({ id, name }));
+}
+
+/** Callback URL registered with the provider */
+export function oidcRedirectUri(providerId: string): string {
+  return appUrl(`/api/auth/oidc/${providerId}/callback`);
+}
+
+function requireProvider(providerId: string): OidcProviderConfig {
+  const config = getOidcProviderConfig(providerId);
+  if (!config) throw new AuthError("Unknown sign-in provider", 404);
+  return config;
+}
+
+/**
+ * Start a sign-in with a provider. Returns the URL to redirect to and the
+ * state — set it as a short-lived httpOnly cookie and pass it back to
+ * completeOidcLogin, so the callback only completes in this browser.
+ *
+ * @param params.linkUserId - Connect the identity to this (signed-in) user
+ *   instead of signing in
+ * @param params.returnTo - App path to continue at afterwards
+ */
+export async function beginOidcLogin(params: {
+  providerId: string;
+  linkUserId?: string;
+  returnTo?: string;
+}): Promise<{ url: string; state: string; expiresAt: Date }> {
+  const config = requireProvider(params.providerId);
+
+  const state = randomUrlToken();
+  const nonce = randomUrlToken();
+  const codeVerifier = randomUrlToken();
+  const expiresAt = new Date(Date.now() + AUTH_REQUEST_DURATION_MS);
+
+  let url: string;
+  try {
+    url = await buildAuthorizationUrl(config, {
+      redirectUri: oidcRedirectUri(config.id),
+      state,
+      nonce,
+      codeVerifier,
+    });
+  } catch (error) {
+    console.error(`[oidc] Discovery failed for ${config.id}:`, error);
+    throw new AuthError(`${config.name} sign-in is unavailable right now`, 502);
+  }
+
+  await adminDb.insert(oidcAuthRequests).values({
+    stateHash: await hashToken(state),
+    provider: config.id,
+    nonce,
+    codeVerifier,
+    linkUserId: params.linkUserId ?? null,
+    // Only same-origin paths — never an open redirect
+    returnTo: params.returnTo?.startsWith("/") && !params.returnTo.startsWith("//")
+      ? params.returnTo
+      : null,
+    expiresAt,
+  });
+
+  return { url, state, expiresAt };
+}
+
+/**
+ * Handle the provider's callback: redeem the code, then sign the user in
+ * (or connect the identity, for a request started with linkUserId).
+ * Sign-ins go through two-factor authentication like password logins.
+ *
+ * @param params.state - The state from the callback URL
+ * @param params.expectedState - The state from the browser's cookie
+ */
+export async function completeOidcLogin(params: {
+  providerId: string;
+  state: string;
+  expectedState: string | undefined;
+  code: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<OidcCallbackResult> {
+  const config = requireProvider(params.providerId);
+
+  if (!params.expectedState || params.state !== params.expectedState) {
+    throw new AuthError("Sign-in request expired. Please try again.", 400);
+  }
+
+  // Single use — deleted whether or not the rest succeeds
+  const [request] = await adminDb
+    .delete(oidcAuthRequests)
+    .where(
+      and(
+        eq(oidcAuthRequests.stateHash, await hashToken(params.state)),
+        eq(oidcAuthRequests.provider, config.id),
+        gt(oidcAuthRequests.expiresAt, new Date())
+      )
+    )
+    .returning();
+
+  if (!request) {
+    throw new AuthError("Sign-in request expired. Please try again.", 400);
+  }
+
+  if (request.linkUserId) {
+    try {
+      const claims = await redeemCode(config, request, params.code);
+      await linkIdentity(request.linkUserId, config, claims, params.ipAddress);
+      return { kind: "link", error: null, returnTo: request.returnTo };
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error;
+      return { kind: "link", error: error.message, returnTo: request.returnTo };
+    }
+  }
+
+  const claims = await redeemCode(config, request, params.code);
+  const user = await findOrCreateUser(config, claims, params.ipAddress);
+  if (!user.isActive) {
+    throw new AuthError("This account is disabled", 403);
+  }
+
+  if (claims.email && claims.emailVerified) {
+    await provisionSsoMemberships(user.id, claims.email, params.ipAddress);
+  }
+
+  const result = await beginSession(user, {
+    authMethod: "oauth",
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+  });
+  return { kind: "login", result, returnTo: request.returnTo };
+}
+
+/** Redeem the callback's code — provider errors are logged, not shown */
+async function redeemCode(
+  config: OidcProviderConfig,
+  request: OidcAuthRequest,
+  code: string
+): Promise<OidcClaims> {
+  try {
+    return await exchangeAuthorizationCode(config, {
+      code,
+      redirectUri: oidcRedirectUri(config.id),
+      codeVerifier: request.codeVerifier,
+      nonce: request.nonce,
+    });
+  } catch (error) {
+    console.error(`[oidc] Code exchange failed for ${config.id}:`, error);
+    throw new AuthError(`Sign-in with ${config.name} failed`, 401);
+  }
+}
+
+/**
+ * The user for an identity: linked already, linked now by verified email,
+ * or newly created.
+ */
+async function findOrCreateUser(
+  config: OidcProviderConfig,
+  claims: OidcClaims,
+  ipAddress?: string
+): Promise<typeof users.$inferSelect> {
+  const [linked] = await adminDb
+    .select({ user: users, identityId: userIdentities.id })
+    .from(userIdentities)
+    .innerJoin(users, eq(userIdentities.userId, users.id))
+    .where(
+      and(
+        eq(userIdentities.provider, config.id),
+        eq(userIdentities.subject, claims.sub)
+      )
+    )
+    .limit(1);
+
+  if (linked) {
+    await adminDb
+      .update(userIdentities)
+      .set({ email: claims.email, lastLoginAt: new Date() })
+      .where(eq(userIdentities.id, linked.identityId));
+    return linked.user;
+  }
+
+  if (!claims.email) {
+    throw new AuthError(`${config.name} didn't share an email address`, 400);
+  }
+
+  const [existing] = await adminDb
+    .select()
+    .from(users)
+    .where(eq(users.email, claims.email))
+    .limit(1);
+
+  if (existing) {
+    if (!claims.emailVerified) {
+      throw new AuthError(
+        `An account with this email already exists. Sign in with your password, then connect ${config.name} in your security settings.`,
+        409
+      );
+    }
+    await linkIdentity(existing.id, config, claims, ipAddress);
+    return existing;
+  }
+
+  // New account — it has no usable password until the user resets one
+  const [created] = await adminDb
+    .insert(users)
+    .values({
+      email: claims.email,
+      fullName: claims.name?.slice(0, 200) || claims.email.split("@")[0]!,
+      passwordHash: await hashPassword(randomUrlToken()),
+      emailVerified: claims.emailVerified,
+    })
+    .returning();
+
+  if (!created) {
+    throw new AuthError("Failed to create account", 500);
+  }
+
+  await adminDb.insert(userIdentities).values({
+    userId: created.id,
+    provider: config.id,
+    subject: claims.sub,
+    email: claims.email,
+    lastLoginAt: new Date(),
+  });
+
+  if (!created.emailVerified) {
+    await sendEmailVerification(created.id);
+  }
+  return created;
+}
+
+/**
+ * Connect a provider identity to a user. Throws if it already belongs to
+ * someone else.
+ */
+async function linkIdentity(
+  userId: string,
+  config: OidcProviderConfig,
+  claims: OidcClaims,
+  ipAddress?: string
+): Promise<void> {
+  const [existing] = await adminDb
+    .select({ id: userIdentities.id, userId: userIdentities.userId })
+    .from(userIdentities)
+    .where(
+      and(
+        eq(userIdentities.provider, config.id),
+        eq(userIdentities.subject, claims.sub)
+      )
+    )
+    .limit(1);
+
+  if (existing && existing.userId !== userId) {
+    throw new AuthError(
+      `This ${config.name} account is already connected to another user`,
+      409
+    );
+  }
+  if (existing) {
+    await adminDb
+      .update(userIdentities)
+      .set({ email: claims.email, lastLoginAt: new Date() })
+      .where(eq(userIdentities.id, existing.id));
+    return;
+  }
+
+  await adminDb.insert(userIdentities).values({
+    userId,
+    provider: config.id,
+    subject: claims.sub,
+    email: claims.email,
+    lastLoginAt: new Date(),
+  });
+  await createUserAuditLog({
+    userId,
+    action: "auth:identity_linked",
+    changes: { after: { provider: config.id, email: claims.email } },
+    ipAddress,
+  });
+}
+
+/**
+ * Add the user to every active tenant that has verified their email domain
+ * for SSO auto-provisioning, with the tenant's chosen role. Tenants the user
+ * was ever a member of are left alone (a deactivated member stays out), as
+ * are tenants at their plan's member limit.
+ */
+async function provisionSsoMemberships(
+  userId: string,
+  email: string,
+  ipAddress?: string
+): Promise<void> {
+  const domain = emailDomain(email);
+  if (!domain) return;
+
+  const candidates = await adminDb
+    .select({ id: tenants.id, settings: tenants.settings })
+    .from(tenants)
+    .innerJoin(tenantSsoDomains, eq(tenantSsoDomains.tenantId, tenants.id))
+    .where(
+      and(
+        eq(tenants.isActive, true),
+        eq(tenantSsoDomains.domain, domain),
+        isNotNull(tenantSsoDomains.verifiedAt)
+      )
+    );
+
+  for (const tenant of candidates) {
+    const roleId = tenant.settings?.ssoAutoProvisionRoleId;
+    if (typeof roleId !== "string") continue;
+
+    await adminDb.transaction(async (tx) => {
+      const [membership] = await tx
+        .select({ id: tenantMemberships.id })
+        .from(tenantMemberships)
+        .where(
+          and(
+            eq(tenantMemberships.tenantId, tenant.id),
+            eq(tenantMemberships.userId, userId)
+          )
+        )
+        .limit(1);
+      if (membership) return;
+
+      const [role] = await tx
+        .select({ id: roles.id, slug: roles.slug })
+        .from(roles)
+        .where(and(eq(roles.id, roleId), eq(roles.tenantId, tenant.id)))
+        .limit(1);
+      if (!role || role.slug === "owner") return;
+
+      try {
+        await assertMemberLimit(tenant.id, tx);
+      } catch (error) {
+        console.warn(`[oidc] Not provisioning into tenant ${tenant.id}:`, error);
+        return;
+      }
+
+      await tx.insert(tenantMemberships).values({
+        tenantId: tenant.id,
+        userId,
+        roleId: role.id,
+      });
+      await createAuditLog(
+        {
+          tenantId: tenant.id,
+          userId,
+          action: "user:sso_provisioned",
+          resourceType: "user",
+          resourceId: userId,
+          changes: { after: { email, roleId: role.id } },
+          ipAddress,
+        },
+        tx
+      );
+    });
+  }
+}
+
+/**
+ * The provider identities connected to a user's account.
+ */
+export async function listUserIdentities(userId: string): Promise<OidcIdentity[]> {
+  const providerNames = new Map(
+    getOidcProviderConfigs().map((p) => [p.id, p.name] as const)
+  );
+
+  const rows = await adminDb
+    .select()
+    .from(userIdentities)
+    .where(eq(userIdentities.userId, userId))
+    .orderBy(userIdentities.createdAt);
+
+  return rows.map((row) => ({
+    id: row.id,
+    provider: row.provider,
+    providerName: providerNames.get(row.provider) ?? row.provider,
+    email: row.email,
+    createdAt: row.createdAt,
+    lastLoginAt: row.lastLoginAt,
+  }));
+}
+
+/**
+ * Disconnect an identity from the user's account. Accounts created through
+ * a provider have no known password — the user can set one with a password
+ * reset.
+ */
+export async function unlinkIdentity(
+  userId: string,
+  identityId: string,
+  options: { ipAddress?: string } = {}
+): Promise<void> {
+  const [removed] = await adminDb
+    .delete(userIdentities)
+    .where(
+      and(eq(userIdentities.id, identityId), eq(userIdentities.userId, userId))
+    )
+    .returning({ provider: userIdentities.provider, email: userIdentities.email });
+
+  if (!removed) throw new Error("Identity not found");
+
+  await createUserAuditLog({
+    userId,
+    action: "auth:identity_unlinked",
+    changes: { before: { provider: removed.provider, email: removed.email } },
+    ipAddress: options.ipAddress,
+  });
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { checkTenantAccess, type SessionValidationResult } from "./session";
+
+function memberSession(
+  overrides: {
+    tenantId?: string | null;
+    mfaRequired?: boolean;
+    mfaVerified?: boolean;
+    impersonated?: boolean;
+    member?: boolean;
+  } = {}
+): SessionValidationResult {
+  return {
+    session: {
+      id: "session-1",
+      userId: "user-1",
+      tenantId: overrides.tenantId === undefined ? "tenant-1" : overrides.tenantId,
+      locationId: null,
+      authMethod: "password",
+      expiresAt: new Date(Date.now() + 60_000),
+      readOnly: false,
+      impersonator: overrides.impersonated
+        ? { id: "admin-1", email: "admin@example.test", fullName: "Admin" }
+        : null,
+      mfaVerified: overrides.mfaVerified ?? false,
+      apiKey: null,
+    },
+    user: {
+      id: "user-1",
+      email: "member@example.test",
+      fullName: "Member",
+      avatarUrl: null,
+      isSuperAdmin: false,
+      emailVerified: true,
+    },
+    membership:
+      overrides.member === false
+        ? undefined
+        : {
+            id: "membership-1",
+            roleId: "role-1",
+            roleName: "Manager",
+            roleSlug: "manager",
+            permissions: ["core:audit:read"],
+            locationIds: [],
+            mfaRequired: overrides.mfaRequired ?? false,
+          },
+  };
+}
+
+describe("checkTenantAccess", () => {
+  it("allows a member of the selected tenant", () => {
+    const access = checkTenantAccess(memberSession());
+
+    expect(access.ok).toBe(true);
+    if (access.ok) {
+      expect(access.tenantId).toBe("tenant-1");
+      expect(access.membership.roleSlug).toBe("manager");
+    }
+  });
+
+  it("rejects a missing session, tenant or membership", () => {
+    expect(checkTenantAccess(null)).toMatchObject({ ok: false, code: "UNAUTHORIZED" });
+    expect(checkTenantAccess(memberSession({ tenantId: null }))).toMatchObject({
+      ok: false,
+      code: "BAD_REQUEST",
+    });
+    expect(checkTenantAccess(memberSession({ member: false }))).toMatchObject({
+      ok: false,
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("rejects an unverified session when the role requires MFA", () => {
+    expect(checkTenantAccess(memberSession({ mfaRequired: true }))).toEqual({
+      ok: false,
+      code: "FORBIDDEN",
+      message: "Your role requires two-factor authentication",
+    });
+  });
+
+  it("allows MFA-verified and impersonation sessions when the role requires MFA", () => {
+    expect(
+      checkTenantAccess(memberSession({ mfaRequired: true, mfaVerified: true })).ok
+    ).toBe(true);
+    expect(
+      checkTenantAccess(memberSession({ mfaRequired: true, impersonated: true })).ok
+    ).toBe(true);
+  });
+});
@@ -1,6 +1,22 @@
-import { eq, and, gt } from "drizzle-orm";
+import { eq, and, gt, ne, desc } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { adminDb } from "../db/index";
-import { sessions, users, tenantMemberships, roles } from "../db/schema/index";
+import {
+  sessions,
+  mfaChallenges,
+  userTokens,
+  oidcAuthRequests,
+  users,
+  tenants,
+  tenantMemberships,
+  roles,
+  locations,
+  membershipLocations,
+} from "../db/schema/index";
+import {
+  getActivePermissionGrants,
+  mergePermissionGrants,
+} from "../rbac/grants";
 import { hashToken } from "@sme/shared";
 import type { AuthMethod } from "@sme/shared";
 import crypto from "crypto";
@@ -22,8 +38,18 @@ export interface SessionValidationResult {
     id: string;
     userId: string;
     tenantId: string | null;
+    /** Active location — null if none selected or no longer accessible */
+    locationId: string | null;
     authMethod: string;
     expiresAt: Date;
+    /** Mutations are rejected (see readOnlySession in trpc/procedures) */
+    readOnly: boolean;
+    /** Super admin acting as `user` — set on impersonation sessions */
+    impersonator: { id: string; email: string; fullName: string } | null;
+    /** Signed in (or stepped up) with a second factor */
+    mfaVerified: boolean;
+    /** Set when the request authenticated with an API key (see auth/api-keys) */
+    apiKey: { id: string; name: string; prefix: string } | null;
   };
   user: {
     id: string;
@@ -31,6 +57,7 @@ export interface SessionValidationResult {
     fullName: string;
     avatarUrl: string | null;
     isSuperAdmin: boolean;
+    emailVerified: boolean;
   };
   membership?: {
     id: string;
@@ -38,6 +65,81 @@ export interface SessionValidationResult {
     roleName: string;
     roleSlug: string;
     permissions: string[];
+    /** Assigned locations — empty means the member may use every location */
+    locationIds: string[];
+    /** The tenant requires a second factor for this member's role */
+    mfaRequired: boolean;
+    /** Active location and the permissions that apply there */
+    location?: {
+      id: string;
+      name: string;
+      /** Per-location role override (null = tenant role applies) */
+      roleId: string | null;
+      roleSlug: string;
+      permissions: string[];
+    };
+  };
+}
+
+export type TenantAccess =
+  | {
+      ok: true;
+      session: SessionValidationResult;
+      tenantId: string;
+      membership: NonNullable<SessionValidationResult["membership"]>;
+    }
+  | {
+      ok: false;
+      code: "UNAUTHORIZED" | "BAD_REQUEST" | "FORBIDDEN";
+      message: string;
+    };
+
+/**
+ * Check that a session may act in its active tenant: signed in, a tenant
+ * selected, a member of it, and MFA-verified if the tenant requires it for
+ * the member's role (settings.mfaRequiredRoles) — impersonation aside.
+ * Tenant procedures (hasTenantContext) and tenant API routes share this.
+ */
+export function checkTenantAccess(
+  session: SessionValidationResult | null
+): TenantAccess {
+  if (!session) {
+    return { ok: false, code: "UNAUTHORIZED", message: "You must be logged in" };
+  }
+
+  if (!session.session.tenantId) {
+    return {
+      ok: false,
+      code: "BAD_REQUEST",
+      message: "No tenant selected. Please select a tenant first.",
+    };
+  }
+
+  if (!session.membership) {
+    return {
+      ok: false,
+      code: "FORBIDDEN",
+      message: "You are not a member of this tenant",
+    };
+  }
+
+  if (
+    session.membership.mfaRequired &&
+    !session.session.mfaVerified &&
+    !session.session.impersonator
+  ) {
+    return {
+      ok: false,
+      code: "FORBIDDEN",
+      message: "Your role requires two-factor authentication",
+    };
+  }
+
+  return {
+    ok: true,
+    session,
+    tenantId: session.session.tenantId,
+    membership: session.membership,
   };
 }
 
@@ -59,6 +161,13 @@ export async function createSession(params: {
   authMethod?: AuthMethod;
   ipAddress?: string;
   userAgent?: string;
+  /** Super admin acting as userId (authMethod "impersonation") */
+  impersonatorId?: string;
+  readOnly?: boolean;
+  /** A second factor was verified before creating the session */
+  mfaVerified?: boolean;
+  /** Overrides the auth method's default lifetime */
+  expiresAt?: Date;
 }): Promise<{ token: string; sessionId: string; expiresAt: Date }> {
   // Use crypto.randomBytes for session tokens (not UUID)
   const token = generateSecureToken();
@@ -69,7 +178,7 @@ export async function createSession(params: {
       ? PIN_SESSION_DURATION_MS
       : SESSION_DURATION_MS;
 
-  const expiresAt = new Date(Date.now() + duration);
+  const expiresAt = params.expiresAt ?? new Date(Date.now() + duration);
 
   const [session] = await adminDb
     .insert(sessions)
@@ -80,6 +189,9 @@ export async function createSession(params: {
       authMethod: params.authMethod ?? "password",
       ipAddress: params.ipAddress ?? null,
       userAgent: params.userAgent ?? null,
+      impersonatorId: params.impersonatorId ?? null,
+      readOnly: params.readOnly ?? false,
+      mfaVerified: params.mfaVerified ?? false,
       expiresAt,
     })
     .returning({ id: sessions.id });
@@ -99,6 +211,7 @@ export async function validateSession(
   token: string
 ): Promise<SessionValidationResult | null> {
   const tokenHash = await hashToken(token);
+  const impersonators = alias(users, "impersonators");
 
   // Find the session with user data (uses adminDb to bypass RLS on memberships)
   const result = await adminDb
@@ -106,17 +219,27 @@ export async function validateSession(
       sessionId: sessions.id,
       sessionUserId: sessions.userId,
       sessionTenantId: sessions.tenantId,
+      sessionLocationId: sessions.locationId,
       sessionAuthMethod: sessions.authMethod,
       sessionExpiresAt: sessions.expiresAt,
+      sessionReadOnly: sessions.readOnly,
+      sessionMfaVerified: sessions.mfaVerified,
       userId: users.id,
       userEmail: users.email,
       userFullName: users.fullName,
       userAvatarUrl: users.avatarUrl,
       userIsActive: users.isActive,
       userIsSuperAdmin: users.isSuperAdmin,
+      userEmailVerified: users.emailVerified,
+      impersonatorId: impersonators.id,
+      impersonatorEmail: impersonators.email,
+      impersonatorFullName: impersonators.fullName,
+      impersonatorIsActive: impersonators.isActive,
+      impersonatorIsSuperAdmin: impersonators.isSuperAdmin,
     })
     .from(sessions)
     .innerJoin(users, eq(sessions.userId, users.id))
+    .leftJoin(impersonators, eq(sessions.impersonatorId, impersonators.id))
     .where(
       and(
         eq(sessions.tokenHash, tokenHash),
@@ -127,14 +250,32 @@ export async function validateSession(
 
   const row = result[0];
   if (!row || !row.userIsActive) return null;
+  // An impersonation ends the moment its admin loses platform access
+  if (
+    row.impersonatorId &&
+    (!row.impersonatorIsActive || !row.impersonatorIsSuperAdmin)
+  ) {
+    return null;
+  }
 
   const validationResult: SessionValidationResult = {
     session: {
       id: row.sessionId,
       userId: row.sessionUserId,
       tenantId: row.sessionTenantId,
+      locationId: null,
       authMethod: row.sessionAuthMethod,
       expiresAt: row.sessionExpiresAt,
+      readOnly: row.sessionReadOnly,
+      impersonator: row.impersonatorId
+        ? {
+            id: row.impersonatorId,
+            email: row.impersonatorEmail!,
+            fullName: row.impersonatorFullName!,
+          }
+        : null,
+      mfaVerified: row.sessionMfaVerified,
+      apiKey: null,
     },
     user: {
       id: row.userId,
@@ -142,6 +283,7 @@ export async function validateSession(
       fullName: row.userFullName,
       avatarUrl: row.userAvatarUrl,
       isSuperAdmin: row.userIsSuperAdmin,
+      emailVerified: row.userEmailVerified,
     },
   };
 
@@ -155,9 +297,11 @@ export async function validateSession(
         roleSlug: roles.slug,
         permissions: roles.permissions,
         isActive: tenantMemberships.isActive,
+        tenantSettings: tenants.settings,
       })
       .from(tenantMemberships)
       .innerJoin(roles, eq(tenantMemberships.roleId, roles.id))
+      .innerJoin(tenants, eq(tenantMemberships.tenantId, tenants.id))
       .where(
         and(
           eq(tenantMemberships.userId, row.sessionUserId),
@@ -168,19 +312,118 @@ export async function validateSession(
 
     const membership = membershipResult[0];
     if (membership && membership.isActive) {
+      const assignments = await adminDb
+        .select({
+          locationId: membershipLocations.locationId,
+          roleId: membershipLocations.roleId,
+        })
+        .from(membershipLocations)
+        .where(eq(membershipLocations.membershipId, membership.membershipId));
+
+      // Time-bound grants apply at every location, on top of whichever role
+      const grants = await getActivePermissionGrants(membership.membershipId);
+      const permissions = mergePermissionGrants(membership.permissions ?? [], grants);
+
       validationResult.membership = {
         id: membership.membershipId,
         roleId: membership.roleId,
         roleName: membership.roleName,
         roleSlug: membership.roleSlug,
-        permissions: membership.permissions ?? [],
+        permissions,
+        locationIds: assignments.map((a) => a.locationId),
+        mfaRequired: (membership.tenantSettings?.mfaRequiredRoles ?? []).includes(
+          membership.roleSlug
+        ),
       };
+
+      if (row.sessionLocationId) {
+        const assignment = assignments.find(
+          (a) => a.locationId === row.sessionLocationId
+        );
+        // Ignore a stale selection (location deactivated or access removed)
+        if (assignment || assignments.length === 0) {
+          const [location] = await adminDb
+            .select({ id: locations.id, name: locations.name })
+            .from(locations)
+            .where(
+              and(
+                eq(locations.id, row.sessionLocationId),
+                eq(locations.tenantId, row.sessionTenantId),
+                eq(locations.isActive, true)
+              )
+            )
+            .limit(1);
+
+          if (location) {
+            const [overrideRole] = assignment?.roleId
+              ? await adminDb
+                  .select({ slug: roles.slug, permissions: roles.permissions })
+                  .from(roles)
+                  .where(eq(roles.id, assignment.roleId))
+                  .limit(1)
+              : [];
+
+            validationResult.session.locationId = location.id;
+            validationResult.membership.location = {
+              id: location.id,
+              name: location.name,
+              roleId: overrideRole ? assignment!.roleId : null,
+              roleSlug: overrideRole?.slug ?? membership.roleSlug,
+              permissions: overrideRole
+                ? mergePermissionGrants(overrideRole.permissions ?? [], grants)
+                : permissions,
+            };
+          }
+        }
+      }
     }
   }
 
   return validationResult;
 }
 
+export interface ActiveSession {
+  id: string;
+  tenantId: string | null;
+  tenantName: string | null;
+  authMethod: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  /** Opened by a platform admin acting as the user */
+  impersonated: boolean;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * List a user's unexpired sessions, newest first.
+ */
+export async function listUserSessions(
+  userId: string
+): Promise<ActiveSession[]> {
+  const rows = await adminDb
+    .select({
+      id: sessions.id,
+      tenantId: sessions.tenantId,
+      tenantName: tenants.name,
+      authMethod: sessions.authMethod,
+      ipAddress: sessions.ipAddress,
+      userAgent: sessions.userAgent,
+      impersonatorId: sessions.impersonatorId,
+      createdAt: sessions.createdAt,
+      expiresAt: sessions.expiresAt,
+    })
+    .from(sessions)
+    .leftJoin(tenants, eq(sessions.tenantId, tenants.id))
+    .where(and(eq(sessions.userId, userId), gt(sessions.expiresAt, new Date())))
+    .orderBy(desc(sessions.createdAt));
+
+  return rows.map(({ impersonatorId, ...row }) => ({
+    ...row,
+    impersonated: impersonatorId !== null,
+  }));
+}
+
 /**
  * Invalidate (delete) a specific session.
  */
@@ -190,15 +433,31 @@ export async function invalidateSession(sessionId: string): Promise<void> {
 
 /**
  * Invalidate all sessions for a user.
+ * `exceptSessionId` keeps one session (the caller's own); `tenantId` limits
+ * it to sessions in that tenant. Returns the number of sessions removed.
  */
 export async function invalidateAllUserSessions(
-  userId: string
-): Promise<void> {
-  await adminDb.delete(sessions).where(eq(sessions.userId, userId));
+  userId: string,
+  options: { exceptSessionId?: string; tenantId?: string } = {}
+): Promise<number> {
+  const result = await adminDb
+    .delete(sessions)
+    .where(
+      and(
+        eq(sessions.userId, userId),
+        options.exceptSessionId
+          ? ne(sessions.id, options.exceptSessionId)
+          : undefined,
+        options.tenantId ? eq(sessions.tenantId, options.tenantId) : undefined
+      )
+    )
+    .returning({ id: sessions.id });
+  return result.length;
 }
 
 /**
  * Update session's tenant context (for tenant switching).
+ * Clears the active location — locations belong to one tenant.
  */
 export async function updateSessionTenant(
   sessionId: string,
@@ -206,16 +465,51 @@ export async function updateSessionTenant(
 ): Promise<void> {
   await adminDb
     .update(sessions)
-    .set({ tenantId })
+    .set({ tenantId, locationId: null })
     .where(eq(sessions.id, sessionId));
 }
 
 /**
- * Clean up expired sessions.
+ * Mark a session as verified with a second factor (step-up after
+ * enrolling, or for sessions opened before MFA was required).
+ */
+export async function markSessionMfaVerified(sessionId: string): Promise<void> {
+  await adminDb
+    .update(sessions)
+    .set({ mfaVerified: true })
+    .where(eq(sessions.id, sessionId));
+}
+
+/**
+ * Update session's active location (for location switching).
+ * Callers verify the location is accessible first.
+ */
+export async function updateSessionLocation(
+  sessionId: string,
+  locationId: string | null
+): Promise<void> {
+  await adminDb
+    .update(sessions)
+    .set({ locationId })
+    .where(eq(sessions.id, sessionId));
+}
+
+/**
+ * Clean up expired sessions (plus abandoned MFA login challenges,
+ * expired emailed tokens and unfinished OpenID Connect sign-ins).
  * Should be called periodically (cron, scheduled job).
  */
 export async function cleanupExpiredSessions(): Promise<number> {
   const { sql } = await import("drizzle-orm");
+  await adminDb
+    .delete(mfaChallenges)
+    .where(sql`${mfaChallenges.expiresAt} < NOW()`);
+  await adminDb
+    .delete(userTokens)
+    .where(sql`${userTokens.expiresAt} < NOW()`);
+  await adminDb
+    .delete(oidcAuthRequests)
+    .where(sql`${oidcAuthRequests.expiresAt} < NOW()`);
   const result = await adminDb
     .delete(sessions)
     .where(sql`${sessions.expiresAt} < NOW()`)
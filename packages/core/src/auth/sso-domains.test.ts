@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveTxt } from "node:dns/promises";
+import {
+  assertSsoDomainVerified,
+  emailDomain,
+  ssoDomainVerificationRecord,
+} from "./sso-domains";
+
+vi.mock("node:dns/promises", () => ({ resolveTxt: vi.fn() }));
+
+const resolveTxtMock = vi.mocked(resolveTxt);
+
+describe("emailDomain", () => {
+  it("lowercases the domain", () => {
+    expect(emailDomain("Jane.Doe@Example.COM")).toBe("example.com");
+  });
+
+  it("uses the part after the last @", () => {
+    expect(emailDomain('"a@b"@example.com')).toBe("example.com");
+  });
+
+  it("returns null without a domain", () => {
+    expect(emailDomain("no-at-sign")).toBeNull();
+    expect(emailDomain("trailing@")).toBeNull();
+  });
+});
+
+describe("assertSsoDomainVerified", () => {
+  const { name, value } = ssoDomainVerificationRecord("example.com", "abc123");
+
+  beforeEach(() => {
+    resolveTxtMock.mockReset();
+  });
+
+  it("looks up the record under the verification name", async () => {
+    resolveTxtMock.mockResolvedValue([["v=spf1 -all"], [value]]);
+
+    await expect(assertSsoDomainVerified("example.com", "abc123")).resolves.toBeUndefined();
+    expect(name).toBe("_sme-verification.example.com");
+    expect(resolveTxtMock).toHaveBeenCalledWith(name);
+  });
+
+  it("joins TXT values split into chunks", async () => {
+    resolveTxtMock.mockResolvedValue([[value.slice(0, 10), value.slice(10)]]);
+
+    await expect(assertSsoDomainVerified("example.com", "abc123")).resolves.toBeUndefined();
+  });
+
+  it("rejects a record with another token", async () => {
+    resolveTxtMock.mockResolvedValue([["sme-verification=other"]]);
+
+    await expect(assertSsoDomainVerified("example.com", "abc123")).rejects.toThrow(
+      /No TXT record/
+    );
+  });
+
+  it("rejects a domain without the record", async () => {
+    resolveTxtMock.mockRejectedValue(
+      Object.assign(new Error("queryTxt ENOTFOUND"), { code: "ENOTFOUND" })
+    );
+
+    await expect(assertSsoDomainVerified("example.com", "abc123")).rejects.toThrow(
+      /No TXT record/
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { resolveTxt } from "node:dns/promises";
+import { generateToken } from "@sme/shared";
+
+// ============================================
+// SSO domain verification
+// ============================================
+// A tenant may only auto-provision a domain's users (see
+// provisionSsoMemberships in oidc.ts) once it has shown it controls the
+// domain's DNS: it publishes
+//
+//   _sme-verification.<domain>  TXT  "sme-verification=<token>"
+//
+// with the token issued when the domain was added (tenant_sso_domains).
+// Anyone can type gmail.com into a settings page; only its owner can
+// publish a record there.
+// ============================================
+
+const RECORD_PREFIX = "_sme-verification";
+const VALUE_PREFIX = "sme-verification=";
+
+/** Token for a newly added domain */
+export function generateSsoDomainToken(): string {
+  return generateToken(16);
+}
+
+/** The TXT record a tenant publishes to verify a domain */
+export function ssoDomainVerificationRecord(
+  domain: string,
+  token: string
+): { name: string; value: string } {
+  return { name: `${RECORD_PREFIX}.${domain}`, value: `${VALUE_PREFIX}${token}` };
+}
+
+/**
+ * Throw unless the domain's verification record carries the token.
+ * Long TXT values arrive split into chunks, which are joined first.
+ */
+export async function assertSsoDomainVerified(
+  domain: string,
+  token: string
+): Promise<void> {
+  const { name, value } = ssoDomainVerificationRecord(domain, token);
+
+  let records: string[][];
+  try {
+    records = await resolveTxt(name);
+  } catch {
+    records = [];
+  }
+
+  if (!records.some((chunks) => chunks.join("") === value)) {
+    throw new Error(`No TXT record "${value}" found at ${name}`);
+  }
+}
+
+/** The lowercased domain of an email address (null if it has none) */
+export function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf("@");
+  const domain = email.slice(at + 1).trim().toLowerCase();
+  return at === -1 || !domain ? null : domain;
+}
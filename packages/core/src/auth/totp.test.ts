@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { findTotpStep, generateTotpSecret, totpCode } from "./totp";
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890", base32-encoded.
+// The RFC lists 8-digit codes; these are their last 6 digits.
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const STEP_MS = 30_000;
+
+describe("totpCode", () => {
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+  ])("matches the RFC 6238 vector at T=%i", (seconds, code) => {
+    expect(totpCode(RFC_SECRET, Math.floor(seconds / 30))).toBe(code);
+  });
+});
+
+describe("findTotpStep", () => {
+  const secret = generateTotpSecret();
+  const now = 1_700_000_000_000;
+  const current = Math.floor(now / STEP_MS);
+
+  it("returns the step of a current code", () => {
+    expect(findTotpStep(secret, totpCode(secret, current), now)).toBe(current);
+  });
+
+  it("accepts one step of drift either way", () => {
+    expect(findTotpStep(secret, totpCode(secret, current - 1), now)).toBe(current - 1);
+    expect(findTotpStep(secret, totpCode(secret, current + 1), now)).toBe(current + 1);
+  });
+
+  it("rejects codes two steps away", () => {
+    // Guard against the unlikely case of the codes colliding within the window
+    for (const step of [current - 2, current + 2]) {
+      const code = totpCode(secret, step);
+      const inWindow = [current - 1, current, current + 1].map((s) => totpCode(secret, s));
+      if (!inWindow.includes(code)) expect(findTotpStep(secret, code, now)).toBeNull();
+    }
+  });
+
+  it("rejects codes that are not six digits", () => {
+    const code = totpCode(secret, current);
+    expect(findTotpStep(secret, `${code}0`, now)).toBeNull();
+    expect(findTotpStep(secret, code.slice(1), now)).toBeNull();
+    expect(findTotpStep(secret, "12345a", now)).toBeNull();
+    expect(findTotpStep(secret, "", now)).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import crypto from "crypto";
+
+// ============================================
+// TOTP — RFC 6238 (HMAC-SHA1, 6 digits, 30-second steps), the defaults
+// every authenticator app supports
+// ============================================
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+/** Steps either side of now that are still accepted (clock drift) */
+const WINDOW = 1;
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new base32 TOTP secret (160 bits, as RFC 4226 recommends).
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * The code for one time step.
+ */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto
+    .createHmac("sha1", base32Decode(secret))
+    .update(counter)
+    .digest();
+
+  // Dynamic truncation (RFC 4226 §5.3)
+  const offset = hmac[hmac.length - 1]! & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+/**
+ * Find the time step a code belongs to, within the drift window.
+ * Returns null if the code doesn't match. Callers reject steps at or
+ * before the last accepted one so a code can't be replayed.
+ */
+export function findTotpStep(
+  secret: string,
+  code: string,
+  now: number = Date.now()
+): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const current = Math.floor(now / 1000 / STEP_SECONDS);
+  const given = Buffer.from(code);
+  for (let step = current - WINDOW; step <= current + WINDOW; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(totpCode(secret, step)), given)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// provisioning URI — rendered as a QR code for authenticator apps.
+ */
+export function buildTotpUri(
+  secret: string,
+  accountName: string,
+  issuer: string
+): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
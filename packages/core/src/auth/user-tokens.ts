@@ -0,0 +1,230 @@
+import { eq, and, gt, isNull } from "drizzle-orm";
+import { adminDb } from "../db/index";
+import { users, userTokens } from "../db/schema/index";
+import { generateToken, hashToken } from "@sme/shared";
+import { hashPassword } from "./password";
+import { invalidateAllUserSessions } from "./session";
+import { AuthError } from "./login";
+import { createUserAuditLog } from "../audit/index";
+import {
+  queueMail,
+  passwordResetMail,
+  emailVerificationMail,
+} from "../mail/index";
+
+// ============================================
+// Emailed account tokens — password reset, email verification
+// ============================================
+// Tokens are random, stored hashed and single-use; spending one also voids
+// the user's other unused tokens for the same purpose.
+// ============================================
+
+const PASSWORD_RESET_DURATION_MS = 60 * 60 * 1000; // 1 hour
+const EMAIL_VERIFICATION_DURATION_MS = 48 * 60 * 60 * 1000; // 48 hours
+/** Minimum gap between two emails of the same kind to one user */
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+type UserTokenPurpose = "password_reset" | "email_verification";
+
+async function issueUserToken(
+  userId: string,
+  purpose: UserTokenPurpose,
+  durationMs: number
+): Promise<string> {
+  const token = generateToken();
+  await adminDb.insert(userTokens).values({
+    userId,
+    purpose,
+    tokenHash: await hashToken(token),
+    expiresAt: new Date(Date.now() + durationMs),
+  });
+  return token;
+}
+
+/** Whether a token of this kind was issued to the user within the resend interval */
+async function recentlyIssued(
+  userId: string,
+  purpose: UserTokenPurpose
+): Promise<boolean> {
+  const [recent] = await adminDb
+    .select({ id: userTokens.id })
+    .from(userTokens)
+    .where(
+      and(
+        eq(userTokens.userId, userId),
+        eq(userTokens.purpose, purpose),
+        gt(userTokens.createdAt, new Date(Date.now() - RESEND_INTERVAL_MS))
+      )
+    )
+    .limit(1);
+  return !!recent;
+}
+
+/**
+ * Spend a token. Returns its user, or null if the token is unknown,
+ * expired or already used.
+ */
+async function consumeUserToken(
+  token: string,
+  purpose: UserTokenPurpose
+): Promise<string | null> {
+  const now = new Date();
+  const [spent] = await adminDb
+    .update(userTokens)
+    .set({ usedAt: now })
+    .where(
+      and(
+        eq(userTokens.tokenHash, await hashToken(token)),
+        eq(userTokens.purpose, purpose),
+        isNull(userTokens.usedAt),
+        gt(userTokens.expiresAt, now)
+      )
+    )
+    .returning({ userId: userTokens.userId });
+
+  if (!spent) return null;
+
+  // Older links of the same kind stop working too
+  await adminDb
+    .update(userTokens)
+    .set({ usedAt: now })
+    .where(
+      and(
+        eq(userTokens.userId, spent.userId),
+        eq(userTokens.purpose, purpose),
+        isNull(userTokens.usedAt)
+      )
+    );
+  return spent.userId;
+}
+
+/**
+ * Email a password reset link. Does nothing for unknown or inactive
+ * accounts (callers respond the same either way, so the form can't be used
+ * to find out which emails have accounts) or while a link sent in the last
+ * minute is outstanding.
+ */
+export async function requestPasswordReset(params: {
+  email: string;
+  ipAddress?: string;
+}): Promise<void> {
+  const [user] = await adminDb
+    .select({
+      id: users.id,
+      email: users.email,
+      fullName: users.fullName,
+      isActive: users.isActive,
+    })
+    .from(users)
+    .where(eq(users.email, params.email))
+    .limit(1);
+
+  if (!user || !user.isActive) return;
+  if (await recentlyIssued(user.id, "password_reset")) return;
+
+  const token = await issueUserToken(
+    user.id,
+    "password_reset",
+    PASSWORD_RESET_DURATION_MS
+  );
+  await queueMail(
+    user.email,
+    passwordResetMail({
+      name: user.fullName,
+      token,
+      expiresInMinutes: PASSWORD_RESET_DURATION_MS / 60_000,
+    })
+  );
+  await createUserAuditLog({
+    userId: user.id,
+    action: "auth:password_reset_requested",
+    ipAddress: params.ipAddress,
+  });
+}
+
+/**
+ * Set a new password with a reset token. Clears any login
+ * lockout, marks the email verified (the user just proved they receive it)
+ * and signs the user out everywhere.
+ */
+export async function resetPassword(params: {
+  token: string;
+  password: string;
+  ipAddress?: string;
+}): Promise<void> {
+  const userId = await consumeUserToken(params.token, "password_reset");
+  if (!userId) {
+    throw new AuthError("This link is invalid or has expired", 400);
+  }
+
+  await adminDb
+    .update(users)
+    .set({
+      passwordHash: await hashPassword(params.password),
+      loginFailedAttempts: 0,
+      loginLockedUntil: null,
+      emailVerified: true,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+
+  await invalidateAllUserSessions(userId);
+  await createUserAuditLog({
+    userId,
+    action: "auth:password_reset",
+    ipAddress: params.ipAddress,
+  });
+}
+
+/**
+ * Email a verification link to the user's address.
+ * Throws if the address is already verified or a link was just sent.
+ */
+export async function sendEmailVerification(userId: string): Promise<void> {
+  const [user] = await adminDb
+    .select({
+      email: users.email,
+      fullName: users.fullName,
+      emailVerified: users.emailVerified,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) throw new Error("User not found");
+  if (user.emailVerified) throw new Error("Email address is already verified");
+  if (await recentlyIssued(userId, "email_verification")) {
+    throw new Error("A verification email was just sent — check your inbox");
+  }
+
+  const token = await issueUserToken(
+    userId,
+    "email_verification",
+    EMAIL_VERIFICATION_DURATION_MS
+  );
+  await queueMail(user.email, emailVerificationMail({ name: user.fullName, token }));
+}
+
+/**
+ * Mark the user's email verified with a token from a verification link.
+ */
+export async function verifyEmail(params: {
+  token: string;
+  ipAddress?: string;
+}): Promise<void> {
+  const userId = await consumeUserToken(params.token, "email_verification");
+  if (!userId) {
+    throw new AuthError("This link is invalid or has expired", 400);
+  }
+
+  await adminDb
+    .update(users)
+    .set({ emailVerified: true, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  await createUserAuditLog({
+    userId,
+    action: "auth:email_verified",
+    ipAddress: params.ipAddress,
+  });
+}
@@ -1,3 +1,4 @@
+import { sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import * as schema from "./schema/index";
@@ -5,9 +6,15 @@ import * as schema from "./schema/index";
 // ============================================
 // Database Connection (Lazy-Initialized, Single Pool)
 // ============================================
-// Single connection pool using DATABASE_URL. Tenant isolation is
-// enforced at the application layer with WHERE tenant_id = ? filters.
-// No RLS, no SET LOCAL, no dual-connection complexity.
+// Single connection pool using DATABASE_URL. Platform code (auth, admin,
+// workers) works across tenants, so this role must bypass RLS (table owner
+// or superuser).
+//
+// Tenant-scoped requests run in withTenantTransaction(): the transaction
+// switches to DB_TENANT_ROLE (SET LOCAL ROLE, non-superuser) and sets
+// app.current_tenant_id, so RLS policies enforce isolation even where a
+// WHERE tenant_id = ? filter is missing. Both settings end with the
+// transaction, so pooled connections never leak tenant context.
 // ============================================
 
 let _db: ReturnType<typeof drizzle> | null = null;
@@ -47,5 +54,59 @@ export { schema };
 // Export types
 export type Database = typeof db;
 
+/** Transaction handle passed to `db.transaction()` callbacks */
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// ------------------------------------------
+// Tenant-scoped transactions (RLS)
+// ------------------------------------------
+
+const ROLE_NAME_REGEX = /^[a-z_][a-z0-9_]*$/;
+
+/**
+ * Role tenant transactions switch to. Must not bypass RLS.
+ * Set DB_TENANT_ROLE="" only if DATABASE_URL itself is subject to RLS.
+ */
+function getTenantRole(): string | null {
+  const role = process.env.DB_TENANT_ROLE ?? "sme_app";
+  if (!role) return null;
+  if (!ROLE_NAME_REGEX.test(role)) {
+    throw new Error(`Invalid DB_TENANT_ROLE: "${role}"`);
+  }
+  return role;
+}
+
+/**
+ * Bind an open transaction to a tenant: drop to the tenant role and set
+ * app.current_tenant_id for the RLS policies. Lasts until the transaction ends.
+ */
+export async function setTenantContext(
+  tx: Transaction,
+  tenantId: string
+): Promise<void> {
+  await tx.execute(
+    sql`SELECT set_config('app.current_tenant_id', ${tenantId}, true)`
+  );
+  const role = getTenantRole();
+  if (role) {
+    await tx.execute(sql.raw(`SET LOCAL ROLE "${role}"`));
+  }
+}
+
+/**
+ * Run `fn` in a transaction where RLS limits every query to one tenant.
+ * tenantProcedure wraps each request in one of these (ctx.db).
+ */
+export async function withTenantTransaction<T>(
+  tenantId: string,
+  fn: (tx: Transaction) => Promise<T>,
+  database: Database = db
+): Promise<T> {
+  return database.transaction(async (tx) => {
+    await setTenantContext(tx, tenantId);
+    return fn(tx);
+  });
+}
+
 // Re-export schema types
 export * from "./schema/index";
@@ -0,0 +1,298 @@
+import { randomUUID } from "node:crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { eq, inArray } from "drizzle-orm";
+import { adminDb, withTenantTransaction } from "./index";
+import {
+  tenants,
+  systemModules,
+  catalogCategories,
+  catalogProducts,
+  catalogAttributeDefinitions,
+  catalogProductAttributes,
+  costingInventoryItems,
+  costingRecipes,
+  costingRecipeIngredients,
+} from "./schema/index";
+import { applyModuleMigrations } from "../modules/migrations";
+import { costingModule } from "../modules/costing/index";
+
+// ============================================
+// Tenant RLS — runs against a migrated database (DATABASE_URL)
+// ============================================
+// Each test runs queries through withTenantTransaction, i.e. as
+// DB_TENANT_ROLE (sme_app) with app.current_tenant_id set, and checks that
+// the policies alone keep tenants apart: no WHERE tenant_id filters here.
+// ============================================
+
+const RLS_VIOLATION = /row-level security/;
+
+interface TenantFixture {
+  tenantId: string;
+  productId: string;
+  attributeId: string;
+  attributeDefinitionId: string;
+  recipeId: string;
+  ingredientId: string;
+}
+
+async function createTenantFixture(label: string): Promise<TenantFixture> {
+  const suffix = randomUUID().slice(0, 8);
+
+  const [tenant] = await adminDb
+    .insert(tenants)
+    .values({ name: `RLS ${label}`, slug: `rls-${label}-${suffix}` })
+    .returning({ id: tenants.id });
+  const tenantId = tenant!.id;
+
+  const [category] = await adminDb
+    .insert(catalogCategories)
+    .values({ tenantId, name: "Category", slug: "category" })
+    .returning({ id: catalogCategories.id });
+  const [product] = await adminDb
+    .insert(catalogProducts)
+    .values({ tenantId, name: "Product", slug: "product", categoryId: category!.id })
+    .returning({ id: catalogProducts.id });
+  const [definition] = await adminDb
+    .insert(catalogAttributeDefinitions)
+    .values({ tenantId, name: "Colour", slug: "colour", type: "text" })
+    .returning({ id: catalogAttributeDefinitions.id });
+  const [attribute] = await adminDb
+    .insert(catalogProductAttributes)
+    .values({
+      productId: product!.id,
+      attributeDefinitionId: definition!.id,
+      value: label,
+    })
+    .returning({ id: catalogProductAttributes.id });
+
+  const [item] = await adminDb
+    .insert(costingInventoryItems)
+    .values({
+      tenantId,
+      name: "Flour",
+      unitType: "weight",
+      unit: "kg",
+      category: "critical",
+    })
+    .returning({ id: costingInventoryItems.id });
+  const [recipe] = await adminDb
+    .insert(costingRecipes)
+    .values({ tenantId, name: "Bread", type: "final" })
+    .returning({ id: costingRecipes.id });
+  const [ingredient] = await adminDb
+    .insert(costingRecipeIngredients)
+    .values({
+      recipeId: recipe!.id,
+      ingredientType: "raw",
+      inventoryItemId: item!.id,
+      amount: "1",
+      unitCost: "1",
+      extendedCost: "1",
+    })
+    .returning({ id: costingRecipeIngredients.id });
+
+  return {
+    tenantId,
+    productId: product!.id,
+    attributeId: attribute!.id,
+    attributeDefinitionId: definition!.id,
+    recipeId: recipe!.id,
+    ingredientId: ingredient!.id,
+  };
+}
+
+async function deleteTenantFixtures(tenantIds: string[]): Promise<void> {
+  // Restrict FKs (recipe ingredients → items, products → categories) block a
+  // plain tenant cascade, so clear those rows first
+  const recipes = adminDb
+    .select({ id: costingRecipes.id })
+    .from(costingRecipes)
+    .where(inArray(costingRecipes.tenantId, tenantIds));
+  await adminDb
+    .delete(costingRecipeIngredients)
+    .where(inArray(costingRecipeIngredients.recipeId, recipes));
+  await adminDb
+    .delete(costingRecipes)
+    .where(inArray(costingRecipes.tenantId, tenantIds));
+  await adminDb
+    .delete(catalogProducts)
+    .where(inArray(catalogProducts.tenantId, tenantIds));
+  await adminDb.delete(tenants).where(inArray(tenants.id, tenantIds));
+}
+
+describe.skipIf(!process.env.DATABASE_URL)("tenant RLS", () => {
+  let a: TenantFixture;
+  let b: TenantFixture;
+
+  beforeAll(async () => {
+    // Costing tables only exist once the module is installed
+    await adminDb
+      .insert(systemModules)
+      .values({
+        id: costingModule.id,
+        name: costingModule.name,
+        description: costingModule.description ?? null,
+        version: costingModule.version,
+        dependencies: costingModule.dependencies,
+      })
+      .onConflictDoNothing({ target: systemModules.id });
+    await applyModuleMigrations(costingModule);
+
+    a = await createTenantFixture("a");
+    b = await createTenantFixture("b");
+  }, 30_000);
+
+  afterAll(async () => {
+    const ids = [a?.tenantId, b?.tenantId].filter((id): id is string => !!id);
+    if (ids.length > 0) await deleteTenantFixtures(ids);
+  });
+
+  describe("reads", () => {
+    it("only returns the current tenant's rows", async () => {
+      const rows = await withTenantTransaction(a.tenantId, async (tx) => ({
+        products: await tx.select({ id: catalogProducts.id }).from(catalogProducts),
+        recipes: await tx.select({ id: costingRecipes.id }).from(costingRecipes),
+      }));
+
+      expect(rows.products.map((r) => r.id)).toContain(a.productId);
+      expect(rows.products.map((r) => r.id)).not.toContain(b.productId);
+      expect(rows.recipes.map((r) => r.id)).toContain(a.recipeId);
+      expect(rows.recipes.map((r) => r.id)).not.toContain(b.recipeId);
+    });
+
+    it("hides child rows whose parent belongs to another tenant", async () => {
+      const rows = await withTenantTransaction(a.tenantId, async (tx) => ({
+        attributes: await tx
+          .select({ id: catalogProductAttributes.id })
+          .from(catalogProductAttributes),
+        ingredients: await tx
+          .select({ id: costingRecipeIngredients.id })
+          .from(costingRecipeIngredients),
+      }));
+
+      expect(rows.attributes.map((r) => r.id)).toContain(a.attributeId);
+      expect(rows.attributes.map((r) => r.id)).not.toContain(b.attributeId);
+      expect(rows.ingredients.map((r) => r.id)).toContain(a.ingredientId);
+      expect(rows.ingredients.map((r) => r.id)).not.toContain(b.ingredientId);
+    });
+
+    it("finds nothing when asking for another tenant's rows by id", async () => {
+      const rows = await withTenantTransaction(a.tenantId, async (tx) => [
+        ...(await tx
+          .select({ id: catalogProducts.id })
+          .from(catalogProducts)
+          .where(eq(catalogProducts.id, b.productId))),
+        ...(await tx
+          .select({ id: catalogProductAttributes.id })
+          .from(catalogProductAttributes)
+          .where(eq(catalogProductAttributes.id, b.attributeId))),
+        ...(await tx
+          .select({ id: costingRecipeIngredients.id })
+          .from(costingRecipeIngredients)
+          .where(eq(costingRecipeIngredients.id, b.ingredientId))),
+      ]);
+
+      expect(rows).toEqual([]);
+    });
+  });
+
+  describe("writes", () => {
+    it("rejects inserts with another tenant's tenant_id", async () => {
+      await expect(
+        withTenantTransaction(a.tenantId, (tx) =>
+          tx.insert(costingRecipes).values({
+            tenantId: b.tenantId,
+            name: "Smuggled",
+            type: "final",
+          })
+        )
+      ).rejects.toThrow(RLS_VIOLATION);
+    });
+
+    it("rejects child inserts under another tenant's parent", async () => {
+      await expect(
+        withTenantTransaction(a.tenantId, (tx) =>
+          tx.insert(catalogProductAttributes).values({
+            productId: b.productId,
+            attributeDefinitionId: b.attributeDefinitionId,
+            value: "smuggled",
+          })
+        )
+      ).rejects.toThrow(RLS_VIOLATION);
+
+      await expect(
+        withTenantTransaction(a.tenantId, (tx) =>
+          tx.insert(costingRecipeIngredients).values({
+            recipeId: b.recipeId,
+            ingredientType: "base",
+            baseRecipeId: a.recipeId,
+            amount: "1",
+            unitCost: "1",
+            extendedCost: "1",
+          })
+        )
+      ).rejects.toThrow(RLS_VIOLATION);
+    });
+
+    it("rejects updates that move a row to another tenant", async () => {
+      await expect(
+        withTenantTransaction(a.tenantId, (tx) =>
+          tx
+            .update(catalogProducts)
+            .set({ tenantId: b.tenantId })
+            .where(eq(catalogProducts.id, a.productId))
+        )
+      ).rejects.toThrow(RLS_VIOLATION);
+
+      await expect(
+        withTenantTransaction(a.tenantId, (tx) =>
+          tx
+            .update(catalogProductAttributes)
+            .set({ productId: b.productId })
+            .where(eq(catalogProductAttributes.id, a.attributeId))
+        )
+      ).rejects.toThrow(RLS_VIOLATION);
+
+      await expect(
+        withTenantTransaction(a.tenantId, (tx) =>
+          tx
+            .update(costingRecipeIngredients)
+            .set({ recipeId: b.recipeId })
+            .where(eq(costingRecipeIngredients.id, a.ingredientId))
+        )
+      ).rejects.toThrow(RLS_VIOLATION);
+    });
+
+    it("leaves another tenant's rows untouched by updates and deletes", async () => {
+      const touched = await withTenantTransaction(a.tenantId, async (tx) => [
+        ...(await tx
+          .update(catalogProducts)
+          .set({ name: "Hijacked" })
+          .where(eq(catalogProducts.id, b.productId))
+          .returning({ id: catalogProducts.id })),
+        ...(await tx
+          .update(catalogProductAttributes)
+          .set({ value: "hijacked" })
+          .where(eq(catalogProductAttributes.id, b.attributeId))
+          .returning({ id: catalogProductAttributes.id })),
+        ...(await tx
+          .delete(costingRecipeIngredients)
+          .where(eq(costingRecipeIngredients.id, b.ingredientId))
+          .returning({ id: costingRecipeIngredients.id })),
+      ]);
+
+      expect(touched).toEqual([]);
+
+      const [product] = await adminDb
+        .select({ name: catalogProducts.name })
+        .from(catalogProducts)
+        .where(eq(catalogProducts.id, b.productId));
+      const ingredients = await adminDb
+        .select({ id: costingRecipeIngredients.id })
+        .from(costingRecipeIngredients)
+        .where(eq(costingRecipeIngredients.id, b.ingredientId));
+      expect(product?.name).toBe("Product");
+      expect(ingredients).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+// ============================================
+// API KEYS — tenant-scoped bearer keys for machine-to-machine access
+// ============================================
+// A key acts as its creator within its tenant, limited to `permissions`
+// (checked again against the creator's current permissions on every
+// request). Only the SHA-256 hash of the full key is stored; keys are
+// revoked, never deleted, so audit entries keep pointing at them.
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    /** Non-secret start of the key (e.g. sme_k3x9q2mz), shown to identify it */
+    keyPrefix: varchar("key_prefix", { length: 20 }).unique().notNull(),
+    keyHash: text("key_hash").unique().notNull(),
+    /** Permission patterns, same wildcard grammar as role permissions */
+    permissions: text("permissions").array().default([]).notNull(),
+    createdBy: uuid("created_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    revokedBy: uuid("revoked_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("idx_api_keys_tenant").on(table.tenantId)]
+);
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
@@ -0,0 +1,56 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  bigint,
+  timestamp,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+
+// ============================================
+// AUDIT LOG ARCHIVES — audit entries moved out of audit_logs
+// ============================================
+// One row per gzipped NDJSON file. Each archive covers a contiguous seq range
+// of the tenant's hash chain, so the chain stays verifiable across archives
+// and the hot table. audit_logs rows may only be deleted once an archive
+// covering their seq exists (see drizzle/0017_audit-archives.sql).
+export const auditLogArchives = pgTable(
+  "audit_log_archives",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    /** UTC month of the entries, "YYYY-MM" */
+    period: varchar("period", { length: 7 }).notNull(),
+    path: text("path").notNull(),
+    entryCount: integer("entry_count").notNull(),
+    firstSeq: bigint("first_seq", { mode: "number" }).notNull(),
+    lastSeq: bigint("last_seq", { mode: "number" }).notNull(),
+    /** prev_hash of the first entry — links to the previous archive */
+    firstPrevHash: varchar("first_prev_hash", { length: 64 }),
+    lastHash: varchar("last_hash", { length: 64 }).notNull(),
+    /** SHA-256 of the compressed file */
+    fileSha256: varchar("file_sha256", { length: 64 }).notNull(),
+    sizeBytes: bigint("size_bytes", { mode: "number" }).notNull(),
+    /** Set while the entries are restored into audit_logs */
+    restoredAt: timestamp("restored_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_audit_archives_tenant_seq").on(
+      table.tenantId,
+      table.lastSeq
+    ),
+    index("idx_audit_archives_tenant_period").on(table.tenantId, table.period),
+  ]
+);
+
+export type AuditLogArchive = typeof auditLogArchives.$inferSelect;
+export type NewAuditLogArchive = typeof auditLogArchives.$inferInsert;
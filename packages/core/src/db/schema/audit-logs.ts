@@ -6,14 +6,21 @@ import {
   timestamp,
   jsonb,
   inet,
+  bigint,
   index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { tenants } from "./tenants";
 import { users } from "./users";
+import { apiKeys } from "./api-keys";
 
 // ============================================
 // AUDIT LOGS — append-only audit trail
 // ============================================
+// seq, prevHash and hash are assigned by the trg_audit_logs_chain trigger
+// (per-tenant SHA-256 chain); UPDATE/DELETE are rejected by the database.
+// See drizzle/0015_audit-hash-chain.sql.
 export const auditLogs = pgTable(
   "audit_logs",
   {
@@ -22,7 +29,7 @@ export const auditLogs = pgTable(
       .notNull()
       .references(() => tenants.id, { onDelete: "cascade" }),
     userId: uuid("user_id").references(() => users.id, {
-      onDelete: "set null",
+      onDelete: "no action",
     }),
     action: varchar("action", { length: 100 }).notNull(),
     resourceType: varchar("resource_type", { length: 50 }),
@@ -32,18 +39,44 @@ export const auditLogs = pgTable(
       after?: Record<string, unknown>;
     }>(),
     ipAddress: inet("ip_address"),
+    /** Shared by every entry written while handling one request */
+    requestId: varchar("request_id", { length: 64 }),
+    userAgent: varchar("user_agent", { length: 500 }),
+    /** Super admin behind userId when written during an impersonation */
+    impersonatorId: uuid("impersonator_id").references(() => users.id, {
+      onDelete: "no action",
+    }),
+    /** API key the request authenticated with (userId is the key's creator) */
+    apiKeyId: uuid("api_key_id").references(() => apiKeys.id, {
+      onDelete: "no action",
+    }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
+    /** Position in the tenant's chain, starting at 1 */
+    seq: bigint("seq", { mode: "number" }).default(0).notNull(),
+    /** Hash of the previous entry — null for the first */
+    prevHash: varchar("prev_hash", { length: 64 }),
+    hash: varchar("hash", { length: 64 }).default("").notNull(),
   },
   (table) => [
-    index("idx_audit_tenant_date").on(table.tenantId, table.createdAt),
+    index("idx_audit_tenant_date").on(
+      table.tenantId,
+      table.createdAt,
+      table.id
+    ),
     index("idx_audit_resource").on(
       table.tenantId,
       table.resourceType,
       table.resourceId
     ),
     index("idx_audit_user").on(table.userId),
+    index("idx_audit_request").on(table.tenantId, table.requestId),
+    uniqueIndex("idx_audit_tenant_seq").on(table.tenantId, table.seq),
+    index("idx_audit_changes_search").using(
+      "gin",
+      sql`jsonb_to_tsvector('simple'::regconfig, ${table.changes}, '["string","numeric","key"]'::jsonb)`
+    ),
   ]
 );
 
@@ -0,0 +1,55 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  timestamp,
+  jsonb,
+  index,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+// ============================================
+// DOMAIN EVENTS — transactional outbox for the event bus
+// ============================================
+// Rows are written in the same transaction as the change they describe and
+// dispatched to subscribers after commit (see src/events/index.ts).
+// ============================================
+export const domainEvents = pgTable(
+  "domain_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    type: varchar("type", { length: 100 }).notNull(),
+    /** Typed per event type by DomainEventMap */
+    payload: jsonb("payload").notNull(),
+    userId: uuid("user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    /** pending → delivered, or failed after max attempts */
+    status: varchar("status", { length: 20 }).default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    /** Subscriber IDs that already handled this event — skipped on retry */
+    completedHandlers: text("completed_handlers").array().default([]).notNull(),
+    lastError: text("last_error"),
+    /** Next dispatch attempt (also serves as the claim lease while dispatching) */
+    availableAt: timestamp("available_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_domain_events_pending").on(table.status, table.availableAt),
+    index("idx_domain_events_tenant").on(table.tenantId, table.createdAt),
+  ]
+);
+
+export type DomainEventRow = typeof domainEvents.$inferSelect;
+export type NewDomainEventRow = typeof domainEvents.$inferInsert;
@@ -2,15 +2,53 @@
 // Schema barrel — all tables exported from here
 // ============================================
 
+export { plans, type Plan, type NewPlan } from "./plans";
 export { tenants, type Tenant, type NewTenant } from "./tenants";
 export { users, type User, type NewUser } from "./users";
 export { roles, type Role, type NewRole } from "./roles";
+export {
+  roleTemplates,
+  type RoleTemplate,
+  type NewRoleTemplate,
+} from "./role-templates";
 export {
   tenantMemberships,
   type TenantMembership,
   type NewTenantMembership,
 } from "./tenant-memberships";
+export {
+  tenantInvitations,
+  type TenantInvitation,
+  type NewTenantInvitation,
+} from "./tenant-invitations";
+export {
+  tenantSsoDomains,
+  type TenantSsoDomain,
+  type NewTenantSsoDomain,
+} from "./tenant-sso-domains";
 export { sessions, type Session, type NewSession } from "./sessions";
+export {
+  mfaRecoveryCodes,
+  mfaChallenges,
+  type MfaRecoveryCode,
+  type NewMfaRecoveryCode,
+  type MfaChallenge,
+  type NewMfaChallenge,
+} from "./mfa";
+export { userTokens, type UserToken, type NewUserToken } from "./user-tokens";
+export {
+  userIdentities,
+  oidcAuthRequests,
+  type UserIdentity,
+  type NewUserIdentity,
+  type OidcAuthRequest,
+  type NewOidcAuthRequest,
+} from "./user-identities";
+export {
+  mailOutbox,
+  type MailOutboxRow,
+  type NewMailOutboxRow,
+} from "./mail-outbox";
 export {
   systemModules,
   tenantModules,
@@ -20,8 +58,59 @@ export {
   type NewTenantModule,
 } from "./modules";
 export { auditLogs, type AuditLog, type NewAuditLog } from "./audit-logs";
+export {
+  platformAuditLogs,
+  type PlatformAuditLog,
+  type NewPlatformAuditLog,
+} from "./platform-audit-logs";
+export {
+  auditLogArchives,
+  type AuditLogArchive,
+  type NewAuditLogArchive,
+} from "./audit-log-archives";
+export {
+  domainEvents,
+  type DomainEventRow,
+  type NewDomainEventRow,
+} from "./domain-events";
+export {
+  webhookEndpoints,
+  webhookDeliveries,
+  type WebhookEndpoint,
+  type NewWebhookEndpoint,
+  type WebhookDelivery,
+  type NewWebhookDelivery,
+} from "./webhooks";
+export { apiKeys, type ApiKey, type NewApiKey } from "./api-keys";
+export {
+  locations,
+  membershipLocations,
+  type Location,
+  type NewLocation,
+  type MembershipLocation,
+  type NewMembershipLocation,
+} from "./locations";
+export {
+  membershipPermissionGrants,
+  type MembershipPermissionGrant,
+  type NewMembershipPermissionGrant,
+} from "./permission-grants";
+export {
+  jobs,
+  jobSchedules,
+  type Job,
+  type NewJob,
+  type JobSchedule,
+  type NewJobSchedule,
+} from "./jobs";
+export {
+  modulePurgeRequests,
+  type ModulePurgeRequest,
+  type NewModulePurgeRequest,
+} from "./module-purge-requests";
 
-// Module schemas (included for migration generation)
+// Module schemas (re-exported for typed access — module-owned DDL ships in
+// each module's migrations/ folder, see ModuleConfig.migrationsFolder)
 export { notes, type Note, type NewNote } from "../../modules/notes/schema";
 export {
   catalogCategories,
@@ -45,11 +134,14 @@ export {
   type NewCatalogProductAttribute,
 } from "../../modules/catalog/schema";
 export {
+  costingCategories,
   costingInventoryItems,
   costingPriceHistory,
   costingRecipes,
   costingRecipeIngredients,
   costingSnapshots,
+  type CostingCategory,
+  type NewCostingCategory,
   type CostingInventoryItem,
   type NewCostingInventoryItem,
   type CostingPriceHistory,
@@ -0,0 +1,80 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  timestamp,
+  jsonb,
+  index,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+// ============================================
+// JOBS — Postgres-backed background job queue
+// ============================================
+// Claimed with FOR UPDATE SKIP LOCKED by any number of workers
+// (see src/jobs/index.ts). tenant_id is NULL for platform jobs.
+// ============================================
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").references(() => tenants.id, {
+      onDelete: "cascade",
+    }),
+    /** Registered job name, e.g. "core:sessions:cleanup" or "costing:recalculate_cascade" */
+    name: varchar("name", { length: 100 }).notNull(),
+    payload: jsonb("payload").default({}).notNull(),
+    /** queued → running → succeeded | failed | cancelled */
+    status: varchar("status", { length: 20 }).default("queued").notNull(),
+    /** Higher runs first */
+    priority: integer("priority").default(0).notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(3).notNull(),
+    runAt: timestamp("run_at", { withTimezone: true }).defaultNow().notNull(),
+    /** Prevents duplicate enqueues (e.g. one run per cron tick) */
+    dedupeKey: varchar("dedupe_key", { length: 200 }).unique(),
+    lockedBy: varchar("locked_by", { length: 100 }),
+    lockedAt: timestamp("locked_at", { withTimezone: true }),
+    result: jsonb("result"),
+    lastError: text("last_error"),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    finishedAt: timestamp("finished_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("idx_jobs_queued").on(table.status, table.runAt),
+    index("idx_jobs_tenant_status").on(table.tenantId, table.status),
+  ]
+);
+
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
+
+// ============================================
+// JOB SCHEDULES — cron state for scheduled jobs
+// ============================================
+// One row per scheduled job name. Schedules are declared in code; this
+// table only tracks when each one fires next, so exactly one worker
+// enqueues each tick.
+// ============================================
+export const jobSchedules = pgTable("job_schedules", {
+  name: varchar("name", { length: 100 }).primaryKey(),
+  cron: varchar("cron", { length: 100 }).notNull(),
+  nextRunAt: timestamp("next_run_at", { withTimezone: true }).notNull(),
+  lastRunAt: timestamp("last_run_at", { withTimezone: true }),
+  lastJobId: uuid("last_job_id"),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+});
+
+export type JobSchedule = typeof jobSchedules.$inferSelect;
+export type NewJobSchedule = typeof jobSchedules.$inferInsert;
@@ -0,0 +1,82 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  boolean,
+  timestamp,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+import { roles } from "./roles";
+import { tenantMemberships } from "./tenant-memberships";
+
+// ============================================
+// LOCATIONS — branches / sites within a tenant
+// ============================================
+export const locations = pgTable(
+  "locations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    /** Short code shown in the location switcher, e.g. "MNL" */
+    code: varchar("code", { length: 20 }),
+    address: text("address"),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_locations_tenant").on(table.tenantId),
+    uniqueIndex("idx_locations_tenant_code").on(table.tenantId, table.code),
+  ]
+);
+
+export type Location = typeof locations.$inferSelect;
+export type NewLocation = typeof locations.$inferInsert;
+
+// ============================================
+// MEMBERSHIP LOCATIONS — member ↔ location assignments
+// ============================================
+// A membership with no rows here may work at every location with its
+// tenant role. Once assigned, it is limited to its assigned locations.
+// role_id optionally overrides the tenant role at that location.
+// ============================================
+export const membershipLocations = pgTable(
+  "membership_locations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    membershipId: uuid("membership_id")
+      .notNull()
+      .references(() => tenantMemberships.id, { onDelete: "cascade" }),
+    locationId: uuid("location_id")
+      .notNull()
+      .references(() => locations.id, { onDelete: "cascade" }),
+    /** Role at this location (null = the membership's tenant role) */
+    roleId: uuid("role_id").references(() => roles.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_membership_locations_unique").on(
+      table.membershipId,
+      table.locationId
+    ),
+    index("idx_membership_locations_location").on(table.locationId),
+  ]
+);
+
+export type MembershipLocation = typeof membershipLocations.$inferSelect;
+export type NewMembershipLocation = typeof membershipLocations.$inferInsert;
@@ -0,0 +1,51 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+
+// ============================================
+// MAIL OUTBOX — queued outgoing mail + send log
+// ============================================
+// Rows are inserted in the transaction that triggers the mail, so a
+// rolled-back change sends nothing. The mail worker sends them through the
+// configured transport and retries failures with backoff.
+export const mailOutbox = pgTable(
+  "mail_outbox",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Tenant the mail was sent on behalf of (null for account mail) */
+    tenantId: uuid("tenant_id").references(() => tenants.id, {
+      onDelete: "cascade",
+    }),
+    to: varchar("to", { length: 255 }).notNull(),
+    subject: varchar("subject", { length: 500 }).notNull(),
+    text: text("text").notNull(),
+    html: text("html"),
+    /** Template that rendered the message, for the send log */
+    template: varchar("template", { length: 50 }),
+    /** pending → sent, or failed after max attempts */
+    status: varchar("status", { length: 20 }).default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    /** Next attempt (also serves as the claim lease while sending) */
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    lastError: text("last_error"),
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_mail_outbox_pending").on(table.status, table.nextAttemptAt),
+  ]
+);
+
+export type MailOutboxRow = typeof mailOutbox.$inferSelect;
+export type NewMailOutboxRow = typeof mailOutbox.$inferInsert;
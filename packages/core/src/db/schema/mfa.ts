@@ -0,0 +1,59 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+// ============================================
+// MFA RECOVERY CODES — hashed single-use codes for when the authenticator
+// is lost. Regenerating replaces the whole set.
+// ============================================
+export const mfaRecoveryCodes = pgTable(
+  "mfa_recovery_codes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    codeHash: text("code_hash").notNull(),
+    /** Set when the code is spent — it can't be used again */
+    usedAt: timestamp("used_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("idx_mfa_recovery_codes_user").on(table.userId)]
+);
+
+// ============================================
+// MFA CHALLENGES — pending logins: the password was accepted, the session
+// is created once a code is verified
+// ============================================
+export const mfaChallenges = pgTable(
+  "mfa_challenges",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tokenHash: text("token_hash").unique().notNull(),
+    /** How the first factor was given ("password" | "oauth") — carried to the session */
+    authMethod: varchar("auth_method", { length: 20 }).default("password").notNull(),
+    failedAttempts: integer("failed_attempts").default(0).notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("idx_mfa_challenges_expires").on(table.expiresAt)]
+);
+
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+export type NewMfaRecoveryCode = typeof mfaRecoveryCodes.$inferInsert;
+export type MfaChallenge = typeof mfaChallenges.$inferSelect;
+export type NewMfaChallenge = typeof mfaChallenges.$inferInsert;
@@ -0,0 +1,45 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  timestamp,
+  jsonb,
+  index,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+import { users } from "./users";
+import { systemModules } from "./modules";
+
+// ============================================
+// MODULE PURGE REQUESTS — confirmation tokens for module data purges
+// ============================================
+export const modulePurgeRequests = pgTable(
+  "module_purge_requests",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    moduleId: varchar("module_id", { length: 50 })
+      .notNull()
+      .references(() => systemModules.id),
+    tokenHash: text("token_hash").unique().notNull(),
+    requestedBy: uuid("requested_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    /** Rows per owned table at request time — shown to the admin before confirming */
+    rowCounts: jsonb("row_counts").$type<Record<string, number>>().notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    consumedAt: timestamp("consumed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_module_purge_requests_tenant").on(table.tenantId, table.moduleId),
+  ]
+);
+
+export type ModulePurgeRequest = typeof modulePurgeRequests.$inferSelect;
+export type NewModulePurgeRequest = typeof modulePurgeRequests.$inferInsert;
@@ -6,6 +6,7 @@ import {
   boolean,
   timestamp,
   jsonb,
+  integer,
   primaryKey,
   index,
 } from "drizzle-orm/pg-core";
@@ -19,6 +20,8 @@ export const systemModules = pgTable("system_modules", {
   name: varchar("name", { length: 100 }).notNull(),
   description: text("description"),
   version: varchar("version", { length: 20 }).notNull(),
+  /** Last module migration applied (matches ModuleConfig.schemaVersion when up to date) */
+  schemaVersion: integer("schema_version").default(0).notNull(),
   dependencies: text("dependencies").array().default([]),
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at", { withTimezone: true })
@@ -41,6 +44,8 @@ export const tenantModules = pgTable(
     moduleId: varchar("module_id", { length: 50 })
       .notNull()
       .references(() => systemModules.id),
+    /** Module version this tenant is running — lags ModuleConfig.version until upgraded */
+    version: varchar("version", { length: 20 }).notNull(),
     enabledAt: timestamp("enabled_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -0,0 +1,50 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+import { users } from "./users";
+import { tenantMemberships } from "./tenant-memberships";
+
+// ============================================
+// MEMBERSHIP PERMISSION GRANTS — extra grants/denies on top of the role
+// ============================================
+// Each grant expires; expired rows are ignored and kept as history.
+export const membershipPermissionGrants = pgTable(
+  "membership_permission_grants",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    membershipId: uuid("membership_id")
+      .notNull()
+      .references(() => tenantMemberships.id, { onDelete: "cascade" }),
+    /** Permission or deny (`!module:resource:action`) */
+    permission: varchar("permission", { length: 150 }).notNull(),
+    reason: text("reason"),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    grantedBy: uuid("granted_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_permission_grants_membership").on(
+      table.membershipId,
+      table.expiresAt
+    ),
+    index("idx_permission_grants_tenant").on(table.tenantId),
+  ]
+);
+
+export type MembershipPermissionGrant =
+  typeof membershipPermissionGrants.$inferSelect;
+export type NewMembershipPermissionGrant =
+  typeof membershipPermissionGrants.$inferInsert;
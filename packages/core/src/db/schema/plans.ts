@@ -0,0 +1,36 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  boolean,
+  timestamp,
+  jsonb,
+} from "drizzle-orm/pg-core";
+import type { PlanLimits } from "@sme/shared";
+
+// ============================================
+// PLANS — module entitlements and limits (global)
+// ============================================
+// Tenants on a plan can self-enable any module listed in `modules`.
+// Modules outside the plan stay super-admin managed.
+// ============================================
+export const plans = pgTable("plans", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  slug: varchar("slug", { length: 50 }).unique().notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  /** Module IDs tenants on this plan may enable themselves */
+  modules: text("modules").array().default([]).notNull(),
+  limits: jsonb("limits").$type<PlanLimits>().default({}).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+});
+
+export type Plan = typeof plans.$inferSelect;
+export type NewPlan = typeof plans.$inferInsert;
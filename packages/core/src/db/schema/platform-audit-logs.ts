@@ -0,0 +1,48 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  timestamp,
+  jsonb,
+  inet,
+  index,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+// ============================================
+// PLATFORM AUDIT LOGS — super-admin changes that belong to no tenant
+// ============================================
+// Plans and role templates are platform-wide, so their changes can't go in
+// a tenant's audit_logs chain. Append-only like audit_logs (UPDATE/DELETE
+// are rejected by the database) but not chained, and never visible to
+// tenants. See drizzle/0029_platform-audit-logs.sql.
+export const platformAuditLogs = pgTable(
+  "platform_audit_logs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").references(() => users.id, {
+      onDelete: "no action",
+    }),
+    action: varchar("action", { length: 100 }).notNull(),
+    resourceType: varchar("resource_type", { length: 50 }),
+    resourceId: uuid("resource_id"),
+    changes: jsonb("changes").$type<{
+      before?: Record<string, unknown>;
+      after?: Record<string, unknown>;
+    }>(),
+    ipAddress: inet("ip_address"),
+    /** Shared by every entry written while handling one request */
+    requestId: varchar("request_id", { length: 64 }),
+    userAgent: varchar("user_agent", { length: 500 }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_platform_audit_date").on(table.createdAt, table.id),
+    index("idx_platform_audit_resource").on(table.resourceType, table.resourceId),
+  ]
+);
+
+export type PlatformAuditLog = typeof platformAuditLogs.$inferSelect;
+export type NewPlatformAuditLog = typeof platformAuditLogs.$inferInsert;
@@ -0,0 +1,33 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+// ============================================
+// ROLE TEMPLATES — platform-level roles reusable across tenants (global)
+// ============================================
+// Applying a template creates a linked role in the tenant (roles.template_id).
+// Editing a template bumps `version`; linked roles stay as they are until the
+// tenant accepts the update.
+// ============================================
+export const roleTemplates = pgTable("role_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  slug: varchar("slug", { length: 50 }).unique().notNull(),
+  name: varchar("name", { length: 50 }).notNull(),
+  description: text("description"),
+  permissions: text("permissions").array().notNull().default([]),
+  version: integer("version").default(1).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+});
+
+export type RoleTemplate = typeof roleTemplates.$inferSelect;
+export type NewRoleTemplate = typeof roleTemplates.$inferInsert;
@@ -5,10 +5,12 @@ import {
   text,
   boolean,
   timestamp,
+  integer,
   index,
   uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { tenants } from "./tenants";
+import { roleTemplates } from "./role-templates";
 
 // ============================================
 // ROLES — per-tenant roles with permission arrays
@@ -28,6 +30,12 @@ export const roles = pgTable(
       .notNull()
       .default([]),
     isSystem: boolean("is_system").default(false).notNull(),
+    /** Platform template this role was created from, if any */
+    templateId: uuid("template_id").references(() => roleTemplates.id, {
+      onDelete: "set null",
+    }),
+    /** Template version the role's permissions were last synced to */
+    templateVersion: integer("template_version"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -35,6 +43,7 @@ export const roles = pgTable(
   (table) => [
     uniqueIndex("idx_roles_tenant_slug").on(table.tenantId, table.slug),
     index("idx_roles_tenant").on(table.tenantId),
+    index("idx_roles_template").on(table.templateId),
   ]
 );
 
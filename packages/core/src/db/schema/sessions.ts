@@ -5,10 +5,12 @@ import {
   text,
   timestamp,
   inet,
+  boolean,
   index,
 } from "drizzle-orm/pg-core";
 import { users } from "./users";
 import { tenants } from "./tenants";
+import { locations } from "./locations";
 
 // ============================================
 // SESSIONS — database-backed sessions
@@ -23,10 +25,22 @@ export const sessions = pgTable(
     tenantId: uuid("tenant_id").references(() => tenants.id, {
       onDelete: "set null",
     }),
+    /** Active location within the tenant (null = none selected) */
+    locationId: uuid("location_id").references(() => locations.id, {
+      onDelete: "set null",
+    }),
     tokenHash: text("token_hash").unique().notNull(),
     authMethod: varchar("auth_method", { length: 20 })
       .default("password")
       .notNull(),
+    /** Super admin acting as userId (authMethod "impersonation") */
+    impersonatorId: uuid("impersonator_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    /** Mutations are rejected, bar leaving the session */
+    readOnly: boolean("read_only").default(false).notNull(),
+    /** Opened with a second factor, or stepped up with one since */
+    mfaVerified: boolean("mfa_verified").default(false).notNull(),
     ipAddress: inet("ip_address"),
     userAgent: text("user_agent"),
     expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
@@ -38,6 +52,7 @@ export const sessions = pgTable(
     index("idx_sessions_token").on(table.tokenHash),
     index("idx_sessions_user").on(table.userId),
     index("idx_sessions_expires").on(table.expiresAt),
+    index("idx_sessions_impersonator").on(table.impersonatorId),
   ]
 );
 
@@ -0,0 +1,63 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  timestamp,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+import { users } from "./users";
+import { roles } from "./roles";
+
+// ============================================
+// TENANT INVITATIONS — invites waiting for the invitee to accept
+// ============================================
+// The membership is only created on acceptance. The raw token only exists
+// in the emailed link; resending replaces the token hash.
+export const tenantInvitations = pgTable(
+  "tenant_invitations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    email: varchar("email", { length: 255 }).notNull(),
+    /** Name for the account, if the invitee doesn't have one yet */
+    fullName: varchar("full_name", { length: 255 }).notNull(),
+    roleId: uuid("role_id")
+      .notNull()
+      .references(() => roles.id, { onDelete: "cascade" }),
+    /** PIN for the membership, hashed like tenant_memberships.pin_hash */
+    pinHash: text("pin_hash"),
+    invitedBy: uuid("invited_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    tokenHash: text("token_hash").unique().notNull(),
+    /** pending → accepted | revoked | expired */
+    status: varchar("status", { length: 20 }).default("pending").notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    acceptedBy: uuid("accepted_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    acceptedAt: timestamp("accepted_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_tenant_invitations_tenant").on(table.tenantId, table.status),
+    uniqueIndex("idx_tenant_invitations_pending_email")
+      .on(table.tenantId, table.email)
+      .where(sql`${table.status} = 'pending'`),
+  ]
+);
+
+export type TenantInvitation = typeof tenantInvitations.$inferSelect;
+export type NewTenantInvitation = typeof tenantInvitations.$inferInsert;
@@ -0,0 +1,46 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  timestamp,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+// ============================================
+// TENANT SSO DOMAINS — email domains for SSO auto-provisioning
+// ============================================
+// Verified users of a listed domain join the tenant on OIDC sign-in, but
+// only once the tenant has proven it controls the domain by publishing
+// verificationToken in a DNS TXT record (see auth/sso-domains.ts).
+export const tenantSsoDomains = pgTable(
+  "tenant_sso_domains",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    /** Lowercase, e.g. example.com */
+    domain: varchar("domain", { length: 255 }).notNull(),
+    verificationToken: text("verification_token").notNull(),
+    /** Null until the TXT record was found — unverified domains are ignored */
+    verifiedAt: timestamp("verified_at", { withTimezone: true }),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_tenant_sso_domains_tenant_domain").on(
+      table.tenantId,
+      table.domain
+    ),
+  ]
+);
+
+export type TenantSsoDomain = typeof tenantSsoDomains.$inferSelect;
+export type NewTenantSsoDomain = typeof tenantSsoDomains.$inferInsert;
@@ -9,6 +9,7 @@ import {
   index,
 } from "drizzle-orm/pg-core";
 import type { TenantSettings } from "@sme/shared";
+import { plans } from "./plans";
 
 // ============================================
 // TENANTS — multi-tenant organizations
@@ -20,6 +21,10 @@ export const tenants = pgTable(
     name: varchar("name", { length: 200 }).notNull(),
     slug: varchar("slug", { length: 100 }).unique().notNull(),
     settings: jsonb("settings").$type<TenantSettings>().default({}),
+    /** Module entitlements — null means modules are super-admin managed only */
+    planId: uuid("plan_id").references(() => plans.id, {
+      onDelete: "set null",
+    }),
     isActive: boolean("is_active").default(true).notNull(),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -31,6 +36,7 @@ export const tenants = pgTable(
   (table) => [
     index("idx_tenants_slug").on(table.slug),
     index("idx_tenants_active").on(table.isActive),
+    index("idx_tenants_plan").on(table.planId),
   ]
 );
 
@@ -0,0 +1,75 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  timestamp,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+// ============================================
+// USER IDENTITIES — OpenID Connect accounts linked to users
+// ============================================
+// A provider account is identified by its subject (the ID token's `sub`),
+// never by email — emails can change or be reassigned at the provider.
+export const userIdentities = pgTable(
+  "user_identities",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    /** Provider ID from OIDC_PROVIDERS */
+    provider: varchar("provider", { length: 50 }).notNull(),
+    subject: varchar("subject", { length: 255 }).notNull(),
+    /** Email the provider reported at the last sign-in (for display) */
+    email: varchar("email", { length: 255 }),
+    lastLoginAt: timestamp("last_login_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_user_identities_provider_subject").on(
+      table.provider,
+      table.subject
+    ),
+    index("idx_user_identities_user").on(table.userId),
+  ]
+);
+
+// ============================================
+// OIDC AUTH REQUESTS — authorization requests waiting for their callback
+// ============================================
+// Looked up by the hash of the `state` parameter, which the browser also
+// holds in a cookie — a callback only completes in the browser that
+// started it. Deleted on use; expired rows by the session cleanup job.
+export const oidcAuthRequests = pgTable(
+  "oidc_auth_requests",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    stateHash: text("state_hash").unique().notNull(),
+    provider: varchar("provider", { length: 50 }).notNull(),
+    nonce: text("nonce").notNull(),
+    /** PKCE code_verifier (RFC 7636) */
+    codeVerifier: text("code_verifier").notNull(),
+    /** Set when a signed-in user is connecting an identity to their account */
+    linkUserId: uuid("link_user_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    /** App path to return to after the callback */
+    returnTo: text("return_to"),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("idx_oidc_auth_requests_expires").on(table.expiresAt)]
+);
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type NewUserIdentity = typeof userIdentities.$inferInsert;
+export type OidcAuthRequest = typeof oidcAuthRequests.$inferSelect;
+export type NewOidcAuthRequest = typeof oidcAuthRequests.$inferInsert;
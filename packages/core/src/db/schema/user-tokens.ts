@@ -0,0 +1,39 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+// ============================================
+// USER TOKENS — hashed single-use tokens mailed to users
+// ============================================
+// The raw token only exists in the link sent by email. A token is spent
+// by setting used_at; expired rows are deleted by the session cleanup job.
+export const userTokens = pgTable(
+  "user_tokens",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    /** "password_reset" | "email_verification" */
+    purpose: varchar("purpose", { length: 30 }).notNull(),
+    tokenHash: text("token_hash").unique().notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    usedAt: timestamp("used_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_user_tokens_user").on(table.userId, table.purpose),
+    index("idx_user_tokens_expires").on(table.expiresAt),
+  ]
+);
+
+export type UserToken = typeof userTokens.$inferSelect;
+export type NewUserToken = typeof userTokens.$inferInsert;
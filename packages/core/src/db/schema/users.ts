@@ -6,6 +6,7 @@ import {
   boolean,
   timestamp,
   integer,
+  bigint,
   index,
 } from "drizzle-orm/pg-core";
 
@@ -26,6 +27,14 @@ export const users = pgTable(
     // Login rate limiting (password brute force protection)
     loginFailedAttempts: integer("login_failed_attempts").default(0).notNull(),
     loginLockedUntil: timestamp("login_locked_until", { withTimezone: true }),
+    /**
+     * TOTP secret (base32). Stored as-is — codes are computed from it.
+     * Pending until totpEnabledAt is set by confirming a first code.
+     */
+    totpSecret: text("totp_secret"),
+    totpEnabledAt: timestamp("totp_enabled_at", { withTimezone: true }),
+    /** Time step of the last accepted code — older or equal steps are rejected */
+    totpLastStep: bigint("totp_last_step", { mode: "number" }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -0,0 +1,97 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  boolean,
+  integer,
+  timestamp,
+  jsonb,
+  index,
+} from "drizzle-orm/pg-core";
+import { tenants } from "./tenants";
+import { users } from "./users";
+import { domainEvents } from "./domain-events";
+
+// ============================================
+// WEBHOOK ENDPOINTS — tenant-configured outbound HTTP targets
+// ============================================
+export const webhookEndpoints = pgTable(
+  "webhook_endpoints",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    description: varchar("description", { length: 200 }),
+    /**
+     * HMAC-SHA256 signing secret. Stored as-is (not hashed) because every
+     * delivery must be signed with it; only shown to users once on create.
+     */
+    secret: text("secret").notNull(),
+    /** Event patterns, same wildcard grammar as permissions (e.g. catalog:product:*) */
+    events: text("events").array().default([]).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("idx_webhook_endpoints_tenant").on(table.tenantId)]
+);
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+
+// ============================================
+// WEBHOOK DELIVERIES — persisted retry queue + delivery log
+// ============================================
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    endpointId: uuid("endpoint_id")
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+    /** Source domain event (null for test pings) */
+    eventId: uuid("event_id").references(() => domainEvents.id, {
+      onDelete: "set null",
+    }),
+    eventType: varchar("event_type", { length: 100 }).notNull(),
+    /** Request body — identical across retries and replays */
+    payload: jsonb("payload").notNull(),
+    /** pending → succeeded, or failed after max attempts */
+    status: varchar("status", { length: 20 }).default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    /** Next attempt (also serves as the claim lease while sending) */
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    /** Only the status is kept — response bodies are never stored */
+    responseStatus: integer("response_status"),
+    durationMs: integer("duration_ms"),
+    lastError: text("last_error"),
+    /** Set when this delivery is a manual replay of another */
+    replayOf: uuid("replay_of"),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("idx_webhook_deliveries_pending").on(table.status, table.nextAttemptAt),
+    index("idx_webhook_deliveries_endpoint").on(table.endpointId, table.createdAt),
+  ]
+);
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
@@ -102,6 +102,7 @@ async function seedAirsoft() {
     await db.insert(schema.tenantModules).values({
       tenantId: tenant.id,
       moduleId: modId,
+      version: "1.0.0",
     }).onConflictDoNothing();
     console.log(`  ↳ Enabled: ${modId}`);
   }
@@ -27,13 +27,43 @@ async function seed() {
 
   console.log("🌱 Seeding database...\n");
 
-  // 1. Create default tenant
-  console.log("📦 Creating default tenant...");
+  // 1. Create plans (entitlements for self-service module enablement)
+  console.log("💳 Creating plans...");
+  await db
+    .insert(schema.plans)
+    .values([
+      {
+        slug: "starter",
+        name: "Starter",
+        description: "Notes and product catalog",
+        modules: ["notes", "catalog"],
+        limits: { maxMembers: 5 },
+      },
+      {
+        slug: "pro",
+        name: "Pro",
+        description: "All modules, including costing",
+        modules: ["notes", "catalog", "costing"],
+        limits: {},
+      },
+    ])
+    .onConflictDoNothing({ target: schema.plans.slug });
+
+  const [proPlan] = await db
+    .select({ id: schema.plans.id })
+    .from(schema.plans)
+    .where(eq(schema.plans.slug, "pro"))
+    .limit(1);
+  console.log("  ↳ Plans: starter, pro");
+
+  // 2. Create default tenant
+  console.log("\n📦 Creating default tenant...");
   const [tenant] = await db
     .insert(schema.tenants)
     .values({
       name: "Demo Company",
       slug: "demo",
+      planId: proPlan?.id ?? null,
       settings: {
         timezone: "Asia/Manila",
         currency: "PHP",
@@ -61,7 +91,7 @@ async function seed() {
 
   console.log(`  ↳ Created tenant: ${tenant.name} (${tenant.slug})`);
 
-  // 2. Create system roles
+  // 3. Create system roles
   console.log("\n👥 Creating system roles...");
   const roleMap = new Map<string, string>();
 
@@ -84,7 +114,7 @@ async function seed() {
     }
   }
 
-  // 3. Create admin user (marked as super admin)
+  // 4. Create admin user (marked as super admin)
   console.log("\n👤 Creating admin user (super admin)...");
   const adminPassword = "admin123456";
   const passwordHash = await hashPassword(adminPassword);
@@ -107,7 +137,7 @@ async function seed() {
 
   console.log(`  ↳ Created user: ${adminUser.email} (super admin)`);
 
-  // 4. Assign admin user as tenant owner — hash the PIN
+  // 5. Assign admin user as tenant owner — hash the PIN
   const ownerRoleId = roleMap.get("owner");
   if (!ownerRoleId) throw new Error("Owner role not found");
 
@@ -122,7 +152,7 @@ async function seed() {
 
   console.log("  ↳ Assigned as tenant owner (PIN hashed)");
 
-  // 5. Create a second test user (operator)
+  // 6. Create a second test user (operator)
   console.log("\n👤 Creating test operator...");
   const operatorHash = await hashPassword("operator123");
 
@@ -151,7 +181,7 @@ async function seed() {
     }
   }
 
-  // 6. Register the "notes" example module
+  // 7. Register the "notes" example module
   console.log("\n📦 Registering example module...");
   await db
     .insert(schema.systemModules)
@@ -170,6 +200,7 @@ async function seed() {
     .values({
       tenantId: tenant.id,
       moduleId: "notes",
+      version: "1.0.0",
     })
     .onConflictDoNothing();
 
@@ -184,7 +215,7 @@ async function seed() {
   console.log(`  PIN:      admin=1234, operator=5678 (hashed in DB)`);
   console.log(`\nTenant:     Demo Company (slug: demo)`);
   console.log("\nDatabase connections:");
-  console.log(`  App:      DATABASE_URL (sme_app role — RLS enforced)`);
+  console.log(`  App:      DATABASE_URL (tenant requests switch to sme_app — RLS enforced)`);
   console.log(`  Admin:    DATABASE_ADMIN_URL (sme_user — superuser)`);
   console.log("=".repeat(50));
 
@@ -0,0 +1,335 @@
+import { eq, and, lte, asc, sql } from "drizzle-orm";
+import {
+  db,
+  setTenantContext,
+  type Database,
+  type Transaction,
+} from "../db/index";
+import { domainEvents, tenantModules } from "../db/schema/index";
+import {
+  getModuleRegistry,
+  type ModuleHookContext,
+} from "../modules/registry";
+
+// ============================================
+// Domain Event Bus — typed in-process events via a transactional outbox
+// ============================================
+// publishEvent() inserts into domain_events using the caller's connection,
+// so an event inside a transaction commits or rolls back with the change.
+// The dispatcher picks up committed rows (FOR UPDATE SKIP LOCKED) and runs
+// every subscriber's handler in its own transaction — bound to the event's
+// tenant (RLS) for module subscribers. Failed handlers are
+// retried with backoff; handlers that already succeeded are not re-run.
+//
+// Event payload types are declared by augmenting DomainEventMap from each
+// module's events.ts.
+// ============================================
+
+/**
+ * Event type → payload type. Modules augment this interface:
+ *
+ *   declare module "../../events/index" {
+ *     interface DomainEventMap { "notes:note:created": AuditEventPayload }
+ *   }
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface DomainEventMap {}
+
+export type DomainEventType = keyof DomainEventMap & string;
+
+/** Payload of events published from an audit log entry (see createAuditLog) */
+export interface AuditEventPayload {
+  resourceType: string | null;
+  resourceId: string | null;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+export interface DomainEvent<T extends DomainEventType = DomainEventType> {
+  id: string;
+  tenantId: string;
+  type: T;
+  payload: DomainEventMap[T];
+  userId: string | null;
+  occurredAt: Date;
+}
+
+/** Runs after commit, inside its own transaction (ctx.db) */
+export type DomainEventHandler<T extends DomainEventType = DomainEventType> = (
+  event: DomainEvent<T>,
+  ctx: ModuleHookContext
+) => Promise<void>;
+
+/** ModuleConfig.subscribes — one handler per event type */
+export type DomainEventSubscriptions = {
+  [E in DomainEventType]?: DomainEventHandler<E>;
+};
+
+export interface DispatchResult {
+  delivered: number;
+  retried: number;
+  failed: number;
+}
+
+const MAX_ATTEMPTS = 8;
+/** Claim lease — a crashed dispatcher's events become available again after this */
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// ------------------------------------------
+// Publishing
+// ------------------------------------------
+
+/**
+ * Publish a domain event. Pass the transaction the change runs in so the
+ * event is only dispatched if the change commits.
+ *
+ * @returns The event ID
+ */
+export async function publishEvent<T extends DomainEventType>(
+  event: {
+    tenantId: string;
+    type: T;
+    payload: DomainEventMap[T];
+    userId?: string;
+  },
+  database: Database | Transaction = db
+): Promise<string> {
+  const [row] = await database
+    .insert(domainEvents)
+    .values({
+      tenantId: event.tenantId,
+      type: event.type,
+      payload: event.payload,
+      userId: event.userId ?? null,
+    })
+    .returning({ id: domainEvents.id });
+
+  scheduleDispatch();
+  return row!.id;
+}
+
+/** Whether any registered module declares `type` in its `publishes` list */
+export function isPublishedEvent(type: string): type is DomainEventType {
+  for (const mod of getModuleRegistry().values()) {
+    if (mod.publishes?.includes(type as DomainEventType)) return true;
+  }
+  return false;
+}
+
+// ------------------------------------------
+// Subscribers
+// ------------------------------------------
+
+interface Subscriber {
+  /** Recorded in completed_handlers — must be stable across deploys */
+  id: string;
+  /** Only run for tenants with this module enabled (omit for platform subscribers) */
+  moduleId?: string;
+  handle: DomainEventHandler;
+}
+
+/** Platform subscribers (e.g. webhooks) — receive every event for every tenant */
+const platformSubscribers = new Map<string, Subscriber>();
+
+/**
+ * Register a platform-level handler for all events. Module code should use
+ * ModuleConfig.subscribes instead. Same delivery guarantees: after commit,
+ * own transaction, retried until it succeeds.
+ */
+export function subscribeToAllEvents(
+  id: string,
+  handle: DomainEventHandler
+): void {
+  platformSubscribers.set(id, { id, handle });
+}
+
+function getSubscribers(type: string): Subscriber[] {
+  const subscribers: Subscriber[] = [...platformSubscribers.values()];
+  for (const mod of getModuleRegistry().values()) {
+    const handler = mod.subscribes?.[type as DomainEventType];
+    if (handler) {
+      subscribers.push({
+        id: `module:${mod.id}`,
+        moduleId: mod.id,
+        handle: handler as DomainEventHandler,
+      });
+    }
+  }
+  return subscribers;
+}
+
+// ------------------------------------------
+// Dispatching
+// ------------------------------------------
+
+function backoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Claim due events and run their subscribers.
+ * Safe to call concurrently — claimed rows are skipped by other dispatchers.
+ */
+export async function dispatchPendingEvents(
+  limit = 50,
+  database: Database = db
+): Promise<DispatchResult> {
+  const result: DispatchResult = { delivered: 0, retried: 0, failed: 0 };
+
+  // Claim: bump attempts and push available_at out by the lease
+  const claimed = await database.transaction(async (tx) => {
+    const due = await tx
+      .select()
+      .from(domainEvents)
+      .where(
+        and(
+          eq(domainEvents.status, "pending"),
+          lte(domainEvents.availableAt, new Date())
+        )
+      )
+      .orderBy(asc(domainEvents.createdAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    for (const row of due) {
+      await tx
+        .update(domainEvents)
+        .set({
+          attempts: sql`${domainEvents.attempts} + 1`,
+          availableAt: new Date(Date.now() + CLAIM_LEASE_MS),
+        })
+        .where(eq(domainEvents.id, row.id));
+    }
+    return due.map((row) => ({ ...row, attempts: row.attempts + 1 }));
+  });
+
+  for (const row of claimed) {
+    const event: DomainEvent = {
+      id: row.id,
+      tenantId: row.tenantId,
+      type: row.type as DomainEventType,
+      payload: row.payload as DomainEventMap[DomainEventType],
+      userId: row.userId,
+      occurredAt: row.createdAt,
+    };
+
+    const completed = [...row.completedHandlers];
+    let error: unknown;
+
+    for (const subscriber of getSubscribers(row.type)) {
+      if (completed.includes(subscriber.id)) continue;
+      try {
+        await database.transaction(async (tx) => {
+          if (subscriber.moduleId) {
+            const [enabled] = await tx
+              .select({ moduleId: tenantModules.moduleId })
+              .from(tenantModules)
+              .where(
+                and(
+                  eq(tenantModules.tenantId, row.tenantId),
+                  eq(tenantModules.moduleId, subscriber.moduleId)
+                )
+              )
+              .limit(1);
+            if (!enabled) return;
+            // Module handlers only ever see the event's tenant (RLS)
+            await setTenantContext(tx, row.tenantId);
+          }
+
+          await subscriber.handle(event, {
+            tenantId: row.tenantId,
+            db: tx,
+            userId: row.userId ?? undefined,
+          });
+        });
+        completed.push(subscriber.id);
+      } catch (err) {
+        error = err;
+        console.error(
+          `[events] ${subscriber.id} failed on ${row.type} (${row.id}):`,
+          err
+        );
+      }
+    }
+
+    if (error === undefined) {
+      await database
+        .update(domainEvents)
+        .set({
+          status: "delivered",
+          completedHandlers: completed,
+          lastError: null,
+          deliveredAt: new Date(),
+        })
+        .where(eq(domainEvents.id, row.id));
+      result.delivered++;
+      continue;
+    }
+
+    const exhausted = row.attempts >= MAX_ATTEMPTS;
+    await database
+      .update(domainEvents)
+      .set({
+        status: exhausted ? "failed" : "pending",
+        completedHandlers: completed,
+        lastError: error instanceof Error ? error.message : String(error),
+        availableAt: new Date(Date.now() + backoffMs(row.attempts)),
+      })
+      .where(eq(domainEvents.id, row.id));
+    if (exhausted) result.failed++;
+    else result.retried++;
+  }
+
+  return result;
+}
+
+// ------------------------------------------
+// Scheduling
+// ------------------------------------------
+
+let dispatchTimer: ReturnType<typeof setTimeout> | null = null;
+let dispatching = false;
+
+/**
+ * Dispatch soon after a publish. Events published inside a transaction that
+ * has not committed yet are invisible here — the poller picks them up.
+ */
+function scheduleDispatch(): void {
+  if (dispatchTimer) return;
+  dispatchTimer = setTimeout(() => {
+    dispatchTimer = null;
+    void runDispatch();
+  }, 50);
+  dispatchTimer.unref?.();
+}
+
+async function runDispatch(): Promise<void> {
+  if (dispatching) return;
+  dispatching = true;
+  try {
+    // Drain in batches
+    for (;;) {
+      const { delivered, retried, failed } = await dispatchPendingEvents();
+      if (delivered + retried + failed === 0) break;
+    }
+  } catch (err) {
+    console.error("[events] Dispatch failed:", err);
+  } finally {
+    dispatching = false;
+  }
+}
+
+/**
+ * Poll the outbox for committed and retry-due events.
+ * Call once per server process (see apps/web/instrumentation.ts).
+ *
+ * @returns A function that stops the poller
+ */
+export function startEventDispatcher(intervalMs = 5_000): () => void {
+  const timer = setInterval(() => void runDispatch(), intervalMs);
+  timer.unref?.();
+  void runDispatch();
+  return () => clearInterval(timer);
+}
@@ -3,8 +3,14 @@
 // ============================================
 
 // Database
-export { db, adminDb, schema } from "./db/index";
-export type { Database } from "./db/index";
+export {
+  db,
+  adminDb,
+  schema,
+  withTenantTransaction,
+  setTenantContext,
+} from "./db/index";
+export type { Database, Transaction } from "./db/index";
 
 // Auth
 export {
@@ -14,17 +20,51 @@ export {
   validateSession,
   invalidateSession,
   invalidateAllUserSessions,
+  listUserSessions,
+  markSessionMfaVerified,
   cleanupExpiredSessions,
+  checkTenantAccess,
   loginWithPassword,
+  verifyMfaLogin,
   registerUser,
   registerUserWithTenant,
   AuthError,
+  startImpersonation,
+  endImpersonation,
+  getMfaStatus,
+  isMfaEnabled,
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableMfa,
+  regenerateRecoveryCodes,
+  verifyMfaCode,
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+  verifyEmail,
+  listOidcProviders,
+  oidcRedirectUri,
+  beginOidcLogin,
+  completeOidcLogin,
+  listUserIdentities,
+  unlinkIdentity,
+  generateApiKey,
+  isApiKey,
+  validateApiKey,
 } from "./auth/index";
 export type {
   SessionValidationResult,
+  TenantAccess,
+  ActiveSession,
   LoginResult,
+  MfaChallengeResult,
+  MfaStatus,
   RegisterResult,
   RegisterWithTenantResult,
+  ImpersonationResult,
+  OidcProvider,
+  OidcIdentity,
+  OidcCallbackResult,
 } from "./auth/index";
 
 // RBAC
@@ -32,11 +72,43 @@ export {
   checkPermission,
   checkAllPermissions,
   checkAnyPermission,
+  canAccessLocation,
+  canAssignPermissions,
   hasPermission,
+  CORE_PERMISSIONS,
+  getPermissionCatalog,
+  findUnknownPermissions,
+  findMatchingGrant,
+  findMatchingDeny,
+  getActivePermissionGrants,
+  previewRoleTemplate,
+  applyRoleTemplate,
+  getRoleTemplateUpdates,
+  resolveRoleTemplateUpdate,
+} from "./rbac/index";
+export type {
+  CatalogPermission,
+  ActivePermissionGrant,
+  RoleTemplateDiff,
+  RoleTemplateApplyResult,
+  RoleTemplateUpdate,
 } from "./rbac/index";
 
 // Tenant
-export { getTenantSlugById } from "./tenant/index";
+export {
+  getTenantSlugById,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+  getInvitationByToken,
+  acceptInvitation,
+  expireInvitations,
+} from "./tenant/index";
+export type {
+  InvitationStatus,
+  InvitationDetails,
+  AcceptInvitationResult,
+} from "./tenant/index";
 
 // Modules
 export {
@@ -47,12 +119,126 @@ export {
   disableModule,
   isModuleEnabled,
   getEnabledModules,
+  enableDefaultModules,
+  installModule,
+  installDefaultModules,
+  requestModulePurge,
+  getTenantPlan,
+  isModuleEntitled,
+  enableEntitledModule,
+  disableEntitledModule,
+  getModuleConfig,
+  updateModuleConfig,
+  applyModuleMigrations,
+  detectModuleVersionDrift,
+  runModuleUpgrades,
 } from "./modules/index";
-export type { ModuleConfig } from "./modules/index";
+export type {
+  ModuleConfig,
+  ModuleConfigField,
+  ModuleDisableMode,
+  ModuleMigration,
+  ModuleOwnedTable,
+  ModuleHookContext,
+  ModuleUpgradePlanItem,
+  ModuleUpgradeResult,
+} from "./modules/index";
+
+// Domain events
+export {
+  publishEvent,
+  isPublishedEvent,
+  subscribeToAllEvents,
+  dispatchPendingEvents,
+  startEventDispatcher,
+} from "./events/index";
+export type {
+  DomainEvent,
+  DomainEventMap,
+  DomainEventType,
+  DomainEventHandler,
+  DomainEventSubscriptions,
+  AuditEventPayload,
+  DispatchResult,
+} from "./events/index";
+
+// Webhooks (importing registers the event bus subscriber)
+export {
+  deliverPendingWebhooks,
+  startWebhookWorker,
+  signWebhookPayload,
+  matchesWebhookEvents,
+  assertWebhookUrlAllowed,
+} from "./webhooks/index";
+export type { WebhookPayload, WebhookDeliveryRunResult } from "./webhooks/index";
+
+// Mail
+export {
+  queueMail,
+  deliverPendingMail,
+  startMailWorker,
+  getMailTransport,
+  setMailTransport,
+  createSmtpTransport,
+  createFileTransport,
+  createConsoleTransport,
+} from "./mail/index";
+export type {
+  MailTransport,
+  MailMessage,
+  MailRunResult,
+  RenderedMail,
+  SmtpOptions,
+} from "./mail/index";
+
+// Background jobs (importing registers the core jobs)
+export {
+  registerJob,
+  enqueueJob,
+  runNextJob,
+  releaseStaleJobs,
+  syncJobSchedules,
+  enqueueDueSchedules,
+  startJobWorker,
+} from "./jobs/index";
+export { parseCron, nextCronTime } from "./jobs/cron";
+export type {
+  JobContext,
+  ModuleJobContext,
+  JobDefinition,
+  ModuleJobDefinition,
+  EnqueueJobOptions,
+  JobWorkerOptions,
+} from "./jobs/index";
 
 // Audit
-export { createAuditLog, createAuditLogBatch } from "./audit/index";
-export type { AuditLogEntry } from "./audit/index";
+export {
+  createAuditLog,
+  createAuditLogBatch,
+  createUserAuditLog,
+  createPlatformAuditLog,
+  runWithAuditScope,
+  getAuditScope,
+  verifyAuditChain,
+  auditLogConditions,
+  auditLogKeyset,
+  exportAuditLogs,
+  archiveExpiredAuditLogs,
+  runAuditRetention,
+  verifyAuditArchive,
+  restoreAuditArchive,
+} from "./audit/index";
+export type {
+  AuditLogEntry,
+  PlatformAuditLogEntry,
+  AuditScope,
+  AuditChainVerification,
+  AuditChainBreakReason,
+  AuditExportFormat,
+  AuditArchiveVerification,
+  AuditArchiveBreakReason,
+  AuditRetentionResult,
+} from "./audit/index";
 
 // Register built-in modules (import for side effect)
 export { notesModule } from "./modules/notes/index";
@@ -67,9 +253,11 @@ export {
   protectedProcedure,
   tenantProcedure,
   adminProcedure,
+  ownerProcedure,
   superAdminProcedure,
   createCallerFactory,
   requirePermission,
+  requireLocationPermission,
   requireModule,
   appRouter,
 } from "./trpc/index";
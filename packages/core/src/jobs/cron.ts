@@ -0,0 +1,141 @@
+// ============================================
+// Cron — minimal 5-field cron expressions (UTC)
+// ============================================
+// "minute hour day-of-month month day-of-week"
+// Each field supports "*", numbers, ranges "a-b", lists "a,b" and steps
+// "*/n" / "a-b/n". Day-of-week is 0-6 (Sunday = 0, 7 also accepted).
+// As in standard cron, when both day fields are restricted a date matches
+// if EITHER matches.
+// ============================================
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const FIELD_RANGES: [min: number, max: number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range!.includes("-")) {
+      const [a, b] = range!.split("-");
+      start = Number(a);
+      end = Number(b);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression.
+ * @throws Error if the expression is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, FIELD_RANGES[i]![0], FIELD_RANGES[i]![1])
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== "*",
+    dowRestricted: fields[4] !== "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Next time strictly after `after` that matches the expression (UTC,
+ * minute precision).
+ * @throws Error if the expression is malformed or never fires
+ */
+export function nextCronTime(expression: string, after: Date = new Date()): Date {
+  const schedule = parseCron(expression);
+
+  const t = new Date(after.getTime());
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+
+  // Skip ahead a month/day/hour at a time; 5 years covers every valid date
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (t.getTime() <= limit) {
+    if (!schedule.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return t;
+  }
+
+  throw new Error(`Cron expression never fires: "${expression}"`);
+}
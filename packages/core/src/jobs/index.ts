@@ -0,0 +1,593 @@
+import { hostname } from "node:os";
+import { eq, and, lte, lt, asc, desc, sql } from "drizzle-orm";
+import { db, type Database, type Transaction } from "../db/index";
+import { jobs, jobSchedules, tenantModules } from "../db/schema/index";
+import { getModuleRegistry } from "../modules/registry";
+import { cleanupExpiredSessions } from "../auth/session";
+import { runAuditRetention } from "../audit/archive";
+import { expireInvitations } from "../tenant/invitations";
+import { nextCronTime, parseCron } from "./cron";
+
+// ============================================
+// Jobs — Postgres-backed background queue and cron scheduler
+// ============================================
+// enqueueJob() inserts a row into `jobs` using the caller's connection, so a
+// job enqueued inside a transaction only runs if the transaction commits.
+// Workers claim one job at a time with FOR UPDATE SKIP LOCKED, honouring a
+// per-tenant limit on running jobs, and retry failures with backoff.
+//
+// Job names are "core:<name>" for platform jobs (registerJob) and
+// "<moduleId>:<key>" for module jobs (ModuleConfig.jobs). Module jobs always
+// run for a tenant and are cancelled if the module is no longer enabled.
+//
+// Jobs with a `schedule` (5-field cron, UTC) are enqueued by whichever worker
+// claims the job_schedules row first — once per tick. Scheduled module jobs
+// are enqueued once per tenant with the module enabled.
+// ============================================
+
+/** Passed to job handlers */
+export interface JobContext {
+  jobId: string;
+  /** null for platform jobs */
+  tenantId: string | null;
+  /** 1 on the first run */
+  attempt: number;
+  /** User who enqueued the job (undefined for scheduled runs) */
+  userId?: string;
+  /**
+   * Platform connection, not a transaction. Use withTenantTransaction() for
+   * tenant work so writes are atomic and RLS applies.
+   */
+  db: Database;
+}
+
+/** Module jobs always run for a tenant */
+export interface ModuleJobContext extends JobContext {
+  tenantId: string;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface JobDefinition<TPayload = any, TContext extends JobContext = JobContext> {
+  /** Return value is stored in jobs.result. Throw to retry. Keep handlers idempotent. */
+  handler: (payload: TPayload, ctx: TContext) => Promise<unknown>;
+  /** 5-field cron expression (UTC) — enqueue automatically on this schedule */
+  schedule?: string;
+  /** Total runs before the job is marked failed (default 3) */
+  maxAttempts?: number;
+  /** Run time after which the attempt counts as failed (default 5 minutes) */
+  timeoutMs?: number;
+}
+
+/** ModuleConfig.jobs — key → definition, run as "<moduleId>:<key>" */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ModuleJobDefinition<TPayload = any> = JobDefinition<TPayload, ModuleJobContext>;
+
+export interface EnqueueJobOptions {
+  /** Required for module jobs */
+  tenantId?: string;
+  userId?: string;
+  /** Run no earlier than this (default: now) */
+  runAt?: Date;
+  /** Higher runs first (default 0) */
+  priority?: number;
+  /** Overrides the definition's maxAttempts */
+  maxAttempts?: number;
+  /** Only one job per key is ever created — later enqueues return the existing job */
+  dedupeKey?: string;
+}
+
+export interface JobWorkerOptions {
+  /** Jobs run at the same time by this worker (default JOB_CONCURRENCY or 2) */
+  concurrency?: number;
+  /** Idle poll interval (default 1s) */
+  pollIntervalMs?: number;
+  /** Schedule check interval (default 30s) */
+  scheduleIntervalMs?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const BASE_BACKOFF_MS = 10_000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+/** Running jobs refresh locked_at this often */
+const HEARTBEAT_MS = 30_000;
+/** A running job without a heartbeat for this long belonged to a dead worker */
+const STALE_LOCK_MS = 2 * 60 * 1000;
+
+/** Running jobs allowed per tenant across all workers */
+function tenantConcurrency(): number {
+  return Number(process.env.JOB_TENANT_CONCURRENCY) || 2;
+}
+
+// ------------------------------------------
+// Registry
+// ------------------------------------------
+
+const coreJobs = new Map<string, JobDefinition>();
+
+/**
+ * Register a platform job. Module code should use ModuleConfig.jobs instead.
+ * @param name - Must start with "core:"
+ */
+export function registerJob<TPayload>(
+  name: string,
+  definition: JobDefinition<TPayload>
+): void {
+  if (!name.startsWith("core:")) {
+    throw new Error(`Platform job names must start with "core:": ${name}`);
+  }
+  if (definition.schedule) parseCron(definition.schedule);
+  coreJobs.set(name, definition as JobDefinition);
+}
+
+interface ResolvedJob {
+  definition: JobDefinition;
+  /** Set for module jobs */
+  moduleId?: string;
+}
+
+function resolveJob(name: string): ResolvedJob | null {
+  const core = coreJobs.get(name);
+  if (core) return { definition: core };
+
+  const separator = name.indexOf(":");
+  if (separator === -1) return null;
+  const moduleId = name.slice(0, separator);
+  const definition = getModuleRegistry().get(moduleId)?.jobs?.[name.slice(separator + 1)];
+  return definition ? { definition: definition as JobDefinition, moduleId } : null;
+}
+
+/** Every registered job that has a schedule, by full job name */
+function getScheduledJobs(): Map<string, ResolvedJob & { schedule: string }> {
+  const scheduled = new Map<string, ResolvedJob & { schedule: string }>();
+  for (const [name, definition] of coreJobs) {
+    if (definition.schedule) {
+      scheduled.set(name, { definition, schedule: definition.schedule });
+    }
+  }
+  for (const mod of getModuleRegistry().values()) {
+    for (const [key, definition] of Object.entries(mod.jobs ?? {})) {
+      if (definition.schedule) {
+        scheduled.set(`${mod.id}:${key}`, {
+          definition: definition as JobDefinition,
+          moduleId: mod.id,
+          schedule: definition.schedule,
+        });
+      }
+    }
+  }
+  return scheduled;
+}
+
+// ------------------------------------------
+// Enqueueing
+// ------------------------------------------
+
+/**
+ * Queue a job. Pass the transaction the triggering change runs in so the
+ * job only runs if the change commits.
+ *
+ * @returns The job ID (the existing job's ID if dedupeKey matched)
+ * @throws Error if no handler is registered for `name`
+ */
+export async function enqueueJob(
+  name: string,
+  payload: unknown = {},
+  options: EnqueueJobOptions = {},
+  database: Database | Transaction = db
+): Promise<string> {
+  const resolved = resolveJob(name);
+  if (!resolved) {
+    throw new Error(`No job handler registered for "${name}"`);
+  }
+  if (resolved.moduleId && !options.tenantId) {
+    throw new Error(`Module job "${name}" requires a tenantId`);
+  }
+
+  const [row] = await database
+    .insert(jobs)
+    .values({
+      tenantId: options.tenantId ?? null,
+      name,
+      payload,
+      priority: options.priority ?? 0,
+      maxAttempts:
+        options.maxAttempts ?? resolved.definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? new Date(),
+      dedupeKey: options.dedupeKey ?? null,
+      createdBy: options.userId ?? null,
+    })
+    .onConflictDoNothing({ target: jobs.dedupeKey })
+    .returning({ id: jobs.id });
+
+  if (row) {
+    wakeWorker();
+    return row.id;
+  }
+
+  const [existing] = await database
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(eq(jobs.dedupeKey, options.dedupeKey!))
+    .limit(1);
+  return existing!.id;
+}
+
+// ------------------------------------------
+// Claiming and running
+// ------------------------------------------
+
+function backoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Claim the next due job. Tenants already at their running-job limit are
+ * skipped; the limit is re-checked under a per-tenant advisory lock so
+ * concurrent workers can't overshoot it.
+ */
+async function claimNextJob(workerId: string, database: Database) {
+  return database.transaction(async (tx) => {
+    const limit = tenantConcurrency();
+
+    const [candidate] = await tx
+      .select()
+      .from(jobs)
+      .where(
+        and(
+          eq(jobs.status, "queued"),
+          lte(jobs.runAt, new Date()),
+          sql`(${jobs.tenantId} IS NULL OR (SELECT count(*) FROM jobs r WHERE r.tenant_id = ${jobs.tenantId} AND r.status = 'running') < ${limit})`
+        )
+      )
+      .orderBy(desc(jobs.priority), asc(jobs.runAt))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    if (!candidate) return null;
+
+    if (candidate.tenantId) {
+      await tx.execute(
+        sql`SELECT pg_advisory_xact_lock(hashtext(${`jobs:${candidate.tenantId}`}))`
+      );
+      const [running] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(jobs)
+        .where(and(eq(jobs.tenantId, candidate.tenantId), eq(jobs.status, "running")));
+      if ((running?.count ?? 0) >= limit) return null;
+    }
+
+    const now = new Date();
+    const [claimed] = await tx
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedBy: workerId,
+        lockedAt: now,
+        startedAt: candidate.startedAt ?? now,
+      })
+      .where(eq(jobs.id, candidate.id))
+      .returning();
+    return claimed ?? null;
+  });
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Claim and run one job.
+ * @returns false if no job was due
+ */
+export async function runNextJob(
+  workerId = defaultWorkerId(),
+  database: Database = db
+): Promise<boolean> {
+  const job = await claimNextJob(workerId, database);
+  if (!job) return false;
+
+  const finish = (values: Partial<typeof jobs.$inferInsert>) =>
+    database
+      .update(jobs)
+      .set({ lockedBy: null, lockedAt: null, ...values })
+      .where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, workerId)));
+
+  const resolved = resolveJob(job.name);
+  if (!resolved) {
+    await finish({
+      status: "failed",
+      lastError: `No job handler registered for "${job.name}"`,
+      finishedAt: new Date(),
+    });
+    return true;
+  }
+
+  if (resolved.moduleId) {
+    const [enabled] = await database
+      .select({ moduleId: tenantModules.moduleId })
+      .from(tenantModules)
+      .where(
+        and(
+          eq(tenantModules.tenantId, job.tenantId!),
+          eq(tenantModules.moduleId, resolved.moduleId)
+        )
+      )
+      .limit(1);
+    if (!enabled) {
+      await finish({
+        status: "cancelled",
+        lastError: `Module "${resolved.moduleId}" is not enabled for the tenant`,
+        finishedAt: new Date(),
+      });
+      return true;
+    }
+  }
+
+  const heartbeat = setInterval(() => {
+    void database
+      .update(jobs)
+      .set({ lockedAt: new Date() })
+      .where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, workerId)))
+      .catch(() => {});
+  }, HEARTBEAT_MS);
+  heartbeat.unref?.();
+
+  try {
+    const result = await withTimeout(
+      resolved.definition.handler(job.payload, {
+        jobId: job.id,
+        tenantId: job.tenantId,
+        attempt: job.attempts,
+        userId: job.createdBy ?? undefined,
+        db: database,
+      }),
+      resolved.definition.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+    await finish({
+      status: "succeeded",
+      result: result ?? null,
+      lastError: null,
+      finishedAt: new Date(),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[jobs] ${job.name} (${job.id}) attempt ${job.attempts} failed:`, err);
+    const exhausted = job.attempts >= job.maxAttempts;
+    await finish(
+      exhausted
+        ? { status: "failed", lastError: message, finishedAt: new Date() }
+        : {
+            status: "queued",
+            lastError: message,
+            runAt: new Date(Date.now() + backoffMs(job.attempts)),
+          }
+    );
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  return true;
+}
+
+/**
+ * Release running jobs whose worker stopped sending heartbeats — requeued,
+ * or failed if they have no attempts left.
+ *
+ * @returns Number of jobs released
+ */
+export async function releaseStaleJobs(database: Database = db): Promise<number> {
+  const released = await database
+    .update(jobs)
+    .set({
+      status: sql`CASE WHEN ${jobs.attempts} >= ${jobs.maxAttempts} THEN 'failed' ELSE 'queued' END`,
+      lastError: "Worker stopped responding",
+      finishedAt: sql`CASE WHEN ${jobs.attempts} >= ${jobs.maxAttempts} THEN now() ELSE NULL END`,
+      lockedBy: null,
+      lockedAt: null,
+    })
+    .where(
+      and(
+        eq(jobs.status, "running"),
+        lt(jobs.lockedAt, new Date(Date.now() - STALE_LOCK_MS))
+      )
+    )
+    .returning({ id: jobs.id });
+  return released.length;
+}
+
+// ------------------------------------------
+// Scheduling
+// ------------------------------------------
+
+/**
+ * Write every registered schedule to job_schedules. Existing rows keep their
+ * next run time unless the cron expression changed.
+ */
+export async function syncJobSchedules(database: Database = db): Promise<void> {
+  const now = new Date();
+  for (const [name, { schedule }] of getScheduledJobs()) {
+    await database
+      .insert(jobSchedules)
+      .values({ name, cron: schedule, nextRunAt: nextCronTime(schedule, now) })
+      .onConflictDoUpdate({
+        target: jobSchedules.name,
+        set: {
+          cron: schedule,
+          nextRunAt: sql`CASE WHEN ${jobSchedules.cron} = excluded.cron THEN ${jobSchedules.nextRunAt} ELSE excluded.next_run_at END`,
+          updatedAt: now,
+        },
+      });
+  }
+}
+
+/**
+ * Enqueue every scheduled job whose tick is due and advance its next run
+ * time. Missed ticks (e.g. while no worker was running) collapse into one run.
+ *
+ * @returns Number of jobs enqueued
+ */
+export async function enqueueDueSchedules(database: Database = db): Promise<number> {
+  const scheduled = getScheduledJobs();
+
+  return database.transaction(async (tx) => {
+    const now = new Date();
+    const due = await tx
+      .select()
+      .from(jobSchedules)
+      .where(lte(jobSchedules.nextRunAt, now))
+      .for("update", { skipLocked: true });
+
+    let enqueued = 0;
+    for (const row of due) {
+      const job = scheduled.get(row.name);
+      if (!job) continue;
+
+      const tick = row.nextRunAt.toISOString();
+      let lastJobId: string | null = null;
+
+      if (job.moduleId) {
+        const tenants = await tx
+          .select({ tenantId: tenantModules.tenantId })
+          .from(tenantModules)
+          .where(eq(tenantModules.moduleId, job.moduleId));
+        for (const { tenantId } of tenants) {
+          lastJobId = await enqueueJob(
+            row.name,
+            {},
+            { tenantId, dedupeKey: `${row.name}:${tenantId}@${tick}` },
+            tx
+          );
+          enqueued++;
+        }
+      } else {
+        lastJobId = await enqueueJob(row.name, {}, { dedupeKey: `${row.name}@${tick}` }, tx);
+        enqueued++;
+      }
+
+      await tx
+        .update(jobSchedules)
+        .set({
+          nextRunAt: nextCronTime(job.schedule, now),
+          lastRunAt: now,
+          lastJobId,
+          updatedAt: now,
+        })
+        .where(eq(jobSchedules.name, row.name));
+    }
+    return enqueued;
+  });
+}
+
+// ------------------------------------------
+// Worker
+// ------------------------------------------
+
+function defaultWorkerId(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+/** Wakes idle worker slots in this process after an enqueue */
+let wakeIdleSlots: (() => void) | null = null;
+
+function wakeWorker(): void {
+  wakeIdleSlots?.();
+}
+
+/**
+ * Run jobs in this process until stopped. Call once per process — from the
+ * dedicated worker (src/jobs/worker.ts) or apps/web/instrumentation.ts.
+ *
+ * @returns A function that stops claiming new jobs and resolves once running
+ *   jobs have finished
+ */
+export function startJobWorker(options: JobWorkerOptions = {}): () => Promise<void> {
+  const concurrency =
+    options.concurrency ?? (Number(process.env.JOB_CONCURRENCY) || 2);
+  const pollIntervalMs = options.pollIntervalMs ?? 1_000;
+  const workerId = defaultWorkerId();
+
+  let stopped = false;
+  const sleepers = new Set<() => void>();
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        sleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      sleepers.add(wake);
+    });
+
+  wakeIdleSlots = () => {
+    for (const wake of [...sleepers]) wake();
+  };
+
+  const runSlot = async () => {
+    while (!stopped) {
+      try {
+        const ran = await runNextJob(workerId);
+        if (!ran) await sleep(pollIntervalMs);
+      } catch (err) {
+        console.error("[jobs] Worker error:", err);
+        await sleep(pollIntervalMs);
+      }
+    }
+  };
+
+  const maintain = async () => {
+    try {
+      await releaseStaleJobs();
+      await enqueueDueSchedules();
+    } catch (err) {
+      console.error("[jobs] Schedule check failed:", err);
+    }
+  };
+
+  const maintenance = setInterval(
+    () => void maintain(),
+    options.scheduleIntervalMs ?? 30_000
+  );
+  maintenance.unref?.();
+
+  void syncJobSchedules()
+    .then(maintain)
+    .catch((err) => console.error("[jobs] Schedule sync failed:", err));
+
+  const slots = Array.from({ length: concurrency }, () => runSlot());
+
+  return async () => {
+    stopped = true;
+    clearInterval(maintenance);
+    wakeIdleSlots = null;
+    for (const wake of [...sleepers]) wake();
+    await Promise.all(slots);
+  };
+}
+
+// ------------------------------------------
+// Core jobs
+// ------------------------------------------
+
+registerJob("core:sessions:cleanup", {
+  schedule: "0 * * * *",
+  handler: async () => ({ deleted: await cleanupExpiredSessions() }),
+});
+
+registerJob("core:invitations:expire", {
+  schedule: "15 * * * *",
+  handler: async () => ({ expired: await expireInvitations() }),
+});
+
+registerJob("core:audit:retention", {
+  schedule: "30 2 * * *",
+  timeoutMs: 60 * 60 * 1000,
+  handler: async (_payload, ctx) => runAuditRetention(ctx.db),
+});
@@ -0,0 +1,50 @@
+import {
+  startJobWorker,
+  startEventDispatcher,
+  startWebhookWorker,
+} from "../index";
+
+// ============================================
+// Job Worker — dedicated background process
+//
+//   pnpm jobs:worker
+//
+// Runs background jobs and cron schedules, plus the domain event dispatcher
+// and webhook delivery worker, so the web app can set JOB_WORKER="false" and
+// EVENT_DISPATCHER="false". Any number of workers can run side by side.
+// On SIGTERM/SIGINT it stops claiming jobs and exits once running jobs finish.
+// ============================================
+
+async function runWorker() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL environment variable is required");
+  }
+
+  console.log("🔄 Starting job worker...");
+
+  const stopJobs = startJobWorker();
+  const stopEvents = startEventDispatcher();
+  const stopWebhooks = startWebhookWorker();
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`⏹️  ${signal} received — waiting for running jobs...`);
+    stopEvents();
+    stopWebhooks();
+    await stopJobs();
+    console.log("✅ Job worker stopped");
+    process.exit(0);
+  };
+
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+
+  console.log("✅ Job worker running");
+}
+
+runWorker().catch((err) => {
+  console.error("❌ Job worker failed:", err);
+  process.exit(1);
+});
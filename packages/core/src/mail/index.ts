@@ -0,0 +1,207 @@
+import { randomUUID } from "node:crypto";
+import { eq, and, lte, asc, sql } from "drizzle-orm";
+import { db, type Database, type Transaction } from "../db/index";
+import { mailOutbox } from "../db/schema/index";
+import { getMailTransport } from "./transports";
+import type { RenderedMail } from "./templates";
+
+// ============================================
+// Mail — outbox-backed outgoing mail
+// ============================================
+// queueMail() inserts a mail_outbox row on the caller's connection (pass the
+// transaction making the change, so a rollback sends nothing). The mail
+// worker sends due rows through the configured transport (see transports.ts)
+// and retries failures with exponential backoff.
+// ============================================
+
+const MAX_ATTEMPTS = 8;
+/** Claim lease — a crashed worker's messages become available again after this */
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+export interface MailRunResult {
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+/** Sender for all platform mail */
+function mailFrom(): string {
+  return process.env.MAIL_FROM ?? "SME Platform <no-reply@localhost>";
+}
+
+/**
+ * Queue a rendered message for delivery.
+ *
+ * @param to - Recipient address
+ * @param mail - Output of a template in templates.ts
+ * @param options.tenantId - Tenant the mail is sent on behalf of, if any
+ * @param database - Pass the transaction making the change that triggers the mail
+ * @returns The outbox row ID
+ */
+export async function queueMail(
+  to: string,
+  mail: RenderedMail,
+  options: { tenantId?: string } = {},
+  database: Database | Transaction = db
+): Promise<string> {
+  // The tenant role may only insert into the outbox (it holds reset links
+  // for every tenant), so the ID is generated here instead of RETURNING it
+  const id = randomUUID();
+  await database
+    .insert(mailOutbox)
+    .values({
+      id,
+      tenantId: options.tenantId ?? null,
+      to,
+      subject: mail.subject,
+      text: mail.text,
+      html: mail.html,
+      template: mail.template,
+    });
+
+  scheduleMailDelivery();
+  return id;
+}
+
+// ------------------------------------------
+// Delivery worker
+// ------------------------------------------
+
+function backoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Claim due messages and send them.
+ * Safe to call concurrently — claimed rows are skipped by other workers.
+ */
+export async function deliverPendingMail(
+  limit = 25,
+  database: Database = db
+): Promise<MailRunResult> {
+  const result: MailRunResult = { sent: 0, retried: 0, failed: 0 };
+  const transport = getMailTransport();
+
+  const claimed = await database.transaction(async (tx) => {
+    const due = await tx
+      .select()
+      .from(mailOutbox)
+      .where(
+        and(
+          eq(mailOutbox.status, "pending"),
+          lte(mailOutbox.nextAttemptAt, new Date())
+        )
+      )
+      .orderBy(asc(mailOutbox.createdAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    for (const row of due) {
+      await tx
+        .update(mailOutbox)
+        .set({
+          attempts: sql`${mailOutbox.attempts} + 1`,
+          nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS),
+        })
+        .where(eq(mailOutbox.id, row.id));
+    }
+    return due;
+  });
+
+  for (const message of claimed) {
+    const attempts = message.attempts + 1;
+
+    try {
+      await transport.send({
+        from: mailFrom(),
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+      await database
+        .update(mailOutbox)
+        .set({ status: "sent", lastError: null, sentAt: new Date() })
+        .where(eq(mailOutbox.id, message.id));
+      result.sent++;
+    } catch (err) {
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      await database
+        .update(mailOutbox)
+        .set({
+          status: exhausted ? "failed" : "pending",
+          lastError: err instanceof Error ? err.message : String(err),
+          nextAttemptAt: new Date(Date.now() + backoffMs(attempts)),
+        })
+        .where(eq(mailOutbox.id, message.id));
+      if (exhausted) result.failed++;
+      else result.retried++;
+    }
+  }
+
+  return result;
+}
+
+// ------------------------------------------
+// Scheduling
+// ------------------------------------------
+
+let deliveryTimer: ReturnType<typeof setTimeout> | null = null;
+let delivering = false;
+
+function scheduleMailDelivery(): void {
+  if (deliveryTimer) return;
+  deliveryTimer = setTimeout(() => {
+    deliveryTimer = null;
+    void runDelivery();
+  }, 100);
+  deliveryTimer.unref?.();
+}
+
+async function runDelivery(): Promise<void> {
+  if (delivering) return;
+  delivering = true;
+  try {
+    for (;;) {
+      const { sent, retried, failed } = await deliverPendingMail();
+      if (sent + retried + failed === 0) break;
+    }
+  } catch (err) {
+    console.error("[mail] Delivery run failed:", err);
+  } finally {
+    delivering = false;
+  }
+}
+
+/**
+ * Poll for due mail (retries, and rows queued by other processes).
+ * Call once per server process (see apps/web/instrumentation.ts).
+ *
+ * @returns A function that stops the worker
+ */
+export function startMailWorker(intervalMs = 10_000): () => void {
+  const timer = setInterval(() => void runDelivery(), intervalMs);
+  timer.unref?.();
+  void runDelivery();
+  return () => clearInterval(timer);
+}
+
+export {
+  getMailTransport,
+  setMailTransport,
+  createFileTransport,
+  createConsoleTransport,
+} from "./transports";
+export type { MailTransport } from "./transports";
+export { createSmtpTransport } from "./smtp";
+export type { SmtpOptions } from "./smtp";
+export type { MailMessage } from "./message";
+export {
+  appUrl,
+  passwordResetMail,
+  emailVerificationMail,
+  inviteMail,
+} from "./templates";
+export type { RenderedMail } from "./templates";
@@ -0,0 +1,84 @@
+import { randomUUID } from "node:crypto";
+
+// ============================================
+// Mail messages — the transport-independent shape, and its RFC 5322 / MIME
+// rendering (used by the SMTP and file transports)
+// ============================================
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | null;
+}
+
+/** Encode a header value as an RFC 2047 encoded-word if it isn't plain ASCII */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/** Base64 body wrapped at 76 characters (RFC 2045) */
+function encodeBody(content: string): string {
+  return (
+    Buffer.from(content, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? ""
+  );
+}
+
+function domainOf(address: string): string {
+  return address.match(/@([^>\s]+)/)?.[1] ?? "localhost";
+}
+
+/**
+ * Render a message as a MIME document with CRLF line endings — text only,
+ * or multipart/alternative when there is an HTML part.
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  date: Date = new Date()
+): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domainOf(message.from)}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  const textPart = [
+    'Content-Type: text/plain; charset="utf-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.text),
+  ];
+
+  if (!message.html) {
+    return [...headers, ...textPart].join("\r\n");
+  }
+
+  const boundary = `sme-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset="utf-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+/** The bare address from "Name <address>" or "address" */
+export function extractAddress(mailbox: string): string {
+  return (mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox).trim();
+}
@@ -0,0 +1,171 @@
+import net from "node:net";
+import tls from "node:tls";
+import { hostname } from "node:os";
+import { buildMimeMessage, extractAddress, type MailMessage } from "./message";
+import type { MailTransport } from "./transports";
+
+// ============================================
+// SMTP transport — a minimal RFC 5321 client on node:net / node:tls
+// ============================================
+// One connection per message: EHLO, STARTTLS when offered (or implicit TLS
+// with `secure`), AUTH PLAIN when credentials are set, then the envelope
+// and DATA. Enough for a relay or a provider's submission port.
+// ============================================
+
+export interface SmtpOptions {
+  host: string;
+  /** Default 465 with `secure`, otherwise 587 */
+  port?: number;
+  /** Implicit TLS from the first byte (port 465) */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  /** Per-command timeout (default 30s) */
+  timeoutMs?: number;
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/** Reads complete (possibly multi-line) replies off a socket */
+class ReplyReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: ((reply: SmtpResponse) => void) | null = null;
+  private failed: ((error: Error) => void) | null = null;
+  private ready: SmtpResponse[] = [];
+
+  constructor(socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket): void {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => this.push(chunk));
+    socket.on("error", (error) => this.failed?.(error));
+    socket.on("close", () => this.failed?.(new Error("SMTP connection closed")));
+  }
+
+  private push(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line);
+      // "250-..." continues, "250 ..." ends the reply
+      if (line.length < 4 || line[3] !== "-") {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+        if (this.waiting) {
+          const resolve = this.waiting;
+          this.waiting = null;
+          this.failed = null;
+          resolve(reply);
+        } else {
+          this.ready.push(reply);
+        }
+      }
+    }
+  }
+
+  read(timeoutMs: number): Promise<SmtpResponse> {
+    const queued = this.ready.shift();
+    if (queued) return Promise.resolve(queued);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting = null;
+        this.failed = null;
+        reject(new Error("SMTP server timed out"));
+      }, timeoutMs);
+      this.waiting = (reply) => {
+        clearTimeout(timer);
+        resolve(reply);
+      };
+      this.failed = (error) => {
+        clearTimeout(timer);
+        this.waiting = null;
+        this.failed = null;
+        reject(error);
+      };
+    });
+  }
+}
+
+function connect(options: SmtpOptions, port: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port, servername: options.host })
+      : net.connect({ host: options.host, port });
+    socket.once(options.secure ? "secureConnect" : "connect", () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host });
+    secure.once("secureConnect", () => resolve(secure));
+    secure.once("error", reject);
+  });
+}
+
+/**
+ * Create a transport that sends each message over a new SMTP connection.
+ */
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const port = options.port ?? (options.secure ? 465 : 587);
+  const timeoutMs = options.timeoutMs ?? 30_000;
+
+  return {
+    name: "smtp",
+    async send(message: MailMessage): Promise<void> {
+      let socket = await connect(options, port);
+      let reader = new ReplyReader(socket);
+
+      const command = async (line: string | null, expect: number[]) => {
+        if (line !== null) socket.write(`${line}\r\n`);
+        const reply = await reader.read(timeoutMs);
+        if (!expect.includes(reply.code)) {
+          throw new Error(`SMTP ${reply.code}: ${reply.lines.join(" ")}`);
+        }
+        return reply;
+      };
+
+      try {
+        await command(null, [220]);
+        let ehlo = await command(`EHLO ${hostname()}`, [250]);
+
+        const offersStartTls = ehlo.lines.some((l) => /^250[ -]STARTTLS/i.test(l));
+        if (!options.secure && offersStartTls) {
+          await command("STARTTLS", [220]);
+          socket.removeAllListeners("data");
+          socket = await upgradeToTls(socket, options.host);
+          reader = new ReplyReader(socket);
+          ehlo = await command(`EHLO ${hostname()}`, [250]);
+        }
+
+        if (options.user) {
+          const credentials = Buffer.from(
+            `\0${options.user}\0${options.password ?? ""}`
+          ).toString("base64");
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+        await command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+        await command("DATA", [354]);
+
+        // Dot-stuffing: lines starting with "." get another one (RFC 5321 §4.5.2)
+        const data = buildMimeMessage(message).replace(/^\./gm, "..");
+        await command(`${data}\r\n.`, [250]);
+        await command("QUIT", [221]).catch(() => undefined);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
@@ -0,0 +1,119 @@
+// ============================================
+// Mail templates — account mail sent by the platform
+// ============================================
+// Each template returns the subject, a plain-text body and a minimal HTML
+// alternative. Links point at APP_URL (falls back to NEXT_PUBLIC_APP_URL).
+// ============================================
+
+export interface RenderedMail {
+  template: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/** Absolute URL for a path in the web app */
+export function appUrl(pathname: string): string {
+  const base =
+    process.env.APP_URL ?? process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000";
+  return new URL(pathname, base).toString();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Paragraphs plus one call-to-action link */
+function layout(paragraphs: string[], action: { label: string; url: string }): string {
+  const body = paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join("\n");
+  return `<!doctype html>
+<html>
+<body style="font-family: sans-serif; line-height: 1.5; color: #111;">
+${body}
+<p><a href="${escapeHtml(action.url)}">${escapeHtml(action.label)}</a></p>
+</body>
+</html>`;
+}
+
+function render(
+  template: string,
+  subject: string,
+  paragraphs: string[],
+  action: { label: string; url: string }
+): RenderedMail {
+  return {
+    template,
+    subject,
+    text: [...paragraphs, `${action.label}: ${action.url}`].join("\n\n"),
+    html: layout(paragraphs, action),
+  };
+}
+
+export function passwordResetMail(params: {
+  name: string;
+  token: string;
+  expiresInMinutes: number;
+}): RenderedMail {
+  return render(
+    "password_reset",
+    "Reset your password",
+    [
+      `Hi ${params.name},`,
+      `Someone asked to reset the password for your account. The link below works once and expires in ${params.expiresInMinutes} minutes.`,
+      "If this wasn't you, you can ignore this email — your password stays the same.",
+    ],
+    {
+      label: "Reset password",
+      url: appUrl(`/reset-password?token=${encodeURIComponent(params.token)}`),
+    }
+  );
+}
+
+export function emailVerificationMail(params: {
+  name: string;
+  token: string;
+}): RenderedMail {
+  return render(
+    "email_verification",
+    "Verify your email address",
+    [
+      `Hi ${params.name},`,
+      "Please confirm this is your email address by opening the link below.",
+    ],
+    {
+      label: "Verify email",
+      url: appUrl(`/verify-email?token=${encodeURIComponent(params.token)}`),
+    }
+  );
+}
+
+/** An invitation to join a tenant — accepted from the link */
+export function inviteMail(params: {
+  name: string;
+  tenantName: string;
+  invitedBy: string;
+  token: string;
+  expiresInDays: number;
+  /** The invitee already has an account (accepting needs no new password) */
+  hasAccount: boolean;
+}): RenderedMail {
+  return render(
+    "invite",
+    `You've been invited to ${params.tenantName}`,
+    [
+      `Hi ${params.name},`,
+      `${params.invitedBy} invited you to join ${params.tenantName}.`,
+      params.hasAccount
+        ? `Open the link below to accept — you'll use your existing account. The invitation expires in ${params.expiresInDays} days.`
+        : `Open the link below to accept and choose a password for your account. The invitation expires in ${params.expiresInDays} days.`,
+    ],
+    {
+      label: "Accept invitation",
+      url: appUrl(`/invite?token=${encodeURIComponent(params.token)}`),
+    }
+  );
+}
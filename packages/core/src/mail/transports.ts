@@ -0,0 +1,91 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { buildMimeMessage, type MailMessage } from "./message";
+import { createSmtpTransport } from "./smtp";
+
+// ============================================
+// Mail transports — how queued mail leaves the platform
+// ============================================
+// Chosen by MAIL_TRANSPORT ("smtp" | "file" | "console"); without it, SMTP
+// when SMTP_HOST is set, otherwise console. setMailTransport() plugs in any
+// other implementation (a provider API, a test double).
+// ============================================
+
+export interface MailTransport {
+  /** Shown in logs */
+  name: string;
+  /** Throw to have the outbox retry the message */
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Write each message as an .eml file (MAIL_FILE_DIR, default .data/mail) —
+ * open them in any mail client during development.
+ */
+export function createFileTransport(
+  dir: string = process.env.MAIL_FILE_DIR ?? path.join(".data", "mail")
+): MailTransport {
+  const target = path.resolve(dir);
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(target, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+      await writeFile(
+        path.join(target, `${stamp}-${safeTo}.eml`),
+        buildMimeMessage(message)
+      );
+    },
+  };
+}
+
+/** Log each message's text to stdout — links in it can be clicked from the terminal */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(
+        `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}\n`
+      );
+    },
+  };
+}
+
+function createTransportFromEnv(): MailTransport {
+  const kind =
+    process.env.MAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "console");
+
+  switch (kind) {
+    case "smtp":
+      if (!process.env.SMTP_HOST) {
+        throw new Error('MAIL_TRANSPORT="smtp" requires SMTP_HOST');
+      }
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : undefined,
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+    case "file":
+      return createFileTransport();
+    case "console":
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/** The active transport (created from the environment on first use) */
+export function getMailTransport(): MailTransport {
+  transport ??= createTransportFromEnv();
+  return transport;
+}
+
+/** Replace the transport for this process */
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
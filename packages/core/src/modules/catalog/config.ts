@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+// ============================================
+// Catalog Module — per-tenant settings
+// ============================================
+
+export const catalogConfigSchema = z.object({
+  defaultCurrency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, "Must be a 3-letter ISO currency code")
+    .default("PHP")
+    .describe("Default currency for new products"),
+});
+
+export type CatalogConfig = z.infer<typeof catalogConfigSchema>;
@@ -0,0 +1,43 @@
+import type { AuditEventPayload } from "../../events/index";
+
+// ============================================
+// Catalog Events — published from the module's audit actions
+// ============================================
+
+declare module "../../events/index" {
+  interface DomainEventMap {
+    "catalog:category:created": AuditEventPayload;
+    "catalog:category:updated": AuditEventPayload;
+    "catalog:category:deleted": AuditEventPayload;
+    "catalog:subcategory:created": AuditEventPayload;
+    "catalog:subcategory:updated": AuditEventPayload;
+    "catalog:subcategory:deleted": AuditEventPayload;
+    "catalog:product:created": AuditEventPayload;
+    "catalog:product:updated": AuditEventPayload;
+    "catalog:product:deleted": AuditEventPayload;
+    "catalog:photo:added": AuditEventPayload;
+    "catalog:photo:removed": AuditEventPayload;
+    "catalog:attribute:defined": AuditEventPayload;
+    "catalog:attribute:updated": AuditEventPayload;
+    "catalog:attribute:deleted": AuditEventPayload;
+    "catalog:attribute:values_set": AuditEventPayload;
+  }
+}
+
+export const catalogEvents = [
+  "catalog:category:created",
+  "catalog:category:updated",
+  "catalog:category:deleted",
+  "catalog:subcategory:created",
+  "catalog:subcategory:updated",
+  "catalog:subcategory:deleted",
+  "catalog:product:created",
+  "catalog:product:updated",
+  "catalog:product:deleted",
+  "catalog:photo:added",
+  "catalog:photo:removed",
+  "catalog:attribute:defined",
+  "catalog:attribute:updated",
+  "catalog:attribute:deleted",
+  "catalog:attribute:values_set",
+] as const;
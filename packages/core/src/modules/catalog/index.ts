@@ -1,5 +1,18 @@
+import { sql } from "drizzle-orm";
 import { defineModule } from "../registry";
 import { catalogRouter } from "./router";
+import {
+  catalogCategories,
+  catalogSubcategories,
+  catalogProducts,
+  catalogProductSubcategories,
+  catalogProductPhotos,
+  catalogAttributeDefinitions,
+  catalogProductAttributes,
+} from "./schema";
+import { catalogConfigSchema } from "./config";
+import { catalogEvents } from "./events";
+import { onCatalogEnable, onCatalogDisable, upgradeCatalog } from "./lifecycle";
 
 // ============================================
 // Catalog Module — vertical-agnostic product catalog
@@ -8,20 +21,20 @@ import { catalogRouter } from "./router";
 export const catalogModule = defineModule({
   id: "catalog",
   name: "Product Catalog",
-  version: "1.0.0",
+  version: "1.1.0",
   description: "Product catalog with categories, photos, and custom attributes",
   dependencies: [],
 
   permissions: [
-    "catalog:products:read",
-    "catalog:products:write",
-    "catalog:products:delete",
-    "catalog:categories:read",
-    "catalog:categories:write",
-    "catalog:categories:delete",
-    "catalog:attributes:read",
-    "catalog:attributes:write",
-    "catalog:attributes:delete",
+    { key: "catalog:products:read", description: "View products", group: "Products" },
+    { key: "catalog:products:write", description: "Create and edit products", group: "Products" },
+    { key: "catalog:products:delete", description: "Delete products", group: "Products" },
+    { key: "catalog:categories:read", description: "View categories", group: "Categories" },
+    { key: "catalog:categories:write", description: "Create and edit categories", group: "Categories" },
+    { key: "catalog:categories:delete", description: "Delete categories", group: "Categories" },
+    { key: "catalog:attributes:read", description: "View custom attributes", group: "Attributes" },
+    { key: "catalog:attributes:write", description: "Create and edit custom attributes", group: "Attributes" },
+    { key: "catalog:attributes:delete", description: "Delete custom attributes", group: "Attributes" },
   ],
 
   roleDefaults: {
@@ -67,10 +80,37 @@ export const catalogModule = defineModule({
     },
   ],
 
+  publishes: catalogEvents,
+
+  // Join tables have no tenant_id — scoped through their product
+  ownedTables: [
+    { table: catalogCategories },
+    { table: catalogSubcategories },
+    { table: catalogAttributeDefinitions },
+    { table: catalogProducts },
+    {
+      table: catalogProductSubcategories,
+      where: (tenantId) =>
+        sql`${catalogProductSubcategories.productId} IN (SELECT ${catalogProducts.id} FROM ${catalogProducts} WHERE ${catalogProducts.tenantId} = ${tenantId})`,
+    },
+    { table: catalogProductPhotos },
+    {
+      table: catalogProductAttributes,
+      where: (tenantId) =>
+        sql`${catalogProductAttributes.productId} IN (SELECT ${catalogProducts.id} FROM ${catalogProducts} WHERE ${catalogProducts.tenantId} = ${tenantId})`,
+    },
+  ],
+
+  configSchema: catalogConfigSchema,
+  onEnable: onCatalogEnable,
+  onDisable: onCatalogDisable,
+  upgrade: upgradeCatalog,
+
   router: catalogRouter,
 });
 
 export { catalogRouter } from "./router";
+export { catalogConfigSchema, type CatalogConfig } from "./config";
 export {
   catalogCategories,
   catalogSubcategories,
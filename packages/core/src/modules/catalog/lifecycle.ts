@@ -0,0 +1,75 @@
+import { eq, and, isNull, notExists } from "drizzle-orm";
+import type { ModuleHookContext } from "../registry";
+import { catalogCategories, catalogProducts, catalogSubcategories } from "./schema";
+
+// ============================================
+// Catalog Lifecycle Hooks — default category
+// ============================================
+
+const UNCATEGORIZED = { name: "Uncategorized", slug: "uncategorized" } as const;
+
+/**
+ * Seed the "Uncategorized" category so products can be created right away.
+ * Idempotent — skipped if an active category already uses the slug.
+ */
+export async function onCatalogEnable({ tenantId, db }: ModuleHookContext): Promise<void> {
+  const [existing] = await db
+    .select({ id: catalogCategories.id })
+    .from(catalogCategories)
+    .where(
+      and(
+        eq(catalogCategories.tenantId, tenantId),
+        eq(catalogCategories.slug, UNCATEGORIZED.slug),
+        isNull(catalogCategories.deletedAt)
+      )
+    )
+    .limit(1);
+
+  if (existing) return;
+
+  await db.insert(catalogCategories).values({
+    tenantId,
+    name: UNCATEGORIZED.name,
+    slug: UNCATEGORIZED.slug,
+    description: "Default category for products without one",
+    sortOrder: 0,
+  });
+}
+
+/**
+ * Remove the seeded "Uncategorized" category if nothing references it.
+ */
+export async function onCatalogDisable({ tenantId, db }: ModuleHookContext): Promise<void> {
+  await db
+    .delete(catalogCategories)
+    .where(
+      and(
+        eq(catalogCategories.tenantId, tenantId),
+        eq(catalogCategories.slug, UNCATEGORIZED.slug),
+        notExists(
+          db
+            .select({ id: catalogProducts.id })
+            .from(catalogProducts)
+            .where(eq(catalogProducts.categoryId, catalogCategories.id))
+        ),
+        notExists(
+          db
+            .select({ id: catalogSubcategories.id })
+            .from(catalogSubcategories)
+            .where(eq(catalogSubcategories.categoryId, catalogCategories.id))
+        )
+      )
+    );
+}
+
+/**
+ * 1.0.0 → 1.1.0: tenants enabled before the default category existed get it now.
+ */
+export async function upgradeCatalog(
+  fromVersion: string,
+  _toVersion: string,
+  ctx: ModuleHookContext
+): Promise<void> {
+  if (fromVersion !== "1.0.0") return;
+  await onCatalogEnable(ctx);
+}
@@ -3,7 +3,6 @@ import { eq, and, isNull, desc, asc, ilike, sql, inArray, gt, count, ne } from "
 import { z } from "zod";
 import { router, tenantProcedure } from "../../trpc/procedures";
 import { requirePermission, requireModule } from "../../trpc/procedures";
-import { createAuditLog } from "../../audit/index";
 import { paginationSchema, paginatedResult } from "@sme/shared";
 import {
   catalogCategories,
@@ -14,6 +13,7 @@ import {
   catalogAttributeDefinitions,
   catalogProductAttributes,
 } from "./schema";
+import type { CatalogConfig } from "./config";
 
 // ============================================
 // Helpers
@@ -37,7 +37,7 @@ const stockStatuses = ["in_stock", "out_of_stock", "pre_order", "reserved"] as c
 const attributeTypes = ["text", "number", "boolean", "select"] as const;
 
 // Base procedure — requires catalog module enabled
-const catalogProcedure = tenantProcedure.use(requireModule("catalog"));
+const catalogProcedure = tenantProcedure.use(requireModule<CatalogConfig>("catalog"));
 
 // ============================================
 // Slug uniqueness helper
@@ -234,15 +234,11 @@ const categoriesRouter = router({
 
       if (!cat) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create category" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:category:created",
-        resourceType: "catalog_category",
-        resourceId: cat.id,
-        changes: { after: { name: input.name, slug } },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:category:created",
+        { type: "catalog_category", id: cat.id },
+        { after: { name: input.name, slug } }
+      );
 
       return cat;
     }),
@@ -283,15 +279,11 @@ const categoriesRouter = router({
 
       if (!updated) throw new TRPCError({ code: "NOT_FOUND", message: "Category not found" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:category:updated",
-        resourceType: "catalog_category",
-        resourceId: id,
-        changes: { after: updateData },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:category:updated",
+        { type: "catalog_category", id },
+        { after: updateData }
+      );
 
       return updated;
     }),
@@ -312,14 +304,10 @@ const categoriesRouter = router({
 
       if (!deleted) throw new TRPCError({ code: "NOT_FOUND", message: "Category not found" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:category:deleted",
-        resourceType: "catalog_category",
-        resourceId: input.id,
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:category:deleted",
+        { type: "catalog_category", id: input.id }
+      );
 
       return { success: true };
     }),
@@ -340,6 +328,13 @@ const categoriesRouter = router({
             isNull(catalogCategories.deletedAt)
           ));
       }
+
+      await ctx.audit(
+        "catalog:category:reordered",
+        { type: "catalog_category" },
+        { after: { items: input.items } }
+      );
+
       return { success: true };
     }),
 });
@@ -408,15 +403,11 @@ const subcategoriesRouter = router({
 
       if (!sub) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create subcategory" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:subcategory:created",
-        resourceType: "catalog_subcategory",
-        resourceId: sub.id,
-        changes: { after: { name: input.name, categoryId: input.categoryId } },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:subcategory:created",
+        { type: "catalog_subcategory", id: sub.id },
+        { after: { name: input.name, categoryId: input.categoryId } }
+      );
 
       return sub;
     }),
@@ -457,15 +448,11 @@ const subcategoriesRouter = router({
 
       if (!updated) throw new TRPCError({ code: "NOT_FOUND", message: "Subcategory not found" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:subcategory:updated",
-        resourceType: "catalog_subcategory",
-        resourceId: id,
-        changes: { after: updateData },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:subcategory:updated",
+        { type: "catalog_subcategory", id },
+        { after: updateData }
+      );
 
       return updated;
     }),
@@ -486,14 +473,10 @@ const subcategoriesRouter = router({
 
       if (!deleted) throw new TRPCError({ code: "NOT_FOUND", message: "Subcategory not found" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:subcategory:deleted",
-        resourceType: "catalog_subcategory",
-        resourceId: input.id,
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:subcategory:deleted",
+        { type: "catalog_subcategory", id: input.id }
+      );
 
       return { success: true };
     }),
@@ -514,6 +497,13 @@ const subcategoriesRouter = router({
             isNull(catalogSubcategories.deletedAt)
           ));
       }
+
+      await ctx.audit(
+        "catalog:subcategory:reordered",
+        { type: "catalog_subcategory" },
+        { after: { items: input.items } }
+      );
+
       return { success: true };
     }),
 });
@@ -704,7 +694,7 @@ const productsRouter = router({
           brand: input.brand ?? null,
           description: input.description ?? null,
           price: input.price ?? null,
-          currency: input.currency ?? "PHP",
+          currency: input.currency ?? ctx.moduleConfig.defaultCurrency,
           categoryId: input.categoryId,
           stockStatus: input.stockStatus ?? "in_stock",
           isFeatured: input.isFeatured ?? false,
@@ -761,15 +751,11 @@ const productsRouter = router({
         }
       }
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:product:created",
-        resourceType: "catalog_product",
-        resourceId: product.id,
-        changes: { after: { name: input.name, slug, categoryId: input.categoryId } },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:product:created",
+        { type: "catalog_product", id: product.id },
+        { after: { name: input.name, slug, categoryId: input.categoryId } }
+      );
 
       return product;
     }),
@@ -902,15 +888,11 @@ const productsRouter = router({
         }
       }
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:product:updated",
-        resourceType: "catalog_product",
-        resourceId: id,
-        changes: { after: updateData },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:product:updated",
+        { type: "catalog_product", id },
+        { after: updateData }
+      );
 
       return updated;
     }),
@@ -931,14 +913,10 @@ const productsRouter = router({
 
       if (!deleted) throw new TRPCError({ code: "NOT_FOUND", message: "Product not found" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:product:deleted",
-        resourceType: "catalog_product",
-        resourceId: input.id,
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:product:deleted",
+        { type: "catalog_product", id: input.id }
+      );
 
       return { success: true };
     }),
@@ -989,15 +967,11 @@ const photosRouter = router({
 
       if (!photo) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to add photo" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:photo:added",
-        resourceType: "catalog_product_photo",
-        resourceId: photo.id,
-        changes: { after: { productId: input.productId, url: input.url } },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:photo:added",
+        { type: "catalog_product_photo", id: photo.id },
+        { after: { productId: input.productId, url: input.url } }
+      );
 
       return photo;
     }),
@@ -1016,14 +990,10 @@ const photosRouter = router({
 
       if (!deleted) throw new TRPCError({ code: "NOT_FOUND", message: "Photo not found" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:photo:removed",
-        resourceType: "catalog_product_photo",
-        resourceId: input.id,
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:photo:removed",
+        { type: "catalog_product_photo", id: input.id }
+      );
 
       return { success: true };
     }),
@@ -1042,6 +1012,13 @@ const photosRouter = router({
             eq(catalogProductPhotos.tenantId, ctx.tenantId)
           ));
       }
+
+      await ctx.audit(
+        "catalog:photo:reordered",
+        { type: "catalog_product_photo" },
+        { after: { items: input.items } }
+      );
+
       return { success: true };
     }),
 
@@ -1071,6 +1048,12 @@ const photosRouter = router({
           eq(catalogProductPhotos.tenantId, ctx.tenantId)
         ));
 
+      await ctx.audit(
+        "catalog:photo:primary_set",
+        { type: "catalog_product_photo", id: input.id },
+        { after: { productId: photo.productId } }
+      );
+
       return { success: true };
     }),
 });
@@ -1120,15 +1103,11 @@ const attributesRouter = router({
 
       if (!def) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create attribute definition" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:attribute:defined",
-        resourceType: "catalog_attribute_definition",
-        resourceId: def.id,
-        changes: { after: { name: input.name, type: input.type } },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:attribute:defined",
+        { type: "catalog_attribute_definition", id: def.id },
+        { after: { name: input.name, type: input.type } }
+      );
 
       return def;
     }),
@@ -1170,15 +1149,11 @@ const attributesRouter = router({
 
       if (!updated) throw new TRPCError({ code: "NOT_FOUND", message: "Attribute definition not found" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:attribute:updated",
-        resourceType: "catalog_attribute_definition",
-        resourceId: id,
-        changes: { after: updateData },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:attribute:updated",
+        { type: "catalog_attribute_definition", id },
+        { after: updateData }
+      );
 
       return updated;
     }),
@@ -1198,14 +1173,10 @@ const attributesRouter = router({
 
       if (!deleted) throw new TRPCError({ code: "NOT_FOUND", message: "Attribute definition not found" });
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:attribute:deleted",
-        resourceType: "catalog_attribute_definition",
-        resourceId: input.id,
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:attribute:deleted",
+        { type: "catalog_attribute_definition", id: input.id }
+      );
 
       return { success: true };
     }),
@@ -1252,15 +1223,11 @@ const attributesRouter = router({
           .where(eq(catalogProductAttributes.productId, input.productId));
       }
 
-      await createAuditLog({
-        tenantId: ctx.tenantId,
-        userId: ctx.session!.user.id,
-        action: "catalog:attribute:values_set",
-        resourceType: "catalog_product",
-        resourceId: input.productId,
-        changes: { after: { attributeCount: input.values.length } },
-        ipAddress: ctx.ipAddress,
-      }, ctx.db);
+      await ctx.audit(
+        "catalog:attribute:values_set",
+        { type: "catalog_product", id: input.productId },
+        { after: { attributeCount: input.values.length } }
+      );
 
       return { success: true };
     }),
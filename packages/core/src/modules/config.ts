@@ -0,0 +1,219 @@
+import { eq, and } from "drizzle-orm";
+import { z } from "zod";
+import { adminDb, type Database, type Transaction } from "../db/index";
+import { tenantModules } from "../db/schema/index";
+import { getModule, type ModuleConfig } from "./registry";
+import { createAuditLog } from "../audit/index";
+
+// ============================================
+// Module Config — typed per-tenant settings
+// ============================================
+// A module declares `configSchema` (a zod object whose fields all have
+// defaults). tenant_modules.config is validated on every write; reads go
+// through resolveModuleConfig() so fields added in later versions get their
+// defaults without a data migration.
+// ============================================
+
+/** Form-friendly description of one config field, derived from the schema */
+export interface ModuleConfigField {
+  key: string;
+  label: string;
+  type: "string" | "number" | "boolean" | "enum";
+  options?: string[];
+  min?: number;
+  max?: number;
+  defaultValue?: unknown;
+}
+
+/**
+ * Validate a config object against the module's schema, filling defaults.
+ * Throws an Error listing every invalid field.
+ */
+export function parseModuleConfig(
+  moduleConfig: ModuleConfig,
+  raw: Record<string, unknown> | undefined
+): Record<string, unknown> {
+  if (!moduleConfig.configSchema) return raw ?? {};
+
+  const result = moduleConfig.configSchema.strict().safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `${i.path.join(".") || "config"}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Invalid config for module "${moduleConfig.id}": ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Resolve stored config for runtime use. Unlike parseModuleConfig this never
+ * throws: fields that no longer validate (e.g. after a schema change) fall
+ * back to their defaults.
+ */
+export function resolveModuleConfig(
+  moduleConfig: ModuleConfig,
+  stored: Record<string, unknown> | null | undefined
+): Record<string, unknown> {
+  const schema = moduleConfig.configSchema;
+  if (!schema) return stored ?? {};
+
+  const resolved: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+    const value = stored?.[key];
+    const parsed = field.safeParse(value);
+    resolved[key] = parsed.success ? parsed.data : field.safeParse(undefined).data;
+  }
+  return resolved;
+}
+
+/**
+ * Get a tenant's resolved config for a module.
+ * Returns null if the module is not enabled for the tenant.
+ *
+ * @param database - Database connection. Pass ctx.db in tenant-scoped contexts.
+ */
+export async function getModuleConfig(
+  tenantId: string,
+  moduleId: string,
+  database: Database | Transaction = adminDb
+): Promise<Record<string, unknown> | null> {
+  const [row] = await database
+    .select({ config: tenantModules.config })
+    .from(tenantModules)
+    .where(
+      and(
+        eq(tenantModules.tenantId, tenantId),
+        eq(tenantModules.moduleId, moduleId)
+      )
+    )
+    .limit(1);
+
+  if (!row) return null;
+
+  const moduleConfig = getModule(moduleId);
+  if (!moduleConfig) return row.config ?? {};
+
+  return resolveModuleConfig(moduleConfig, row.config);
+}
+
+/**
+ * Update a tenant's module config. The patch is merged over the stored
+ * values and the result validated against the module's schema.
+ *
+ * @param database - Database connection. Pass ctx.db in tenant-scoped contexts.
+ * @returns The resolved config after the update
+ */
+export async function updateModuleConfig(
+  tenantId: string,
+  moduleId: string,
+  patch: Record<string, unknown>,
+  userId?: string,
+  database: Database | Transaction = adminDb
+): Promise<Record<string, unknown>> {
+  const moduleConfig = getModule(moduleId);
+  if (!moduleConfig) {
+    throw new Error(`Module "${moduleId}" is not registered`);
+  }
+
+  return database.transaction(async (tx) => {
+    const [row] = await tx
+      .select({ config: tenantModules.config })
+      .from(tenantModules)
+      .where(
+        and(
+          eq(tenantModules.tenantId, tenantId),
+          eq(tenantModules.moduleId, moduleId)
+        )
+      )
+      .for("update");
+
+    if (!row) {
+      throw new Error(`Module "${moduleId}" is not enabled for this tenant`);
+    }
+
+    const before = resolveModuleConfig(moduleConfig, row.config);
+    const after = parseModuleConfig(moduleConfig, { ...before, ...patch });
+
+    await tx
+      .update(tenantModules)
+      .set({ config: after })
+      .where(
+        and(
+          eq(tenantModules.tenantId, tenantId),
+          eq(tenantModules.moduleId, moduleId)
+        )
+      );
+
+    await createAuditLog(
+      {
+        tenantId,
+        userId,
+        action: "module:config_updated",
+        resourceType: "module",
+        changes: {
+          before: { moduleId, config: before },
+          after: { moduleId, config: after },
+        },
+      },
+      tx
+    );
+
+    return after;
+  });
+}
+
+/**
+ * Describe the module's config schema as form fields.
+ * Labels come from `.describe()`; falls back to the field key.
+ */
+export function describeModuleConfig(
+  moduleConfig: ModuleConfig
+): ModuleConfigField[] {
+  const schema = moduleConfig.configSchema;
+  if (!schema) return [];
+
+  const fields: ModuleConfigField[] = [];
+  for (const [key, outer] of Object.entries(schema.shape as z.ZodRawShape)) {
+    let inner: z.ZodTypeAny = outer;
+    let defaultValue: unknown;
+    let label = outer.description;
+
+    // Unwrap .default() / .optional() / .nullable()
+    for (;;) {
+      label ??= inner.description;
+      if (inner instanceof z.ZodDefault) {
+        defaultValue = inner._def.defaultValue();
+        inner = inner._def.innerType;
+      } else if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+        inner = inner.unwrap();
+      } else {
+        break;
+      }
+    }
+    label ??= inner.description ?? key;
+
+    if (inner instanceof z.ZodNumber) {
+      fields.push({
+        key,
+        label,
+        type: "number",
+        min: inner.minValue ?? undefined,
+        max: inner.maxValue ?? undefined,
+        defaultValue,
+      });
+    } else if (inner instanceof z.ZodBoolean) {
+      fields.push({ key, label, type: "boolean", defaultValue });
+    } else if (inner instanceof z.ZodEnum) {
+      fields.push({
+        key,
+        label,
+        type: "enum",
+        options: [...(inner.options as string[])],
+        defaultValue,
+      });
+    } else {
+      fields.push({ key, label, type: "string", defaultValue });
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+// ============================================
+// Costing Module — per-tenant settings
+// ============================================
+
+export const costingConfigSchema = z.object({
+  defaultVatPct: z
+    .number()
+    .min(0)
+    .max(100)
+    .default(12)
+    .describe("Default VAT % for new recipes"),
+});
+
+export type CostingConfig = z.infer<typeof costingConfigSchema>;
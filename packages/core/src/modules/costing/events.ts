@@ -0,0 +1,48 @@
+import type { AuditEventPayload } from "../../events/index";
+
+// ============================================
+// Costing Events
+// ============================================
+// Audit actions are published as-is; recipe cost changes are published by
+// recalculateRecipeCosts() whenever a recipe's total cost moves.
+// ============================================
+
+export interface RecipeCostChangedPayload {
+  recipeId: string;
+  name: string;
+  type: "base" | "final";
+  previousTotalCost: string | null;
+  totalCost: string;
+  costPerGram: string | null;
+  cogsPct: string | null;
+}
+
+declare module "../../events/index" {
+  interface DomainEventMap {
+    "costing:inventory_item:created": AuditEventPayload;
+    "costing:inventory_item:updated": AuditEventPayload;
+    "costing:inventory_item:deleted": AuditEventPayload;
+    "costing:price:updated": AuditEventPayload;
+    "costing:recipe:created": AuditEventPayload;
+    "costing:recipe:updated": AuditEventPayload;
+    "costing:recipe:deleted": AuditEventPayload;
+    "costing:recipe:duplicated": AuditEventPayload;
+    "costing:recipe:versioned": AuditEventPayload;
+    "costing:recipe:cost_changed": RecipeCostChangedPayload;
+    "costing:snapshot:created": AuditEventPayload;
+  }
+}
+
+export const costingEvents = [
+  "costing:inventory_item:created",
+  "costing:inventory_item:updated",
+  "costing:inventory_item:deleted",
+  "costing:price:updated",
+  "costing:recipe:created",
+  "costing:recipe:updated",
+  "costing:recipe:deleted",
+  "costing:recipe:duplicated",
+  "costing:recipe:versioned",
+  "costing:recipe:cost_changed",
+  "costing:snapshot:created",
+] as const;
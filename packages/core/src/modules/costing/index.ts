@@ -1,5 +1,19 @@
+import { fileURLToPath } from "node:url";
+import { sql } from "drizzle-orm";
 import { defineModule } from "../registry";
 import { costingRouter } from "./router";
+import { costingConfigSchema } from "./config";
+import { costingEvents } from "./events";
+import { costingJobs } from "./jobs";
+import { onCostingEnable, onCostingDisable, upgradeCosting } from "./lifecycle";
+import {
+  costingCategories,
+  costingInventoryItems,
+  costingPriceHistory,
+  costingRecipes,
+  costingRecipeIngredients,
+  costingSnapshots,
+} from "./schema";
 
 // ============================================
 // Costing Module — recipe costing & raw materials management
@@ -8,15 +22,15 @@ import { costingRouter } from "./router";
 export const costingModule = defineModule({
   id: "costing",
   name: "Recipe Costing",
-  version: "1.0.0",
+  version: "1.2.1",
   description:
     "Recipe costing, raw materials management, price tracking, and COGS analysis",
   dependencies: [],
 
   permissions: [
-    "costing:view",
-    "costing:manage",
-    "costing:admin",
+    { key: "costing:view", description: "View ingredients, recipes, costs and reports" },
+    { key: "costing:manage", description: "Edit ingredients, prices and recipes" },
+    { key: "costing:admin", description: "Run cascade recalculations and cost snapshots" },
   ],
 
   roleDefaults: {
@@ -48,16 +62,48 @@ export const costingModule = defineModule({
     },
   ],
 
+  // Tables are created on first enable instead of by the global drizzle/ folder
+  migrationsFolder: fileURLToPath(new URL("./migrations", import.meta.url)),
+  schemaVersion: 5,
+
+  publishes: costingEvents,
+  jobs: costingJobs,
+
+  // Ingredients have no tenant_id — scoped through their recipe
+  ownedTables: [
+    { table: costingCategories },
+    { table: costingInventoryItems },
+    { table: costingPriceHistory },
+    { table: costingRecipes },
+    {
+      table: costingRecipeIngredients,
+      where: (tenantId) =>
+        sql`${costingRecipeIngredients.recipeId} IN (SELECT ${costingRecipes.id} FROM ${costingRecipes} WHERE ${costingRecipes.tenantId} = ${tenantId})`,
+    },
+    { table: costingSnapshots },
+  ],
+
+  configSchema: costingConfigSchema,
+  onEnable: onCostingEnable,
+  onDisable: onCostingDisable,
+  upgrade: upgradeCosting,
+
   router: costingRouter,
 });
 
 export { costingRouter } from "./router";
+export { costingConfigSchema, type CostingConfig } from "./config";
+export { costingEvents, type RecipeCostChangedPayload } from "./events";
+export { costingJobs, type RecalculateCascadePayload } from "./jobs";
 export {
+  costingCategories,
   costingInventoryItems,
   costingPriceHistory,
   costingRecipes,
   costingRecipeIngredients,
   costingSnapshots,
+  type CostingCategory,
+  type NewCostingCategory,
   type CostingInventoryItem,
   type NewCostingInventoryItem,
   type CostingPriceHistory,
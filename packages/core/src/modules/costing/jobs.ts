@@ -0,0 +1,28 @@
+import { withTenantTransaction } from "../../db/index";
+import type { ModuleJobDefinition } from "../../jobs/index";
+import { recalculateItemCascade } from "./router";
+
+// ============================================
+// Costing Jobs
+// ============================================
+// Long-running recalculations, enqueued by the router instead of running
+// inside the request.
+// ============================================
+
+export interface RecalculateCascadePayload {
+  itemId: string;
+}
+
+export const costingJobs: Record<string, ModuleJobDefinition> = {
+  /** costing:recalculate_cascade — see calc.recalculateCascade */
+  recalculate_cascade: {
+    maxAttempts: 3,
+    timeoutMs: 10 * 60 * 1000,
+    handler: async (payload: RecalculateCascadePayload, ctx) =>
+      withTenantTransaction(
+        ctx.tenantId,
+        (tx) => recalculateItemCascade(tx, ctx.tenantId, payload.itemId, ctx.userId),
+        ctx.db
+      ),
+  },
+};
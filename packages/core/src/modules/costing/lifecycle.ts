@@ -0,0 +1,90 @@
+import { eq, and, notExists } from "drizzle-orm";
+import type { ModuleHookContext } from "../registry";
+import { costingCategories, costingInventoryItems } from "./schema";
+
+// ============================================
+// Costing Lifecycle Hooks — default categories
+// ============================================
+
+const DEFAULT_CATEGORIES = [
+  { slug: "critical", name: "Critical", sortOrder: 0 },
+  { slug: "secondary", name: "Secondary", sortOrder: 1 },
+  { slug: "packaging", name: "Packaging", sortOrder: 2 },
+] as const;
+
+/**
+ * Seed the standard categories. Idempotent — existing slugs are left as-is.
+ */
+export async function onCostingEnable({ tenantId, db }: ModuleHookContext): Promise<void> {
+  await db
+    .insert(costingCategories)
+    .values(
+      DEFAULT_CATEGORIES.map((c) => ({ ...c, tenantId, isSystem: true }))
+    )
+    .onConflictDoNothing({
+      target: [costingCategories.tenantId, costingCategories.slug],
+    });
+}
+
+/**
+ * Remove seeded categories that no inventory item uses.
+ * Categories in use stay so existing items keep their labels on re-enable.
+ */
+export async function onCostingDisable({ tenantId, db }: ModuleHookContext): Promise<void> {
+  await db
+    .delete(costingCategories)
+    .where(
+      and(
+        eq(costingCategories.tenantId, tenantId),
+        eq(costingCategories.isSystem, true),
+        notExists(
+          db
+            .select({ id: costingInventoryItems.id })
+            .from(costingInventoryItems)
+            .where(
+              and(
+                eq(costingInventoryItems.tenantId, tenantId),
+                eq(costingInventoryItems.category, costingCategories.slug)
+              )
+            )
+        )
+      )
+    );
+}
+
+/**
+ * 1.0.0 → 1.1.0: categories moved from hardcoded values to costing_categories.
+ * Seed the defaults and register any custom categories already used by items.
+ * 1.1.0 → 1.2.0: RLS policy migration only — no data changes.
+ * 1.2.0 → 1.2.1: sme_app grants migration only — no data changes.
+ */
+export async function upgradeCosting(
+  fromVersion: string,
+  _toVersion: string,
+  ctx: ModuleHookContext
+): Promise<void> {
+  if (fromVersion !== "1.0.0") return;
+
+  await onCostingEnable(ctx);
+
+  const used = await ctx.db
+    .selectDistinct({ category: costingInventoryItems.category })
+    .from(costingInventoryItems)
+    .where(eq(costingInventoryItems.tenantId, ctx.tenantId));
+
+  if (used.length === 0) return;
+
+  await ctx.db
+    .insert(costingCategories)
+    .values(
+      used.map((u, i) => ({
+        tenantId: ctx.tenantId,
+        slug: u.category,
+        name: u.category.charAt(0).toUpperCase() + u.category.slice(1),
+        sortOrder: DEFAULT_CATEGORIES.length + i,
+      }))
+    )
+    .onConflictDoNothing({
+      target: [costingCategories.tenantId, costingCategories.slug],
+    });
+}
@@ -0,0 +1,16 @@
+-- Per-tenant inventory categories (items reference them by slug)
+CREATE TABLE "costing_categories" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"slug" varchar(100) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"is_system" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "costing_categories" ADD CONSTRAINT "costing_categories_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_costing_categories_slug" ON "costing_categories" USING btree ("tenant_id", "slug");--> statement-breakpoint
+ALTER TABLE "costing_categories" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY tenant_isolation_costing_categories ON "costing_categories"
+  USING (tenant_id = current_setting('app.current_tenant_id', true)::UUID);
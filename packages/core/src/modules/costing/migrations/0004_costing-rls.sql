@@ -0,0 +1,31 @@
+-- RLS hardening: explicit WITH CHECK, and NULLIF so an unset tenant matches
+-- no rows instead of failing the uuid cast (see core migration 0011)
+DROP POLICY IF EXISTS tenant_isolation_costing_categories ON "costing_categories";--> statement-breakpoint
+CREATE POLICY tenant_isolation_costing_categories ON "costing_categories"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_costing_inventory_items ON "costing_inventory_items";--> statement-breakpoint
+CREATE POLICY tenant_isolation_costing_inventory_items ON "costing_inventory_items"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_costing_price_history ON "costing_price_history";--> statement-breakpoint
+CREATE POLICY tenant_isolation_costing_price_history ON "costing_price_history"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_costing_recipes ON "costing_recipes";--> statement-breakpoint
+CREATE POLICY tenant_isolation_costing_recipes ON "costing_recipes"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_costing_snapshots ON "costing_snapshots";--> statement-breakpoint
+CREATE POLICY tenant_isolation_costing_snapshots ON "costing_snapshots"
+  USING (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID)
+  WITH CHECK (tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID);
+--> statement-breakpoint
+DROP POLICY IF EXISTS tenant_isolation_costing_recipe_ingredients ON "costing_recipe_ingredients";--> statement-breakpoint
+CREATE POLICY tenant_isolation_costing_recipe_ingredients ON "costing_recipe_ingredients"
+  USING (recipe_id IN (SELECT id FROM costing_recipes WHERE tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID))
+  WITH CHECK (recipe_id IN (SELECT id FROM costing_recipes WHERE tenant_id = NULLIF(current_setting('app.current_tenant_id', true), '')::UUID));
@@ -0,0 +1,14 @@
+-- Explicit sme_app grants: tenant requests run as sme_app (see core migration
+-- 0011), and databases without default privileges for the migrating role
+-- left these tables unreadable to it
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_roles WHERE rolname = 'sme_app') THEN
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "costing_categories" TO sme_app;
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "costing_inventory_items" TO sme_app;
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "costing_price_history" TO sme_app;
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "costing_recipes" TO sme_app;
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "costing_recipe_ingredients" TO sme_app;
+    GRANT SELECT, INSERT, UPDATE, DELETE ON "costing_snapshots" TO sme_app;
+  END IF;
+END $$;
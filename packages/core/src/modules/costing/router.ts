@@ -4,14 +4,18 @@ import { z } from "zod";
 import Decimal from "decimal.js";
 import { router, tenantProcedure } from "../../trpc/procedures";
 import { requirePermission, requireModule } from "../../trpc/procedures";
-import { createAuditLog } from "../../audit/index";
+import { publishEvent } from "../../events/index";
+import { enqueueJob } from "../../jobs/index";
 import {
+  costingCategories,
   costingInventoryItems,
   costingPriceHistory,
   costingRecipes,
   costingRecipeIngredients,
   costingSnapshots,
 } from "./schema";
+import type { CostingConfig } from "./config";
+import type { RecalculateCascadePayload } from "./jobs";
 
 // ============================================
 // Helpers
@@ -27,7 +31,7 @@ const recipeTypes = ["base", "final"] as const;
 const ingredientTypes = ["raw", "base"] as const;
 
 // Base procedure — requires costing module enabled
-const costingProcedure = tenantProcedure.use(requireModule("costing"));
+const costingProcedure = tenantProcedure.use(requireModule<CostingConfig>("costing"));
 
 /**
  * Get the latest price_per_unit for an inventory item.
@@ -102,11 +106,13 @@ async function autoSnapshot(
 /**
  * Recalculate a recipe's costs based on its ingredients.
  * Uses Decimal.js for all financial arithmetic.
+ * Publishes costing:recipe:cost_changed when the total cost moves.
  */
 async function recalculateRecipeCosts(
   db: any,
   tenantId: string,
-  recipeId: string
+  recipeId: string,
+  userId?: string
 ): Promise<any> {
   // Fetch recipe
   const [recipe] = await db
@@ -205,9 +211,110 @@ async function recalculateRecipeCosts(
     )
     .returning();
 
+  if (updated && updated.totalCost !== recipe.totalCost) {
+    await publishEvent(
+      {
+        tenantId,
+        type: "costing:recipe:cost_changed",
+        payload: {
+          recipeId,
+          name: updated.name,
+          type: updated.type,
+          previousTotalCost: recipe.totalCost,
+          totalCost: updated.totalCost,
+          costPerGram: updated.costPerGram,
+          cogsPct: updated.cogsPct,
+        },
+        userId,
+      },
+      db
+    );
+  }
+
   return updated;
 }
 
+// ============================================
+// Categories Router
+// ============================================
+/**
+ * Recalculate the recipes using an inventory item directly, then the final
+ * recipes using any of those that are base recipes.
+ * Run by the "costing:recalculate_cascade" job.
+ */
+export async function recalculateItemCascade(
+  db: any,
+  tenantId: string,
+  itemId: string,
+  userId?: string
+): Promise<{ updatedCount: number; recipeIds: string[] }> {
+  // Fix 1: Tenant-scoped join for direct ingredients
+  const directIngredients = await db
+    .select({ recipeId: costingRecipeIngredients.recipeId })
+    .from(costingRecipeIngredients)
+    .innerJoin(costingRecipes, eq(costingRecipeIngredients.recipeId, costingRecipes.id))
+    .where(and(
+      eq(costingRecipeIngredients.inventoryItemId, itemId),
+      eq(costingRecipes.tenantId, tenantId),
+      isNull(costingRecipes.deletedAt)
+    ));
+
+  const directRecipeIds: string[] = [
+    ...new Set<string>(directIngredients.map((i: any) => i.recipeId)),
+  ];
+
+  // Recalculate direct recipes
+  const updatedRecipes: any[] = [];
+  for (const recipeId of directRecipeIds) {
+    const updated = await recalculateRecipeCosts(db, tenantId, recipeId, userId);
+    updatedRecipes.push(updated);
+  }
+
+  // Find final products using updated base recipes as ingredients
+  const baseRecipeIds = updatedRecipes
+    .filter((r) => r.type === "base")
+    .map((r) => r.id);
+
+  if (baseRecipeIds.length > 0) {
+    // Fix 1: Tenant-scoped join for cascade ingredients
+    const cascadeIngredients = await db
+      .select({ recipeId: costingRecipeIngredients.recipeId })
+      .from(costingRecipeIngredients)
+      .innerJoin(costingRecipes, eq(costingRecipeIngredients.recipeId, costingRecipes.id))
+      .where(and(
+        inArray(costingRecipeIngredients.baseRecipeId, baseRecipeIds),
+        eq(costingRecipes.tenantId, tenantId),
+        isNull(costingRecipes.deletedAt)
+      ));
+
+    const cascadeRecipeIds: string[] = [
+      ...new Set<string>(cascadeIngredients.map((i: any) => i.recipeId)),
+    ];
+
+    for (const recipeId of cascadeRecipeIds) {
+      const updated = await recalculateRecipeCosts(db, tenantId, recipeId, userId);
+      updatedRecipes.push(updated);
+    }
+  }
+
+  return {
+    updatedCount: updatedRecipes.length,
+    recipeIds: updatedRecipes.map((r) => r.id),
+  };
+}
+
+const categoriesRouter = router({
+  list: costingProcedure
+    .use(requirePermission("costing:view"))
+    .query(async ({ ctx }) => {
+      return ctx.db
+        .select()
+        .from(costingCategories)
+        .where(eq(costingCategories.tenantId, ctx.tenantId))
+        .orderBy(asc(costingCategories.sortOrder), asc(costingCategories.name));
+    }),
+});
+
 // ============================================
 // Inventory Items Router
 // ============================================
@@ -261,14 +368,39 @@ const inventoryRouter = router({
         .limit(limit)
         .offset(offset);
 
-      // Fetch latest price for each item
-      const itemsWithPrice = await Promise.all(
-        items.map(async (item) => {
-          const price = await getLatestPricePerUnit(ctx.db, ctx.tenantId, item.id);
-          return { ...item, currentPricePerUnit: price };
-        })
+      // Latest price for every item on the page in one query
+      const latestPrices =
+        items.length > 0
+          ? await ctx.db
+              .selectDistinctOn([costingPriceHistory.itemId], {
+                itemId: costingPriceHistory.itemId,
+                pricePerUnit: costingPriceHistory.pricePerUnit,
+              })
+              .from(costingPriceHistory)
+              .where(
+                and(
+                  eq(costingPriceHistory.tenantId, ctx.tenantId),
+                  inArray(
+                    costingPriceHistory.itemId,
+                    items.map((item) => item.id)
+                  )
+                )
+              )
+              .orderBy(
+                costingPriceHistory.itemId,
+                desc(costingPriceHistory.effectiveDate),
+                desc(costingPriceHistory.createdAt)
+              )
+          : [];
+      const priceByItem = new Map(
+        latestPrices.map((p) => [p.itemId, p.pricePerUnit])
       );
 
+      const itemsWithPrice = items.map((item) => ({
+        ...item,
+        currentPricePerUnit: priceByItem.get(item.id) ?? null,
+      }));
+
       return { items: itemsWithPrice, total: totalResult?.count ?? 0 };
     }),
 
@@ -359,17 +491,10 @@ const inventoryRouter = router({
         });
       }
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:inventory_item:created",
-          resourceType: "costing_inventory_item",
-          resourceId: item.id,
-          changes: { after: { name: input.name } },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "costing:inventory_item:created",
+        { type: "costing_inventory_item", id: item.id },
+        { after: { name: input.name } }
       );
 
       return item;
@@ -415,17 +540,10 @@ const inventoryRouter = router({
       if (!updated)
         throw new TRPCError({ code: "NOT_FOUND", message: "Inventory item not found" });
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:inventory_item:updated",
-          resourceType: "costing_inventory_item",
-          resourceId: id,
-          changes: { after: updateData },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "costing:inventory_item:updated",
+        { type: "costing_inventory_item", id },
+        { after: updateData }
       );
 
       return updated;
@@ -450,16 +568,9 @@ const inventoryRouter = router({
       if (!deleted)
         throw new TRPCError({ code: "NOT_FOUND", message: "Inventory item not found" });
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:inventory_item:deleted",
-          resourceType: "costing_inventory_item",
-          resourceId: input.id,
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "costing:inventory_item:deleted",
+        { type: "costing_inventory_item", id: input.id }
       );
 
       return { success: true };
@@ -513,23 +624,16 @@ const inventoryRouter = router({
           message: "Failed to create price entry",
         });
 
-      await createAuditLog(
+      await ctx.audit(
+        "costing:price:updated",
+        { type: "costing_price_history", id: priceEntry.id },
         {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:price:updated",
-          resourceType: "costing_price_history",
-          resourceId: priceEntry.id,
-          changes: {
-            after: {
-              itemId: input.itemId,
-              purchasePrice: input.purchasePrice,
-              pricePerUnit: input.pricePerUnit,
-            },
+          after: {
+            itemId: input.itemId,
+            purchasePrice: input.purchasePrice,
+            pricePerUnit: input.pricePerUnit,
           },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+        }
       );
 
       return priceEntry;
@@ -725,7 +829,7 @@ const recipesRouter = router({
           type: input.type,
           yieldLossPct: input.yieldLossPct ?? "0",
           sellingPrice: input.sellingPrice ?? null,
-          vatPct: input.vatPct ?? "12",
+          vatPct: input.vatPct ?? String(ctx.moduleConfig.defaultVatPct),
           discountPct: input.discountPct ?? "0",
           notes: input.notes ?? null,
         })
@@ -734,17 +838,10 @@ const recipesRouter = router({
       if (!recipe)
         throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create recipe" });
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:recipe:created",
-          resourceType: "costing_recipe",
-          resourceId: recipe.id,
-          changes: { after: { name: input.name, type: input.type } },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "costing:recipe:created",
+        { type: "costing_recipe", id: recipe.id },
+        { after: { name: input.name, type: input.type } }
       );
 
       return recipe;
@@ -784,17 +881,10 @@ const recipesRouter = router({
 
       if (!updated) throw new TRPCError({ code: "NOT_FOUND", message: "Recipe not found" });
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:recipe:updated",
-          resourceType: "costing_recipe",
-          resourceId: id,
-          changes: { after: updateData },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "costing:recipe:updated",
+        { type: "costing_recipe", id },
+        { after: updateData }
       );
 
       return updated;
@@ -818,16 +908,9 @@ const recipesRouter = router({
 
       if (!deleted) throw new TRPCError({ code: "NOT_FOUND", message: "Recipe not found" });
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:recipe:deleted",
-          resourceType: "costing_recipe",
-          resourceId: input.id,
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "costing:recipe:deleted",
+        { type: "costing_recipe", id: input.id }
       );
 
       return { success: true };
@@ -900,19 +983,12 @@ const recipesRouter = router({
       }
 
       // Recalculate
-      const calculated = await recalculateRecipeCosts(ctx.db, ctx.tenantId, newRecipe.id);
+      const calculated = await recalculateRecipeCosts(ctx.db, ctx.tenantId, newRecipe.id, ctx.session!.user.id);
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:recipe:duplicated",
-          resourceType: "costing_recipe",
-          resourceId: newRecipe.id,
-          changes: { after: { name: input.newName, sourceId: input.id } },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "costing:recipe:duplicated",
+        { type: "costing_recipe", id: newRecipe.id },
+        { after: { name: input.newName, sourceId: input.id } }
       );
 
       return calculated;
@@ -962,7 +1038,15 @@ const recipesRouter = router({
       }
 
       // Recalculate
-      return recalculateRecipeCosts(ctx.db, ctx.tenantId, input.id);
+      const result = await recalculateRecipeCosts(ctx.db, ctx.tenantId, input.id, ctx.session!.user.id);
+
+      await ctx.audit(
+        "costing:recipe:scaled",
+        { type: "costing_recipe", id: input.id },
+        { after: { factor: input.factor } }
+      );
+
+      return result;
     }),
 
   createVersion: costingProcedure
@@ -1039,21 +1123,14 @@ const recipesRouter = router({
       }
 
       // Recalculate
-      const calculated = await recalculateRecipeCosts(ctx.db, ctx.tenantId, newVersion.id);
+      const calculated = await recalculateRecipeCosts(ctx.db, ctx.tenantId, newVersion.id, ctx.session!.user.id);
 
-      await createAuditLog(
+      await ctx.audit(
+        "costing:recipe:versioned",
+        { type: "costing_recipe", id: newVersion.id },
         {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:recipe:versioned",
-          resourceType: "costing_recipe",
-          resourceId: newVersion.id,
-          changes: {
-            after: { version: newVersion.version, sourceId: input.id },
-          },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+          after: { version: newVersion.version, sourceId: input.id },
+        }
       );
 
       return calculated;
@@ -1169,7 +1246,21 @@ const ingredientsRouter = router({
         });
 
       // Recalculate recipe
-      await recalculateRecipeCosts(ctx.db, ctx.tenantId, input.recipeId);
+      await recalculateRecipeCosts(ctx.db, ctx.tenantId, input.recipeId, ctx.session!.user.id);
+
+      await ctx.audit(
+        "costing:ingredient:added",
+        { type: "costing_recipe_ingredient", id: ingredient.id },
+        {
+          after: {
+            recipeId: input.recipeId,
+            ingredientType: input.ingredientType,
+            inventoryItemId: ingredient.inventoryItemId,
+            baseRecipeId: ingredient.baseRecipeId,
+            amount: input.amount,
+          },
+        }
+      );
 
       return ingredient;
     }),
@@ -1237,7 +1328,13 @@ const ingredientsRouter = router({
       if (!updated) throw new TRPCError({ code: "NOT_FOUND", message: "Ingredient not found" });
 
       // Recalculate recipe
-      await recalculateRecipeCosts(ctx.db, ctx.tenantId, input.recipeId);
+      await recalculateRecipeCosts(ctx.db, ctx.tenantId, input.recipeId, ctx.session!.user.id);
+
+      await ctx.audit(
+        "costing:ingredient:updated",
+        { type: "costing_recipe_ingredient", id: input.id },
+        { after: { recipeId: input.recipeId, ...updateData } }
+      );
 
       return updated;
     }),
@@ -1279,7 +1376,13 @@ const ingredientsRouter = router({
       if (!deleted) throw new TRPCError({ code: "NOT_FOUND", message: "Ingredient not found" });
 
       // Recalculate recipe
-      await recalculateRecipeCosts(ctx.db, ctx.tenantId, input.recipeId);
+      await recalculateRecipeCosts(ctx.db, ctx.tenantId, input.recipeId, ctx.session!.user.id);
+
+      await ctx.audit(
+        "costing:ingredient:removed",
+        { type: "costing_recipe_ingredient", id: input.id },
+        { before: { recipeId: input.recipeId, amount: deleted.amount } }
+      );
 
       return { success: true };
     }),
@@ -1322,6 +1425,12 @@ const ingredientsRouter = router({
           );
       }
 
+      await ctx.audit(
+        "costing:ingredient:reordered",
+        { type: "costing_recipe", id: input.recipeId },
+        { after: { items: input.items } }
+      );
+
       return { success: true };
     }),
 });
@@ -1334,9 +1443,15 @@ const costingCalcRouter = router({
     .use(requirePermission("costing:manage"))
     .input(z.object({ recipeId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      return recalculateRecipeCosts(ctx.db, ctx.tenantId, input.recipeId);
+      const result = await recalculateRecipeCosts(ctx.db, ctx.tenantId, input.recipeId, ctx.session!.user.id);
+      await ctx.audit("costing:recipe:recalculated", { type: "costing_recipe", id: input.recipeId });
+      return result;
     }),
 
+  /**
+   * Recalculate every recipe using an inventory item, then the final recipes
+   * using those base recipes. Runs as a background job — poll jobs.get.
+   */
   recalculateCascade: costingProcedure
     .use(requirePermission("costing:admin"))
     .input(z.object({ itemId: z.string().uuid() }))
@@ -1357,56 +1472,20 @@ const costingCalcRouter = router({
       if (!item)
         throw new TRPCError({ code: "NOT_FOUND", message: "Inventory item not found" });
 
-      // Fix 1: Tenant-scoped join for direct ingredients
-      const directIngredients = await ctx.db
-        .select({ recipeId: costingRecipeIngredients.recipeId })
-        .from(costingRecipeIngredients)
-        .innerJoin(costingRecipes, eq(costingRecipeIngredients.recipeId, costingRecipes.id))
-        .where(and(
-          eq(costingRecipeIngredients.inventoryItemId, input.itemId),
-          eq(costingRecipes.tenantId, ctx.tenantId),
-          isNull(costingRecipes.deletedAt)
-        ));
-
-      const directRecipeIds = [
-        ...new Set(directIngredients.map((i) => i.recipeId)),
-      ];
-
-      // Recalculate direct recipes
-      const updatedRecipes: any[] = [];
-      for (const recipeId of directRecipeIds) {
-        const updated = await recalculateRecipeCosts(ctx.db, ctx.tenantId, recipeId);
-        updatedRecipes.push(updated);
-      }
-
-      // Find final products using updated base recipes as ingredients
-      const baseRecipeIds = updatedRecipes
-        .filter((r) => r.type === "base")
-        .map((r) => r.id);
-
-      if (baseRecipeIds.length > 0) {
-        // Fix 1: Tenant-scoped join for cascade ingredients
-        const cascadeIngredients = await ctx.db
-          .select({ recipeId: costingRecipeIngredients.recipeId })
-          .from(costingRecipeIngredients)
-          .innerJoin(costingRecipes, eq(costingRecipeIngredients.recipeId, costingRecipes.id))
-          .where(and(
-            inArray(costingRecipeIngredients.baseRecipeId, baseRecipeIds),
-            eq(costingRecipes.tenantId, ctx.tenantId),
-            isNull(costingRecipes.deletedAt)
-          ));
-
-        const cascadeRecipeIds = [
-          ...new Set(cascadeIngredients.map((i) => i.recipeId)),
-        ];
+      const jobId = await enqueueJob(
+        "costing:recalculate_cascade",
+        { itemId: input.itemId } satisfies RecalculateCascadePayload,
+        { tenantId: ctx.tenantId, userId: ctx.session!.user.id },
+        ctx.db
+      );
 
-        for (const recipeId of cascadeRecipeIds) {
-          const updated = await recalculateRecipeCosts(ctx.db, ctx.tenantId, recipeId);
-          updatedRecipes.push(updated);
-        }
-      }
+      await ctx.audit(
+        "costing:recalculation_queued",
+        { type: "costing_inventory_item", id: input.itemId },
+        { after: { jobId } }
+      );
 
-      return { updatedCount: updatedRecipes.length, recipes: updatedRecipes };
+      return { jobId };
     }),
 
   priceImpactAnalysis: costingProcedure
@@ -1565,17 +1644,10 @@ const costingCalcRouter = router({
           message: "Failed to create snapshot",
         });
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session!.user.id,
-          action: "costing:snapshot:created",
-          resourceType: "costing_snapshot",
-          resourceId: snapshot.id,
-          changes: { after: { recipeId: input.recipeId } },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "costing:snapshot:created",
+        { type: "costing_snapshot", id: snapshot.id },
+        { after: { recipeId: input.recipeId } }
       );
 
       return snapshot;
@@ -1686,6 +1758,7 @@ const dashboardRouter = router({
 // Combined Costing Router
 // ============================================
 export const costingRouter = router({
+  categories: categoriesRouter,
   inventory: inventoryRouter,
   priceHistory: priceHistoryRouter,
   recipes: recipesRouter,
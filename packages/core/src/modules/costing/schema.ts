@@ -9,6 +9,7 @@ import {
   numeric,
   jsonb,
   index,
+  uniqueIndex,
   date,
 } from "drizzle-orm/pg-core";
 import { tenants } from "../../db/schema/tenants";
@@ -23,6 +24,27 @@ const unitTypes = ["weight", "piece"] as const;
 const recipeTypes = ["base", "final"] as const;
 const ingredientTypes = ["raw", "base"] as const;
 
+// --- Categories (inventory items reference them by slug) ---
+export const costingCategories = pgTable(
+  "costing_categories",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    slug: varchar("slug", { length: 100 }).notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    sortOrder: integer("sort_order").default(0).notNull(),
+    isSystem: boolean("is_system").default(false).notNull(), // seeded by the module
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_costing_categories_slug").on(table.tenantId, table.slug),
+  ]
+);
+
 // --- Inventory Items (Raw Materials + Packaging) ---
 export const costingInventoryItems = pgTable(
   "costing_inventory_items",
@@ -188,6 +210,8 @@ export const costingSnapshots = pgTable(
 // ============================================
 // Types
 // ============================================
+export type CostingCategory = typeof costingCategories.$inferSelect;
+export type NewCostingCategory = typeof costingCategories.$inferInsert;
 export type CostingInventoryItem = typeof costingInventoryItems.$inferSelect;
 export type NewCostingInventoryItem = typeof costingInventoryItems.$inferInsert;
 export type CostingPriceHistory = typeof costingPriceHistory.$inferSelect;
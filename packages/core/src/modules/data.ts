@@ -0,0 +1,241 @@
+import { mkdir, open } from "node:fs/promises";
+import path from "node:path";
+import { eq, and, gt, isNull, count, getTableColumns, getTableName, type SQL } from "drizzle-orm";
+import { generateToken, hashToken } from "@sme/shared";
+import { adminDb, type Database, type Transaction } from "../db/index";
+import { modulePurgeRequests } from "../db/schema/index";
+import { getModule, type ModuleConfig, type ModuleOwnedTable } from "./registry";
+import { createAuditLog } from "../audit/index";
+
+// ============================================
+// Module Data — archive & purge a tenant's module data
+// ============================================
+// Used by disableModule() for modes "archive" and "purge". Only tables listed
+// in ModuleConfig.ownedTables are touched.
+//
+// Archives are NDJSON files under MODULE_ARCHIVE_DIR (default
+// ./.data/module-archives): one header line, one line per row, one footer
+// line with row counts.
+// ============================================
+
+const PURGE_TOKEN_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const ARCHIVE_FORMAT = "sme-module-archive";
+const ARCHIVE_FORMAT_VERSION = 1;
+
+export interface ModuleArchive {
+  path: string;
+  rowCounts: Record<string, number>;
+}
+
+export interface ModulePurgeRequestResult {
+  /** Raw token — shown once, pass back to disableModule({ mode: "purge" }) */
+  token: string;
+  expiresAt: Date;
+  rowCounts: Record<string, number>;
+}
+
+function getArchiveDir(): string {
+  return path.resolve(
+    process.env.MODULE_ARCHIVE_DIR ?? path.join(".data", "module-archives")
+  );
+}
+
+function getOwnedTables(moduleConfig: ModuleConfig): ModuleOwnedTable[] {
+  if (!moduleConfig.ownedTables || moduleConfig.ownedTables.length === 0) {
+    throw new Error(
+      `Module "${moduleConfig.id}" does not declare the tables it owns`
+    );
+  }
+  return moduleConfig.ownedTables;
+}
+
+/** WHERE clause selecting the tenant's rows in an owned table */
+function tenantScope(owned: ModuleOwnedTable, tenantId: string): SQL {
+  if (owned.where) return owned.where(tenantId);
+
+  const columns = getTableColumns(owned.table);
+  const tenantColumn = columns.tenantId;
+  if (!tenantColumn) {
+    throw new Error(
+      `Table "${getTableName(owned.table)}" has no tenant_id column — declare a where() scope for it`
+    );
+  }
+  return eq(tenantColumn, tenantId);
+}
+
+/**
+ * Count the tenant's rows in each table the module owns.
+ *
+ * @returns Row counts keyed by table name
+ */
+export async function countModuleRows(
+  moduleConfig: ModuleConfig,
+  tenantId: string,
+  database: Database | Transaction = adminDb
+): Promise<Record<string, number>> {
+  const rowCounts: Record<string, number> = {};
+  for (const owned of getOwnedTables(moduleConfig)) {
+    const [result] = await database
+      .select({ count: count() })
+      .from(owned.table)
+      .where(tenantScope(owned, tenantId));
+    rowCounts[getTableName(owned.table)] = result?.count ?? 0;
+  }
+  return rowCounts;
+}
+
+/**
+ * Write every owned-table row for the tenant to an NDJSON archive.
+ * Rows are read table by table — fine at SME data volumes.
+ */
+export async function archiveModuleData(
+  moduleConfig: ModuleConfig,
+  tenantId: string,
+  database: Database | Transaction = adminDb
+): Promise<ModuleArchive> {
+  const ownedTables = getOwnedTables(moduleConfig);
+  const createdAt = new Date();
+
+  const dir = path.join(getArchiveDir(), tenantId);
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(
+    dir,
+    `${moduleConfig.id}-${createdAt.toISOString().replace(/[:.]/g, "-")}.ndjson`
+  );
+
+  const rowCounts: Record<string, number> = {};
+  const file = await open(filePath, "wx");
+  try {
+    await file.write(
+      JSON.stringify({
+        type: "header",
+        format: ARCHIVE_FORMAT,
+        formatVersion: ARCHIVE_FORMAT_VERSION,
+        moduleId: moduleConfig.id,
+        moduleVersion: moduleConfig.version,
+        tenantId,
+        createdAt: createdAt.toISOString(),
+        tables: ownedTables.map((o) => getTableName(o.table)),
+      }) + "\n"
+    );
+
+    for (const owned of ownedTables) {
+      const tableName = getTableName(owned.table);
+      const rows = await database
+        .select()
+        .from(owned.table)
+        .where(tenantScope(owned, tenantId));
+
+      if (rows.length > 0) {
+        await file.write(
+          rows
+            .map((row) => JSON.stringify({ type: "row", table: tableName, data: row }))
+            .join("\n") + "\n"
+        );
+      }
+      rowCounts[tableName] = rows.length;
+    }
+
+    await file.write(JSON.stringify({ type: "footer", rowCounts }) + "\n");
+  } finally {
+    await file.close();
+  }
+
+  return { path: filePath, rowCounts };
+}
+
+/**
+ * Delete every owned-table row for the tenant, children first.
+ * Call inside the disable transaction after consumePurgeToken().
+ *
+ * @returns Deleted row counts keyed by table name
+ */
+export async function purgeModuleData(
+  moduleConfig: ModuleConfig,
+  tenantId: string,
+  tx: Transaction
+): Promise<Record<string, number>> {
+  const rowCounts = await countModuleRows(moduleConfig, tenantId, tx);
+
+  for (const owned of [...getOwnedTables(moduleConfig)].reverse()) {
+    await tx.delete(owned.table).where(tenantScope(owned, tenantId));
+  }
+
+  return rowCounts;
+}
+
+/**
+ * Start a purge: record the current row counts and issue a short-lived,
+ * single-use confirmation token (stored hashed).
+ *
+ * @param database - Database connection. Defaults to adminDb for admin operations.
+ */
+export async function requestModulePurge(
+  tenantId: string,
+  moduleId: string,
+  userId?: string,
+  database: Database | Transaction = adminDb
+): Promise<ModulePurgeRequestResult> {
+  const moduleConfig = getModule(moduleId);
+  if (!moduleConfig) {
+    throw new Error(`Module "${moduleId}" is not registered`);
+  }
+
+  const rowCounts = await countModuleRows(moduleConfig, tenantId, database);
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + PURGE_TOKEN_TTL_MS);
+
+  await database.insert(modulePurgeRequests).values({
+    tenantId,
+    moduleId,
+    tokenHash: await hashToken(token),
+    requestedBy: userId ?? null,
+    rowCounts,
+    expiresAt,
+  });
+
+  await createAuditLog(
+    {
+      tenantId,
+      userId,
+      action: "module:purge_requested",
+      resourceType: "module",
+      changes: { after: { moduleId, rowCounts, expiresAt: expiresAt.toISOString() } },
+    },
+    database
+  );
+
+  return { token, expiresAt, rowCounts };
+}
+
+/**
+ * Validate and consume a purge confirmation token.
+ * Throws if the token is unknown, expired, already used, or was issued for
+ * a different tenant/module.
+ */
+export async function consumePurgeToken(
+  tenantId: string,
+  moduleId: string,
+  token: string,
+  tx: Transaction
+): Promise<void> {
+  const [consumed] = await tx
+    .update(modulePurgeRequests)
+    .set({ consumedAt: new Date() })
+    .where(
+      and(
+        eq(modulePurgeRequests.tokenHash, await hashToken(token)),
+        eq(modulePurgeRequests.tenantId, tenantId),
+        eq(modulePurgeRequests.moduleId, moduleId),
+        isNull(modulePurgeRequests.consumedAt),
+        gt(modulePurgeRequests.expiresAt, new Date())
+      )
+    )
+    .returning({ id: modulePurgeRequests.id });
+
+  if (!consumed) {
+    throw new Error(
+      "Invalid or expired purge confirmation token — request a new one"
+    );
+  }
+}
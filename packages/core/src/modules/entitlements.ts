@@ -0,0 +1,130 @@
+import { eq, and, count } from "drizzle-orm";
+import { adminDb, type Database, type Transaction } from "../db/index";
+import {
+  plans,
+  tenants,
+  tenantModules,
+  tenantMemberships,
+  type Plan,
+} from "../db/schema/index";
+import { enableModule, disableModule } from "./lifecycle";
+
+// ============================================
+// Plan Entitlements — self-service module management
+// ============================================
+// A tenant's plan lists the modules its owners may enable/disable
+// themselves, plus limits. Modules outside the plan (or tenants without
+// a plan) stay super-admin managed via admin.enableModule/disableModule.
+// ============================================
+
+/**
+ * Get the tenant's current plan, or null if none is assigned.
+ */
+export async function getTenantPlan(
+  tenantId: string,
+  database: Database | Transaction = adminDb
+): Promise<Plan | null> {
+  const [row] = await database
+    .select({ plan: plans })
+    .from(tenants)
+    .innerJoin(plans, eq(plans.id, tenants.planId))
+    .where(eq(tenants.id, tenantId))
+    .limit(1);
+
+  return row?.plan ?? null;
+}
+
+/**
+ * Whether the plan entitles tenants to self-manage the module.
+ */
+export function isModuleEntitled(plan: Plan | null, moduleId: string): boolean {
+  return !!plan && plan.modules.includes(moduleId);
+}
+
+async function requireEntitlement(
+  tenantId: string,
+  moduleId: string,
+  database: Database | Transaction
+): Promise<Plan> {
+  const plan = await getTenantPlan(tenantId, database);
+  if (!plan || !isModuleEntitled(plan, moduleId)) {
+    throw new Error(
+      `Module "${moduleId}" is not included in your plan — contact the platform administrator`
+    );
+  }
+  return plan;
+}
+
+/**
+ * Enable an entitled module on behalf of a tenant owner.
+ * Enforces the plan's maxModules limit, then delegates to enableModule().
+ *
+ * @param database - Database connection. Pass ctx.db in tenant-scoped contexts.
+ */
+export async function enableEntitledModule(
+  tenantId: string,
+  moduleId: string,
+  userId?: string,
+  database: Database | Transaction = adminDb
+): Promise<void> {
+  const plan = await requireEntitlement(tenantId, moduleId, database);
+
+  const { maxModules } = plan.limits;
+  if (maxModules !== undefined) {
+    const [enabled] = await database
+      .select({ count: count() })
+      .from(tenantModules)
+      .where(eq(tenantModules.tenantId, tenantId));
+
+    if ((enabled?.count ?? 0) >= maxModules) {
+      throw new Error(
+        `Your plan allows at most ${maxModules} enabled modules`
+      );
+    }
+  }
+
+  await enableModule(tenantId, moduleId, undefined, userId, database);
+}
+
+/**
+ * Disable an entitled module on behalf of a tenant owner.
+ * Data is always kept — archive/purge remain super-admin operations.
+ *
+ * @param database - Database connection. Pass ctx.db in tenant-scoped contexts.
+ */
+export async function disableEntitledModule(
+  tenantId: string,
+  moduleId: string,
+  userId?: string,
+  database: Database | Transaction = adminDb
+): Promise<void> {
+  await requireEntitlement(tenantId, moduleId, database);
+  await disableModule(tenantId, moduleId, userId, database, { mode: "keep" });
+}
+
+/**
+ * Throw if adding a member would exceed the plan's maxMembers limit.
+ * Tenants without a plan are unlimited.
+ */
+export async function assertMemberLimit(
+  tenantId: string,
+  database: Database | Transaction = adminDb
+): Promise<void> {
+  const plan = await getTenantPlan(tenantId, database);
+  const maxMembers = plan?.limits.maxMembers;
+  if (maxMembers === undefined) return;
+
+  const [members] = await database
+    .select({ count: count() })
+    .from(tenantMemberships)
+    .where(
+      and(
+        eq(tenantMemberships.tenantId, tenantId),
+        eq(tenantMemberships.isActive, true)
+      )
+    );
+
+  if ((members?.count ?? 0) >= maxMembers) {
+    throw new Error(`Your plan allows at most ${maxMembers} active members`);
+  }
+}
@@ -1,6 +1,61 @@
 export { defineModule, getModuleRegistry, getModule } from "./registry";
-export { enableModule, disableModule, isModuleEnabled, getEnabledModules } from "./lifecycle";
-export type { ModuleConfig } from "./registry";
+export {
+  enableModule,
+  disableModule,
+  isModuleEnabled,
+  getEnabledModules,
+  mergeRoleDefaults,
+  enableDefaultModules,
+  installModule,
+  installDefaultModules,
+} from "./lifecycle";
+export type {
+  ModuleDisableMode,
+  DisableModuleOptions,
+  DisableModuleResult,
+} from "./lifecycle";
+export {
+  getTenantPlan,
+  isModuleEntitled,
+  enableEntitledModule,
+  disableEntitledModule,
+  assertMemberLimit,
+} from "./entitlements";
+export {
+  countModuleRows,
+  archiveModuleData,
+  requestModulePurge,
+} from "./data";
+export type { ModuleArchive, ModulePurgeRequestResult } from "./data";
+export {
+  applyModuleMigrations,
+  listModuleMigrations,
+  getAppliedSchemaVersion,
+} from "./migrations";
+export type { ModuleMigration } from "./migrations";
+export {
+  parseModuleConfig,
+  resolveModuleConfig,
+  getModuleConfig,
+  updateModuleConfig,
+  describeModuleConfig,
+} from "./config";
+export type { ModuleConfigField } from "./config";
+export {
+  compareVersions,
+  detectModuleVersionDrift,
+  runModuleUpgrades,
+} from "./upgrades";
+export type {
+  ModuleUpgradePlanItem,
+  ModuleUpgradeResult,
+  ModuleUpgradeStatus,
+} from "./upgrades";
+export type {
+  ModuleConfig,
+  ModuleHookContext,
+  ModuleOwnedTable,
+} from "./registry";
 
 // NOTE: Module registrations (catalogModule, notesModule) are NOT re-exported here
 // to avoid circular dependencies. They are imported directly where needed
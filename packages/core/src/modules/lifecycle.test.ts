@@ -0,0 +1,186 @@
+import { randomUUID } from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { adminDb } from "../db/index";
+import {
+  users,
+  plans,
+  tenants,
+  roles,
+  tenantMemberships,
+  tenantModules,
+  systemModules,
+} from "../db/schema/index";
+import type { SessionValidationResult } from "../auth/session";
+import { appRouter } from "../trpc/routers/index";
+import { createCallerFactory } from "../trpc/procedures";
+import { createContext } from "../trpc/context";
+import { defineModule } from "./registry";
+import { costingModule } from "./costing/index";
+
+// ============================================
+// Module lifecycle — runs against a migrated database (DATABASE_URL)
+// ============================================
+// Owners self-enable through modules.selfEnable, i.e. enableModule() with a
+// tenant-bound ctx.db transaction. Module migrations run on the platform
+// connection, so they must not depend on anything that transaction wrote.
+// ============================================
+
+const suffix = randomUUID().slice(0, 8);
+const scratchTable = `lifecycle_test_${suffix}`;
+const migrationsFolder = mkdtempSync(path.join(tmpdir(), "module-migrations-"));
+
+const createCaller = createCallerFactory(appRouter);
+
+interface OwnerFixture {
+  userId: string;
+  tenantId: string;
+  planId: string;
+  session: SessionValidationResult;
+}
+
+async function createOwnerFixture(moduleIds: string[]): Promise<OwnerFixture> {
+  const [user] = await adminDb
+    .insert(users)
+    .values({
+      email: `lifecycle-${randomUUID()}@example.test`,
+      fullName: "Lifecycle Owner",
+      passwordHash: "-",
+    })
+    .returning();
+  const [plan] = await adminDb
+    .insert(plans)
+    .values({ slug: `lifecycle-${randomUUID().slice(0, 8)}`, name: "Test", modules: moduleIds })
+    .returning({ id: plans.id });
+  const [tenant] = await adminDb
+    .insert(tenants)
+    .values({ name: "Lifecycle", slug: `lifecycle-${randomUUID().slice(0, 8)}`, planId: plan!.id })
+    .returning({ id: tenants.id });
+  const [role] = await adminDb
+    .insert(roles)
+    .values({ tenantId: tenant!.id, name: "Owner", slug: "owner", permissions: ["*"], isSystem: true })
+    .returning();
+  const [membership] = await adminDb
+    .insert(tenantMemberships)
+    .values({ tenantId: tenant!.id, userId: user!.id, roleId: role!.id })
+    .returning({ id: tenantMemberships.id });
+
+  return {
+    userId: user!.id,
+    tenantId: tenant!.id,
+    planId: plan!.id,
+    session: {
+      session: {
+        id: randomUUID(),
+        userId: user!.id,
+        tenantId: tenant!.id,
+        locationId: null,
+        authMethod: "password",
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        readOnly: false,
+        impersonator: null,
+        mfaVerified: false,
+        apiKey: null,
+      },
+      user: {
+        id: user!.id,
+        email: user!.email,
+        fullName: user!.fullName,
+        avatarUrl: null,
+        isSuperAdmin: false,
+        emailVerified: true,
+      },
+      membership: {
+        id: membership!.id,
+        roleId: role!.id,
+        roleName: role!.name,
+        roleSlug: "owner",
+        permissions: ["*"],
+        locationIds: [],
+        mfaRequired: false,
+      },
+    },
+  };
+}
+
+async function deleteOwnerFixtures(fixtures: OwnerFixture[]): Promise<void> {
+  if (fixtures.length === 0) return;
+  await adminDb.delete(tenants).where(inArray(tenants.id, fixtures.map((f) => f.tenantId)));
+  await adminDb.delete(users).where(inArray(users.id, fixtures.map((f) => f.userId)));
+  await adminDb.delete(plans).where(inArray(plans.id, fixtures.map((f) => f.planId)));
+}
+
+async function isEnabled(tenantId: string, moduleId: string): Promise<boolean> {
+  const rows = await adminDb
+    .select({ moduleId: tenantModules.moduleId })
+    .from(tenantModules)
+    .where(and(eq(tenantModules.tenantId, tenantId), eq(tenantModules.moduleId, moduleId)));
+  return rows.length > 0;
+}
+
+describe.skipIf(!process.env.DATABASE_URL)("modules.selfEnable", () => {
+  const fixtures: OwnerFixture[] = [];
+  // Never installed before this run, so the first enable has to install it
+  const scratchModule = defineModule({
+    id: `scratch_${suffix}`,
+    name: "Scratch",
+    version: "1.0.0",
+    dependencies: [],
+    permissions: [],
+    roleDefaults: {},
+    navigation: [],
+    migrationsFolder,
+    schemaVersion: 1,
+  });
+
+  beforeAll(() => {
+    writeFileSync(
+      path.join(migrationsFolder, "0001_scratch.sql"),
+      `CREATE TABLE "${scratchTable}" ("tenant_id" uuid NOT NULL REFERENCES "tenants"("id") ON DELETE CASCADE);`
+    );
+  });
+
+  afterAll(async () => {
+    await deleteOwnerFixtures(fixtures);
+    await adminDb.execute(sql.raw(`DROP TABLE IF EXISTS "${scratchTable}"`));
+    await adminDb.delete(systemModules).where(eq(systemModules.id, scratchModule.id));
+    rmSync(migrationsFolder, { recursive: true, force: true });
+  });
+
+  it("installs a module on first enable through ctx.db", async () => {
+    const owner = await createOwnerFixture([scratchModule.id]);
+    fixtures.push(owner);
+    const caller = createCaller(
+      await createContext({ session: owner.session, trpcSource: "server" })
+    );
+
+    await caller.modules.selfEnable({ moduleId: scratchModule.id });
+
+    const [installed] = await adminDb
+      .select({ schemaVersion: systemModules.schemaVersion })
+      .from(systemModules)
+      .where(eq(systemModules.id, scratchModule.id));
+    expect(installed?.schemaVersion).toBe(1);
+    expect(await isEnabled(owner.tenantId, scratchModule.id)).toBe(true);
+  }, 30_000);
+
+  it("self-enables costing through ctx.db", async () => {
+    const owner = await createOwnerFixture([costingModule.id]);
+    fixtures.push(owner);
+    const caller = createCaller(
+      await createContext({ session: owner.session, trpcSource: "server" })
+    );
+
+    await caller.modules.selfEnable({ moduleId: costingModule.id });
+
+    const [installed] = await adminDb
+      .select({ schemaVersion: systemModules.schemaVersion })
+      .from(systemModules)
+      .where(eq(systemModules.id, costingModule.id));
+    expect(installed?.schemaVersion).toBe(costingModule.schemaVersion);
+    expect(await isEnabled(owner.tenantId, costingModule.id)).toBe(true);
+  }, 30_000);
+});
@@ -1,7 +1,15 @@
 import { eq, and } from "drizzle-orm";
-import { adminDb, type Database } from "../db/index";
+import { adminDb, type Database, type Transaction } from "../db/index";
 import { systemModules, tenantModules, roles } from "../db/schema/index";
-import { getModule } from "./registry";
+import { getModule, getModulesInOrder, type ModuleConfig } from "./registry";
+import { applyModuleMigrations } from "./migrations";
+import { parseModuleConfig } from "./config";
+import {
+  archiveModuleData,
+  purgeModuleData,
+  consumePurgeToken,
+  type ModuleArchive,
+} from "./data";
 import { createAuditLog } from "../audit/index";
 
 // ============================================
@@ -10,9 +18,12 @@ import { createAuditLog } from "../audit/index";
 
 /**
  * Enable a module for a tenant.
+ * - Validates config against the module's configSchema
  * - Checks dependencies are met
+ * - Applies pending module migrations (see migrations.ts)
  * - Registers in tenant_modules
  * - Adds default permissions to existing roles
+ * - Runs the module's onEnable hook in the same transaction
  *
  * @param database - Database connection. Defaults to adminDb for admin operations.
  */
@@ -21,13 +32,16 @@ export async function enableModule(
   moduleId: string,
   config?: Record<string, unknown>,
   userId?: string,
-  database: Database = adminDb
+  database: Database | Transaction = adminDb
 ): Promise<void> {
   const moduleConfig = getModule(moduleId);
   if (!moduleConfig) {
     throw new Error(`Module "${moduleId}" is not registered`);
   }
 
+  // Validate config against the module's schema (fills defaults)
+  const moduleSettings = parseModuleConfig(moduleConfig, config);
+
   // Check dependencies
   for (const dep of moduleConfig.dependencies) {
     const isEnabled = await isModuleEnabled(tenantId, dep, database);
@@ -38,87 +52,153 @@ export async function enableModule(
     }
   }
 
-  // Check if already enabled
-  const existing = await database
-    .select()
-    .from(tenantModules)
-    .where(
-      and(
-        eq(tenantModules.tenantId, tenantId),
-        eq(tenantModules.moduleId, moduleId)
+  // Register the module and apply pending migrations on the platform
+  // connection (no-op when already at schemaVersion)
+  const appliedMigrations = await installModule(moduleConfig);
+
+  // Tenant-level changes and the onEnable hook commit or roll back together
+  await database.transaction(async (tx) => {
+    // Check if already enabled
+    const existing = await tx
+      .select()
+      .from(tenantModules)
+      .where(
+        and(
+          eq(tenantModules.tenantId, tenantId),
+          eq(tenantModules.moduleId, moduleId)
+        )
       )
-    )
-    .limit(1);
+      .limit(1);
 
-  if (existing.length > 0) {
-    return; // Already enabled, no-op
-  }
+    if (existing.length > 0) {
+      return; // Already enabled, no-op
+    }
 
-  // Ensure module exists in system_modules
-  const systemModule = await database
-    .select()
-    .from(systemModules)
-    .where(eq(systemModules.id, moduleId))
-    .limit(1);
+    // Enable for tenant
+    await tx.insert(tenantModules).values({
+      tenantId,
+      moduleId,
+      version: moduleConfig.version,
+      config: moduleSettings,
+    });
+
+    // Add default permissions to existing roles
+    await mergeRoleDefaults(tenantId, moduleConfig, tx);
+
+    // Module-specific setup (e.g. default data)
+    if (moduleConfig.onEnable) {
+      await moduleConfig.onEnable({ tenantId, db: tx, userId });
+    }
+
+    // Audit log
+    await createAuditLog(
+      {
+        tenantId,
+        userId,
+        action: "module:enabled",
+        resourceType: "module",
+        resourceId: undefined,
+        changes: { after: { moduleId, config: moduleSettings, appliedMigrations } },
+      },
+      tx
+    );
+  });
+}
 
-  if (systemModule.length === 0) {
-    await database.insert(systemModules).values({
+/**
+ * Register a module in system_modules and apply its pending migrations.
+ * Both run on the platform connection and commit on their own, whatever
+ * transaction the caller is in: DDL is global and the tenant role can't
+ * alter tables, and applyModuleMigrations must see the system_modules row.
+ *
+ * Module tables reference tenants and users, so a transaction that has
+ * written those (tenant creation) must install modules before it starts —
+ * the DDL would wait on its locks. See installDefaultModules().
+ *
+ * @returns Module migrations applied
+ */
+export async function installModule(
+  moduleConfig: ModuleConfig
+): Promise<string[]> {
+  await adminDb
+    .insert(systemModules)
+    .values({
       id: moduleConfig.id,
       name: moduleConfig.name,
       description: moduleConfig.description ?? null,
       version: moduleConfig.version,
       dependencies: moduleConfig.dependencies,
-    });
-  }
+    })
+    .onConflictDoNothing({ target: systemModules.id });
 
-  // Enable for tenant
-  await database.insert(tenantModules).values({
-    tenantId,
-    moduleId,
-    config: config ?? {},
-  });
+  return applyModuleMigrations(moduleConfig);
+}
 
-  // Add default permissions to existing roles
-  if (moduleConfig.roleDefaults) {
-    const tenantRoles = await database
-      .select()
-      .from(roles)
-      .where(eq(roles.tenantId, tenantId));
-
-    for (const role of tenantRoles) {
-      const defaultPerms = moduleConfig.roleDefaults[role.slug];
-      if (defaultPerms && defaultPerms.length > 0) {
-        const existingPerms = role.permissions ?? [];
-        const newPerms = [
-          ...new Set([...existingPerms, ...defaultPerms]),
-        ];
-
-        await database
-          .update(roles)
-          .set({ permissions: newPerms })
-          .where(eq(roles.id, role.id));
-      }
-    }
+/**
+ * Merge a module's roleDefaults into the tenant's roles (matched by slug).
+ * Existing permissions are kept; only missing defaults are added.
+ *
+ * @returns Permissions added, keyed by role slug (roles with no change omitted)
+ */
+export async function mergeRoleDefaults(
+  tenantId: string,
+  moduleConfig: ModuleConfig,
+  database: Database | Transaction = adminDb
+): Promise<Record<string, string[]>> {
+  const added: Record<string, string[]> = {};
+  if (!moduleConfig.roleDefaults) return added;
+
+  const tenantRoles = await database
+    .select()
+    .from(roles)
+    .where(eq(roles.tenantId, tenantId));
+
+  for (const role of tenantRoles) {
+    const defaultPerms = moduleConfig.roleDefaults[role.slug];
+    if (!defaultPerms || defaultPerms.length === 0) continue;
+
+    const existingPerms = role.permissions ?? [];
+    const missing = defaultPerms.filter((p) => !existingPerms.includes(p));
+    if (missing.length === 0) continue;
+
+    await database
+      .update(roles)
+      .set({ permissions: [...existingPerms, ...missing] })
+      .where(eq(roles.id, role.id));
+
+    added[role.slug] = missing;
   }
 
-  // Audit log
-  await createAuditLog(
-    {
-      tenantId,
-      userId,
-      action: "module:enabled",
-      resourceType: "module",
-      resourceId: undefined,
-      changes: { after: { moduleId, config } },
-    },
-    database
-  );
+  return added;
+}
+
+export type ModuleDisableMode = "keep" | "archive" | "purge";
+
+export interface DisableModuleOptions {
+  /**
+   * What happens to the tenant's rows in the module's owned tables:
+   * - keep (default): left in place, visible again on re-enable
+   * - archive: written to an NDJSON bundle, then left in place
+   * - purge: deleted — requires a token from requestModulePurge()
+   */
+  mode?: ModuleDisableMode;
+  confirmationToken?: string;
+}
+
+export interface DisableModuleResult {
+  mode: ModuleDisableMode;
+  /** False if the module was not enabled (no-op) */
+  disabled: boolean;
+  archive?: ModuleArchive;
+  purgedRows?: Record<string, number>;
 }
 
 /**
  * Disable a module for a tenant.
  * - Checks no dependent modules are still enabled
- * - Removes from tenant_modules (data preserved in module tables)
+ * - Removes from tenant_modules
+ * - Archives or purges the tenant's module data depending on options.mode
+ * - Runs the module's onDisable hook in the same transaction
  *
  * @param database - Database connection. Defaults to adminDb for admin operations.
  */
@@ -126,8 +206,12 @@ export async function disableModule(
   tenantId: string,
   moduleId: string,
   userId?: string,
-  database: Database = adminDb
-): Promise<void> {
+  database: Database | Transaction = adminDb,
+  options: DisableModuleOptions = {}
+): Promise<DisableModuleResult> {
+  const mode = options.mode ?? "keep";
+  const moduleConfig = getModule(moduleId);
+
   // Check if any enabled module depends on this one
   const enabledModules = await getEnabledModules(tenantId, database);
   for (const enabled of enabledModules) {
@@ -139,28 +223,134 @@ export async function disableModule(
     }
   }
 
-  // Remove from tenant_modules
-  await database
-    .delete(tenantModules)
-    .where(
-      and(
-        eq(tenantModules.tenantId, tenantId),
-        eq(tenantModules.moduleId, moduleId)
+  if (!enabledModules.some((m) => m.moduleId === moduleId)) {
+    return { mode, disabled: false }; // Not enabled, no-op
+  }
+
+  if (mode !== "keep" && !moduleConfig) {
+    throw new Error(`Module "${moduleId}" is not registered`);
+  }
+  if (mode === "purge" && !options.confirmationToken) {
+    throw new Error("Purging module data requires a confirmation token");
+  }
+
+  // Archive before the transaction — the file is written even if the
+  // disable later fails, which only leaves a harmless extra bundle
+  const archive =
+    mode === "archive"
+      ? await archiveModuleData(moduleConfig!, tenantId, database)
+      : undefined;
+
+  return database.transaction(async (tx) => {
+    if (mode === "purge") {
+      await consumePurgeToken(tenantId, moduleId, options.confirmationToken!, tx);
+    }
+
+    // Remove from tenant_modules
+    const removed = await tx
+      .delete(tenantModules)
+      .where(
+        and(
+          eq(tenantModules.tenantId, tenantId),
+          eq(tenantModules.moduleId, moduleId)
+        )
       )
+      .returning({ moduleId: tenantModules.moduleId });
+
+    if (removed.length === 0) {
+      return { mode, disabled: false }; // Disabled concurrently
+    }
+
+    // Module-specific cleanup
+    if (moduleConfig?.onDisable) {
+      await moduleConfig.onDisable({ tenantId, db: tx, userId });
+    }
+
+    let purgedRows: Record<string, number> | undefined;
+    if (mode === "purge") {
+      purgedRows = await purgeModuleData(moduleConfig!, tenantId, tx);
+      await createAuditLog(
+        {
+          tenantId,
+          userId,
+          action: "module:purged",
+          resourceType: "module",
+          changes: { before: { moduleId, rowCounts: purgedRows } },
+        },
+        tx
+      );
+    }
+
+    if (archive) {
+      await createAuditLog(
+        {
+          tenantId,
+          userId,
+          action: "module:archived",
+          resourceType: "module",
+          changes: { after: { moduleId, path: archive.path, rowCounts: archive.rowCounts } },
+        },
+        tx
+      );
+    }
+
+    // Audit log
+    await createAuditLog(
+      {
+        tenantId,
+        userId,
+        action: "module:disabled",
+        resourceType: "module",
+        resourceId: undefined,
+        changes: { before: { moduleId }, after: { mode } },
+      },
+      tx
     );
 
-  // Audit log
-  await createAuditLog(
-    {
-      tenantId,
-      userId,
-      action: "module:disabled",
-      resourceType: "module",
-      resourceId: undefined,
-      changes: { before: { moduleId } },
-    },
-    database
-  );
+    return { mode, disabled: true, archive, purgedRows };
+  });
+}
+
+/**
+ * Install the enabledByDefault modules (see installModule). Call before the
+ * tenant-creation transaction that enables them.
+ */
+export async function installDefaultModules(): Promise<void> {
+  for (const moduleConfig of getModulesInOrder()) {
+    if (moduleConfig.enabledByDefault) await installModule(moduleConfig);
+  }
+}
+
+/**
+ * Enable the enabledByDefault modules for a newly created tenant, then run
+ * their onTenantCreated hooks. Call after the tenant's system roles exist so
+ * roleDefaults are merged, and call installDefaultModules() before opening
+ * the tenant-creation transaction.
+ *
+ * @param tx - The tenant-creation transaction, so a failing hook rolls back
+ *             the whole tenant
+ * @returns IDs of the modules enabled
+ */
+export async function enableDefaultModules(
+  tenantId: string,
+  userId: string | undefined,
+  tx: Transaction
+): Promise<string[]> {
+  const enabled: string[] = [];
+
+  for (const moduleConfig of getModulesInOrder()) {
+    if (!moduleConfig.enabledByDefault) continue;
+
+    await enableModule(tenantId, moduleConfig.id, undefined, userId, tx);
+
+    if (moduleConfig.onTenantCreated) {
+      await moduleConfig.onTenantCreated({ tenantId, db: tx, userId });
+    }
+
+    enabled.push(moduleConfig.id);
+  }
+
+  return enabled;
 }
 
 /**
@@ -171,7 +361,7 @@ export async function disableModule(
 export async function isModuleEnabled(
   tenantId: string,
   moduleId: string,
-  database: Database = adminDb
+  database: Database | Transaction = adminDb
 ): Promise<boolean> {
   const result = await database
     .select()
@@ -194,11 +384,12 @@ export async function isModuleEnabled(
  */
 export async function getEnabledModules(
   tenantId: string,
-  database: Database = adminDb
-): Promise<{ moduleId: string; config: Record<string, unknown> }[]> {
+  database: Database | Transaction = adminDb
+): Promise<{ moduleId: string; version: string; config: Record<string, unknown> }[]> {
   const result = await database
     .select({
       moduleId: tenantModules.moduleId,
+      version: tenantModules.version,
       config: tenantModules.config,
     })
     .from(tenantModules)
@@ -206,6 +397,7 @@ export async function getEnabledModules(
 
   return result.map((r) => ({
     moduleId: r.moduleId,
+    version: r.version,
     config: (r.config as Record<string, unknown>) ?? {},
   }));
 }
@@ -0,0 +1,152 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { eq, sql } from "drizzle-orm";
+import { adminDb, type Database, type Transaction } from "../db/index";
+import { systemModules } from "../db/schema/index";
+import type { ModuleConfig } from "./registry";
+
+// ============================================
+// Module Migrations — per-module schema versioning
+// ============================================
+// Each module may ship its own SQL migrations folder. Files are named
+// `NNNN_description.sql`; NNNN is the schema version the file brings the
+// module to. The applied version is tracked in system_modules.schema_version
+// (global, since module tables are shared by all tenants).
+// ============================================
+
+const MIGRATION_FILE_REGEX = /^(\d{4})_[\w-]+\.sql$/;
+const STATEMENT_BREAKPOINT = "--> statement-breakpoint";
+
+export interface ModuleMigration {
+  version: number;
+  name: string;
+  path: string;
+}
+
+/**
+ * List the migration files in a module's migrations folder, ordered by version.
+ */
+export async function listModuleMigrations(
+  migrationsFolder: string
+): Promise<ModuleMigration[]> {
+  const files = await readdir(migrationsFolder);
+
+  const migrations: ModuleMigration[] = [];
+  for (const file of files) {
+    const match = MIGRATION_FILE_REGEX.exec(file);
+    if (!match) continue;
+    migrations.push({
+      version: Number(match[1]),
+      name: file.replace(/\.sql$/, ""),
+      path: path.join(migrationsFolder, file),
+    });
+  }
+
+  migrations.sort((a, b) => a.version - b.version);
+
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i]!.version === migrations[i - 1]!.version) {
+      throw new Error(
+        `Duplicate module migration version ${migrations[i]!.version} in ${migrationsFolder}`
+      );
+    }
+  }
+
+  return migrations;
+}
+
+/**
+ * Get the schema version currently applied for a module.
+ * Returns 0 if the module has never been installed.
+ */
+export async function getAppliedSchemaVersion(
+  moduleId: string,
+  database: Database | Transaction = adminDb
+): Promise<number> {
+  const [row] = await database
+    .select({ schemaVersion: systemModules.schemaVersion })
+    .from(systemModules)
+    .where(eq(systemModules.id, moduleId))
+    .limit(1);
+
+  return row?.schemaVersion ?? 0;
+}
+
+/**
+ * Apply any pending migrations for a module.
+ * - Requires the module's system_modules row to exist
+ * - Runs in a single transaction guarded by an advisory lock, so concurrent
+ *   enables for different tenants cannot apply the same file twice
+ * - Updates system_modules.schema_version and version on success
+ *
+ * @returns The names of the migrations that were applied (empty if up to date)
+ */
+export async function applyModuleMigrations(
+  moduleConfig: ModuleConfig,
+  database: Database | Transaction = adminDb
+): Promise<string[]> {
+  const targetVersion = moduleConfig.schemaVersion ?? 0;
+  if (!moduleConfig.migrationsFolder || targetVersion === 0) {
+    return [];
+  }
+
+  const migrations = await listModuleMigrations(moduleConfig.migrationsFolder);
+
+  return database.transaction(async (tx) => {
+    await tx.execute(
+      sql`SELECT pg_advisory_xact_lock(hashtext(${`module_migrations:${moduleConfig.id}`}))`
+    );
+
+    const [row] = await tx
+      .select({ schemaVersion: systemModules.schemaVersion })
+      .from(systemModules)
+      .where(eq(systemModules.id, moduleConfig.id))
+      .limit(1);
+
+    if (!row) {
+      throw new Error(
+        `Module "${moduleConfig.id}" is not installed in system_modules`
+      );
+    }
+
+    if (row.schemaVersion > targetVersion) {
+      throw new Error(
+        `Module "${moduleConfig.id}" database schema (v${row.schemaVersion}) is newer than the code (v${targetVersion})`
+      );
+    }
+
+    const pending = migrations.filter(
+      (m) => m.version > row.schemaVersion && m.version <= targetVersion
+    );
+
+    if (row.schemaVersion < targetVersion) {
+      const latest = pending[pending.length - 1];
+      if (!latest || latest.version !== targetVersion) {
+        throw new Error(
+          `Module "${moduleConfig.id}" declares schema version ${targetVersion} but no migration file provides it`
+        );
+      }
+    }
+
+    for (const migration of pending) {
+      const content = await readFile(migration.path, "utf8");
+      const statements = content
+        .split(STATEMENT_BREAKPOINT)
+        .map((s) => s.trim())
+        .filter(Boolean);
+
+      for (const statement of statements) {
+        await tx.execute(sql.raw(statement));
+      }
+    }
+
+    if (pending.length > 0) {
+      await tx
+        .update(systemModules)
+        .set({ schemaVersion: targetVersion, version: moduleConfig.version })
+        .where(eq(systemModules.id, moduleConfig.id));
+    }
+
+    return pending.map((m) => m.name);
+  });
+}
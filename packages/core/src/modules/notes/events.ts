@@ -0,0 +1,19 @@
+import type { AuditEventPayload } from "../../events/index";
+
+// ============================================
+// Notes Events — published from the module's audit actions
+// ============================================
+
+declare module "../../events/index" {
+  interface DomainEventMap {
+    "notes:note:created": AuditEventPayload;
+    "notes:note:updated": AuditEventPayload;
+    "notes:note:deleted": AuditEventPayload;
+  }
+}
+
+export const notesEvents = [
+  "notes:note:created",
+  "notes:note:updated",
+  "notes:note:deleted",
+] as const;
@@ -1,5 +1,7 @@
 import { defineModule } from "../registry";
 import { notesRouter } from "./router";
+import { notes } from "./schema";
+import { notesEvents } from "./events";
 
 // ============================================
 // Notes Module — example/demo module
@@ -14,9 +16,9 @@ export const notesModule = defineModule({
   dependencies: [],
 
   permissions: [
-    "notes:notes:read",
-    "notes:notes:write",
-    "notes:notes:delete",
+    { key: "notes:notes:read", description: "View notes" },
+    { key: "notes:notes:write", description: "Create and edit notes" },
+    { key: "notes:notes:delete", description: "Delete notes" },
   ],
 
   roleDefaults: {
@@ -36,6 +38,10 @@ export const notesModule = defineModule({
     },
   ],
 
+  publishes: notesEvents,
+
+  ownedTables: [{ table: notes }],
+
   router: notesRouter,
 });
 
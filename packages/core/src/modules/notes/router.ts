@@ -4,7 +4,6 @@ import { z } from "zod";
 import { router, tenantProcedure } from "../../trpc/procedures";
 import { requirePermission, requireModule } from "../../trpc/procedures";
 import { notes } from "./schema";
-import { createAuditLog } from "../../audit/index";
 import { paginationSchema, paginatedResult } from "@sme/shared";
 
 // ============================================
@@ -115,17 +114,10 @@ export const notesRouter = router({
         });
       }
 
-      await createAuditLog(
-        {
-          tenantId,
-          userId,
-          action: "notes:note:created",
-          resourceType: "note",
-          resourceId: note.id,
-          changes: { after: { title: input.title } },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "notes:note:created",
+        { type: "note", id: note.id },
+        { after: { title: input.title } }
       );
 
       return note;
@@ -145,7 +137,6 @@ export const notesRouter = router({
     )
     .mutation(async ({ input, ctx }) => {
       const tenantId = ctx.tenantId;
-      const userId = ctx.session!.user.id;
 
       const updateData: Record<string, unknown> = {};
       if (input.title !== undefined) updateData.title = input.title;
@@ -167,17 +158,10 @@ export const notesRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Note not found" });
       }
 
-      await createAuditLog(
-        {
-          tenantId,
-          userId,
-          action: "notes:note:updated",
-          resourceType: "note",
-          resourceId: input.id,
-          changes: { after: updateData },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "notes:note:updated",
+        { type: "note", id: input.id },
+        { after: updateData }
       );
 
       return updated;
@@ -212,17 +196,7 @@ export const notesRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Note not found" });
       }
 
-      await createAuditLog(
-        {
-          tenantId,
-          userId,
-          action: "notes:note:deleted",
-          resourceType: "note",
-          resourceId: input.id,
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
-      );
+      await ctx.audit("notes:note:deleted", { type: "note", id: input.id });
 
       return { success: true };
     }),
@@ -1,18 +1,93 @@
-import type { ModuleNavItem } from "@sme/shared";
+import type { z } from "zod";
+import type { SQL } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import type { ModuleNavItem, PermissionDefinition } from "@sme/shared";
+import type { Transaction } from "../db/index";
+import type { DomainEventType, DomainEventSubscriptions } from "../events/index";
+import type { ModuleJobDefinition } from "../jobs/index";
 
 // ============================================
 // Module Registry — in-memory registration
 // ============================================
 
+/** A table holding a module's per-tenant data (see ModuleConfig.ownedTables) */
+export interface ModuleOwnedTable {
+  table: PgTable;
+  /** Selects the tenant's rows. Omit for tables with a tenant_id column */
+  where?: (tenantId: string) => SQL;
+}
+
+/** Passed to module lifecycle and upgrade hooks — one call per tenant */
+export interface ModuleHookContext {
+  tenantId: string;
+  /** The lifecycle transaction — hook writes commit or roll back with the change */
+  db: Transaction;
+  /** User who triggered the change (undefined for system-initiated runs) */
+  userId?: string;
+}
+
 export interface ModuleConfig {
   id: string;
   name: string;
   version: string;
   description?: string;
   dependencies: string[];
-  permissions: string[];
+  /** Permissions this module checks — listed in the permission catalog */
+  permissions: PermissionDefinition[];
   roleDefaults: Record<string, string[]>;
   navigation: ModuleNavItem[];
+  /**
+   * Absolute path to the module's SQL migrations folder.
+   * Files are named `NNNN_description.sql` (NNNN = schema version) and use
+   * drizzle's `--> statement-breakpoint` separator. Applied by enableModule().
+   */
+  migrationsFolder?: string;
+  /** Schema version the module code expects — the highest migration to apply */
+  schemaVersion?: number;
+  /**
+   * Per-tenant data upgrade, run when a tenant's installed version is behind
+   * `version`. Schema changes belong in migrations; this is for data fixes.
+   */
+  upgrade?: (
+    fromVersion: string,
+    toVersion: string,
+    ctx: ModuleHookContext
+  ) => Promise<void>;
+  /** Oldest installed version the upgrade hook can start from (default: any) */
+  minUpgradeVersion?: string;
+  /**
+   * Per-tenant settings schema. Every field should have a `.default()` and a
+   * `.describe()` label — the settings page renders its form from this.
+   */
+  configSchema?: z.AnyZodObject;
+  /**
+   * Tables holding the module's per-tenant data, parents before children.
+   * Required for disableModule() archive/purge — purge deletes in reverse order.
+   */
+  ownedTables?: ModuleOwnedTable[];
+  /** Enable automatically for newly created tenants */
+  enabledByDefault?: boolean;
+  /** Runs when the module is enabled for a tenant — e.g. seed default data */
+  onEnable?: (ctx: ModuleHookContext) => Promise<void>;
+  /** Runs when the module is disabled for a tenant — e.g. remove unused seed data */
+  onDisable?: (ctx: ModuleHookContext) => Promise<void>;
+  /** Runs once for a new tenant, after onEnable (enabledByDefault modules only) */
+  onTenantCreated?: (ctx: ModuleHookContext) => Promise<void>;
+  /**
+   * Domain events this module publishes. Audit actions listed here are
+   * published automatically by createAuditLog().
+   */
+  publishes?: readonly DomainEventType[];
+  /**
+   * Handlers for events published by any module. Run after commit, only for
+   * tenants with this module enabled, retried on failure — keep them idempotent.
+   */
+  subscribes?: DomainEventSubscriptions;
+  /**
+   * Background jobs, enqueued as "<moduleId>:<key>" with enqueueJob(). Jobs
+   * with a `schedule` run once per tick for every tenant with the module enabled.
+   */
+  jobs?: Record<string, ModuleJobDefinition>;
   /** tRPC router for this module — attached by the module package */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   router?: any;
@@ -0,0 +1,524 @@
+import { eq, and, type SQL } from "drizzle-orm";
+import { adminDb, type Database, type Transaction } from "../db/index";
+import {
+  systemModules,
+  tenantModules,
+  tenants,
+  roles,
+} from "../db/schema/index";
+import { getModule, getModulesInOrder, type ModuleConfig } from "./registry";
+import { mergeRoleDefaults } from "./lifecycle";
+import {
+  applyModuleMigrations,
+  getAppliedSchemaVersion,
+  listModuleMigrations,
+} from "./migrations";
+import { createAuditLog } from "../audit/index";
+
+// ============================================
+// Module Upgrades — per-tenant version drift
+// ============================================
+// tenant_modules.version records the module version each tenant runs.
+// When the code ships a newer ModuleConfig.version, the tenant is "drifted"
+// until its upgrade runs:
+//   1. Pending module migrations are applied (global, once per module)
+//   2. The module's upgrade(from, to, ctx) hook runs for the tenant
+//   3. New roleDefaults are merged into the tenant's roles
+//   4. tenant_modules.version is bumped
+// Steps 2–4 share one transaction per tenant. Every step is audited.
+// ============================================
+
+const VERSION_REGEX = /^(\d+)\.(\d+)\.(\d+)$/;
+
+export type ModuleUpgradeStatus = "pending" | "blocked" | "incompatible";
+
+export interface ModuleUpgradePlanItem {
+  tenantId: string;
+  tenantName: string;
+  moduleId: string;
+  moduleName: string;
+  fromVersion: string;
+  toVersion: string;
+  /**
+   * - pending: can run now
+   * - blocked: waits on a dependency's upgrade for the same tenant
+   * - incompatible: cannot run without manual intervention (see reason)
+   */
+  status: ModuleUpgradeStatus;
+  reason?: string;
+  /** Dependency module IDs that must be upgraded first (status "blocked") */
+  blockedBy: string[];
+  hasUpgradeHook: boolean;
+  /** Module migrations not yet applied (shared by all tenants) */
+  pendingMigrations: string[];
+  /** Permissions roleDefaults would add, keyed by role slug */
+  permissionChanges: Record<string, string[]>;
+}
+
+export interface ModuleUpgradeResult {
+  tenantId: string;
+  moduleId: string;
+  fromVersion: string;
+  toVersion: string;
+  status: "upgraded" | "skipped" | "failed";
+  error?: string;
+}
+
+export interface ModuleUpgradeFilter {
+  tenantId?: string;
+  moduleId?: string;
+}
+
+export interface RunModuleUpgradesOptions extends ModuleUpgradeFilter {
+  /** User who triggered the run (undefined for startup upgrades) */
+  userId?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Compare two `major.minor.patch` versions.
+ * Returns a negative number, zero or a positive number, or null if either
+ * version is not in that format.
+ */
+export function compareVersions(a: string, b: string): number | null {
+  const pa = VERSION_REGEX.exec(a);
+  const pb = VERSION_REGEX.exec(b);
+  if (!pa || !pb) return null;
+
+  for (let i = 1; i <= 3; i++) {
+    const diff = Number(pa[i]) - Number(pb[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Find every enabled tenant module whose installed version differs from the
+ * registered ModuleConfig.version. Read-only — safe to call for previews.
+ *
+ * Items are returned in module dependency order.
+ */
+export async function detectModuleVersionDrift(
+  filter: ModuleUpgradeFilter = {},
+  database: Database | Transaction = adminDb
+): Promise<ModuleUpgradePlanItem[]> {
+  const conditions: SQL[] = [];
+  if (filter.tenantId) conditions.push(eq(tenantModules.tenantId, filter.tenantId));
+
+  const rows = await database
+    .select({
+      tenantId: tenantModules.tenantId,
+      tenantName: tenants.name,
+      moduleId: tenantModules.moduleId,
+      version: tenantModules.version,
+    })
+    .from(tenantModules)
+    .innerJoin(tenants, eq(tenants.id, tenantModules.tenantId))
+    .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+  // tenantId → moduleId → installed version (all modules, for dependency checks)
+  const installed = new Map<string, Map<string, string>>();
+  for (const row of rows) {
+    let tenantVersions = installed.get(row.tenantId);
+    if (!tenantVersions) {
+      tenantVersions = new Map();
+      installed.set(row.tenantId, tenantVersions);
+    }
+    tenantVersions.set(row.moduleId, row.version);
+  }
+
+  const order = new Map(getModulesInOrder().map((m, i) => [m.id, i]));
+  const pendingMigrationsCache = new Map<string, string[]>();
+  const items: ModuleUpgradePlanItem[] = [];
+
+  for (const row of rows) {
+    if (filter.moduleId && row.moduleId !== filter.moduleId) continue;
+
+    const moduleConfig = getModule(row.moduleId);
+    if (!moduleConfig) {
+      items.push({
+        tenantId: row.tenantId,
+        tenantName: row.tenantName,
+        moduleId: row.moduleId,
+        moduleName: row.moduleId,
+        fromVersion: row.version,
+        toVersion: row.version,
+        status: "incompatible",
+        reason: `Module "${row.moduleId}" is enabled but not registered in code`,
+        blockedBy: [],
+        hasUpgradeHook: false,
+        pendingMigrations: [],
+        permissionChanges: {},
+      });
+      continue;
+    }
+
+    if (row.version === moduleConfig.version) continue;
+
+    let pendingMigrations = pendingMigrationsCache.get(moduleConfig.id);
+    if (!pendingMigrations) {
+      pendingMigrations = await getPendingMigrations(moduleConfig, database);
+      pendingMigrationsCache.set(moduleConfig.id, pendingMigrations);
+    }
+
+    const tenantVersions = installed.get(row.tenantId)!;
+    const { status, reason, blockedBy } = checkUpgradeCompatibility(
+      moduleConfig,
+      row.version,
+      tenantVersions
+    );
+
+    items.push({
+      tenantId: row.tenantId,
+      tenantName: row.tenantName,
+      moduleId: moduleConfig.id,
+      moduleName: moduleConfig.name,
+      fromVersion: row.version,
+      toVersion: moduleConfig.version,
+      status,
+      reason,
+      blockedBy,
+      hasUpgradeHook: !!moduleConfig.upgrade,
+      pendingMigrations,
+      permissionChanges: await previewRoleDefaults(
+        row.tenantId,
+        moduleConfig,
+        database
+      ),
+    });
+  }
+
+  items.sort(
+    (a, b) =>
+      (order.get(a.moduleId) ?? Infinity) - (order.get(b.moduleId) ?? Infinity)
+  );
+
+  return items;
+}
+
+/**
+ * Run all pending module upgrades (optionally filtered to one tenant/module).
+ * - Items blocked on a dependency run once that dependency upgrades in the
+ *   same pass; otherwise they are skipped
+ * - A failure rolls back that tenant's upgrade only and is reported in the
+ *   results — it never aborts the whole run
+ */
+export async function runModuleUpgrades(
+  options: RunModuleUpgradesOptions = {},
+  database: Database | Transaction = adminDb
+): Promise<ModuleUpgradeResult[]> {
+  const plan = await detectModuleVersionDrift(
+    { tenantId: options.tenantId, moduleId: options.moduleId },
+    database
+  );
+
+  const results: ModuleUpgradeResult[] = [];
+  const upgraded = new Set<string>();
+  const migrated = new Map<string, string[] | Error>();
+
+  for (const item of plan) {
+    const base = {
+      tenantId: item.tenantId,
+      moduleId: item.moduleId,
+      fromVersion: item.fromVersion,
+      toVersion: item.toVersion,
+    };
+
+    if (item.status === "incompatible") {
+      results.push({ ...base, status: "skipped", error: item.reason });
+      continue;
+    }
+
+    const waitingOn = item.blockedBy.filter(
+      (dep) => !upgraded.has(`${item.tenantId}:${dep}`)
+    );
+    if (waitingOn.length > 0) {
+      results.push({
+        ...base,
+        status: "skipped",
+        error: `Waiting on upgrade of ${waitingOn.map((d) => `"${d}"`).join(", ")}`,
+      });
+      continue;
+    }
+
+    const moduleConfig = getModule(item.moduleId)!;
+
+    // Global step — once per module, shared by every tenant in this run
+    let appliedMigrations = migrated.get(moduleConfig.id);
+    if (appliedMigrations === undefined) {
+      try {
+        appliedMigrations = await applyModuleMigrations(moduleConfig, database);
+        await database
+          .update(systemModules)
+          .set({ version: moduleConfig.version })
+          .where(eq(systemModules.id, moduleConfig.id));
+      } catch (error) {
+        appliedMigrations =
+          error instanceof Error ? error : new Error(String(error));
+      }
+      migrated.set(moduleConfig.id, appliedMigrations);
+    }
+
+    if (appliedMigrations instanceof Error) {
+      await recordUpgradeFailure(item, appliedMigrations, options, database);
+      results.push({ ...base, status: "failed", error: appliedMigrations.message });
+      continue;
+    }
+
+    try {
+      await upgradeTenantModule(
+        item,
+        moduleConfig,
+        appliedMigrations,
+        options,
+        database
+      );
+      upgraded.add(`${item.tenantId}:${item.moduleId}`);
+      results.push({ ...base, status: "upgraded" });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      await recordUpgradeFailure(item, err, options, database);
+      results.push({ ...base, status: "failed", error: err.message });
+    }
+  }
+
+  return results;
+}
+
+// ============================================
+// Internals
+// ============================================
+
+function checkUpgradeCompatibility(
+  moduleConfig: ModuleConfig,
+  fromVersion: string,
+  tenantVersions: Map<string, string>
+): { status: ModuleUpgradeStatus; reason?: string; blockedBy: string[] } {
+  const cmp = compareVersions(fromVersion, moduleConfig.version);
+  if (cmp === null) {
+    return {
+      status: "incompatible",
+      reason: `Cannot compare versions "${fromVersion}" and "${moduleConfig.version}"`,
+      blockedBy: [],
+    };
+  }
+  if (cmp > 0) {
+    return {
+      status: "incompatible",
+      reason: `Installed version ${fromVersion} is newer than the code (${moduleConfig.version}) — downgrades are not supported`,
+      blockedBy: [],
+    };
+  }
+
+  if (moduleConfig.minUpgradeVersion) {
+    const minCmp = compareVersions(fromVersion, moduleConfig.minUpgradeVersion);
+    if (minCmp === null || minCmp < 0) {
+      return {
+        status: "incompatible",
+        reason: `Upgrading to ${moduleConfig.version} requires at least ${moduleConfig.minUpgradeVersion} — upgrade through an intermediate release first`,
+        blockedBy: [],
+      };
+    }
+  }
+
+  const blockedBy: string[] = [];
+  for (const dep of moduleConfig.dependencies) {
+    const depVersion = tenantVersions.get(dep);
+    if (!depVersion) {
+      return {
+        status: "incompatible",
+        reason: `Requires "${dep}" to be enabled`,
+        blockedBy: [],
+      };
+    }
+    const depConfig = getModule(dep);
+    if (depConfig && depVersion !== depConfig.version) {
+      blockedBy.push(dep);
+    }
+  }
+
+  if (blockedBy.length > 0) {
+    return {
+      status: "blocked",
+      reason: `Waiting on upgrade of ${blockedBy.map((d) => `"${d}"`).join(", ")}`,
+      blockedBy,
+    };
+  }
+
+  return { status: "pending", blockedBy };
+}
+
+async function getPendingMigrations(
+  moduleConfig: ModuleConfig,
+  database: Database | Transaction
+): Promise<string[]> {
+  const targetVersion = moduleConfig.schemaVersion ?? 0;
+  if (!moduleConfig.migrationsFolder || targetVersion === 0) return [];
+
+  const applied = await getAppliedSchemaVersion(moduleConfig.id, database);
+  const migrations = await listModuleMigrations(moduleConfig.migrationsFolder);
+  return migrations
+    .filter((m) => m.version > applied && m.version <= targetVersion)
+    .map((m) => m.name);
+}
+
+/** Same diff mergeRoleDefaults() applies, without writing */
+async function previewRoleDefaults(
+  tenantId: string,
+  moduleConfig: ModuleConfig,
+  database: Database | Transaction
+): Promise<Record<string, string[]>> {
+  const added: Record<string, string[]> = {};
+  if (!moduleConfig.roleDefaults) return added;
+
+  const tenantRoles = await database
+    .select({ slug: roles.slug, permissions: roles.permissions })
+    .from(roles)
+    .where(eq(roles.tenantId, tenantId));
+
+  for (const role of tenantRoles) {
+    const defaultPerms = moduleConfig.roleDefaults[role.slug] ?? [];
+    const existingPerms = role.permissions ?? [];
+    const missing = defaultPerms.filter((p) => !existingPerms.includes(p));
+    if (missing.length > 0) added[role.slug] = missing;
+  }
+
+  return added;
+}
+
+async function upgradeTenantModule(
+  item: ModuleUpgradePlanItem,
+  moduleConfig: ModuleConfig,
+  appliedMigrations: string[],
+  options: RunModuleUpgradesOptions,
+  database: Database | Transaction
+): Promise<void> {
+  const auditBase = {
+    tenantId: item.tenantId,
+    userId: options.userId,
+    resourceType: "module",
+    ipAddress: options.ipAddress,
+  };
+
+  await createAuditLog(
+    {
+      ...auditBase,
+      action: "module:upgrade:started",
+      changes: {
+        before: { moduleId: item.moduleId, version: item.fromVersion },
+        after: {
+          moduleId: item.moduleId,
+          version: item.toVersion,
+          appliedMigrations,
+        },
+      },
+    },
+    database
+  );
+
+  await database.transaction(async (tx) => {
+    // Lock the row so concurrent runs (startup + admin) cannot double-upgrade
+    const [current] = await tx
+      .select({ version: tenantModules.version })
+      .from(tenantModules)
+      .where(
+        and(
+          eq(tenantModules.tenantId, item.tenantId),
+          eq(tenantModules.moduleId, item.moduleId)
+        )
+      )
+      .for("update");
+
+    if (!current) {
+      throw new Error(`Module "${item.moduleId}" is no longer enabled for this tenant`);
+    }
+    if (current.version !== item.fromVersion) {
+      throw new Error(
+        `Installed version changed to ${current.version} during the upgrade — re-run to pick it up`
+      );
+    }
+
+    if (moduleConfig.upgrade) {
+      await moduleConfig.upgrade(item.fromVersion, item.toVersion, {
+        tenantId: item.tenantId,
+        db: tx,
+        userId: options.userId,
+      });
+
+      await createAuditLog(
+        {
+          ...auditBase,
+          action: "module:upgrade:hook_completed",
+          changes: {
+            after: {
+              moduleId: item.moduleId,
+              fromVersion: item.fromVersion,
+              toVersion: item.toVersion,
+            },
+          },
+        },
+        tx
+      );
+    }
+
+    const addedPermissions = await mergeRoleDefaults(
+      item.tenantId,
+      moduleConfig,
+      tx
+    );
+    if (Object.keys(addedPermissions).length > 0) {
+      await createAuditLog(
+        {
+          ...auditBase,
+          action: "module:upgrade:permissions_merged",
+          changes: { after: { moduleId: item.moduleId, addedPermissions } },
+        },
+        tx
+      );
+    }
+
+    await tx
+      .update(tenantModules)
+      .set({ version: item.toVersion })
+      .where(
+        and(
+          eq(tenantModules.tenantId, item.tenantId),
+          eq(tenantModules.moduleId, item.moduleId)
+        )
+      );
+
+    await createAuditLog(
+      {
+        ...auditBase,
+        action: "module:upgraded",
+        changes: {
+          before: { moduleId: item.moduleId, version: item.fromVersion },
+          after: { moduleId: item.moduleId, version: item.toVersion },
+        },
+      },
+      tx
+    );
+  });
+}
+
+async function recordUpgradeFailure(
+  item: ModuleUpgradePlanItem,
+  error: Error,
+  options: RunModuleUpgradesOptions,
+  database: Database | Transaction
+): Promise<void> {
+  await createAuditLog(
+    {
+      tenantId: item.tenantId,
+      userId: options.userId,
+      action: "module:upgrade:failed",
+      resourceType: "module",
+      changes: {
+        before: { moduleId: item.moduleId, version: item.fromVersion },
+        after: { targetVersion: item.toVersion, error: error.message },
+      },
+      ipAddress: options.ipAddress,
+    },
+    database
+  );
+}
@@ -0,0 +1,117 @@
+import { permissionMatches } from "@sme/shared";
+import type { PermissionDefinition } from "@sme/shared";
+import { getModuleRegistry } from "../modules/registry";
+
+// ============================================
+// Permission Catalog — every permission core and modules check
+// ============================================
+
+/** Permissions checked by core routers and the dashboard */
+export const CORE_PERMISSIONS: PermissionDefinition[] = [
+  { key: "core:dashboard:read", description: "View the dashboard", group: "General" },
+  { key: "core:settings:manage", description: "Edit organization settings and modules", group: "General" },
+  { key: "core:users:read", description: "View members, roles and location assignments", group: "Members" },
+  { key: "core:audit:read", description: "View the audit log", group: "Audit" },
+  { key: "core:webhooks:manage", description: "Manage webhook endpoints and deliveries", group: "Integrations" },
+  { key: "core:api_keys:manage", description: "Create and revoke API keys", group: "Integrations" },
+  { key: "core:locations:manage", description: "Manage locations and member assignments", group: "Locations" },
+];
+
+export interface CatalogPermission {
+  key: string;
+  description: string;
+  group: string;
+  /** Declaring module, or null for core */
+  moduleId: string | null;
+  /** "Core" or the module's display name */
+  source: string;
+}
+
+/**
+ * Core permissions followed by each registered module's permissions.
+ */
+export function getPermissionCatalog(): CatalogPermission[] {
+  const catalog: CatalogPermission[] = CORE_PERMISSIONS.map((p) => ({
+    key: p.key,
+    description: p.description,
+    group: p.group ?? "Core",
+    moduleId: null,
+    source: "Core",
+  }));
+
+  for (const mod of getModuleRegistry().values()) {
+    for (const p of mod.permissions) {
+      catalog.push({
+        key: p.key,
+        description: p.description,
+        group: p.group ?? mod.name,
+        moduleId: mod.id,
+        source: mod.name,
+      });
+    }
+  }
+
+  return catalog;
+}
+
+/**
+ * Look up a concrete permission key in the catalog.
+ */
+export function getCatalogPermission(
+  key: string
+): CatalogPermission | undefined {
+  return getPermissionCatalog().find((p) => p.key === key);
+}
+
+/**
+ * Whether a grant or deny refers to something in the catalog. Wildcards are
+ * known when at least one catalog permission falls under them.
+ */
+export function isKnownPermission(permission: string): boolean {
+  const grant = permission.startsWith("!") ? permission.slice(1) : permission;
+  if (grant === "*") return true;
+
+  const catalog = getPermissionCatalog();
+  if (grant.endsWith(":*")) {
+    const prefix = grant.slice(0, -1);
+    return catalog.some((p) => p.key.startsWith(prefix));
+  }
+  return catalog.some((p) => p.key === grant);
+}
+
+/**
+ * Grants from the list that match nothing in the catalog.
+ */
+export function findUnknownPermissions(grants: string[]): string[] {
+  return grants.filter((grant) => !isKnownPermission(grant));
+}
+
+/**
+ * Which grant satisfies a required permission, preferring an exact match
+ * over wildcards. Null when none does. Denies are not considered — see
+ * findMatchingDeny().
+ */
+export function findMatchingGrant(
+  grantedPermissions: string[],
+  requiredPermission: string
+): string | null {
+  const grants = grantedPermissions.filter((p) => !p.startsWith("!"));
+  if (grants.includes(requiredPermission)) return requiredPermission;
+  return grants.find((p) => permissionMatches(p, requiredPermission)) ?? null;
+}
+
+/**
+ * Which deny (`!pattern`) blocks a required permission, or null.
+ * A matching deny wins over any grant.
+ */
+export function findMatchingDeny(
+  grantedPermissions: string[],
+  requiredPermission: string
+): string | null {
+  return (
+    grantedPermissions.find(
+      (p) =>
+        p.startsWith("!") && permissionMatches(p.slice(1), requiredPermission)
+    ) ?? null
+  );
+}
@@ -0,0 +1,48 @@
+import { eq, and, gt, asc } from "drizzle-orm";
+import { adminDb } from "../db/index";
+import type { Database, Transaction } from "../db/index";
+import { membershipPermissionGrants } from "../db/schema/index";
+
+// ============================================
+// Permission Grants — time-bound extras on top of a member's role
+// ============================================
+
+export interface ActivePermissionGrant {
+  id: string;
+  permission: string;
+  expiresAt: Date;
+}
+
+/**
+ * Unexpired extra grants (and denies) for a membership, soonest expiry first.
+ */
+export async function getActivePermissionGrants(
+  membershipId: string,
+  database: Database | Transaction = adminDb
+): Promise<ActivePermissionGrant[]> {
+  return database
+    .select({
+      id: membershipPermissionGrants.id,
+      permission: membershipPermissionGrants.permission,
+      expiresAt: membershipPermissionGrants.expiresAt,
+    })
+    .from(membershipPermissionGrants)
+    .where(
+      and(
+        eq(membershipPermissionGrants.membershipId, membershipId),
+        gt(membershipPermissionGrants.expiresAt, new Date())
+      )
+    )
+    .orderBy(asc(membershipPermissionGrants.expiresAt));
+}
+
+/**
+ * A role's permissions plus a member's active grants. Denies from either
+ * side override grants from either side (see hasPermission).
+ */
+export function mergePermissionGrants(
+  rolePermissions: string[],
+  grants: ActivePermissionGrant[]
+): string[] {
+  return [...new Set([...rolePermissions, ...grants.map((g) => g.permission)])];
+}
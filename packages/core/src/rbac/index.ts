@@ -8,15 +8,30 @@ import type { SYSTEM_ROLES } from "@sme/shared";
 /**
  * Check if a user's role grants a specific permission.
  * Supports wildcards: *, module:*, module:resource:*
+ * and denies (!pattern), which override any grant.
+ * For location-scoped checks pass the active location's permissions
+ * (session membership.location.permissions).
  */
 export function checkPermission(
   userPermissions: string[],
-  requiredPermission: string,
-  _locationId?: string // Reserved for location-scoped permissions
+  requiredPermission: string
 ): boolean {
   return hasPermission(userPermissions, requiredPermission);
 }
 
+/**
+ * Check if a membership may work at a location.
+ * Members without assignments may use every location in the tenant.
+ */
+export function canAccessLocation(
+  assignedLocationIds: string[],
+  locationId: string
+): boolean {
+  return (
+    assignedLocationIds.length === 0 || assignedLocationIds.includes(locationId)
+  );
+}
+
 /**
  * Check if a user's role grants ALL of the specified permissions.
  */
@@ -37,6 +52,32 @@ export function checkAnyPermission(
   return requiredPermissions.some((p) => hasPermission(userPermissions, p));
 }
 
+/**
+ * Check if a user can assign the given permissions (to a role or as a
+ * temporary grant). Users can only assign permissions they themselves have.
+ * This prevents privilege escalation.
+ */
+export function canAssignPermissions(
+  userPermissions: string[],
+  targetPermissions: string[]
+): boolean {
+  const userDenies = userPermissions
+    .filter((p) => p.startsWith("!"))
+    .map((p) => p.slice(1));
+
+  return targetPermissions.every((perm) => {
+    // Denies only take access away
+    if (perm.startsWith("!")) return true;
+    if (!hasPermission(userPermissions, perm)) return false;
+    // A wildcard must not re-grant anything the user is denied
+    if (perm.endsWith("*")) {
+      const prefix = perm.slice(0, -1);
+      return !userDenies.some((d) => d.startsWith(prefix));
+    }
+    return true;
+  });
+}
+
 /**
  * Get the default permissions for a system role, 
  * enhanced with module-specific permissions.
@@ -61,3 +102,31 @@ export function buildRolePermissions(
 
 // Re-export for convenience
 export { hasPermission };
+export {
+  CORE_PERMISSIONS,
+  getPermissionCatalog,
+  getCatalogPermission,
+  isKnownPermission,
+  findUnknownPermissions,
+  findMatchingGrant,
+  findMatchingDeny,
+} from "./catalog";
+export type { CatalogPermission } from "./catalog";
+export {
+  getActivePermissionGrants,
+  mergePermissionGrants,
+} from "./grants";
+export type { ActivePermissionGrant } from "./grants";
+export {
+  previewRoleTemplate,
+  applyRoleTemplate,
+  getRoleTemplateUpdates,
+  resolveRoleTemplateUpdate,
+} from "./templates";
+export type {
+  RoleTemplateDiff,
+  RoleTemplateDiffStatus,
+  RoleTemplateApplyResult,
+  ApplyRoleTemplateOptions,
+  RoleTemplateUpdate,
+} from "./templates";
@@ -0,0 +1,296 @@
+import { eq, and, asc } from "drizzle-orm";
+import { adminDb, type Database, type Transaction } from "../db/index";
+import { roleTemplates, roles, tenants } from "../db/schema/index";
+import type { RoleTemplate, Role } from "../db/schema/index";
+import { createAuditLog } from "../audit/index";
+
+// ============================================
+// Role Templates — platform roles applied across tenants
+// ============================================
+// Applying a template creates a linked role in each tenant that lacks one.
+// Template edits bump its version; tenants see the diff as an opt-in update
+// (accept syncs the role's permissions, dismiss keeps them) — applying never
+// overwrites a role a tenant already has.
+// ============================================
+
+/**
+ * - create: the tenant has no role for the template yet — apply creates it
+ * - update_available: linked role is behind the template (tenant opt-in)
+ * - up_to_date: linked role matches the template version
+ * - conflict: an unlinked role already uses the template's slug
+ */
+export type RoleTemplateDiffStatus =
+  | "create"
+  | "update_available"
+  | "up_to_date"
+  | "conflict";
+
+export interface RoleTemplateDiff {
+  tenantId: string;
+  tenantName: string;
+  status: RoleTemplateDiffStatus;
+  roleId: string | null;
+  /** Permissions the tenant's role would gain */
+  added: string[];
+  /** Permissions the tenant's role would lose */
+  removed: string[];
+  reason?: string;
+}
+
+export interface RoleTemplateApplyResult {
+  tenantId: string;
+  status: "created" | "skipped";
+  roleId: string | null;
+  reason?: string;
+}
+
+export interface ApplyRoleTemplateOptions {
+  /** Limit to one tenant — otherwise every active tenant */
+  tenantId?: string;
+  userId?: string;
+  ipAddress?: string;
+}
+
+export interface RoleTemplateUpdate {
+  roleId: string;
+  roleName: string;
+  templateId: string;
+  templateName: string;
+  fromVersion: number | null;
+  toVersion: number;
+  added: string[];
+  removed: string[];
+}
+
+function diffPermissions(current: string[], target: string[]) {
+  return {
+    added: target.filter((p) => !current.includes(p)),
+    removed: current.filter((p) => !target.includes(p)),
+  };
+}
+
+async function getTemplate(
+  templateId: string,
+  database: Database | Transaction
+): Promise<RoleTemplate> {
+  const [template] = await database
+    .select()
+    .from(roleTemplates)
+    .where(eq(roleTemplates.id, templateId))
+    .limit(1);
+
+  if (!template) throw new Error("Role template not found");
+  return template;
+}
+
+function diffForTenant(
+  template: RoleTemplate,
+  tenant: { id: string; name: string },
+  tenantRoles: Role[]
+): RoleTemplateDiff {
+  const base = { tenantId: tenant.id, tenantName: tenant.name };
+  const linked = tenantRoles.find((r) => r.templateId === template.id);
+
+  if (linked) {
+    const { added, removed } = diffPermissions(
+      linked.permissions ?? [],
+      template.permissions
+    );
+    const behind = (linked.templateVersion ?? 0) < template.version;
+    return {
+      ...base,
+      status: behind && (added.length > 0 || removed.length > 0)
+        ? "update_available"
+        : "up_to_date",
+      roleId: linked.id,
+      added,
+      removed,
+    };
+  }
+
+  const sameSlug = tenantRoles.find((r) => r.slug === template.slug);
+  if (sameSlug) {
+    return {
+      ...base,
+      status: "conflict",
+      roleId: sameSlug.id,
+      added: [],
+      removed: [],
+      reason: `Role "${sameSlug.name}" already uses the slug "${template.slug}"`,
+    };
+  }
+
+  return {
+    ...base,
+    status: "create",
+    roleId: null,
+    added: [...template.permissions],
+    removed: [],
+  };
+}
+
+/**
+ * Preview what applying a template would do, per tenant. Read-only.
+ */
+export async function previewRoleTemplate(
+  templateId: string,
+  filter: { tenantId?: string } = {},
+  database: Database | Transaction = adminDb
+): Promise<RoleTemplateDiff[]> {
+  const template = await getTemplate(templateId, database);
+
+  const tenantRows = await database
+    .select({ id: tenants.id, name: tenants.name })
+    .from(tenants)
+    .where(
+      filter.tenantId
+        ? eq(tenants.id, filter.tenantId)
+        : eq(tenants.isActive, true)
+    )
+    .orderBy(asc(tenants.name));
+
+  const diffs: RoleTemplateDiff[] = [];
+  for (const tenant of tenantRows) {
+    const tenantRoles = await database
+      .select()
+      .from(roles)
+      .where(eq(roles.tenantId, tenant.id));
+    diffs.push(diffForTenant(template, tenant, tenantRoles));
+  }
+  return diffs;
+}
+
+/**
+ * Create the template's role in tenants that don't have it yet.
+ * Existing linked roles are left for the tenant to update (opt-in);
+ * slug conflicts are skipped.
+ */
+export async function applyRoleTemplate(
+  templateId: string,
+  options: ApplyRoleTemplateOptions = {},
+  database: Database | Transaction = adminDb
+): Promise<RoleTemplateApplyResult[]> {
+  const template = await getTemplate(templateId, database);
+  const diffs = await previewRoleTemplate(
+    templateId,
+    { tenantId: options.tenantId },
+    database
+  );
+
+  const results: RoleTemplateApplyResult[] = [];
+  for (const diff of diffs) {
+    if (diff.status !== "create") {
+      results.push({
+        tenantId: diff.tenantId,
+        status: "skipped",
+        roleId: diff.roleId,
+        reason:
+          diff.status === "conflict"
+            ? diff.reason
+            : diff.status === "update_available"
+              ? "Role exists — update offered to the tenant"
+              : "Role exists and is up to date",
+      });
+      continue;
+    }
+
+    const [role] = await database
+      .insert(roles)
+      .values({
+        tenantId: diff.tenantId,
+        name: template.name,
+        slug: template.slug,
+        description: template.description,
+        permissions: template.permissions,
+        isSystem: false,
+        templateId: template.id,
+        templateVersion: template.version,
+      })
+      .returning({ id: roles.id });
+
+    await createAuditLog(
+      {
+        tenantId: diff.tenantId,
+        userId: options.userId,
+        action: "role:created_from_template",
+        resourceType: "role",
+        resourceId: role!.id,
+        changes: {
+          after: {
+            templateId: template.id,
+            templateVersion: template.version,
+            permissions: template.permissions,
+          },
+        },
+        ipAddress: options.ipAddress,
+      },
+      database
+    );
+
+    results.push({ tenantId: diff.tenantId, status: "created", roleId: role!.id });
+  }
+
+  return results;
+}
+
+/**
+ * Template updates a tenant has not accepted or dismissed yet.
+ */
+export async function getRoleTemplateUpdates(
+  tenantId: string,
+  database: Database | Transaction = adminDb
+): Promise<RoleTemplateUpdate[]> {
+  const rows = await database
+    .select({ role: roles, template: roleTemplates })
+    .from(roles)
+    .innerJoin(roleTemplates, eq(roles.templateId, roleTemplates.id))
+    .where(eq(roles.tenantId, tenantId));
+
+  return rows
+    .filter(({ role, template }) => (role.templateVersion ?? 0) < template.version)
+    .map(({ role, template }) => ({
+      roleId: role.id,
+      roleName: role.name,
+      templateId: template.id,
+      templateName: template.name,
+      fromVersion: role.templateVersion,
+      toVersion: template.version,
+      ...diffPermissions(role.permissions ?? [], template.permissions),
+    }));
+}
+
+/**
+ * Resolve a pending template update for one of the tenant's roles.
+ * `accept` copies the template's permissions onto the role; otherwise the
+ * role keeps its permissions. Either way it is marked as synced to the
+ * current version, so the update stops being offered.
+ * @throws Error if the role has no pending template update
+ */
+export async function resolveRoleTemplateUpdate(
+  tenantId: string,
+  roleId: string,
+  accept: boolean,
+  database: Database | Transaction = adminDb
+): Promise<Role> {
+  const [row] = await database
+    .select({ role: roles, template: roleTemplates })
+    .from(roles)
+    .innerJoin(roleTemplates, eq(roles.templateId, roleTemplates.id))
+    .where(and(eq(roles.id, roleId), eq(roles.tenantId, tenantId)))
+    .limit(1);
+
+  if (!row || (row.role.templateVersion ?? 0) >= row.template.version) {
+    throw new Error("No pending template update for this role");
+  }
+
+  const [updated] = await database
+    .update(roles)
+    .set({
+      templateVersion: row.template.version,
+      ...(accept ? { permissions: row.template.permissions } : {}),
+    })
+    .where(eq(roles.id, roleId))
+    .returning();
+
+  return updated!;
+}
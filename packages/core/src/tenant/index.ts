@@ -24,3 +24,15 @@ export async function getTenantSlugById(
 
   return result?.slug ?? null;
 }
+
+export {
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+  getInvitationByToken,
+  acceptInvitation,
+  expireInvitations,
+  type InvitationStatus,
+  type InvitationDetails,
+  type AcceptInvitationResult,
+} from "./invitations";
@@ -0,0 +1,427 @@
+import { eq, and, lt, sql } from "drizzle-orm";
+import { adminDb, type Database, type Transaction } from "../db/index";
+import {
+  tenantInvitations,
+  tenantMemberships,
+  tenants,
+  roles,
+  users,
+  type TenantInvitation,
+} from "../db/schema/index";
+import { generateToken, hashToken } from "@sme/shared";
+import { hashPassword } from "../auth/password";
+import { createSession } from "../auth/session";
+import { AuthError } from "../auth/login";
+import { assertMemberLimit } from "../modules/entitlements";
+import { createAuditLog } from "../audit/index";
+import { queueMail, inviteMail } from "../mail/index";
+
+// ============================================
+// Tenant invitations
+// ============================================
+// Inviting someone creates a pending invitation and emails them a link;
+// nothing else changes until they accept it. Accepting creates the
+// membership — and, for an email without an account, the user with the
+// password they choose. Pending invitations past expires_at are marked
+// expired by the core:invitations:expire job (and treated as expired
+// before then).
+// ============================================
+
+const INVITATION_DURATION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+/** What the accept page shows about an invitation */
+export interface InvitationDetails {
+  status: InvitationStatus;
+  email: string;
+  fullName: string;
+  tenantName: string;
+  roleName: string;
+  invitedBy: string | null;
+  expiresAt: Date;
+  /** The email already has an account — accepting needs no password */
+  hasAccount: boolean;
+}
+
+export interface AcceptInvitationResult {
+  userId: string;
+  tenantId: string;
+  tenantSlug: string;
+  /** Session for a newly created account (existing users sign in as usual) */
+  session: { token: string; expiresAt: Date } | null;
+}
+
+/** Effective status — a pending invitation past its expiry is expired */
+function invitationStatus(
+  invitation: Pick<TenantInvitation, "status" | "expiresAt">
+): InvitationStatus {
+  if (invitation.status === "pending" && invitation.expiresAt <= new Date()) {
+    return "expired";
+  }
+  return invitation.status as InvitationStatus;
+}
+
+async function sendInvitationMail(
+  invitation: Pick<TenantInvitation, "tenantId" | "email" | "fullName">,
+  token: string,
+  invitedBy: string,
+  database: Database | Transaction
+): Promise<void> {
+  const [tenant] = await database
+    .select({ name: tenants.name })
+    .from(tenants)
+    .where(eq(tenants.id, invitation.tenantId))
+    .limit(1);
+
+  const [account] = await database
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.email, invitation.email))
+    .limit(1);
+
+  await queueMail(
+    invitation.email,
+    inviteMail({
+      name: invitation.fullName,
+      tenantName: tenant?.name ?? "your organization",
+      invitedBy,
+      token,
+      expiresInDays: INVITATION_DURATION_MS / (24 * 60 * 60 * 1000),
+      hasAccount: !!account,
+    }),
+    { tenantId: invitation.tenantId },
+    database
+  );
+}
+
+/**
+ * Invite someone to a tenant by email.
+ * Throws if they're already a member or have a pending invitation.
+ *
+ * @param database - Pass ctx.db (the tenant transaction)
+ */
+export async function createInvitation(
+  params: {
+    tenantId: string;
+    email: string;
+    fullName: string;
+    roleId: string;
+    pin?: string;
+    invitedBy: { id: string; fullName: string };
+  },
+  database: Database | Transaction = adminDb
+): Promise<TenantInvitation> {
+  const { tenantId, email } = params;
+
+  const [member] = await database
+    .select({ id: tenantMemberships.id })
+    .from(tenantMemberships)
+    .innerJoin(users, eq(tenantMemberships.userId, users.id))
+    .where(and(eq(tenantMemberships.tenantId, tenantId), eq(users.email, email)))
+    .limit(1);
+  if (member) throw new Error("User is already a member of this tenant");
+
+  // A lapsed invitation no longer blocks a new one
+  await database
+    .update(tenantInvitations)
+    .set({ status: "expired" })
+    .where(
+      and(
+        eq(tenantInvitations.tenantId, tenantId),
+        eq(tenantInvitations.email, email),
+        eq(tenantInvitations.status, "pending"),
+        lt(tenantInvitations.expiresAt, new Date())
+      )
+    );
+
+  const [pending] = await database
+    .select({ id: tenantInvitations.id })
+    .from(tenantInvitations)
+    .where(
+      and(
+        eq(tenantInvitations.tenantId, tenantId),
+        eq(tenantInvitations.email, email),
+        eq(tenantInvitations.status, "pending")
+      )
+    )
+    .limit(1);
+  if (pending) {
+    throw new Error("This email already has a pending invitation — resend it instead");
+  }
+
+  const token = generateToken();
+  const [invitation] = await database
+    .insert(tenantInvitations)
+    .values({
+      tenantId,
+      email,
+      fullName: params.fullName,
+      roleId: params.roleId,
+      pinHash: params.pin ? await hashPassword(params.pin) : null,
+      invitedBy: params.invitedBy.id,
+      tokenHash: await hashToken(token),
+      expiresAt: new Date(Date.now() + INVITATION_DURATION_MS),
+    })
+    .returning();
+
+  await sendInvitationMail(invitation!, token, params.invitedBy.fullName, database);
+  return invitation!;
+}
+
+/**
+ * Email a pending or expired invitation again, with a new link and a fresh
+ * expiry. The previous link stops working.
+ */
+export async function resendInvitation(
+  tenantId: string,
+  invitationId: string,
+  invitedBy: { fullName: string },
+  database: Database | Transaction = adminDb
+): Promise<TenantInvitation> {
+  const [invitation] = await database
+    .select()
+    .from(tenantInvitations)
+    .where(
+      and(
+        eq(tenantInvitations.id, invitationId),
+        eq(tenantInvitations.tenantId, tenantId)
+      )
+    )
+    .limit(1);
+
+  if (!invitation) throw new Error("Invitation not found");
+  if (invitation.status === "accepted" || invitation.status === "revoked") {
+    throw new Error(`Invitation was already ${invitation.status}`);
+  }
+
+  const token = generateToken();
+  const [updated] = await database
+    .update(tenantInvitations)
+    .set({
+      status: "pending",
+      tokenHash: await hashToken(token),
+      expiresAt: new Date(Date.now() + INVITATION_DURATION_MS),
+    })
+    .where(eq(tenantInvitations.id, invitation.id))
+    .returning();
+
+  await sendInvitationMail(invitation, token, invitedBy.fullName, database);
+  return updated!;
+}
+
+/**
+ * Withdraw a pending invitation — its link stops working.
+ */
+export async function revokeInvitation(
+  tenantId: string,
+  invitationId: string,
+  database: Database | Transaction = adminDb
+): Promise<TenantInvitation> {
+  const [revoked] = await database
+    .update(tenantInvitations)
+    .set({ status: "revoked", revokedAt: new Date() })
+    .where(
+      and(
+        eq(tenantInvitations.id, invitationId),
+        eq(tenantInvitations.tenantId, tenantId),
+        eq(tenantInvitations.status, "pending")
+      )
+    )
+    .returning();
+
+  if (!revoked) throw new Error("No pending invitation to revoke");
+  return revoked;
+}
+
+/**
+ * Look up an invitation by the token from its link.
+ * Returns null for unknown tokens.
+ */
+export async function getInvitationByToken(
+  token: string
+): Promise<InvitationDetails | null> {
+  const [row] = await adminDb
+    .select({
+      invitation: tenantInvitations,
+      tenantName: tenants.name,
+      roleName: roles.name,
+      invitedBy: users.fullName,
+    })
+    .from(tenantInvitations)
+    .innerJoin(tenants, eq(tenantInvitations.tenantId, tenants.id))
+    .innerJoin(roles, eq(tenantInvitations.roleId, roles.id))
+    .leftJoin(users, eq(tenantInvitations.invitedBy, users.id))
+    .where(eq(tenantInvitations.tokenHash, await hashToken(token)))
+    .limit(1);
+
+  if (!row) return null;
+
+  const [account] = await adminDb
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.email, row.invitation.email))
+    .limit(1);
+
+  return {
+    status: invitationStatus(row.invitation),
+    email: row.invitation.email,
+    fullName: row.invitation.fullName,
+    tenantName: row.tenantName,
+    roleName: row.roleName,
+    invitedBy: row.invitedBy,
+    expiresAt: row.invitation.expiresAt,
+    hasAccount: !!account,
+  };
+}
+
+/**
+ * Accept an invitation: create the membership (and the account, with the
+ * given password, if the email has none). New accounts are signed in; the
+ * link proves they own the email, so it counts as verified.
+ */
+export async function acceptInvitation(params: {
+  token: string;
+  /** Required when the email has no account yet */
+  password?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AcceptInvitationResult> {
+  const tokenHash = await hashToken(params.token);
+
+  const accepted = await adminDb.transaction(async (tx) => {
+    const [invitation] = await tx
+      .select()
+      .from(tenantInvitations)
+      .where(eq(tenantInvitations.tokenHash, tokenHash))
+      .limit(1)
+      .for("update");
+
+    if (!invitation || invitationStatus(invitation) !== "pending") {
+      throw new AuthError("This invitation is no longer valid", 400);
+    }
+
+    let [user] = await tx
+      .select({ id: users.id, isActive: users.isActive })
+      .from(users)
+      .where(eq(users.email, invitation.email))
+      .limit(1);
+
+    const isNewUser = !user;
+    if (!user) {
+      if (!params.password) {
+        throw new AuthError("Choose a password to create your account", 400);
+      }
+      [user] = await tx
+        .insert(users)
+        .values({
+          email: invitation.email,
+          fullName: invitation.fullName,
+          passwordHash: await hashPassword(params.password),
+          emailVerified: true,
+        })
+        .returning({ id: users.id, isActive: users.isActive });
+    }
+    if (!user || !user.isActive) {
+      throw new AuthError("This account is disabled", 403);
+    }
+
+    const [existing] = await tx
+      .select({ id: tenantMemberships.id })
+      .from(tenantMemberships)
+      .where(
+        and(
+          eq(tenantMemberships.tenantId, invitation.tenantId),
+          eq(tenantMemberships.userId, user.id)
+        )
+      )
+      .limit(1);
+
+    if (!existing) {
+      try {
+        await assertMemberLimit(invitation.tenantId, tx);
+      } catch (error) {
+        throw new AuthError(
+          error instanceof Error ? error.message : "Member limit reached",
+          403
+        );
+      }
+
+      await tx.insert(tenantMemberships).values({
+        tenantId: invitation.tenantId,
+        userId: user.id,
+        roleId: invitation.roleId,
+        pinHash: invitation.pinHash,
+      });
+    }
+
+    await tx
+      .update(tenantInvitations)
+      .set({ status: "accepted", acceptedBy: user.id, acceptedAt: new Date() })
+      .where(eq(tenantInvitations.id, invitation.id));
+
+    await createAuditLog(
+      {
+        tenantId: invitation.tenantId,
+        userId: user.id,
+        action: "user:invitation_accepted",
+        resourceType: "invitation",
+        resourceId: invitation.id,
+        changes: { after: { roleId: invitation.roleId, newAccount: isNewUser } },
+        ipAddress: params.ipAddress,
+      },
+      tx
+    );
+
+    const [tenant] = await tx
+      .select({ slug: tenants.slug })
+      .from(tenants)
+      .where(eq(tenants.id, invitation.tenantId))
+      .limit(1);
+
+    return {
+      userId: user.id,
+      tenantId: invitation.tenantId,
+      tenantSlug: tenant!.slug,
+      isNewUser,
+    };
+  });
+
+  const session = accepted.isNewUser
+    ? await createSession({
+        userId: accepted.userId,
+        tenantId: accepted.tenantId,
+        authMethod: "password",
+        ipAddress: params.ipAddress,
+        userAgent: params.userAgent,
+      })
+    : null;
+
+  return {
+    userId: accepted.userId,
+    tenantId: accepted.tenantId,
+    tenantSlug: accepted.tenantSlug,
+    session: session && { token: session.token, expiresAt: session.expiresAt },
+  };
+}
+
+/**
+ * Mark pending invitations past their expiry as expired.
+ *
+ * @returns The number of invitations expired
+ */
+export async function expireInvitations(
+  database: Database | Transaction = adminDb
+): Promise<number> {
+  const expired = await database
+    .update(tenantInvitations)
+    .set({ status: "expired" })
+    .where(
+      and(
+        eq(tenantInvitations.status, "pending"),
+        lt(tenantInvitations.expiresAt, sql`now()`)
+      )
+    )
+    .returning({ id: tenantInvitations.id });
+  return expired.length;
+}
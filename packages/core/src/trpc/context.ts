@@ -1,5 +1,7 @@
+import { randomUUID } from "node:crypto";
 import type { SessionValidationResult } from "../auth/session";
-import type { Database } from "../db/index";
+import { validateApiKey } from "../auth/api-keys";
+import type { Database, Transaction } from "../db/index";
 import { db } from "../db/index";
 
 // ============================================
@@ -9,30 +11,55 @@ import { db } from "../db/index";
 export interface Context {
   /** Session data (null if not authenticated) */
   session: SessionValidationResult | null;
-  /** Database connection (single pool, no RLS) */
-  db: Database;
+  /**
+   * Database connection. The platform pool by default; in tenant-scoped
+   * procedures, a transaction where RLS limits rows to ctx.tenantId.
+   */
+  db: Database | Transaction;
   /** Client IP address */
   ipAddress?: string;
   /** Client user agent */
   userAgent?: string;
   /** X-TRPC-Source header for CSRF protection */
   trpcSource?: string;
+  /** Correlates every audit entry written while handling this request */
+  requestId: string;
 }
 
+/** Accept a caller-supplied X-Request-ID only if it is a plain token */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,64}$/;
+
 /**
  * Create the tRPC context for a request.
+ * A `Bearer` Authorization header authenticates with an API key instead of
+ * the session — an invalid key leaves the request unauthenticated rather
+ * than falling back to a cookie.
  */
-export function createContext(params: {
+export async function createContext(params: {
   session: SessionValidationResult | null;
+  /** Authorization header, for API key requests */
+  authorization?: string | null;
   ipAddress?: string;
   userAgent?: string;
   trpcSource?: string;
-}): Context {
+  /** X-Request-ID header; a fresh UUID is used if absent or malformed */
+  requestId?: string | null;
+}): Promise<Context> {
+  let session = params.session;
+  if (params.authorization) {
+    const bearer = params.authorization.match(/^Bearer\s+(\S+)$/i)?.[1];
+    session = bearer ? await validateApiKey(bearer) : null;
+  }
+
   return {
-    session: params.session,
+    session,
     db,
     ipAddress: params.ipAddress,
     userAgent: params.userAgent,
     trpcSource: params.trpcSource,
+    requestId:
+      params.requestId && REQUEST_ID_PATTERN.test(params.requestId)
+        ? params.requestId
+        : randomUUID(),
   };
 }
@@ -5,9 +5,12 @@ export {
   protectedProcedure,
   tenantProcedure,
   adminProcedure,
+  ownerProcedure,
   superAdminProcedure,
   createCallerFactory,
   requirePermission,
+  requireLocationPermission,
   requireModule,
+  type ProcedureMeta,
 } from "./procedures";
 export { appRouter, type AppRouter } from "./routers/index";
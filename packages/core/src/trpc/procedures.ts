@@ -2,18 +2,36 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { Context } from "./context";
 import { checkPermission } from "../rbac/index";
-import { isModuleEnabled } from "../modules/index";
-import { db } from "../db/index";
+import { checkTenantAccess } from "../auth/session";
+import { getModuleConfig } from "../modules/index";
+import { withTenantTransaction, type Transaction } from "../db/index";
+import {
+  createAuditLog,
+  getAuditScope,
+  runWithAuditScope,
+  type AuditLogEntry,
+} from "../audit/index";
 
 // ============================================
 // tRPC Initialization + Base Procedures
 // ============================================
-// Tenant isolation is enforced at the application layer.
-// All tenant-scoped queries use WHERE tenant_id = ? filters.
-// ctx.db is the single database connection everywhere.
+// Tenant-scoped procedures run in a per-request transaction bound to the
+// tenant (withTenantTransaction) — ctx.db is that transaction, and RLS
+// rejects rows of any other tenant. Queries still filter by tenant_id;
+// RLS is the backstop. Other procedures get the platform connection.
+//
+// Every successful mutation must write at least one audit entry (tenant
+// procedures: ctx.audit), or say why not with .meta({ auditExempt }).
 // ============================================
 
-const t = initTRPC.context<Context>().create({
+export interface ProcedureMeta {
+  /** Why this mutation writes no audit entry, e.g. "read-only check" */
+  auditExempt?: string;
+  /** Allowed in read-only sessions — it changes only the caller's session */
+  allowReadOnly?: boolean;
+}
+
+const t = initTRPC.context<Context>().meta<ProcedureMeta>().create({
   transformer: superjson,
   errorFormatter({ shape }) {
     return shape;
@@ -23,11 +41,52 @@ const t = initTRPC.context<Context>().create({
 export const router = t.router;
 export const createCallerFactory = t.createCallerFactory;
 
+// ------------------------------------------
+// Middleware: Audit scope
+// Entries written during the call are stamped with ctx.requestId and
+// ctx.userAgent and counted. A mutation that succeeds without writing one
+// and without meta.auditExempt fails — tenant procedures check before the
+// transaction commits (hasTenantContext), so nothing unaudited persists.
+// ------------------------------------------
+function assertMutationAudited(
+  type: string,
+  path: string,
+  meta: ProcedureMeta | undefined
+): void {
+  const scope = getAuditScope();
+  if (type !== "mutation" || meta?.auditExempt || !scope || scope.entries > 0) {
+    return;
+  }
+  throw new TRPCError({
+    code: "INTERNAL_SERVER_ERROR",
+    message: `Mutation "${path}" wrote no audit entry`,
+  });
+}
+
+const auditScope = t.middleware(({ ctx, type, path, meta, next }) =>
+  runWithAuditScope(
+    {
+      requestId: ctx.requestId,
+      userAgent: ctx.userAgent,
+      impersonatorId: ctx.session?.session.impersonator?.id,
+      apiKeyId: ctx.session?.session.apiKey?.id,
+      entries: 0,
+    },
+    async () => {
+      const result = await next();
+      if (result.ok) assertMutationAudited(type, path, meta);
+      return result;
+    }
+  )
+);
+
 // ------------------------------------------
 // Middleware: CSRF protection
+// API key requests are exempt: the key travels in the Authorization header,
+// which a browser never attaches to a cross-site request on its own.
 // ------------------------------------------
 const csrfProtection = t.middleware(({ ctx, type, next }) => {
-  if (type === "mutation") {
+  if (type === "mutation" && !ctx.session?.session.apiKey) {
     const source = ctx.trpcSource;
     if (source !== "react" && source !== "server") {
       throw new TRPCError({
@@ -39,9 +98,39 @@ const csrfProtection = t.middleware(({ ctx, type, next }) => {
   return next({ ctx });
 });
 
+// ------------------------------------------
+// Middleware: Read-only sessions
+// Impersonation sessions are read-only unless writes were allowed when
+// starting them (see auth/impersonation.ts).
+// ------------------------------------------
+const readOnlySession = t.middleware(({ ctx, type, meta, next }) => {
+  if (
+    type === "mutation" &&
+    ctx.session?.session.readOnly &&
+    !meta?.allowReadOnly
+  ) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "This session is read-only",
+    });
+  }
+  return next({ ctx });
+});
+
 // ------------------------------------------
 // Middleware: Auth (session validation)
+// Account and platform procedures need a real session — API keys only
+// reach tenant procedures, where their permissions apply.
 // ------------------------------------------
+function rejectApiKey(ctx: Context): void {
+  if (ctx.session?.session.apiKey) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Not available to API keys",
+    });
+  }
+}
+
 const isAuthenticated = t.middleware(({ ctx, next }) => {
   if (!ctx.session) {
     throw new TRPCError({
@@ -49,6 +138,7 @@ const isAuthenticated = t.middleware(({ ctx, next }) => {
       message: "You must be logged in",
     });
   }
+  rejectApiKey(ctx);
 
   return next({
     ctx: {
@@ -60,50 +150,105 @@ const isAuthenticated = t.middleware(({ ctx, next }) => {
 
 // ------------------------------------------
 // Middleware: Tenant context
-// Validates tenant selection and membership.
-// Passes tenantId in context for WHERE filters.
+// Validates tenant selection, membership and MFA (checkTenantAccess, shared
+// with tenant API routes), then runs the rest of the request in a
+// tenant-bound transaction (ctx.db). tenantId is in context for WHERE
+// filters; ctx.audit writes an entry attributed to this request.
 // ------------------------------------------
-const hasTenantContext = t.middleware(async ({ ctx, next }) => {
-  if (!ctx.session) {
-    throw new TRPCError({
-      code: "UNAUTHORIZED",
-      message: "You must be logged in",
-    });
+const ROLLBACK = Symbol("rollback");
+
+const hasTenantContext = t.middleware(async ({ ctx, type, path, meta, next }) => {
+  const access = checkTenantAccess(ctx.session);
+  if (!access.ok) {
+    throw new TRPCError({ code: access.code, message: access.message });
   }
+  const { session, tenantId, membership } = access;
+
+  const run = (tx: Transaction) =>
+    next({
+      ctx: {
+        ...ctx,
+        db: tx,
+        session,
+        tenantId,
+        membership,
+        /** Audit entry for this tenant, user, IP and request */
+        audit: (
+          action: string,
+          resource?: { type: string; id?: string },
+          changes?: AuditLogEntry["changes"]
+        ) =>
+          createAuditLog(
+            {
+              tenantId,
+              userId: session.user.id,
+              action,
+              resourceType: resource?.type,
+              resourceId: resource?.id,
+              changes,
+              ipAddress: ctx.ipAddress,
+            },
+            tx
+          ),
+      },
+    });
 
-  if (!ctx.session.session.tenantId) {
-    throw new TRPCError({
-      code: "BAD_REQUEST",
-      message: "No tenant selected. Please select a tenant first.",
+  // next() reports procedure errors in its result rather than throwing —
+  // throw to roll the transaction back, then hand the result on unchanged
+  let result!: Awaited<ReturnType<typeof run>>;
+  try {
+    await withTenantTransaction(tenantId, async (tx) => {
+      result = await run(tx);
+      if (!result.ok) throw ROLLBACK;
+      assertMutationAudited(type, path, meta);
     });
+  } catch (error) {
+    if (error !== ROLLBACK) throw error;
   }
+  return result;
+});
 
+// ------------------------------------------
+// Middleware: Admin check (owner or admin role)
+// ------------------------------------------
+const isAdmin = t.middleware(({ ctx, next }) => {
+  if (!ctx.session) {
+    throw new TRPCError({ code: "UNAUTHORIZED" });
+  }
+  rejectApiKey(ctx);
   if (!ctx.session.membership) {
     throw new TRPCError({
       code: "FORBIDDEN",
-      message: "You are not a member of this tenant",
+      message: "No tenant context",
     });
   }
 
-  const tenantId = ctx.session.session.tenantId;
+  const roleSlug = ctx.session.membership.roleSlug;
+  if (roleSlug !== "owner" && roleSlug !== "admin") {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Admin access required",
+    });
+  }
 
   return next({
     ctx: {
       ...ctx,
       session: ctx.session,
-      tenantId,
+      tenantId: ctx.session.session.tenantId!,
       membership: ctx.session.membership,
     },
   });
 });
 
 // ------------------------------------------
-// Middleware: Admin check (owner or admin role)
+// Middleware: Owner check (tenant owner role only)
 // ------------------------------------------
-const isAdmin = t.middleware(({ ctx, next }) => {
+const isOwner = t.middleware(({ ctx, next }) => {
   if (!ctx.session) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
+  rejectApiKey(ctx);
   if (!ctx.session.membership) {
     throw new TRPCError({
       code: "FORBIDDEN",
@@ -111,11 +256,10 @@ const isAdmin = t.middleware(({ ctx, next }) => {
     });
   }
 
-  const roleSlug = ctx.session.membership.roleSlug;
-  if (roleSlug !== "owner" && roleSlug !== "admin") {
+  if (ctx.session.membership.roleSlug !== "owner") {
     throw new TRPCError({
       code: "FORBIDDEN",
-      message: "Admin access required",
+      message: "Owner access required",
     });
   }
 
@@ -136,6 +280,7 @@ const isSuperAdmin = t.middleware(async ({ ctx, next }) => {
   if (!ctx.session) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
+  rejectApiKey(ctx);
 
   if (!ctx.session.user.isSuperAdmin) {
     throw new TRPCError({
@@ -157,27 +302,43 @@ const isSuperAdmin = t.middleware(async ({ ctx, next }) => {
 // ------------------------------------------
 
 /** No auth required */
-export const publicProcedure = t.procedure;
+export const publicProcedure = t.procedure.use(auditScope);
 
 /** Must be logged in (with CSRF protection on mutations) */
 export const protectedProcedure = t.procedure
+  .use(auditScope)
   .use(csrfProtection)
+  .use(readOnlySession)
   .use(isAuthenticated);
 
 /** Must be logged in + have a tenant selected. tenantId in ctx */
 export const tenantProcedure = t.procedure
+  .use(auditScope)
   .use(csrfProtection)
+  .use(readOnlySession)
   .use(hasTenantContext);
 
 /** Must be owner or admin within a tenant */
 export const adminProcedure = t.procedure
+  .use(auditScope)
   .use(csrfProtection)
+  .use(readOnlySession)
   .use(hasTenantContext)
   .use(isAdmin);
 
+/** Must be the tenant owner */
+export const ownerProcedure = t.procedure
+  .use(auditScope)
+  .use(csrfProtection)
+  .use(readOnlySession)
+  .use(hasTenantContext)
+  .use(isOwner);
+
 /** Must be a platform super admin */
 export const superAdminProcedure = t.procedure
+  .use(auditScope)
   .use(csrfProtection)
+  .use(readOnlySession)
   .use(isAuthenticated)
   .use(isSuperAdmin);
 
@@ -207,11 +368,51 @@ export function requirePermission(permission: string) {
   });
 }
 
+/**
+ * Like requirePermission, but checked against the active location: the
+ * location's role override if the member has one there, else their tenant
+ * role. Fails if no location is selected. Adds locationId to ctx.
+ */
+export function requireLocationPermission(permission: string) {
+  return t.middleware(({ ctx, next }) => {
+    if (!ctx.session?.membership) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "No permissions available",
+      });
+    }
+
+    const { location } = ctx.session.membership;
+    if (!location) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "No location selected. Please select a location first.",
+      });
+    }
+
+    if (!checkPermission(location.permissions, permission)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Missing permission at ${location.name}: ${permission}`,
+      });
+    }
+
+    return next({
+      ctx: {
+        ...ctx,
+        locationId: location.id,
+      },
+    });
+  });
+}
+
 // ------------------------------------------
 // Module enforcement middleware factory
 // ------------------------------------------
 
-export function requireModule(moduleId: string) {
+export function requireModule<
+  TConfig extends Record<string, unknown> = Record<string, unknown>,
+>(moduleId: string) {
   return t.middleware(async ({ ctx, next }) => {
     if (!ctx.session?.session.tenantId) {
       throw new TRPCError({
@@ -220,19 +421,25 @@ export function requireModule(moduleId: string) {
       });
     }
 
-    const ctxDb = (ctx as Record<string, unknown>).db;
-    const enabled = await isModuleEnabled(
+    // One lookup answers both "is it enabled?" and "with what config?"
+    const moduleConfig = await getModuleConfig(
       ctx.session.session.tenantId,
       moduleId,
-      ctxDb as typeof db
+      ctx.db
     );
-    if (!enabled) {
+    if (!moduleConfig) {
       throw new TRPCError({
         code: "FORBIDDEN",
         message: `Module "${moduleId}" is not enabled for this tenant`,
       });
     }
 
-    return next({ ctx });
+    return next({
+      ctx: {
+        ...ctx,
+        /** Tenant's resolved settings for this module (defaults applied) */
+        moduleConfig: moduleConfig as TConfig,
+      },
+    });
   });
 }
@@ -0,0 +1,155 @@
+import { randomUUID } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { eq, sql } from "drizzle-orm";
+import { adminDb, type Transaction } from "../../db/index";
+import { users, platformAuditLogs } from "../../db/schema/index";
+import type { SessionValidationResult } from "../../auth/session";
+import { appRouter } from "./index";
+import { createCallerFactory } from "../procedures";
+import { createContext } from "../context";
+
+// ============================================
+// Admin router — runs against a migrated database (DATABASE_URL)
+// ============================================
+// Each test runs in a transaction that is rolled back, so the platform
+// audit entries it writes (append-only) don't outlive it.
+// ============================================
+
+const ROLLBACK = Symbol("rollback");
+const createCaller = createCallerFactory(appRouter);
+
+/** Run fn as a fresh super admin inside a transaction that is rolled back */
+async function asSuperAdmin(
+  fn: (
+    caller: ReturnType<typeof createCaller>,
+    tx: Transaction,
+    userId: string
+  ) => Promise<void>
+): Promise<void> {
+  await adminDb
+    .transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values({
+          email: `admin-${randomUUID()}@example.test`,
+          fullName: "Platform Admin",
+          passwordHash: "-",
+          isSuperAdmin: true,
+        })
+        .returning();
+
+      const session: SessionValidationResult = {
+        session: {
+          id: randomUUID(),
+          userId: user!.id,
+          tenantId: null,
+          locationId: null,
+          authMethod: "password",
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+          readOnly: false,
+          impersonator: null,
+          mfaVerified: true,
+          apiKey: null,
+        },
+        user: {
+          id: user!.id,
+          email: user!.email,
+          fullName: user!.fullName,
+          avatarUrl: null,
+          isSuperAdmin: true,
+          emailVerified: true,
+        },
+      };
+      const ctx = await createContext({ session, trpcSource: "server" });
+
+      await fn(createCaller({ ...ctx, db: tx }), tx, user!.id);
+      throw ROLLBACK;
+    })
+    .catch((error) => {
+      if (error !== ROLLBACK) throw error;
+    });
+}
+
+async function platformEntries(tx: Transaction, resourceId: string) {
+  return tx
+    .select()
+    .from(platformAuditLogs)
+    .where(eq(platformAuditLogs.resourceId, resourceId));
+}
+
+describe.skipIf(!process.env.DATABASE_URL)("platform audit log", () => {
+  it("records plan changes", async () => {
+    await asSuperAdmin(async (caller, tx, userId) => {
+      const plan = await caller.admin.plans.create({
+        slug: `audit-${randomUUID().slice(0, 8)}`,
+        name: "Audited",
+        modules: [],
+        limits: {},
+      });
+      await caller.admin.plans.update({ planId: plan!.id, name: "Renamed" });
+
+      const entries = await platformEntries(tx, plan!.id);
+      expect(entries.map((e) => e.action).sort()).toEqual(["plan:created", "plan:updated"]);
+      expect(entries.find((e) => e.action === "plan:updated")).toMatchObject({
+        userId,
+        resourceType: "plan",
+        changes: { before: { name: "Audited" }, after: { name: "Renamed" } },
+      });
+    });
+  });
+
+  it("records role template changes", async () => {
+    await asSuperAdmin(async (caller, tx, userId) => {
+      const template = await caller.admin.roleTemplates.create({
+        slug: `audit-${randomUUID().slice(0, 8)}`,
+        name: "Audited",
+        permissions: ["core:users:read"],
+      });
+      await caller.admin.roleTemplates.update({
+        templateId: template!.id,
+        permissions: ["core:users:read", "core:audit:read"],
+      });
+      await caller.admin.roleTemplates.delete({ templateId: template!.id });
+
+      const entries = await platformEntries(tx, template!.id);
+      expect(entries.map((e) => e.action).sort()).toEqual([
+        "role_template:created",
+        "role_template:deleted",
+        "role_template:updated",
+      ]);
+      expect(entries.find((e) => e.action === "role_template:updated")).toMatchObject({
+        userId,
+        resourceType: "role_template",
+        changes: {
+          before: { permissions: ["core:users:read"], version: 1 },
+          after: { permissions: ["core:users:read", "core:audit:read"], version: 2 },
+        },
+      });
+    });
+  });
+
+  it("rejects updates and deletes", async () => {
+    await asSuperAdmin(async (caller, tx) => {
+      const plan = await caller.admin.plans.create({
+        slug: `audit-${randomUUID().slice(0, 8)}`,
+        name: "Audited",
+        modules: [],
+        limits: {},
+      });
+
+      // Savepoints, so the outer transaction survives the rejections
+      await expect(
+        tx.transaction((sp) =>
+          sp.execute(
+            sql`UPDATE platform_audit_logs SET action = 'x' WHERE resource_id = ${plan!.id}`
+          )
+        )
+      ).rejects.toThrow(/append-only/);
+      await expect(
+        tx.transaction((sp) =>
+          sp.execute(sql`DELETE FROM platform_audit_logs WHERE resource_id = ${plan!.id}`)
+        )
+      ).rejects.toThrow(/append-only/);
+    });
+  });
+});
@@ -1,11 +1,16 @@
 import { TRPCError } from "@trpc/server";
-import { eq, count } from "drizzle-orm";
+import { eq, and, sql, count, asc, desc } from "drizzle-orm";
 import { z } from "zod";
 import {
   router,
   superAdminProcedure,
 } from "../procedures";
 import {
+  auditLogArchives,
+  platformAuditLogs,
+  plans,
+  roleTemplates,
+  roles,
   tenants,
   tenantMemberships,
   tenantModules,
@@ -16,8 +21,36 @@ import {
   disableModule,
   getEnabledModules,
   getModuleRegistry,
+  detectModuleVersionDrift,
+  runModuleUpgrades,
+  requestModulePurge,
 } from "../../modules/index";
-import { createAuditLog } from "../../audit/index";
+import {
+  findUnknownPermissions,
+  previewRoleTemplate,
+  applyRoleTemplate,
+} from "../../rbac/index";
+import {
+  disableModuleSchema,
+  createPlanSchema,
+  updatePlanSchema,
+  setTenantPlanSchema,
+  createRoleTemplateSchema,
+  updateRoleTemplateSchema,
+  roleTemplateFromRoleSchema,
+  applyRoleTemplateSchema,
+  paginationSchema,
+  paginatedResult,
+  SYSTEM_ROLES,
+} from "@sme/shared";
+import {
+  createAuditLog,
+  createAuditLogBatch,
+  createPlatformAuditLog,
+  verifyAuditArchive,
+  restoreAuditArchive,
+} from "../../audit/index";
+import { invalidateAllUserSessions } from "../../auth/session";
 
 // ============================================
 // Admin Router — platform owner operations
@@ -36,6 +69,46 @@ import { createAuditLog } from "../../audit/index";
 // layer for tenant-scoped operations.
 // ============================================
 
+/** Reject plan module lists that reference unregistered modules */
+function assertKnownModules(moduleIds: string[]): void {
+  const registry = getModuleRegistry();
+  const unknown = moduleIds.filter((id) => !registry.has(id));
+  if (unknown.length > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Unknown module(s): ${unknown.join(", ")}`,
+    });
+  }
+}
+
+/** Reject template permissions that match nothing in the permission catalog */
+function assertKnownPermissions(permissions: string[]): void {
+  const unknown = findUnknownPermissions(permissions);
+  if (unknown.length > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Unknown permissions: ${unknown.join(", ")}`,
+    });
+  }
+}
+
+/** Template slugs must not shadow the seeded system roles */
+function assertTemplateSlug(slug: string): void {
+  if ((SYSTEM_ROLES as readonly string[]).includes(slug)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `"${slug}" is a system role slug`,
+    });
+  }
+}
+
+const moduleUpgradeFilterSchema = z
+  .object({
+    tenantId: z.string().uuid().optional(),
+    moduleId: z.string().min(1).max(50).optional(),
+  })
+  .optional();
+
 export const adminRouter = router({
   /**
    * List all tenants with basic stats.
@@ -47,6 +120,7 @@ export const adminRouter = router({
         id: tenants.id,
         name: tenants.name,
         slug: tenants.slug,
+        planId: tenants.planId,
         isActive: tenants.isActive,
         createdAt: tenants.createdAt,
         updatedAt: tenants.updatedAt,
@@ -144,6 +218,562 @@ export const adminRouter = router({
       return updated;
     }),
 
+  /**
+   * A tenant's members — the users an admin can impersonate.
+   */
+  tenantMembers: superAdminProcedure
+    .input(z.object({ tenantId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return ctx.db
+        .select({
+          userId: users.id,
+          fullName: users.fullName,
+          email: users.email,
+          isSuperAdmin: users.isSuperAdmin,
+          roleName: roles.name,
+          isActive: tenantMemberships.isActive,
+        })
+        .from(tenantMemberships)
+        .innerJoin(users, eq(tenantMemberships.userId, users.id))
+        .innerJoin(roles, eq(tenantMemberships.roleId, roles.id))
+        .where(eq(tenantMemberships.tenantId, input.tenantId))
+        .orderBy(asc(users.fullName));
+    }),
+
+  /**
+   * Sign a user out on every device, in every tenant. Recorded in the
+   * audit log of each tenant they belong to.
+   */
+  revokeUserSessions: superAdminProcedure
+    .meta({
+      auditExempt: "audited per tenant; a user without memberships has no audit log",
+    })
+    .input(z.object({ userId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.userId === ctx.session.user.id) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Manage your own sessions from Security settings",
+        });
+      }
+
+      const memberships = await ctx.db
+        .select({ tenantId: tenantMemberships.tenantId })
+        .from(tenantMemberships)
+        .where(eq(tenantMemberships.userId, input.userId));
+
+      const revoked = await invalidateAllUserSessions(input.userId);
+
+      await createAuditLogBatch(
+        memberships.map((membership) => ({
+          tenantId: membership.tenantId,
+          userId: ctx.session.user.id,
+          action: "admin:user:sessions_revoked",
+          resourceType: "user",
+          resourceId: input.userId,
+          changes: { after: { revoked } },
+          ipAddress: ctx.ipAddress,
+        })),
+        ctx.db
+      );
+
+      return { revoked };
+    }),
+
+  /**
+   * Plans — module entitlements and limits assigned to tenants.
+   */
+  plans: router({
+    /** List all plans (inactive ones included) */
+    list: superAdminProcedure.query(async ({ ctx }) => {
+      return ctx.db.select().from(plans).orderBy(asc(plans.name));
+    }),
+
+    /** Create a plan */
+    create: superAdminProcedure
+      .input(createPlanSchema)
+      .mutation(async ({ input, ctx }) => {
+        assertKnownModules(input.modules);
+
+        const [existing] = await ctx.db
+          .select({ id: plans.id })
+          .from(plans)
+          .where(eq(plans.slug, input.slug))
+          .limit(1);
+
+        if (existing) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "A plan with this slug already exists",
+          });
+        }
+
+        const [plan] = await ctx.db
+          .insert(plans)
+          .values({
+            slug: input.slug,
+            name: input.name,
+            description: input.description ?? null,
+            modules: input.modules,
+            limits: input.limits,
+          })
+          .returning();
+
+        await createPlatformAuditLog(
+          {
+            userId: ctx.session.user.id,
+            action: "plan:created",
+            resourceType: "plan",
+            resourceId: plan!.id,
+            changes: {
+              after: { slug: plan!.slug, modules: plan!.modules, limits: plan!.limits },
+            },
+            ipAddress: ctx.ipAddress,
+          },
+          ctx.db
+        );
+
+        return plan;
+      }),
+
+    /**
+     * Update a plan. Removing a module from a plan does not disable it for
+     * tenants already using it — it only stops owners toggling it.
+     */
+    update: superAdminProcedure
+      .input(updatePlanSchema)
+      .mutation(async ({ input, ctx }) => {
+        const { planId, ...updates } = input;
+        if (updates.modules) assertKnownModules(updates.modules);
+
+        const [existing] = await ctx.db
+          .select()
+          .from(plans)
+          .where(eq(plans.id, planId))
+          .limit(1);
+
+        if (!existing) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Plan not found",
+          });
+        }
+
+        const [updated] = await ctx.db
+          .update(plans)
+          .set(updates)
+          .where(eq(plans.id, planId))
+          .returning();
+
+        if (!updated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Plan not found",
+          });
+        }
+
+        const keys = Object.keys(updates) as (keyof typeof updates)[];
+        await createPlatformAuditLog(
+          {
+            userId: ctx.session.user.id,
+            action: "plan:updated",
+            resourceType: "plan",
+            resourceId: planId,
+            changes: {
+              before: Object.fromEntries(keys.map((k) => [k, existing[k]])),
+              after: updates,
+            },
+            ipAddress: ctx.ipAddress,
+          },
+          ctx.db
+        );
+
+        return updated;
+      }),
+  }),
+
+  /**
+   * Role templates — platform roles applied to tenants as linked roles.
+   * Editing a template's permissions bumps its version; tenants accept or
+   * dismiss the change themselves (roles.templateUpdates).
+   */
+  roleTemplates: router({
+    /** List all templates */
+    list: superAdminProcedure.query(async ({ ctx }) => {
+      return ctx.db.select().from(roleTemplates).orderBy(asc(roleTemplates.name));
+    }),
+
+    /** Create a template */
+    create: superAdminProcedure
+      .input(createRoleTemplateSchema)
+      .mutation(async ({ input, ctx }) => {
+        assertTemplateSlug(input.slug);
+        assertKnownPermissions(input.permissions);
+
+        const [existing] = await ctx.db
+          .select({ id: roleTemplates.id })
+          .from(roleTemplates)
+          .where(eq(roleTemplates.slug, input.slug))
+          .limit(1);
+
+        if (existing) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "A role template with this slug already exists",
+          });
+        }
+
+        const [template] = await ctx.db
+          .insert(roleTemplates)
+          .values({
+            slug: input.slug,
+            name: input.name,
+            description: input.description ?? null,
+            permissions: input.permissions,
+          })
+          .returning();
+
+        await createPlatformAuditLog(
+          {
+            userId: ctx.session.user.id,
+            action: "role_template:created",
+            resourceType: "role_template",
+            resourceId: template!.id,
+            changes: {
+              after: { slug: template!.slug, permissions: template!.permissions },
+            },
+            ipAddress: ctx.ipAddress,
+          },
+          ctx.db
+        );
+
+        return template;
+      }),
+
+    /** A tenant's roles — the sources fromRole can clone */
+    tenantRoles: superAdminProcedure
+      .input(z.object({ tenantId: z.string().uuid() }))
+      .query(async ({ input, ctx }) => {
+        return ctx.db
+          .select({
+            id: roles.id,
+            name: roles.name,
+            slug: roles.slug,
+            isSystem: roles.isSystem,
+            permissions: roles.permissions,
+            templateId: roles.templateId,
+          })
+          .from(roles)
+          .where(eq(roles.tenantId, input.tenantId))
+          .orderBy(asc(roles.name));
+      }),
+
+    /**
+     * Clone any tenant's role into a new template (e.g. a custom
+     * "Kitchen Lead" built in one tenant, reused in others).
+     */
+    fromRole: superAdminProcedure
+      .input(roleTemplateFromRoleSchema)
+      .mutation(async ({ input, ctx }) => {
+        const [role] = await ctx.db
+          .select()
+          .from(roles)
+          .where(eq(roles.id, input.roleId))
+          .limit(1);
+
+        if (!role) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Role not found" });
+        }
+
+        const slug = input.slug ?? role.slug;
+        assertTemplateSlug(slug);
+        assertKnownPermissions(role.permissions ?? []);
+
+        const [existing] = await ctx.db
+          .select({ id: roleTemplates.id })
+          .from(roleTemplates)
+          .where(eq(roleTemplates.slug, slug))
+          .limit(1);
+
+        if (existing) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "A role template with this slug already exists",
+          });
+        }
+
+        const [template] = await ctx.db
+          .insert(roleTemplates)
+          .values({
+            slug,
+            name: input.name ?? role.name,
+            description: role.description,
+            permissions: role.permissions ?? [],
+          })
+          .returning();
+
+        // The source role now tracks the template it seeded
+        await ctx.db
+          .update(roles)
+          .set({ templateId: template!.id, templateVersion: template!.version })
+          .where(eq(roles.id, role.id));
+
+        await createAuditLog(
+          {
+            tenantId: role.tenantId,
+            userId: ctx.session.user.id,
+            action: "role:linked_to_template",
+            resourceType: "role",
+            resourceId: role.id,
+            changes: {
+              after: { templateId: template!.id, templateVersion: template!.version },
+            },
+            ipAddress: ctx.ipAddress,
+          },
+          ctx.db
+        );
+
+        await createPlatformAuditLog(
+          {
+            userId: ctx.session.user.id,
+            action: "role_template:created",
+            resourceType: "role_template",
+            resourceId: template!.id,
+            changes: {
+              after: {
+                slug: template!.slug,
+                permissions: template!.permissions,
+                fromRoleId: role.id,
+              },
+            },
+            ipAddress: ctx.ipAddress,
+          },
+          ctx.db
+        );
+
+        return template;
+      }),
+
+    /**
+     * Update a template. A permissions change bumps the version, which
+     * offers the update to every tenant with a linked role.
+     */
+    update: superAdminProcedure
+      .input(updateRoleTemplateSchema)
+      .mutation(async ({ input, ctx }) => {
+        const { templateId, ...updates } = input;
+        if (updates.permissions) assertKnownPermissions(updates.permissions);
+
+        const [existing] = await ctx.db
+          .select()
+          .from(roleTemplates)
+          .where(eq(roleTemplates.id, templateId))
+          .limit(1);
+
+        if (!existing) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Role template not found",
+          });
+        }
+
+        const permissionsChanged =
+          updates.permissions !== undefined &&
+          (updates.permissions.length !== existing.permissions.length ||
+            updates.permissions.some((p) => !existing.permissions.includes(p)));
+
+        const [updated] = await ctx.db
+          .update(roleTemplates)
+          .set({
+            ...updates,
+            version: permissionsChanged ? existing.version + 1 : existing.version,
+          })
+          .where(eq(roleTemplates.id, templateId))
+          .returning();
+
+        // Tenants audit accepting the new version themselves
+        const keys = Object.keys(updates) as (keyof typeof updates)[];
+        await createPlatformAuditLog(
+          {
+            userId: ctx.session.user.id,
+            action: "role_template:updated",
+            resourceType: "role_template",
+            resourceId: templateId,
+            changes: {
+              before: {
+                ...Object.fromEntries(keys.map((k) => [k, existing[k]])),
+                version: existing.version,
+              },
+              after: { ...updates, version: updated!.version },
+            },
+            ipAddress: ctx.ipAddress,
+          },
+          ctx.db
+        );
+
+        return updated;
+      }),
+
+    /**
+     * Delete a template. Roles created from it stay, unlinked.
+     */
+    delete: superAdminProcedure
+      .input(z.object({ templateId: z.string().uuid() }))
+      .mutation(async ({ input, ctx }) => {
+        const [deleted] = await ctx.db
+          .delete(roleTemplates)
+          .where(eq(roleTemplates.id, input.templateId))
+          .returning();
+
+        if (!deleted) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Role template not found",
+          });
+        }
+
+        await createPlatformAuditLog(
+          {
+            userId: ctx.session.user.id,
+            action: "role_template:deleted",
+            resourceType: "role_template",
+            resourceId: deleted.id,
+            changes: {
+              before: { slug: deleted.slug, permissions: deleted.permissions },
+            },
+            ipAddress: ctx.ipAddress,
+          },
+          ctx.db
+        );
+
+        return { success: true };
+      }),
+
+    /**
+     * Per-tenant diff of applying a template: roles to create, pending
+     * opt-in updates, and slug conflicts. Read-only.
+     */
+    preview: superAdminProcedure
+      .input(applyRoleTemplateSchema)
+      .query(async ({ input, ctx }) => {
+        try {
+          return await previewRoleTemplate(
+            input.templateId,
+            { tenantId: input.tenantId },
+            ctx.db
+          );
+        } catch (error) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: error instanceof Error ? error.message : "Preview failed",
+          });
+        }
+      }),
+
+    /**
+     * Create the template's role in one tenant or every active tenant.
+     * Existing roles are never overwritten.
+     */
+    applyToTenants: superAdminProcedure
+      .input(applyRoleTemplateSchema)
+      .mutation(async ({ input, ctx }) => {
+        try {
+          const results = await ctx.db.transaction((tx) =>
+            applyRoleTemplate(
+              input.templateId,
+              {
+                tenantId: input.tenantId,
+                userId: ctx.session.user.id,
+                ipAddress: ctx.ipAddress,
+              },
+              tx
+            )
+          );
+
+          const created = results.filter((r) => r.status === "created").length;
+          const skipped = results.filter((r) => r.status === "skipped").length;
+
+          // Each tenant that got the role audits it too (applyRoleTemplate)
+          await createPlatformAuditLog(
+            {
+              userId: ctx.session.user.id,
+              action: "role_template:applied",
+              resourceType: "role_template",
+              resourceId: input.templateId,
+              changes: { after: { tenantId: input.tenantId ?? null, created, skipped } },
+              ipAddress: ctx.ipAddress,
+            },
+            ctx.db
+          );
+
+          return { created, skipped, results };
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Apply failed",
+          });
+        }
+      }),
+  }),
+
+  /**
+   * Assign a plan to a tenant (or clear it with planId: null).
+   */
+  setTenantPlan: superAdminProcedure
+    .input(setTenantPlanSchema)
+    .mutation(async ({ input, ctx }) => {
+      const [tenant] = await ctx.db
+        .select({ id: tenants.id, planId: tenants.planId })
+        .from(tenants)
+        .where(eq(tenants.id, input.tenantId))
+        .limit(1);
+
+      if (!tenant) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Tenant not found",
+        });
+      }
+
+      if (input.planId) {
+        const [plan] = await ctx.db
+          .select({ id: plans.id, isActive: plans.isActive })
+          .from(plans)
+          .where(eq(plans.id, input.planId))
+          .limit(1);
+
+        if (!plan || !plan.isActive) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Plan not found or inactive",
+          });
+        }
+      }
+
+      await ctx.db
+        .update(tenants)
+        .set({ planId: input.planId })
+        .where(eq(tenants.id, input.tenantId));
+
+      await createAuditLog(
+        {
+          tenantId: input.tenantId,
+          userId: ctx.session.user.id,
+          action: "admin:tenant:plan_changed",
+          resourceType: "tenant",
+          resourceId: input.tenantId,
+          changes: {
+            before: { planId: tenant.planId },
+            after: { planId: input.planId },
+          },
+          ipAddress: ctx.ipAddress,
+        },
+        ctx.db
+      );
+
+      return { success: true, planId: input.planId };
+    }),
+
   /**
    * Get enabled modules for a specific tenant.
    */
@@ -158,6 +788,7 @@ export const adminRouter = router({
    * Enable a module for a specific tenant.
    */
   enableModule: superAdminProcedure
+    .meta({ auditExempt: "audited by enableModule; already enabled is a no-op" })
     .input(
       z.object({
         tenantId: z.string().uuid(),
@@ -188,8 +819,42 @@ export const adminRouter = router({
 
   /**
    * Disable a module for a specific tenant.
+   * mode "archive" writes an NDJSON bundle first; mode "purge" deletes the
+   * tenant's module data and needs a token from requestModulePurge.
    */
   disableModule: superAdminProcedure
+    .meta({ auditExempt: "audited by disableModule; already disabled is a no-op" })
+    .input(
+      disableModuleSchema.extend({
+        tenantId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const result = await disableModule(
+          input.tenantId,
+          input.moduleId,
+          ctx.session.user.id,
+          ctx.db,
+          { mode: input.mode, confirmationToken: input.confirmationToken }
+        );
+        return { success: true, moduleId: input.moduleId, ...result };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to disable module",
+        });
+      }
+    }),
+
+  /**
+   * Start a module data purge: returns current row counts and a single-use
+   * confirmation token (valid 10 minutes) for disableModule({ mode: "purge" }).
+   */
+  requestModulePurge: superAdminProcedure
     .input(
       z.object({
         tenantId: z.string().uuid(),
@@ -198,21 +863,173 @@ export const adminRouter = router({
     )
     .mutation(async ({ input, ctx }) => {
       try {
-        await disableModule(
+        return await requestModulePurge(
           input.tenantId,
           input.moduleId,
           ctx.session.user.id,
           ctx.db
         );
-        return { success: true, moduleId: input.moduleId };
       } catch (error) {
         throw new TRPCError({
           code: "BAD_REQUEST",
           message:
             error instanceof Error
               ? error.message
-              : "Failed to disable module",
+              : "Failed to request module purge",
         });
       }
     }),
+
+  /**
+   * Module upgrades — tenants whose installed module version lags the code.
+   */
+  moduleUpgrades: router({
+    /**
+     * Preview pending upgrades: versions, compatibility, pending migrations
+     * and the permissions roleDefaults would add. Read-only.
+     */
+    preview: superAdminProcedure
+      .input(moduleUpgradeFilterSchema)
+      .query(async ({ input, ctx }) => {
+        return detectModuleVersionDrift(input ?? {}, ctx.db);
+      }),
+
+    /**
+     * Run pending upgrades. Each tenant upgrades in its own transaction;
+     * failures are reported per item rather than aborting the run.
+     */
+    run: superAdminProcedure
+      .meta({ auditExempt: "audited per tenant by runModuleUpgrades; nothing pending is a no-op" })
+      .input(moduleUpgradeFilterSchema)
+      .mutation(async ({ input, ctx }) => {
+        const results = await runModuleUpgrades(
+          {
+            ...input,
+            userId: ctx.session.user.id,
+            ipAddress: ctx.ipAddress,
+          },
+          ctx.db
+        );
+
+        return {
+          upgraded: results.filter((r) => r.status === "upgraded").length,
+          failed: results.filter((r) => r.status === "failed").length,
+          skipped: results.filter((r) => r.status === "skipped").length,
+          results,
+        };
+      }),
+  }),
+
+  /**
+   * Audit archives — audit entries moved out of audit_logs by retention.
+   */
+  auditArchives: router({
+    /**
+     * List archives, newest first, optionally for one tenant.
+     */
+    list: superAdminProcedure
+      .input(z.object({ tenantId: z.string().uuid().optional() }).optional())
+      .query(async ({ input, ctx }) => {
+        return ctx.db
+          .select({
+            archive: auditLogArchives,
+            tenantName: tenants.name,
+          })
+          .from(auditLogArchives)
+          .innerJoin(tenants, eq(auditLogArchives.tenantId, tenants.id))
+          .where(
+            input?.tenantId
+              ? eq(auditLogArchives.tenantId, input.tenantId)
+              : undefined
+          )
+          .orderBy(desc(auditLogArchives.period), asc(tenants.name))
+          .limit(500);
+      }),
+
+    /**
+     * Check an archive file against its record and the hash chain.
+     */
+    verify: superAdminProcedure
+      .meta({ auditExempt: "read-only check" })
+      .input(z.object({ archiveId: z.string().uuid() }))
+      .mutation(async ({ input, ctx }) => {
+        try {
+          return await verifyAuditArchive(input.archiveId, ctx.db);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              error instanceof Error ? error.message : "Failed to verify archive",
+          });
+        }
+      }),
+
+    /**
+     * Copy an archive's entries back into audit_logs. The next retention
+     * run removes them again while they are past the retention period.
+     */
+    restore: superAdminProcedure
+      .input(z.object({ archiveId: z.string().uuid() }))
+      .mutation(async ({ input, ctx }) => {
+        try {
+          const restored = await restoreAuditArchive(
+            input.archiveId,
+            { userId: ctx.session.user.id, ipAddress: ctx.ipAddress },
+            ctx.db
+          );
+          return { restored };
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              error instanceof Error ? error.message : "Failed to restore archive",
+          });
+        }
+      }),
+  }),
+
+  /**
+   * Platform audit log — plan and role template changes, newest first.
+   */
+  platformAuditLogs: superAdminProcedure
+    .input(
+      paginationSchema.extend({
+        resourceType: z.string().max(50).optional(),
+        resourceId: z.string().uuid().optional(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const items = await ctx.db
+        .select({
+          id: platformAuditLogs.id,
+          action: platformAuditLogs.action,
+          resourceType: platformAuditLogs.resourceType,
+          resourceId: platformAuditLogs.resourceId,
+          changes: platformAuditLogs.changes,
+          ipAddress: platformAuditLogs.ipAddress,
+          createdAt: platformAuditLogs.createdAt,
+          userEmail: users.email,
+        })
+        .from(platformAuditLogs)
+        .leftJoin(users, eq(platformAuditLogs.userId, users.id))
+        .where(
+          and(
+            input.resourceType
+              ? eq(platformAuditLogs.resourceType, input.resourceType)
+              : undefined,
+            input.resourceId
+              ? eq(platformAuditLogs.resourceId, input.resourceId)
+              : undefined,
+            // Entries of one request share created_at, so page on (created_at, id)
+            input.cursor
+              ? sql`(${platformAuditLogs.createdAt}, ${platformAuditLogs.id}) <
+                  (SELECT created_at, id FROM platform_audit_logs WHERE id = ${input.cursor})`
+              : undefined
+          )
+        )
+        .orderBy(desc(platformAuditLogs.createdAt), desc(platformAuditLogs.id))
+        .limit(input.limit + 1);
+
+      return paginatedResult(items, input.limit);
+    }),
 });
@@ -0,0 +1,151 @@
+import { TRPCError } from "@trpc/server";
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { router, tenantProcedure } from "../procedures";
+import { requirePermission } from "../procedures";
+import { apiKeys, users } from "../../db/schema/index";
+import { generateApiKey } from "../../auth/api-keys";
+import { canAssignPermissions, findUnknownPermissions } from "../../rbac/index";
+import { createApiKeySchema, revokeApiKeySchema } from "@sme/shared";
+
+// ============================================
+// API Keys Router — manage the tenant's machine-to-machine keys
+// All queries use ctx.db and filter by ctx.tenantId
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Keys can't manage keys — a leaked key must not be able to mint more */
+const apiKeysProcedure = tenantProcedure
+  .use(({ ctx, next }) => {
+    if (ctx.session.session.apiKey) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Not available to API keys",
+      });
+    }
+    return next();
+  })
+  .use(requirePermission("core:api_keys:manage"));
+
+/** Key columns safe to return — the key itself is only shown on create */
+const keyColumns = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  keyPrefix: apiKeys.keyPrefix,
+  permissions: apiKeys.permissions,
+  expiresAt: apiKeys.expiresAt,
+  lastUsedAt: apiKeys.lastUsedAt,
+  revokedAt: apiKeys.revokedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+export const apiKeysRouter = router({
+  /**
+   * List the tenant's API keys, newest first, including revoked ones.
+   */
+  list: apiKeysProcedure.query(async ({ ctx }) => {
+    return ctx.db
+      .select({
+        ...keyColumns,
+        createdByName: users.fullName,
+      })
+      .from(apiKeys)
+      .innerJoin(users, eq(apiKeys.createdBy, users.id))
+      .where(eq(apiKeys.tenantId, ctx.tenantId))
+      .orderBy(desc(apiKeys.createdAt));
+  }),
+
+  /**
+   * Create a key acting as the current user with a subset of their
+   * permissions. The key is returned once.
+   */
+  create: apiKeysProcedure
+    .input(createApiKeySchema)
+    .mutation(async ({ input, ctx }) => {
+      const unknown = findUnknownPermissions(input.permissions);
+      if (unknown.length > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Unknown permissions: ${unknown.join(", ")}`,
+        });
+      }
+
+      if (!canAssignPermissions(ctx.membership.permissions, input.permissions)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Cannot give a key permissions you do not have",
+        });
+      }
+
+      const { key, keyPrefix, keyHash } = await generateApiKey();
+
+      const [created] = await ctx.db
+        .insert(apiKeys)
+        .values({
+          tenantId: ctx.tenantId,
+          name: input.name,
+          keyPrefix,
+          keyHash,
+          permissions: input.permissions,
+          createdBy: ctx.session!.user.id,
+          expiresAt: new Date(Date.now() + input.expiresInDays * DAY_MS),
+        })
+        .returning(keyColumns);
+
+      if (!created) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create API key",
+        });
+      }
+
+      await ctx.audit(
+        "api_key:created",
+        { type: "api_key", id: created.id },
+        {
+          after: {
+            name: created.name,
+            keyPrefix,
+            permissions: created.permissions,
+            expiresAt: created.expiresAt.toISOString(),
+          },
+        }
+      );
+
+      return { ...created, key };
+    }),
+
+  /**
+   * Revoke a key. Revoked keys stay listed so audit entries can name them.
+   */
+  revoke: apiKeysProcedure
+    .input(revokeApiKeySchema)
+    .mutation(async ({ input, ctx }) => {
+      const [revoked] = await ctx.db
+        .update(apiKeys)
+        .set({ revokedAt: new Date(), revokedBy: ctx.session!.user.id })
+        .where(
+          and(
+            eq(apiKeys.id, input.keyId),
+            eq(apiKeys.tenantId, ctx.tenantId),
+            isNull(apiKeys.revokedAt)
+          )
+        )
+        .returning({ id: apiKeys.id, name: apiKeys.name, keyPrefix: apiKeys.keyPrefix });
+
+      if (!revoked) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "API key not found or already revoked",
+        });
+      }
+
+      await ctx.audit(
+        "api_key:revoked",
+        { type: "api_key", id: revoked.id },
+        { before: { name: revoked.name, keyPrefix: revoked.keyPrefix } }
+      );
+
+      return { success: true };
+    }),
+});
@@ -1,10 +1,15 @@
-import { eq, and, desc, gt } from "drizzle-orm";
-import { z } from "zod";
+import { eq, and, asc, desc } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { router, tenantProcedure } from "../procedures";
 import { requirePermission } from "../procedures";
-import { auditLogs, users } from "../../db/schema/index";
-import { paginationSchema } from "@sme/shared";
+import { auditLogs, users, apiKeys } from "../../db/schema/index";
+import { listAuditLogsSchema } from "@sme/shared";
 import { paginatedResult } from "@sme/shared";
+import {
+  verifyAuditChain,
+  auditLogConditions,
+  auditLogKeyset,
+} from "../../audit/index";
 
 // ============================================
 // Audit Router — view audit logs
@@ -13,51 +18,85 @@ import { paginatedResult } from "@sme/shared";
 
 export const auditRouter = router({
   /**
-   * List audit log entries for the current tenant.
+   * List audit log entries for the current tenant, newest first.
+   * Keyset-paginated on (createdAt, id); filters by date range, action
+   * (exact or prefix), resource type, user, request and full-text search
+   * in changes.
    */
   list: tenantProcedure
     .use(requirePermission("core:audit:read"))
-    .input(
-      paginationSchema.extend({
-        resourceType: z.string().optional(),
-        action: z.string().optional(),
-        userId: z.string().uuid().optional(),
-      })
-    )
+    .input(listAuditLogsSchema)
     .query(async ({ input, ctx }) => {
+      const { cursor, limit, ...filter } = input;
+      const impersonators = alias(users, "impersonators");
       const items = await ctx.db
         .select({
           id: auditLogs.id,
+          seq: auditLogs.seq,
           action: auditLogs.action,
           resourceType: auditLogs.resourceType,
           resourceId: auditLogs.resourceId,
           changes: auditLogs.changes,
           ipAddress: auditLogs.ipAddress,
+          userAgent: auditLogs.userAgent,
+          requestId: auditLogs.requestId,
           createdAt: auditLogs.createdAt,
           userId: auditLogs.userId,
           userName: users.fullName,
           userEmail: users.email,
+          impersonatorId: auditLogs.impersonatorId,
+          impersonatorName: impersonators.fullName,
+          apiKeyId: auditLogs.apiKeyId,
+          apiKeyName: apiKeys.name,
+          apiKeyPrefix: apiKeys.keyPrefix,
         })
         .from(auditLogs)
         .leftJoin(users, eq(auditLogs.userId, users.id))
+        .leftJoin(impersonators, eq(auditLogs.impersonatorId, impersonators.id))
+        .leftJoin(apiKeys, eq(auditLogs.apiKeyId, apiKeys.id))
         .where(
           and(
-            eq(auditLogs.tenantId, ctx.tenantId),
-            input.resourceType
-              ? eq(auditLogs.resourceType, input.resourceType)
-              : undefined,
-            input.action
-              ? eq(auditLogs.action, input.action)
-              : undefined,
-            input.userId
-              ? eq(auditLogs.userId, input.userId)
-              : undefined,
-            input.cursor ? gt(auditLogs.id, input.cursor) : undefined
+            auditLogConditions(ctx.tenantId, filter),
+            cursor ? auditLogKeyset(cursor, "before") : undefined
           )
         )
-        .orderBy(desc(auditLogs.createdAt))
-        .limit(input.limit + 1);
+        .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+        .limit(limit + 1);
 
-      return paginatedResult(items, input.limit);
+      return paginatedResult(items, limit);
+    }),
+
+  /**
+   * Distinct actions and resource types logged for the tenant — for filters.
+   */
+  facets: tenantProcedure
+    .use(requirePermission("core:audit:read"))
+    .query(async ({ ctx }) => {
+      const actions = await ctx.db
+        .selectDistinct({ action: auditLogs.action })
+        .from(auditLogs)
+        .where(eq(auditLogs.tenantId, ctx.tenantId))
+        .orderBy(asc(auditLogs.action));
+      const resourceTypes = await ctx.db
+        .selectDistinct({ resourceType: auditLogs.resourceType })
+        .from(auditLogs)
+        .where(eq(auditLogs.tenantId, ctx.tenantId))
+        .orderBy(asc(auditLogs.resourceType));
+
+      return {
+        actions: actions.map((a) => a.action),
+        resourceTypes: resourceTypes
+          .map((r) => r.resourceType)
+          .filter((r): r is string => r !== null),
+      };
+    }),
+
+  /**
+   * Verify the tenant's audit hash chain and report the first broken link.
+   */
+  verify: tenantProcedure
+    .use(requirePermission("core:audit:read"))
+    .query(async ({ ctx }) => {
+      return verifyAuditChain(ctx.tenantId, ctx.db);
     }),
 });
@@ -1,25 +1,58 @@
 import { TRPCError } from "@trpc/server";
 import { eq, and } from "drizzle-orm";
 import { z } from "zod";
-import { router, publicProcedure, protectedProcedure } from "../procedures";
+import {
+  router,
+  publicProcedure,
+  protectedProcedure,
+  tenantProcedure,
+} from "../procedures";
 import { adminDb } from "../../db/index";
 import {
   users,
   tenantMemberships,
   tenants,
   roles,
+  locations,
+  sessions,
 } from "../../db/schema/index";
 import { hashPassword, verifyPassword } from "../../auth/password";
-import { createSession, invalidateSession } from "../../auth/session";
-import { updateSessionTenant } from "../../auth/session";
+import {
+  createSession,
+  invalidateSession,
+  invalidateAllUserSessions,
+  listUserSessions,
+  markSessionMfaVerified,
+} from "../../auth/session";
+import { loginWithPassword, verifyMfaLogin, AuthError } from "../../auth/login";
+import {
+  getMfaStatus,
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableMfa,
+  regenerateRecoveryCodes,
+  verifyMfaCode,
+} from "../../auth/mfa";
+import { updateSessionTenant, updateSessionLocation } from "../../auth/session";
+import { endImpersonation } from "../../auth/impersonation";
+import { sendEmailVerification } from "../../auth/user-tokens";
+import {
+  listOidcProviders,
+  listUserIdentities,
+  unlinkIdentity,
+} from "../../auth/oidc";
+import { canAccessLocation } from "../../rbac/index";
 import { createAuditLog } from "../../audit/index";
 import {
   loginSchema,
   registerSchema,
   pinLoginSchema,
   createTenantSchema,
+  verifyMfaSchema,
+  disableMfaSchema,
   SYSTEM_ROLES,
   SYSTEM_ROLE_PERMISSIONS,
+  parseUserAgent,
 } from "@sme/shared";
 
 // ============================================
@@ -28,8 +61,39 @@ import {
 const MAX_PIN_ATTEMPTS = 5;
 const PIN_LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
 
-const MAX_LOGIN_ATTEMPTS = 10;
-const LOGIN_LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+/** auditExempt reason for procedures that only touch the caller's session */
+const SESSION_ONLY = "changes only the caller's own sessions";
+
+/** auditExempt reason for account changes audited in each of the user's tenants */
+const PER_TENANT_AUDIT = "audited per tenant; a user without memberships has no audit log";
+
+/** Account settings are the user's own — not changeable while impersonating */
+const accountProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.session.session.impersonator) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Not available while impersonating",
+    });
+  }
+  return next();
+});
+
+const AUTH_ERROR_CODES: Record<number, TRPCError["code"]> = {
+  401: "UNAUTHORIZED",
+  409: "CONFLICT",
+  429: "TOO_MANY_REQUESTS",
+};
+
+function toTRPCError(error: unknown): TRPCError {
+  if (error instanceof AuthError) {
+    return new TRPCError({
+      code: AUTH_ERROR_CODES[error.statusCode] ?? "INTERNAL_SERVER_ERROR",
+      message: error.message,
+    });
+  }
+  if (error instanceof TRPCError) return error;
+  return new TRPCError({ code: "INTERNAL_SERVER_ERROR", cause: error });
+}
 
 // ============================================
 // Auth Router — login, register, logout, session
@@ -51,6 +115,7 @@ export const authRouter = router({
    * Returns session info but NOT the token (token set via httpOnly cookie by API route).
    */
   register: publicProcedure
+    .meta({ auditExempt: "account has no tenant to audit in yet" })
     .input(registerSchema)
     .mutation(async ({ input, ctx }) => {
       // Check if email already exists
@@ -87,6 +152,8 @@ export const authRouter = router({
         });
       }
 
+      await sendEmailVerification(user.id);
+
       // Create session
       const { token, expiresAt } = await createSession({
         userId: user.id,
@@ -170,6 +237,8 @@ export const authRouter = router({
         });
       }
 
+      await sendEmailVerification(user.id);
+
       // Create tenant
       const [tenant] = await ctx.db
         .insert(tenants)
@@ -245,111 +314,71 @@ export const authRouter = router({
     }),
 
   /**
-   * Login with email + password.
+   * Login with email + password (see loginWithPassword).
    * SECURITY: Rate limited — max 10 failed attempts per 15 minutes.
+   * Users with two-factor authentication get a challenge token instead of a
+   * session — pass it to verifyMfa with their code.
    * Returns session info but NOT the raw token.
    */
   login: publicProcedure
+    .meta({ auditExempt: SESSION_ONLY })
     .input(loginSchema)
     .mutation(async ({ input, ctx }) => {
-      // Find user
-      const [user] = await ctx.db
-        .select()
-        .from(users)
-        .where(eq(users.email, input.email))
-        .limit(1);
-
-      if (!user || !user.isActive) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "Invalid email or password",
-        });
-      }
-
-      // Check login lockout
-      if (
-        user.loginLockedUntil &&
-        new Date() < new Date(user.loginLockedUntil)
-      ) {
-        throw new TRPCError({
-          code: "TOO_MANY_REQUESTS",
-          message: "Too many failed login attempts. Please try again later.",
+      try {
+        const result = await loginWithPassword({
+          email: input.email,
+          password: input.password,
+          ipAddress: ctx.ipAddress,
+          userAgent: ctx.userAgent,
         });
-      }
 
-      // Verify password
-      const isValid = await verifyPassword(input.password, user.passwordHash);
-      if (!isValid) {
-        // Increment failed attempts
-        const newAttempts = (user.loginFailedAttempts ?? 0) + 1;
-        const updateData: Record<string, unknown> = {
-          loginFailedAttempts: newAttempts,
-        };
-
-        // Lock out after MAX_LOGIN_ATTEMPTS failures
-        if (newAttempts >= MAX_LOGIN_ATTEMPTS) {
-          updateData.loginLockedUntil = new Date(
-            Date.now() + LOGIN_LOCKOUT_DURATION_MS
-          );
+        if (result.mfaRequired) {
+          return {
+            mfaRequired: true as const,
+            _mfaTokenInternal: result.mfaToken,
+            expiresAt: result.expiresAt,
+          };
         }
 
-        await ctx.db
-          .update(users)
-          .set(updateData)
-          .where(eq(users.id, user.id));
+        return {
+          mfaRequired: false as const,
+          _tokenInternal: result.token,
+          user: result.user,
+          tenantId: result.tenantId,
+          hasMultipleTenants: result.hasMultipleTenants,
+          expiresAt: result.expiresAt,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
 
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "Invalid email or password",
+  /**
+   * Second login step for users with two-factor authentication: an
+   * authenticator code or a recovery code for the challenge from login.
+   */
+  verifyMfa: publicProcedure
+    .meta({ auditExempt: SESSION_ONLY })
+    .input(verifyMfaSchema.extend({ mfaToken: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const result = await verifyMfaLogin({
+          mfaToken: input.mfaToken,
+          code: input.code,
+          ipAddress: ctx.ipAddress,
+          userAgent: ctx.userAgent,
         });
-      }
 
-      // Reset failed attempts on successful login
-      if (user.loginFailedAttempts > 0 || user.loginLockedUntil) {
-        await ctx.db
-          .update(users)
-          .set({ loginFailedAttempts: 0, loginLockedUntil: null })
-          .where(eq(users.id, user.id));
+        return {
+          _tokenInternal: result.token,
+          user: result.user,
+          tenantId: result.tenantId,
+          hasMultipleTenants: result.hasMultipleTenants,
+          expiresAt: result.expiresAt,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
       }
-
-      // Check if user has exactly one tenant — auto-select it
-      const memberships = await ctx.db
-        .select({
-          tenantId: tenantMemberships.tenantId,
-        })
-        .from(tenantMemberships)
-        .where(
-          and(
-            eq(tenantMemberships.userId, user.id),
-            eq(tenantMemberships.isActive, true)
-          )
-        );
-
-      // Auto-select tenant if user has exactly one — but NOT for super admins,
-      // who need to see the select-tenant page with Platform Admin access
-      const tenantId =
-        memberships.length === 1 && !user.isSuperAdmin ? memberships[0]!.tenantId : null;
-
-      // Create session
-      const { token, expiresAt } = await createSession({
-        userId: user.id,
-        tenantId,
-        authMethod: "password",
-        ipAddress: ctx.ipAddress,
-        userAgent: ctx.userAgent,
-      });
-
-      return {
-        _tokenInternal: token,
-        user: {
-          id: user.id,
-          email: user.email,
-          fullName: user.fullName,
-        },
-        tenantId,
-        hasMultipleTenants: memberships.length > 1,
-        expiresAt,
-      };
     }),
 
   /**
@@ -357,6 +386,7 @@ export const authRouter = router({
    * SECURITY: PINs are hashed. Rate limited: 5 attempts per 15 min.
    */
   pinLogin: publicProcedure
+    .meta({ auditExempt: SESSION_ONLY })
     .input(pinLoginSchema)
     .mutation(async ({ input, ctx }) => {
       // Find membership (uses adminDb via ctx.db for cross-tenant access)
@@ -480,11 +510,254 @@ export const authRouter = router({
     }),
 
   /**
-   * Logout — invalidate current session.
+   * Logout — invalidate current session. Logging out of an impersonation
+   * session ends the impersonation.
+   */
+  logout: protectedProcedure
+    .meta({ auditExempt: SESSION_ONLY, allowReadOnly: true })
+    .mutation(async ({ ctx }) => {
+      if (ctx.session.session.impersonator) {
+        await endImpersonation(
+          ctx.session.session.id,
+          { ipAddress: ctx.ipAddress },
+          ctx.db
+        );
+      } else {
+        await invalidateSession(ctx.session.session.id);
+      }
+      return { success: true };
+    }),
+
+  /**
+   * End the current impersonation session. The caller restores the
+   * admin's own session cookie.
+   */
+  stopImpersonating: protectedProcedure
+    .meta({ allowReadOnly: true })
+    .mutation(async ({ ctx }) => {
+      if (!ctx.session.session.impersonator) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This is not an impersonation session",
+        });
+      }
+
+      await endImpersonation(
+        ctx.session.session.id,
+        { ipAddress: ctx.ipAddress },
+        ctx.db
+      );
+      return { success: true };
+    }),
+
+  /**
+   * The current user's active sessions across devices, newest first,
+   * with browser / OS parsed from the user agent.
+   */
+  listSessions: protectedProcedure.query(async ({ ctx }) => {
+    const active = await listUserSessions(ctx.session.user.id);
+    return active.map((session) => ({
+      ...session,
+      ...parseUserAgent(session.userAgent),
+      current: session.id === ctx.session.session.id,
+    }));
+  }),
+
+  /**
+   * Sign out one of the current user's other sessions.
+   */
+  revokeSession: protectedProcedure
+    .meta({ auditExempt: SESSION_ONLY })
+    .input(z.object({ sessionId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.sessionId === ctx.session.session.id) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Use sign out to end the current session",
+        });
+      }
+
+      const [session] = await ctx.db
+        .select({ id: sessions.id })
+        .from(sessions)
+        .where(
+          and(
+            eq(sessions.id, input.sessionId),
+            eq(sessions.userId, ctx.session.user.id)
+          )
+        )
+        .limit(1);
+
+      if (!session) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Session not found",
+        });
+      }
+
+      await invalidateSession(session.id);
+      return { success: true };
+    }),
+
+  /**
+   * Sign out every session of the current user except this one.
+   */
+  revokeOtherSessions: protectedProcedure
+    .meta({ auditExempt: SESSION_ONLY })
+    .mutation(async ({ ctx }) => {
+      const revoked = await invalidateAllUserSessions(ctx.session.user.id, {
+        exceptSessionId: ctx.session.session.id,
+      });
+      return { revoked };
+    }),
+
+  /**
+   * Email a new verification link to the current user's address.
+   */
+  resendVerification: accountProcedure
+    .meta({ auditExempt: "sends mail only; verifying the address is audited" })
+    .mutation(async ({ ctx }) => {
+      try {
+        await sendEmailVerification(ctx.session.user.id);
+        return { success: true };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to send verification email",
+        });
+      }
+    }),
+
+  /**
+   * Configured OpenID Connect providers — for sign-in buttons. Sign-in
+   * itself is a browser redirect (/api/auth/oidc/[provider]).
+   */
+  oidcProviders: publicProcedure.query(() => {
+    return listOidcProviders();
+  }),
+
+  /** Provider identities connected to the current user's account */
+  identities: protectedProcedure.query(async ({ ctx }) => {
+    return listUserIdentities(ctx.session.user.id);
+  }),
+
+  unlinkIdentity: accountProcedure
+    .meta({ auditExempt: PER_TENANT_AUDIT })
+    .input(z.object({ identityId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await unlinkIdentity(ctx.session.user.id, input.identityId, {
+          ipAddress: ctx.ipAddress,
+        });
+        return { success: true };
+      } catch (error) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: error instanceof Error ? error.message : "Identity not found",
+        });
+      }
+    }),
+
+  /**
+   * Two-factor authentication for the current user's account.
    */
-  logout: protectedProcedure.mutation(async ({ ctx }) => {
-    await invalidateSession(ctx.session.session.id);
-    return { success: true };
+  mfa: router({
+    status: protectedProcedure.query(async ({ ctx }) => {
+      return getMfaStatus(ctx.session.user.id);
+    }),
+
+    /** Issue a pending secret — returns the otpauth:// URI for the QR code */
+    beginEnrollment: accountProcedure
+      .meta({ auditExempt: "pending until confirmed; confirmation is audited" })
+      .mutation(async ({ ctx }) => {
+        try {
+          return await beginTotpEnrollment(ctx.session.user.id);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Failed to start enrollment",
+          });
+        }
+      }),
+
+    /**
+     * Enable two-factor authentication with a first code. Returns the
+     * recovery codes — shown once. The current session counts as verified.
+     */
+    confirmEnrollment: accountProcedure
+      .meta({ auditExempt: PER_TENANT_AUDIT })
+      .input(verifyMfaSchema)
+      .mutation(async ({ input, ctx }) => {
+        try {
+          const recoveryCodes = await confirmTotpEnrollment(
+            ctx.session.user.id,
+            input.code,
+            { ipAddress: ctx.ipAddress }
+          );
+          await markSessionMfaVerified(ctx.session.session.id);
+          return { recoveryCodes };
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Failed to enable two-factor authentication",
+          });
+        }
+      }),
+
+    disable: accountProcedure
+      .meta({ auditExempt: PER_TENANT_AUDIT })
+      .input(disableMfaSchema)
+      .mutation(async ({ input, ctx }) => {
+        try {
+          await disableMfa(ctx.session.user.id, {
+            ...input,
+            ipAddress: ctx.ipAddress,
+          });
+          return { success: true };
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Failed to disable two-factor authentication",
+          });
+        }
+      }),
+
+    regenerateRecoveryCodes: accountProcedure
+      .meta({ auditExempt: PER_TENANT_AUDIT })
+      .input(verifyMfaSchema)
+      .mutation(async ({ input, ctx }) => {
+        try {
+          const recoveryCodes = await regenerateRecoveryCodes(
+            ctx.session.user.id,
+            input.code,
+            { ipAddress: ctx.ipAddress }
+          );
+          return { recoveryCodes };
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Failed to regenerate recovery codes",
+          });
+        }
+      }),
+
+    /**
+     * Step up the current session with a code — for sessions opened before
+     * a tenant required two-factor authentication for the user's role.
+     */
+    verifySession: accountProcedure
+      .meta({ auditExempt: SESSION_ONLY })
+      .input(verifyMfaSchema)
+      .mutation(async ({ input, ctx }) => {
+        if (!(await verifyMfaCode(ctx.session.user.id, input.code))) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Invalid verification code",
+          });
+        }
+        await markSessionMfaVerified(ctx.session.session.id);
+        return { success: true };
+      }),
   }),
 
   /**
@@ -496,6 +769,7 @@ export const authRouter = router({
       session: {
         id: ctx.session.session.id,
         tenantId: ctx.session.session.tenantId,
+        locationId: ctx.session.session.locationId,
         authMethod: ctx.session.session.authMethod,
         expiresAt: ctx.session.session.expiresAt,
       },
@@ -507,8 +781,16 @@ export const authRouter = router({
    * Switch tenant context.
    */
   switchTenant: protectedProcedure
+    .meta({ auditExempt: SESSION_ONLY })
     .input(z.object({ tenantId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
+      if (ctx.session.session.impersonator) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Impersonation sessions are bound to one tenant",
+        });
+      }
+
       // Verify user is a member of the target tenant (uses adminDb for cross-tenant)
       const [membership] = await ctx.db
         .select()
@@ -535,6 +817,70 @@ export const authRouter = router({
       return { tenantId: input.tenantId };
     }),
 
+  /**
+   * Switch the active location within the current tenant (null clears it).
+   */
+  switchLocation: tenantProcedure
+    .meta({ auditExempt: SESSION_ONLY, allowReadOnly: true })
+    .input(z.object({ locationId: z.string().uuid().nullable() }))
+    .mutation(async ({ input, ctx }) => {
+      if (ctx.session.session.apiKey) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "API keys have no session to switch",
+        });
+      }
+
+      if (input.locationId) {
+        const [location] = await ctx.db
+          .select({ id: locations.id })
+          .from(locations)
+          .where(
+            and(
+              eq(locations.id, input.locationId),
+              eq(locations.tenantId, ctx.tenantId),
+              eq(locations.isActive, true)
+            )
+          )
+          .limit(1);
+
+        if (
+          !location ||
+          !canAccessLocation(ctx.membership.locationIds, location.id)
+        ) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "You do not have access to this location",
+          });
+        }
+      }
+
+      await updateSessionLocation(ctx.session.session.id, input.locationId);
+
+      return { locationId: input.locationId };
+    }),
+
+  /**
+   * List active locations in the current tenant the user may switch to.
+   */
+  myLocations: tenantProcedure.query(async ({ ctx }) => {
+    const results = await ctx.db
+      .select({
+        id: locations.id,
+        name: locations.name,
+        code: locations.code,
+      })
+      .from(locations)
+      .where(
+        and(eq(locations.tenantId, ctx.tenantId), eq(locations.isActive, true))
+      )
+      .orderBy(locations.name);
+
+    return results.filter((location) =>
+      canAccessLocation(ctx.membership.locationIds, location.id)
+    );
+  }),
+
   /**
    * List tenants the current user belongs to.
    * Uses adminDb (via ctx.db) since this is cross-tenant.
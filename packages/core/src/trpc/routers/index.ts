@@ -6,6 +6,10 @@ import { rolesRouter } from "./roles";
 import { modulesRouter } from "./modules";
 import { auditRouter } from "./audit";
 import { adminRouter } from "./admin";
+import { webhooksRouter } from "./webhooks";
+import { apiKeysRouter } from "./api-keys";
+import { jobsRouter } from "./jobs";
+import { locationsRouter } from "./locations";
 import { notesRouter } from "../../modules/notes/router";
 import { catalogRouter } from "../../modules/catalog/router";
 import { costingRouter } from "../../modules/costing/router";
@@ -31,8 +35,12 @@ export const appRouter = router({
   tenants: tenantsRouter,
   users: usersRouter,
   roles: rolesRouter,
+  locations: locationsRouter,
   modules: modulesRouter,
   audit: auditRouter,
+  webhooks: webhooksRouter,
+  apiKeys: apiKeysRouter,
+  jobs: jobsRouter,
   admin: adminRouter,
 
   // Module routes (statically imported for type safety, 
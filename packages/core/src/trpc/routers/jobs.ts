@@ -0,0 +1,43 @@
+import { TRPCError } from "@trpc/server";
+import { eq, and } from "drizzle-orm";
+import { z } from "zod";
+import { router, tenantProcedure } from "../procedures";
+import { jobs } from "../../db/schema/index";
+
+// ============================================
+// Jobs Router — status of background jobs
+// All queries use ctx.db and filter by ctx.tenantId
+// ============================================
+
+export const jobsRouter = router({
+  /**
+   * Status of a job the tenant enqueued (e.g. from costing.calc.recalculateCascade).
+   */
+  get: tenantProcedure
+    .input(z.object({ jobId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      const [job] = await ctx.db
+        .select({
+          id: jobs.id,
+          name: jobs.name,
+          status: jobs.status,
+          attempts: jobs.attempts,
+          maxAttempts: jobs.maxAttempts,
+          runAt: jobs.runAt,
+          result: jobs.result,
+          lastError: jobs.lastError,
+          createdAt: jobs.createdAt,
+          startedAt: jobs.startedAt,
+          finishedAt: jobs.finishedAt,
+        })
+        .from(jobs)
+        .where(and(eq(jobs.id, input.jobId), eq(jobs.tenantId, ctx.tenantId)))
+        .limit(1);
+
+      if (!job) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+      }
+
+      return job;
+    }),
+});
@@ -0,0 +1,338 @@
+import { TRPCError } from "@trpc/server";
+import { eq, and, asc } from "drizzle-orm";
+import { z } from "zod";
+import { router, tenantProcedure } from "../procedures";
+import { requirePermission } from "../procedures";
+import {
+  locations,
+  membershipLocations,
+  tenantMemberships,
+  roles,
+  users,
+} from "../../db/schema/index";
+import {
+  createLocationSchema,
+  updateLocationSchema,
+  assignLocationSchema,
+} from "@sme/shared";
+
+// ============================================
+// Locations Router — branches and member assignments
+// All queries use ctx.db (RLS-enforced transaction)
+// ============================================
+
+const manageProcedure = tenantProcedure.use(
+  requirePermission("core:locations:manage")
+);
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code: unknown }).code === "23505"
+  );
+}
+
+export const locationsRouter = router({
+  /**
+   * List the tenant's locations (including inactive ones).
+   */
+  list: tenantProcedure.query(async ({ ctx }) => {
+    return ctx.db
+      .select()
+      .from(locations)
+      .where(eq(locations.tenantId, ctx.tenantId))
+      .orderBy(asc(locations.name));
+  }),
+
+  /**
+   * Create a location.
+   */
+  create: manageProcedure
+    .input(createLocationSchema)
+    .mutation(async ({ input, ctx }) => {
+      let location;
+      try {
+        [location] = await ctx.db
+          .insert(locations)
+          .values({
+            tenantId: ctx.tenantId,
+            name: input.name,
+            code: input.code ?? null,
+            address: input.address ?? null,
+          })
+          .returning();
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `A location with code "${input.code}" already exists`,
+          });
+        }
+        throw error;
+      }
+
+      if (!location) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create location",
+        });
+      }
+
+      await ctx.audit(
+        "location:created",
+        { type: "location", id: location.id },
+        { after: { name: input.name, code: input.code } }
+      );
+
+      return location;
+    }),
+
+  /**
+   * Update a location. Deactivating hides it from the location switcher.
+   */
+  update: manageProcedure
+    .input(updateLocationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { id, ...updates } = input;
+
+      const [existing] = await ctx.db
+        .select()
+        .from(locations)
+        .where(and(eq(locations.id, id), eq(locations.tenantId, ctx.tenantId)))
+        .limit(1);
+
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Location not found" });
+      }
+
+      let updated;
+      try {
+        [updated] = await ctx.db
+          .update(locations)
+          .set(updates)
+          .where(and(eq(locations.id, id), eq(locations.tenantId, ctx.tenantId)))
+          .returning();
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `A location with code "${input.code}" already exists`,
+          });
+        }
+        throw error;
+      }
+
+      await ctx.audit(
+        "location:updated",
+        { type: "location", id },
+        {
+          before: {
+            name: existing.name,
+            code: existing.code,
+            address: existing.address,
+            isActive: existing.isActive,
+          },
+          after: updates,
+        }
+      );
+
+      return updated;
+    }),
+
+  /**
+   * Delete a location and its member assignments. Sessions using it fall
+   * back to no active location.
+   */
+  delete: manageProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const [deleted] = await ctx.db
+        .delete(locations)
+        .where(
+          and(eq(locations.id, input.id), eq(locations.tenantId, ctx.tenantId))
+        )
+        .returning({ id: locations.id, name: locations.name });
+
+      if (!deleted) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Location not found" });
+      }
+
+      await ctx.audit(
+        "location:deleted",
+        { type: "location", id: deleted.id },
+        { before: { name: deleted.name } }
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Member ↔ location assignments, optionally for one location or member.
+   */
+  assignments: tenantProcedure
+    .use(requirePermission("core:users:read"))
+    .input(
+      z
+        .object({
+          locationId: z.string().uuid().optional(),
+          membershipId: z.string().uuid().optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input, ctx }) => {
+      return ctx.db
+        .select({
+          id: membershipLocations.id,
+          membershipId: membershipLocations.membershipId,
+          locationId: membershipLocations.locationId,
+          locationName: locations.name,
+          roleId: membershipLocations.roleId,
+          roleName: roles.name,
+          userId: users.id,
+          userName: users.fullName,
+          userEmail: users.email,
+        })
+        .from(membershipLocations)
+        .innerJoin(locations, eq(membershipLocations.locationId, locations.id))
+        .innerJoin(
+          tenantMemberships,
+          eq(membershipLocations.membershipId, tenantMemberships.id)
+        )
+        .innerJoin(users, eq(tenantMemberships.userId, users.id))
+        .leftJoin(roles, eq(membershipLocations.roleId, roles.id))
+        .where(
+          and(
+            eq(membershipLocations.tenantId, ctx.tenantId),
+            input?.locationId
+              ? eq(membershipLocations.locationId, input.locationId)
+              : undefined,
+            input?.membershipId
+              ? eq(membershipLocations.membershipId, input.membershipId)
+              : undefined
+          )
+        )
+        .orderBy(asc(locations.name), asc(users.fullName));
+    }),
+
+  /**
+   * Assign a member to a location, or change their role override there.
+   * A member's first assignment limits them to their assigned locations.
+   */
+  assign: manageProcedure
+    .input(assignLocationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const [membership] = await ctx.db
+        .select({ id: tenantMemberships.id })
+        .from(tenantMemberships)
+        .where(
+          and(
+            eq(tenantMemberships.id, input.membershipId),
+            eq(tenantMemberships.tenantId, ctx.tenantId)
+          )
+        )
+        .limit(1);
+
+      if (!membership) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Membership not found" });
+      }
+
+      const [location] = await ctx.db
+        .select({ id: locations.id })
+        .from(locations)
+        .where(
+          and(
+            eq(locations.id, input.locationId),
+            eq(locations.tenantId, ctx.tenantId)
+          )
+        )
+        .limit(1);
+
+      if (!location) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Location not found" });
+      }
+
+      if (input.roleId) {
+        const [role] = await ctx.db
+          .select({ slug: roles.slug })
+          .from(roles)
+          .where(and(eq(roles.id, input.roleId), eq(roles.tenantId, ctx.tenantId)))
+          .limit(1);
+
+        if (!role) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Role not found" });
+        }
+
+        if (
+          role.slug === "owner" &&
+          ctx.membership.roleSlug !== "owner" &&
+          !ctx.session!.user.isSuperAdmin
+        ) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Only owners can assign the owner role",
+          });
+        }
+      }
+
+      const roleId = input.roleId ?? null;
+      const [assignment] = await ctx.db
+        .insert(membershipLocations)
+        .values({
+          tenantId: ctx.tenantId,
+          membershipId: input.membershipId,
+          locationId: input.locationId,
+          roleId,
+        })
+        .onConflictDoUpdate({
+          target: [membershipLocations.membershipId, membershipLocations.locationId],
+          set: { roleId },
+        })
+        .returning();
+
+      await ctx.audit(
+        "location:member_assigned",
+        { type: "membership", id: input.membershipId },
+        { after: { locationId: input.locationId, roleId } }
+      );
+
+      return assignment;
+    }),
+
+  /**
+   * Remove a member's assignment. Removing the last one gives them access
+   * to every location again.
+   */
+  unassign: manageProcedure
+    .input(
+      z.object({
+        membershipId: z.string().uuid(),
+        locationId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const [deleted] = await ctx.db
+        .delete(membershipLocations)
+        .where(
+          and(
+            eq(membershipLocations.membershipId, input.membershipId),
+            eq(membershipLocations.locationId, input.locationId),
+            eq(membershipLocations.tenantId, ctx.tenantId)
+          )
+        )
+        .returning({ id: membershipLocations.id });
+
+      if (!deleted) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Assignment not found" });
+      }
+
+      await ctx.audit(
+        "location:member_unassigned",
+        { type: "membership", id: input.membershipId },
+        { before: { locationId: input.locationId } }
+      );
+
+      return { success: true };
+    }),
+});
@@ -3,6 +3,8 @@ import {
   router,
   protectedProcedure,
   tenantProcedure,
+  adminProcedure,
+  ownerProcedure,
   superAdminProcedure,
 } from "../procedures";
 import {
@@ -11,8 +13,20 @@ import {
   enableModule,
   disableModule,
   getEnabledModules,
+  getModuleConfig,
+  updateModuleConfig,
+  resolveModuleConfig,
+  describeModuleConfig,
+  getTenantPlan,
+  isModuleEntitled,
+  enableEntitledModule,
+  disableEntitledModule,
 } from "../../modules/index";
-import { enableModuleSchema, disableModuleSchema } from "@sme/shared";
+import {
+  enableModuleSchema,
+  disableModuleSchema,
+  updateModuleConfigSchema,
+} from "@sme/shared";
 import { z } from "zod";
 
 // ============================================
@@ -41,11 +55,16 @@ export const modulesRouter = router({
    */
   enabled: tenantProcedure.query(async ({ ctx }) => {
     const enabled = await getEnabledModules(ctx.tenantId, ctx.db);
+    const roleSlug = ctx.membership.roleSlug;
+    const canConfigure = roleSlug === "owner" || roleSlug === "admin";
+
     return enabled.map((m) => {
       const modConfig = getModule(m.moduleId);
       return {
         moduleId: m.moduleId,
-        config: m.config,
+        config: modConfig ? resolveModuleConfig(modConfig, m.config) : m.config,
+        configFields: modConfig ? describeModuleConfig(modConfig) : [],
+        canConfigure,
         name: modConfig?.name ?? m.moduleId,
         version: modConfig?.version ?? "unknown",
         navigation: modConfig?.navigation ?? [],
@@ -53,12 +72,142 @@ export const modulesRouter = router({
     });
   }),
 
+  /**
+   * Get the current tenant's resolved config for one module (defaults applied).
+   */
+  config: tenantProcedure
+    .input(z.object({ moduleId: z.string().min(1).max(50) }))
+    .query(async ({ input, ctx }) => {
+      const config = await getModuleConfig(ctx.tenantId, input.moduleId, ctx.db);
+      if (!config) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Module "${input.moduleId}" is not enabled for this tenant`,
+        });
+      }
+      return config;
+    }),
+
+  /**
+   * Update the current tenant's settings for an enabled module.
+   * Validated against the module's configSchema. Owner/admin only.
+   */
+  updateConfig: adminProcedure
+    .input(updateModuleConfigSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const config = await updateModuleConfig(
+          ctx.tenantId,
+          input.moduleId,
+          input.config,
+          ctx.session.user.id,
+          ctx.db
+        );
+        return { success: true, moduleId: input.moduleId, config };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to update module config",
+        });
+      }
+    }),
+
+  /**
+   * The current tenant's plan and every registered module with its
+   * entitlement status. Entitled modules can be toggled by the owner.
+   */
+  entitlements: tenantProcedure.query(async ({ ctx }) => {
+    const plan = await getTenantPlan(ctx.tenantId, ctx.db);
+    const enabled = await getEnabledModules(ctx.tenantId, ctx.db);
+    const enabledIds = new Set(enabled.map((m) => m.moduleId));
+
+    return {
+      plan: plan
+        ? {
+            slug: plan.slug,
+            name: plan.name,
+            limits: plan.limits,
+          }
+        : null,
+      canManage: ctx.membership.roleSlug === "owner",
+      enabledCount: enabled.length,
+      modules: Array.from(getModuleRegistry().values()).map((mod) => ({
+        id: mod.id,
+        name: mod.name,
+        description: mod.description,
+        version: mod.version,
+        dependencies: mod.dependencies,
+        entitled: isModuleEntitled(plan, mod.id),
+        enabled: enabledIds.has(mod.id),
+      })),
+    };
+  }),
+
+  /**
+   * Enable a module included in the tenant's plan. Owner only.
+   * Modules outside the plan go through the super-admin `enable`.
+   */
+  selfEnable: ownerProcedure
+    .meta({ auditExempt: "audited by enableModule; already enabled is a no-op" })
+    .input(z.object({ moduleId: z.string().min(1).max(50) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await enableEntitledModule(
+          ctx.tenantId,
+          input.moduleId,
+          ctx.session.user.id,
+          ctx.db
+        );
+        return { success: true, moduleId: input.moduleId };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to enable module",
+        });
+      }
+    }),
+
+  /**
+   * Disable a module included in the tenant's plan. Owner only.
+   * Module data is kept and reappears on re-enable.
+   */
+  selfDisable: ownerProcedure
+    .meta({ auditExempt: "audited by disableModule; already disabled is a no-op" })
+    .input(z.object({ moduleId: z.string().min(1).max(50) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await disableEntitledModule(
+          ctx.tenantId,
+          input.moduleId,
+          ctx.session.user.id,
+          ctx.db
+        );
+        return { success: true, moduleId: input.moduleId };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to disable module",
+        });
+      }
+    }),
+
   /**
    * Enable a module for a tenant.
-   * SECURITY: Only super admins can enable/disable modules (monetization model).
+   * SECURITY: Super admins can enable any module for any tenant; tenant
+   * owners are limited to their plan via selfEnable (monetization model).
    * Uses ctx.db (adminDb for super admin — bypasses RLS for cross-tenant ops).
    */
   enable: superAdminProcedure
+    .meta({ auditExempt: "audited by enableModule; already enabled is a no-op" })
     .input(
       enableModuleSchema.extend({
         tenantId: z.string().uuid(),
@@ -90,6 +239,7 @@ export const modulesRouter = router({
    * SECURITY: Only super admins can enable/disable modules.
    */
   disable: superAdminProcedure
+    .meta({ auditExempt: "audited by disableModule; already disabled is a no-op" })
     .input(
       disableModuleSchema.extend({
         tenantId: z.string().uuid(),
@@ -97,13 +247,14 @@ export const modulesRouter = router({
     )
     .mutation(async ({ input, ctx }) => {
       try {
-        await disableModule(
+        const result = await disableModule(
           input.tenantId,
           input.moduleId,
           ctx.session.user.id,
-          ctx.db
+          ctx.db,
+          { mode: input.mode, confirmationToken: input.confirmationToken }
         );
-        return { success: true, moduleId: input.moduleId };
+        return { success: true, moduleId: input.moduleId, ...result };
       } catch (error) {
         throw new TRPCError({
           code: "BAD_REQUEST",
@@ -6,13 +6,32 @@ import {
   adminProcedure,
 } from "../procedures";
 import { requirePermission } from "../procedures";
-import { roles, tenantMemberships } from "../../db/schema/index";
-import { createAuditLog } from "../../audit/index";
+import {
+  roles,
+  tenantMemberships,
+  users,
+  locations,
+  membershipLocations,
+} from "../../db/schema/index";
+import { isModuleEnabled } from "../../modules/index";
+import {
+  getPermissionCatalog,
+  getCatalogPermission,
+  findUnknownPermissions,
+  findMatchingGrant,
+  findMatchingDeny,
+  canAccessLocation,
+  canAssignPermissions,
+  getActivePermissionGrants,
+  mergePermissionGrants,
+  getRoleTemplateUpdates,
+  resolveRoleTemplateUpdate,
+} from "../../rbac/index";
 import {
   createRoleSchema,
   updateRoleSchema,
+  explainPermissionSchema,
 } from "@sme/shared";
-import { hasPermission } from "@sme/shared";
 import { z } from "zod";
 
 // ============================================
@@ -20,19 +39,15 @@ import { z } from "zod";
 // All queries use ctx.db (RLS-enforced transaction)
 // ============================================
 
-/**
- * Check if a user can assign the given permissions.
- * Users can only assign permissions they themselves have.
- * This prevents privilege escalation.
- */
-function canAssignPermissions(
-  userPermissions: string[],
-  targetPermissions: string[]
-): boolean {
-  if (userPermissions.includes("*")) return true;
-  return targetPermissions.every((perm) =>
-    hasPermission(userPermissions, perm)
-  );
+/** Reject grants that match nothing in the permission catalog */
+function assertKnownPermissions(permissions: string[]): void {
+  const unknown = findUnknownPermissions(permissions);
+  if (unknown.length > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Unknown permissions: ${unknown.join(", ")}`,
+    });
+  }
 }
 
 export const rolesRouter = router({
@@ -73,6 +88,227 @@ export const rolesRouter = router({
       return role;
     }),
 
+  /**
+   * The permission catalog — core permissions plus every registered module's,
+   * with descriptions and grouping for the role editor.
+   */
+  permissions: tenantProcedure
+    .use(requirePermission("core:users:read"))
+    .query(async () => {
+      return getPermissionCatalog();
+    }),
+
+  /**
+   * Explain whether a member has a permission, and which grant or deny
+   * decides it. Includes the member's unexpired temporary grants. With a
+   * location, uses the member's role override there (if any).
+   */
+  explain: tenantProcedure
+    .use(requirePermission("core:users:read"))
+    .input(explainPermissionSchema)
+    .query(async ({ input, ctx }) => {
+      const membershipId = input.membershipId ?? ctx.membership.id;
+
+      const [member] = await ctx.db
+        .select({
+          membershipId: tenantMemberships.id,
+          isActive: tenantMemberships.isActive,
+          userName: users.fullName,
+          roleId: roles.id,
+          roleName: roles.name,
+          roleSlug: roles.slug,
+          permissions: roles.permissions,
+        })
+        .from(tenantMemberships)
+        .innerJoin(users, eq(tenantMemberships.userId, users.id))
+        .innerJoin(roles, eq(tenantMemberships.roleId, roles.id))
+        .where(
+          and(
+            eq(tenantMemberships.id, membershipId),
+            eq(tenantMemberships.tenantId, ctx.tenantId)
+          )
+        )
+        .limit(1);
+
+      if (!member) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Membership not found" });
+      }
+
+      let role = { id: member.roleId, name: member.roleName, slug: member.roleSlug };
+      let grants = member.permissions ?? [];
+      let location: { id: string; name: string; accessible: boolean } | null = null;
+
+      if (input.locationId) {
+        const [loc] = await ctx.db
+          .select({ id: locations.id, name: locations.name })
+          .from(locations)
+          .where(
+            and(
+              eq(locations.id, input.locationId),
+              eq(locations.tenantId, ctx.tenantId)
+            )
+          )
+          .limit(1);
+
+        if (!loc) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Location not found" });
+        }
+
+        const assignments = await ctx.db
+          .select({
+            locationId: membershipLocations.locationId,
+            roleId: roles.id,
+            roleName: roles.name,
+            roleSlug: roles.slug,
+            permissions: roles.permissions,
+          })
+          .from(membershipLocations)
+          .leftJoin(roles, eq(membershipLocations.roleId, roles.id))
+          .where(
+            and(
+              eq(membershipLocations.membershipId, membershipId),
+              eq(membershipLocations.tenantId, ctx.tenantId)
+            )
+          );
+
+        location = {
+          id: loc.id,
+          name: loc.name,
+          accessible: canAccessLocation(
+            assignments.map((a) => a.locationId),
+            loc.id
+          ),
+        };
+
+        const override = assignments.find((a) => a.locationId === loc.id);
+        if (override?.roleId) {
+          role = { id: override.roleId, name: override.roleName!, slug: override.roleSlug! };
+          grants = override.permissions ?? [];
+        }
+      }
+
+      const activeGrants = await getActivePermissionGrants(membershipId, ctx.db);
+      const permissions = mergePermissionGrants(grants, activeGrants);
+
+      const definition = getCatalogPermission(input.permission);
+      const deniedBy = findMatchingDeny(permissions, input.permission);
+      const matchedBy = findMatchingGrant(permissions, input.permission);
+      const moduleEnabled = definition?.moduleId
+        ? await isModuleEnabled(ctx.tenantId, definition.moduleId, ctx.db)
+        : null;
+
+      // Role entries win the attribution; otherwise it came from a grant
+      const sourceOf = (pattern: string) => {
+        const grant = grants.includes(pattern)
+          ? undefined
+          : activeGrants.find((g) => g.permission === pattern);
+        return grant
+          ? `temporary grant "${pattern}" (until ${grant.expiresAt.toISOString()})`
+          : `"${pattern}" on role "${role.name}"`;
+      };
+
+      let reason: string;
+      if (!member.isActive) {
+        reason = "Membership is deactivated";
+      } else if (location && !location.accessible) {
+        reason = `Not assigned to ${location.name}`;
+      } else if (deniedBy) {
+        reason = `Denied by ${sourceOf(deniedBy)}`;
+      } else if (!matchedBy) {
+        reason = `No grant on role "${role.name}" or temporary grant matches ${input.permission}`;
+      } else if (moduleEnabled === false) {
+        reason = `Granted by "${matchedBy}", but the ${definition!.source} module is not enabled`;
+      } else {
+        reason =
+          matchedBy === input.permission
+            ? `Granted directly by ${sourceOf(matchedBy)}`
+            : `Granted by wildcard ${sourceOf(matchedBy)}`;
+      }
+
+      return {
+        permission: input.permission,
+        known: definition !== undefined,
+        description: definition?.description ?? null,
+        member: { membershipId: member.membershipId, userName: member.userName },
+        role,
+        location,
+        grants: activeGrants,
+        matchedBy,
+        deniedBy,
+        moduleEnabled,
+        allowed:
+          member.isActive &&
+          (location?.accessible ?? true) &&
+          deniedBy === null &&
+          matchedBy !== null &&
+          moduleEnabled !== false,
+        reason,
+      };
+    }),
+
+  /**
+   * Platform template changes not yet accepted or dismissed for this
+   * tenant's roles, with the permission diff.
+   */
+  templateUpdates: tenantProcedure
+    .use(requirePermission("core:users:read"))
+    .query(async ({ ctx }) => {
+      return getRoleTemplateUpdates(ctx.tenantId, ctx.db);
+    }),
+
+  /**
+   * Accept (copy the template's permissions) or dismiss a template update.
+   * SECURITY: accepting is subject to the same escalation check as update.
+   */
+  resolveTemplateUpdate: adminProcedure
+    .input(z.object({ roleId: z.string().uuid(), accept: z.boolean() }))
+    .mutation(async ({ input, ctx }) => {
+      const pending = (await getRoleTemplateUpdates(ctx.tenantId, ctx.db)).find(
+        (u) => u.roleId === input.roleId
+      );
+
+      if (!pending) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "No pending template update for this role",
+        });
+      }
+
+      if (
+        input.accept &&
+        !canAssignPermissions(ctx.membership.permissions, pending.added)
+      ) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Cannot assign permissions you do not have",
+        });
+      }
+
+      const role = await resolveRoleTemplateUpdate(
+        ctx.tenantId,
+        input.roleId,
+        input.accept,
+        ctx.db
+      );
+
+      await ctx.audit(
+        input.accept
+            ? "role:template_update_accepted"
+            : "role:template_update_dismissed",
+        { type: "role", id: input.roleId },
+        {
+          before: { templateVersion: pending.fromVersion },
+          after: {
+            templateVersion: pending.toVersion,
+            added: input.accept ? pending.added : [],
+            removed: input.accept ? pending.removed : [],
+          },
+        }
+      );
+
+      return role;
+    }),
+
   /**
    * Create a custom role.
    * SECURITY: Users can only assign permissions they hold (prevents escalation).
@@ -80,6 +316,8 @@ export const rolesRouter = router({
   create: adminProcedure
     .input(createRoleSchema)
     .mutation(async ({ input, ctx }) => {
+      assertKnownPermissions(input.permissions);
+
       if (!canAssignPermissions(ctx.membership.permissions, input.permissions)) {
         throw new TRPCError({
           code: "FORBIDDEN",
@@ -117,19 +355,12 @@ export const rolesRouter = router({
         })
         .returning();
 
-      await createAuditLog(
+      await ctx.audit(
+        "role:created",
+        { type: "role", id: role!.id },
         {
-          tenantId: ctx.tenantId,
-          userId: ctx.session.user.id,
-          action: "role:created",
-          resourceType: "role",
-          resourceId: role!.id,
-          changes: {
-            after: { name: input.name, permissions: input.permissions },
-          },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+          after: { name: input.name, permissions: input.permissions },
+        }
       );
 
       return role;
@@ -162,6 +393,8 @@ export const rolesRouter = router({
       }
 
       if (input.permissions) {
+        assertKnownPermissions(input.permissions);
+
         if (!canAssignPermissions(ctx.membership.permissions, input.permissions)) {
           throw new TRPCError({
             code: "FORBIDDEN",
@@ -181,17 +414,10 @@ export const rolesRouter = router({
         .where(eq(roles.id, input.id))
         .returning();
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session.user.id,
-          action: "role:updated",
-          resourceType: "role",
-          resourceId: input.id,
-          changes: { before: { permissions: existing.permissions }, after: updateData },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "role:updated",
+        { type: "role", id: input.id },
+        { before: { permissions: existing.permissions }, after: updateData }
       );
 
       return updated;
@@ -238,17 +464,10 @@ export const rolesRouter = router({
 
       await ctx.db.delete(roles).where(eq(roles.id, input.id));
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session.user.id,
-          action: "role:deleted",
-          resourceType: "role",
-          resourceId: input.id,
-          changes: { before: { name: role.name } },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "role:deleted",
+        { type: "role", id: input.id },
+        { before: { name: role.name } }
       );
 
       return { success: true };
@@ -12,10 +12,19 @@ import {
   tenants,
   tenantMemberships,
   roles,
+  tenantSsoDomains,
 } from "../../db/schema/index";
 import { createAuditLog } from "../../audit/index";
+import {
+  generateSsoDomainToken,
+  ssoDomainVerificationRecord,
+  assertSsoDomainVerified,
+} from "../../auth/sso-domains";
+import { enableDefaultModules, installDefaultModules } from "../../modules/index";
 import {
   createTenantSchema,
+  tenantSettingsSchema,
+  ssoDomainSchema,
   SYSTEM_ROLES,
   SYSTEM_ROLE_PERMISSIONS,
 } from "@sme/shared";
@@ -46,66 +55,82 @@ export const tenantsRouter = router({
         });
       }
 
-      // Create tenant
-      const [tenant] = await ctx.db
-        .insert(tenants)
-        .values({
-          name: input.name,
-          slug: input.slug,
-          settings: input.settings ?? {},
-        })
-        .returning();
+      // Module DDL can't run inside the transaction below (it would wait on
+      // the new tenant row's locks), so install default modules first
+      await installDefaultModules();
 
-      if (!tenant) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to create tenant",
-        });
-      }
+      // Tenant, roles, owner membership and default modules commit together
+      const tenant = await ctx.db.transaction(async (tx) => {
+        // Create tenant
+        const [tenant] = await tx
+          .insert(tenants)
+          .values({
+            name: input.name,
+            slug: input.slug,
+            settings: input.settings ?? {},
+          })
+          .returning();
 
-      // Create system roles for the tenant
-      const systemRoles = await ctx.db
-        .insert(roles)
-        .values(
-          SYSTEM_ROLES.map((roleSlug) => ({
-            tenantId: tenant.id,
-            name: roleSlug.charAt(0).toUpperCase() + roleSlug.slice(1),
-            slug: roleSlug,
-            permissions: SYSTEM_ROLE_PERMISSIONS[roleSlug],
-            isSystem: true,
-          }))
-        )
-        .returning();
+        if (!tenant) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create tenant",
+          });
+        }
 
-      // Find the owner role
-      const ownerRole = systemRoles.find((r) => r.slug === "owner");
-      if (!ownerRole) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to create owner role",
-        });
-      }
+        // Create system roles for the tenant
+        const systemRoles = await tx
+          .insert(roles)
+          .values(
+            SYSTEM_ROLES.map((roleSlug) => ({
+              tenantId: tenant.id,
+              name: roleSlug.charAt(0).toUpperCase() + roleSlug.slice(1),
+              slug: roleSlug,
+              permissions: SYSTEM_ROLE_PERMISSIONS[roleSlug],
+              isSystem: true,
+            }))
+          )
+          .returning();
 
-      // Add the creating user as owner
-      await ctx.db.insert(tenantMemberships).values({
-        tenantId: tenant.id,
-        userId: ctx.session.user.id,
-        roleId: ownerRole.id,
-      });
+        // Find the owner role
+        const ownerRole = systemRoles.find((r) => r.slug === "owner");
+        if (!ownerRole) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create owner role",
+          });
+        }
 
-      // Audit (uses ctx.db which is adminDb for super admin)
-      await createAuditLog(
-        {
+        // Add the creating user as owner
+        await tx.insert(tenantMemberships).values({
           tenantId: tenant.id,
           userId: ctx.session.user.id,
-          action: "tenant:created",
-          resourceType: "tenant",
-          resourceId: tenant.id,
-          changes: { after: { name: tenant.name, slug: tenant.slug } },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
-      );
+          roleId: ownerRole.id,
+        });
+
+        // Enable default modules (runs their onEnable/onTenantCreated hooks)
+        const enabledModules = await enableDefaultModules(
+          tenant.id,
+          ctx.session.user.id,
+          tx
+        );
+
+        // Audit
+        await createAuditLog(
+          {
+            tenantId: tenant.id,
+            userId: ctx.session.user.id,
+            action: "tenant:created",
+            resourceType: "tenant",
+            resourceId: tenant.id,
+            changes: { after: { name: tenant.name, slug: tenant.slug, enabledModules } },
+            ipAddress: ctx.ipAddress,
+          },
+          tx
+        );
+
+        return tenant;
+      });
 
       return { tenant };
     }),
@@ -146,65 +171,81 @@ export const tenantsRouter = router({
         });
       }
 
-      // Create tenant
-      const [tenant] = await ctx.db
-        .insert(tenants)
-        .values({
-          name: input.name,
-          slug: input.slug,
-          settings: input.settings ?? {},
-        })
-        .returning();
+      // Module DDL can't run inside the transaction below (it would wait on
+      // the new tenant row's locks), so install default modules first
+      await installDefaultModules();
 
-      if (!tenant) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to create organization",
-        });
-      }
+      // Tenant, roles, owner membership and default modules commit together
+      const tenant = await ctx.db.transaction(async (tx) => {
+        // Create tenant
+        const [tenant] = await tx
+          .insert(tenants)
+          .values({
+            name: input.name,
+            slug: input.slug,
+            settings: input.settings ?? {},
+          })
+          .returning();
 
-      // Create system roles
-      const systemRoles = await ctx.db
-        .insert(roles)
-        .values(
-          SYSTEM_ROLES.map((roleSlug) => ({
-            tenantId: tenant.id,
-            name: roleSlug.charAt(0).toUpperCase() + roleSlug.slice(1),
-            slug: roleSlug,
-            permissions: SYSTEM_ROLE_PERMISSIONS[roleSlug],
-            isSystem: true,
-          }))
-        )
-        .returning();
+        if (!tenant) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create organization",
+          });
+        }
 
-      const ownerRole = systemRoles.find((r) => r.slug === "owner");
-      if (!ownerRole) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to create owner role",
-        });
-      }
+        // Create system roles
+        const systemRoles = await tx
+          .insert(roles)
+          .values(
+            SYSTEM_ROLES.map((roleSlug) => ({
+              tenantId: tenant.id,
+              name: roleSlug.charAt(0).toUpperCase() + roleSlug.slice(1),
+              slug: roleSlug,
+              permissions: SYSTEM_ROLE_PERMISSIONS[roleSlug],
+              isSystem: true,
+            }))
+          )
+          .returning();
 
-      // Add user as owner
-      await ctx.db.insert(tenantMemberships).values({
-        tenantId: tenant.id,
-        userId: ctx.session.user.id,
-        roleId: ownerRole.id,
-      });
+        const ownerRole = systemRoles.find((r) => r.slug === "owner");
+        if (!ownerRole) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create owner role",
+          });
+        }
 
-      // Audit
-      await createAuditLog(
-        {
+        // Add user as owner
+        await tx.insert(tenantMemberships).values({
           tenantId: tenant.id,
           userId: ctx.session.user.id,
-          action: "tenant:created",
-          resourceType: "tenant",
-          resourceId: tenant.id,
-          changes: { after: { name: tenant.name, slug: tenant.slug, selfService: true } },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
-      );
+          roleId: ownerRole.id,
+        });
+
+        // Enable default modules (runs their onEnable/onTenantCreated hooks)
+        const enabledModules = await enableDefaultModules(
+          tenant.id,
+          ctx.session.user.id,
+          tx
+        );
+
+        // Audit
+        await createAuditLog(
+          {
+            tenantId: tenant.id,
+            userId: ctx.session.user.id,
+            action: "tenant:created",
+            resourceType: "tenant",
+            resourceId: tenant.id,
+            changes: { after: { name: tenant.name, slug: tenant.slug, selfService: true, enabledModules } },
+            ipAddress: ctx.ipAddress,
+          },
+          tx
+        );
+
+        return tenant;
+      });
 
       return { tenant };
     }),
@@ -236,7 +277,7 @@ export const tenantsRouter = router({
     .input(
       z.object({
         name: z.string().min(1).max(200).trim().optional(),
-        settings: z.record(z.unknown()).optional(),
+        settings: tenantSettingsSchema.optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -244,6 +285,28 @@ export const tenantsRouter = router({
       if (input.name !== undefined) updateData.name = input.name;
       if (input.settings !== undefined) updateData.settings = input.settings;
 
+      // Auto-provisioned SSO members get this role — never ownership
+      const ssoRoleId = input.settings?.ssoAutoProvisionRoleId;
+      if (ssoRoleId) {
+        const [role] = await ctx.db
+          .select({ slug: roles.slug })
+          .from(roles)
+          .where(and(eq(roles.id, ssoRoleId), eq(roles.tenantId, ctx.tenantId)))
+          .limit(1);
+        if (!role) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "SSO provisioning role not found",
+          });
+        }
+        if (role.slug === "owner") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "SSO members can't be provisioned as owners",
+          });
+        }
+      }
+
       if (Object.keys(updateData).length === 0) {
         throw new TRPCError({
           code: "BAD_REQUEST",
@@ -265,19 +328,141 @@ export const tenantsRouter = router({
         });
       }
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session.user.id,
-          action: "tenant:updated",
-          resourceType: "tenant",
-          resourceId: ctx.tenantId,
-          changes: { after: updateData },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "tenant:updated",
+        { type: "tenant", id: ctx.tenantId },
+        { after: updateData }
       );
 
       return updated;
     }),
+
+  /**
+   * Email domains for SSO auto-provisioning. A domain only provisions
+   * members once verified: the tenant publishes the TXT record shown here
+   * and calls verify (see auth/sso-domains.ts).
+   */
+  ssoDomains: router({
+    list: adminProcedure.query(async ({ ctx }) => {
+      const rows = await ctx.db
+        .select()
+        .from(tenantSsoDomains)
+        .where(eq(tenantSsoDomains.tenantId, ctx.tenantId))
+        .orderBy(tenantSsoDomains.domain);
+
+      return rows.map((row) => ({
+        id: row.id,
+        domain: row.domain,
+        verifiedAt: row.verifiedAt,
+        createdAt: row.createdAt,
+        record: ssoDomainVerificationRecord(row.domain, row.verificationToken),
+      }));
+    }),
+
+    add: adminProcedure
+      .input(z.object({ domain: ssoDomainSchema }))
+      .mutation(async ({ input, ctx }) => {
+        const [added] = await ctx.db
+          .insert(tenantSsoDomains)
+          .values({
+            tenantId: ctx.tenantId,
+            domain: input.domain,
+            verificationToken: generateSsoDomainToken(),
+            createdBy: ctx.session.user.id,
+          })
+          .onConflictDoNothing()
+          .returning();
+
+        if (!added) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "This domain is already listed",
+          });
+        }
+
+        await ctx.audit(
+          "tenant:sso_domain:added",
+          { type: "tenant_sso_domain", id: added.id },
+          { after: { domain: added.domain } }
+        );
+
+        return {
+          id: added.id,
+          domain: added.domain,
+          record: ssoDomainVerificationRecord(added.domain, added.verificationToken),
+        };
+      }),
+
+    /** Look up the domain's TXT record and mark it verified if it matches */
+    verify: adminProcedure
+      .input(z.object({ domainId: z.string().uuid() }))
+      .mutation(async ({ input, ctx }) => {
+        const [row] = await ctx.db
+          .select()
+          .from(tenantSsoDomains)
+          .where(
+            and(
+              eq(tenantSsoDomains.id, input.domainId),
+              eq(tenantSsoDomains.tenantId, ctx.tenantId)
+            )
+          )
+          .limit(1);
+
+        if (!row) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Domain not found" });
+        }
+        if (row.verifiedAt) {
+          return { verifiedAt: row.verifiedAt };
+        }
+
+        try {
+          await assertSsoDomainVerified(row.domain, row.verificationToken);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Domain not verified",
+          });
+        }
+
+        const [verified] = await ctx.db
+          .update(tenantSsoDomains)
+          .set({ verifiedAt: new Date() })
+          .where(eq(tenantSsoDomains.id, row.id))
+          .returning({ verifiedAt: tenantSsoDomains.verifiedAt });
+
+        await ctx.audit(
+          "tenant:sso_domain:verified",
+          { type: "tenant_sso_domain", id: row.id },
+          { after: { domain: row.domain } }
+        );
+
+        return { verifiedAt: verified!.verifiedAt };
+      }),
+
+    remove: adminProcedure
+      .input(z.object({ domainId: z.string().uuid() }))
+      .mutation(async ({ input, ctx }) => {
+        const [deleted] = await ctx.db
+          .delete(tenantSsoDomains)
+          .where(
+            and(
+              eq(tenantSsoDomains.id, input.domainId),
+              eq(tenantSsoDomains.tenantId, ctx.tenantId)
+            )
+          )
+          .returning({ id: tenantSsoDomains.id, domain: tenantSsoDomains.domain });
+
+        if (!deleted) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Domain not found" });
+        }
+
+        await ctx.audit(
+          "tenant:sso_domain:removed",
+          { type: "tenant_sso_domain", id: deleted.id },
+          { before: { domain: deleted.domain } }
+        );
+
+        return { success: true };
+      }),
+  }),
 });
@@ -1,5 +1,5 @@
 import { TRPCError } from "@trpc/server";
-import { eq, and, gt, ilike } from "drizzle-orm";
+import { eq, and, gt, ilike, desc } from "drizzle-orm";
 import { z } from "zod";
 import {
   router,
@@ -10,13 +10,23 @@ import { requirePermission } from "../procedures";
 import {
   users,
   tenantMemberships,
+  tenantInvitations,
   roles,
+  membershipPermissionGrants,
 } from "../../db/schema/index";
 import { hashPassword } from "../../auth/password";
-import { createAuditLog } from "../../audit/index";
+import { invalidateAllUserSessions } from "../../auth/session";
+import {
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+} from "../../tenant/invitations";
+import { assertMemberLimit } from "../../modules/index";
+import { canAssignPermissions, findUnknownPermissions } from "../../rbac/index";
 import {
   inviteUserSchema,
   updateMembershipSchema,
+  grantPermissionSchema,
   paginationSchema,
 } from "@sme/shared";
 import { paginatedResult } from "@sme/shared";
@@ -80,8 +90,8 @@ export const usersRouter = router({
     }),
 
   /**
-   * Invite a user to the tenant.
-   * Creates the user if they don't exist, then adds membership.
+   * Invite someone to the tenant by email. Nothing is created until they
+   * accept (see tenant/invitations) — new users choose their password then.
    * SECURITY: PINs are hashed before storage. Role assignment checked for escalation.
    */
   invite: adminProcedure
@@ -114,97 +124,167 @@ export const usersRouter = router({
         });
       }
 
-      // Find or create the user (users table has no RLS, so this works in the tx)
-      let [user] = await ctx.db
-        .select()
-        .from(users)
-        .where(eq(users.email, input.email))
-        .limit(1);
-
-      if (!user) {
-        const tempPasswordHash = await hashPassword(
-          crypto.randomUUID()
-        );
+      // Enforce the plan's member limit up front (checked again on acceptance)
+      try {
+        await assertMemberLimit(ctx.tenantId, ctx.db);
+      } catch (error) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: error instanceof Error ? error.message : "Member limit reached",
+        });
+      }
 
-        [user] = await ctx.db
-          .insert(users)
-          .values({
+      let invitation;
+      try {
+        invitation = await createInvitation(
+          {
+            tenantId: ctx.tenantId,
             email: input.email,
             fullName: input.fullName,
-            passwordHash: tempPasswordHash,
-          })
-          .returning();
-      }
-
-      if (!user) {
+            roleId: input.roleId,
+            pin: input.pin,
+            invitedBy: { id: ctx.session.user.id, fullName: ctx.session.user.fullName },
+          },
+          ctx.db
+        );
+      } catch (error) {
         throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to create user",
+          code: "CONFLICT",
+          message: error instanceof Error ? error.message : "Failed to invite user",
         });
       }
 
-      // Check if already a member
-      const [existingMembership] = await ctx.db
-        .select()
-        .from(tenantMemberships)
+      // Audit
+      await ctx.audit(
+        "user:invited",
+        { type: "invitation", id: invitation.id },
+        {
+          after: {
+            email: input.email,
+            roleId: input.roleId,
+            roleName: role.name,
+          },
+        }
+      );
+
+      return {
+        invitation: {
+          id: invitation.id,
+          email: invitation.email,
+          expiresAt: invitation.expiresAt,
+        },
+      };
+    }),
+
+  /**
+   * Invitations of the current tenant, newest first. Pending invitations
+   * past their expiry are reported as expired.
+   */
+  listInvitations: tenantProcedure
+    .use(requirePermission("core:users:read"))
+    .query(async ({ ctx }) => {
+      const rows = await ctx.db
+        .select({
+          id: tenantInvitations.id,
+          email: tenantInvitations.email,
+          fullName: tenantInvitations.fullName,
+          roleName: roles.name,
+          status: tenantInvitations.status,
+          invitedBy: users.fullName,
+          expiresAt: tenantInvitations.expiresAt,
+          createdAt: tenantInvitations.createdAt,
+        })
+        .from(tenantInvitations)
+        .innerJoin(roles, eq(tenantInvitations.roleId, roles.id))
+        .leftJoin(users, eq(tenantInvitations.invitedBy, users.id))
+        .where(eq(tenantInvitations.tenantId, ctx.tenantId))
+        .orderBy(desc(tenantInvitations.createdAt))
+        .limit(100);
+
+      const now = new Date();
+      return rows.map((row) => ({
+        ...row,
+        status:
+          row.status === "pending" && row.expiresAt <= now ? "expired" : row.status,
+      }));
+    }),
+
+  /**
+   * Email a pending or expired invitation again with a new link.
+   */
+  resendInvitation: adminProcedure
+    .input(z.object({ invitationId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const [target] = await ctx.db
+        .select({ roleSlug: roles.slug })
+        .from(tenantInvitations)
+        .innerJoin(roles, eq(tenantInvitations.roleId, roles.id))
         .where(
           and(
-            eq(tenantMemberships.tenantId, ctx.tenantId),
-            eq(tenantMemberships.userId, user.id)
+            eq(tenantInvitations.id, input.invitationId),
+            eq(tenantInvitations.tenantId, ctx.tenantId)
           )
         )
         .limit(1);
 
-      if (existingMembership) {
+      if (
+        target?.roleSlug === "owner" &&
+        ctx.membership.roleSlug !== "owner" &&
+        !ctx.session.user.isSuperAdmin
+      ) {
         throw new TRPCError({
-          code: "CONFLICT",
-          message: "User is already a member of this tenant",
+          code: "FORBIDDEN",
+          message: "Only owners can invite owners",
+        });
+      }
+
+      let invitation;
+      try {
+        invitation = await resendInvitation(
+          ctx.tenantId,
+          input.invitationId,
+          { fullName: ctx.session.user.fullName },
+          ctx.db
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to resend invitation",
         });
       }
 
-      // Hash PIN before storage if provided
-      const pinHash = input.pin ? await hashPassword(input.pin) : null;
+      await ctx.audit(
+        "user:invitation_resent",
+        { type: "invitation", id: invitation.id },
+        { after: { email: invitation.email, expiresAt: invitation.expiresAt.toISOString() } }
+      );
 
-      // Create membership — store hashed PIN, not plaintext
-      const [membership] = await ctx.db
-        .insert(tenantMemberships)
-        .values({
-          tenantId: ctx.tenantId,
-          userId: user.id,
-          roleId: input.roleId,
-          pinHash,
-          pinCode: null,
-        })
-        .returning();
+      return { success: true, expiresAt: invitation.expiresAt };
+    }),
 
-      // Audit
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session.user.id,
-          action: "user:invited",
-          resourceType: "user",
-          resourceId: user.id,
-          changes: {
-            after: {
-              email: input.email,
-              roleId: input.roleId,
-              roleName: role.name,
-            },
-          },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+  /**
+   * Withdraw a pending invitation.
+   */
+  revokeInvitation: adminProcedure
+    .input(z.object({ invitationId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      let invitation;
+      try {
+        invitation = await revokeInvitation(ctx.tenantId, input.invitationId, ctx.db);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to revoke invitation",
+        });
+      }
+
+      await ctx.audit(
+        "user:invitation_revoked",
+        { type: "invitation", id: invitation.id },
+        { before: { email: invitation.email, status: "pending" } }
       );
 
-      return {
-        membership,
-        user: {
-          id: user.id,
-          email: user.email,
-          fullName: user.fullName,
-        },
-      };
+      return { success: true };
     }),
 
   /**
@@ -312,17 +392,10 @@ export const usersRouter = router({
       const auditChanges = { ...updateData };
       if (auditChanges.pinHash) auditChanges.pinHash = "[REDACTED]";
 
-      await createAuditLog(
-        {
-          tenantId: ctx.tenantId,
-          userId: ctx.session.user.id,
-          action: "user:membership_updated",
-          resourceType: "membership",
-          resourceId: input.membershipId,
-          changes: { after: auditChanges },
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+      await ctx.audit(
+        "user:membership_updated",
+        { type: "membership", id: input.membershipId },
+        { after: auditChanges }
       );
 
       return updated;
@@ -365,16 +438,194 @@ export const usersRouter = router({
         .where(eq(tenantMemberships.id, input.membershipId));
 
       // Audit
-      await createAuditLog(
-        {
+      await ctx.audit(
+        "user:removed",
+        { type: "membership", id: input.membershipId }
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Sign a member out of this tenant on every device. Sessions they have
+   * open in other tenants are untouched — deactivate the membership to keep
+   * them out.
+   */
+  revokeMemberSessions: adminProcedure
+    .input(z.object({ membershipId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const [membership] = await ctx.db
+        .select({ userId: tenantMemberships.userId, roleSlug: roles.slug })
+        .from(tenantMemberships)
+        .innerJoin(roles, eq(tenantMemberships.roleId, roles.id))
+        .where(
+          and(
+            eq(tenantMemberships.id, input.membershipId),
+            eq(tenantMemberships.tenantId, ctx.tenantId)
+          )
+        )
+        .limit(1);
+
+      if (!membership) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Membership not found",
+        });
+      }
+
+      if (membership.userId === ctx.session.user.id) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Manage your own sessions from Security settings",
+        });
+      }
+
+      if (membership.roleSlug === "owner" && ctx.membership.roleSlug !== "owner") {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the owner can sign out the owner",
+        });
+      }
+
+      const revoked = await invalidateAllUserSessions(membership.userId, {
+        tenantId: ctx.tenantId,
+      });
+
+      await ctx.audit(
+        "user:sessions_revoked",
+        { type: "membership", id: input.membershipId },
+        { after: { revoked } }
+      );
+
+      return { revoked };
+    }),
+
+  /**
+   * Temporary permission grants for a member (newest first).
+   * Expired and revoked grants are included as history.
+   */
+  grants: tenantProcedure
+    .use(requirePermission("core:users:read"))
+    .input(z.object({ membershipId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return ctx.db
+        .select({
+          id: membershipPermissionGrants.id,
+          permission: membershipPermissionGrants.permission,
+          reason: membershipPermissionGrants.reason,
+          expiresAt: membershipPermissionGrants.expiresAt,
+          createdAt: membershipPermissionGrants.createdAt,
+          grantedByName: users.fullName,
+        })
+        .from(membershipPermissionGrants)
+        .leftJoin(users, eq(membershipPermissionGrants.grantedBy, users.id))
+        .where(
+          and(
+            eq(membershipPermissionGrants.membershipId, input.membershipId),
+            eq(membershipPermissionGrants.tenantId, ctx.tenantId)
+          )
+        )
+        .orderBy(desc(membershipPermissionGrants.createdAt));
+    }),
+
+  /**
+   * Give a member an extra permission (or deny) until a set time, on top of
+   * their role. SECURITY: only permissions the caller holds can be granted.
+   */
+  grantPermission: adminProcedure
+    .input(grantPermissionSchema)
+    .mutation(async ({ input, ctx }) => {
+      if (findUnknownPermissions([input.permission]).length > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Unknown permission: ${input.permission}`,
+        });
+      }
+
+      if (!canAssignPermissions(ctx.membership.permissions, [input.permission])) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Cannot assign permissions you do not have",
+        });
+      }
+
+      const [membership] = await ctx.db
+        .select({ id: tenantMemberships.id })
+        .from(tenantMemberships)
+        .where(
+          and(
+            eq(tenantMemberships.id, input.membershipId),
+            eq(tenantMemberships.tenantId, ctx.tenantId)
+          )
+        )
+        .limit(1);
+
+      if (!membership) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Membership not found",
+        });
+      }
+
+      const [grant] = await ctx.db
+        .insert(membershipPermissionGrants)
+        .values({
           tenantId: ctx.tenantId,
-          userId: ctx.session.user.id,
-          action: "user:removed",
-          resourceType: "membership",
-          resourceId: input.membershipId,
-          ipAddress: ctx.ipAddress,
-        },
-        ctx.db
+          membershipId: input.membershipId,
+          permission: input.permission,
+          reason: input.reason ?? null,
+          expiresAt: input.expiresAt,
+          grantedBy: ctx.session.user.id,
+        })
+        .returning();
+
+      await ctx.audit(
+        "user:permission_granted",
+        { type: "membership", id: input.membershipId },
+        {
+          after: {
+            permission: input.permission,
+            expiresAt: input.expiresAt.toISOString(),
+            reason: input.reason,
+          },
+        }
+      );
+
+      return grant;
+    }),
+
+  /**
+   * Revoke a temporary grant by expiring it now (kept as history).
+   */
+  revokeGrant: adminProcedure
+    .input(z.object({ grantId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const [revoked] = await ctx.db
+        .update(membershipPermissionGrants)
+        .set({ expiresAt: new Date() })
+        .where(
+          and(
+            eq(membershipPermissionGrants.id, input.grantId),
+            eq(membershipPermissionGrants.tenantId, ctx.tenantId),
+            gt(membershipPermissionGrants.expiresAt, new Date())
+          )
+        )
+        .returning({
+          membershipId: membershipPermissionGrants.membershipId,
+          permission: membershipPermissionGrants.permission,
+        });
+
+      if (!revoked) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Active grant not found",
+        });
+      }
+
+      await ctx.audit(
+        "user:permission_revoked",
+        { type: "membership", id: revoked.membershipId },
+        { before: { permission: revoked.permission } }
       );
 
       return { success: true };
@@ -0,0 +1,347 @@
+import { TRPCError } from "@trpc/server";
+import { eq, and, desc, lt, sql } from "drizzle-orm";
+import { z } from "zod";
+import { router, tenantProcedure } from "../procedures";
+import { requirePermission } from "../procedures";
+import { webhookEndpoints, webhookDeliveries } from "../../db/schema/index";
+import { getModuleRegistry } from "../../modules/index";
+import {
+  assertWebhookUrlAllowed,
+  generateWebhookSecret,
+  queueWebhookPing,
+  replayWebhookDelivery,
+} from "../../webhooks/index";
+import {
+  createWebhookEndpointSchema,
+  updateWebhookEndpointSchema,
+  paginationSchema,
+  paginatedResult,
+} from "@sme/shared";
+
+// ============================================
+// Webhooks Router — manage outbound webhook endpoints
+// All queries use ctx.db and filter by ctx.tenantId
+// ============================================
+
+const webhooksProcedure = tenantProcedure.use(
+  requirePermission("core:webhooks:manage")
+);
+
+/** Reject endpoints that resolve to loopback, private or link-local addresses */
+async function checkWebhookUrl(url: string): Promise<void> {
+  try {
+    await assertWebhookUrlAllowed(url);
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: error instanceof Error ? error.message : "Webhook URL is not allowed",
+    });
+  }
+}
+
+/** Endpoint columns safe to return — the secret is only shown on create/rotate */
+const endpointColumns = {
+  id: webhookEndpoints.id,
+  url: webhookEndpoints.url,
+  description: webhookEndpoints.description,
+  events: webhookEndpoints.events,
+  isActive: webhookEndpoints.isActive,
+  secretHint: sql<string>`right(${webhookEndpoints.secret}, 4)`,
+  createdAt: webhookEndpoints.createdAt,
+  updatedAt: webhookEndpoints.updatedAt,
+};
+
+export const webhooksRouter = router({
+  /**
+   * Event types that can be subscribed to (declared by registered modules).
+   */
+  eventTypes: webhooksProcedure.query(() => {
+    const types: { moduleId: string; moduleName: string; type: string }[] = [];
+    for (const mod of getModuleRegistry().values()) {
+      for (const type of mod.publishes ?? []) {
+        types.push({ moduleId: mod.id, moduleName: mod.name, type });
+      }
+    }
+    return types;
+  }),
+
+  /**
+   * List the tenant's webhook endpoints.
+   */
+  list: webhooksProcedure.query(async ({ ctx }) => {
+    return ctx.db
+      .select(endpointColumns)
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.tenantId, ctx.tenantId))
+      .orderBy(webhookEndpoints.createdAt);
+  }),
+
+  /**
+   * Create an endpoint. The signing secret is returned once.
+   */
+  create: webhooksProcedure
+    .input(createWebhookEndpointSchema)
+    .mutation(async ({ input, ctx }) => {
+      await checkWebhookUrl(input.url);
+      const secret = generateWebhookSecret();
+
+      const [endpoint] = await ctx.db
+        .insert(webhookEndpoints)
+        .values({
+          tenantId: ctx.tenantId,
+          url: input.url,
+          description: input.description ?? null,
+          secret,
+          events: input.events,
+          createdBy: ctx.session!.user.id,
+        })
+        .returning(endpointColumns);
+
+      if (!endpoint) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create webhook endpoint",
+        });
+      }
+
+      await ctx.audit(
+        "webhook:endpoint:created",
+        { type: "webhook_endpoint", id: endpoint.id },
+        { after: { url: input.url, events: input.events } }
+      );
+
+      return { ...endpoint, secret };
+    }),
+
+  /**
+   * Update an endpoint's URL, events, description or active flag.
+   */
+  update: webhooksProcedure
+    .input(updateWebhookEndpointSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { endpointId, ...updates } = input;
+      if (updates.url) await checkWebhookUrl(updates.url);
+
+      const [existing] = await ctx.db
+        .select(endpointColumns)
+        .from(webhookEndpoints)
+        .where(
+          and(
+            eq(webhookEndpoints.id, endpointId),
+            eq(webhookEndpoints.tenantId, ctx.tenantId)
+          )
+        )
+        .limit(1);
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook endpoint not found",
+        });
+      }
+
+      const [updated] = await ctx.db
+        .update(webhookEndpoints)
+        .set(updates)
+        .where(
+          and(
+            eq(webhookEndpoints.id, endpointId),
+            eq(webhookEndpoints.tenantId, ctx.tenantId)
+          )
+        )
+        .returning(endpointColumns);
+
+      await ctx.audit(
+        "webhook:endpoint:updated",
+        { type: "webhook_endpoint", id: endpointId },
+        {
+          before: {
+            url: existing.url,
+            events: existing.events,
+            isActive: existing.isActive,
+          },
+          after: updates,
+        }
+      );
+
+      return updated;
+    }),
+
+  /**
+   * Delete an endpoint and its delivery log.
+   */
+  delete: webhooksProcedure
+    .input(z.object({ endpointId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const [deleted] = await ctx.db
+        .delete(webhookEndpoints)
+        .where(
+          and(
+            eq(webhookEndpoints.id, input.endpointId),
+            eq(webhookEndpoints.tenantId, ctx.tenantId)
+          )
+        )
+        .returning({ id: webhookEndpoints.id, url: webhookEndpoints.url });
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook endpoint not found",
+        });
+      }
+
+      await ctx.audit(
+        "webhook:endpoint:deleted",
+        { type: "webhook_endpoint", id: deleted.id },
+        { before: { url: deleted.url } }
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Replace the signing secret. The new secret is returned once.
+   */
+  rotateSecret: webhooksProcedure
+    .input(z.object({ endpointId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const secret = generateWebhookSecret();
+
+      const [updated] = await ctx.db
+        .update(webhookEndpoints)
+        .set({ secret })
+        .where(
+          and(
+            eq(webhookEndpoints.id, input.endpointId),
+            eq(webhookEndpoints.tenantId, ctx.tenantId)
+          )
+        )
+        .returning({ id: webhookEndpoints.id });
+
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook endpoint not found",
+        });
+      }
+
+      await ctx.audit(
+        "webhook:endpoint:secret_rotated",
+        { type: "webhook_endpoint", id: updated.id }
+      );
+
+      return { secret };
+    }),
+
+  /**
+   * Send a "webhook:ping" test delivery to an endpoint.
+   */
+  ping: webhooksProcedure
+    .input(z.object({ endpointId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const [endpoint] = await ctx.db
+        .select({ id: webhookEndpoints.id })
+        .from(webhookEndpoints)
+        .where(
+          and(
+            eq(webhookEndpoints.id, input.endpointId),
+            eq(webhookEndpoints.tenantId, ctx.tenantId)
+          )
+        )
+        .limit(1);
+
+      if (!endpoint) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook endpoint not found",
+        });
+      }
+
+      const deliveryId = await queueWebhookPing(ctx.tenantId, endpoint.id, ctx.db);
+
+      await ctx.audit(
+        "webhook:pinged",
+        { type: "webhook_endpoint", id: endpoint.id },
+        { after: { deliveryId } }
+      );
+
+      return { deliveryId };
+    }),
+
+  /**
+   * Delivery log, newest first.
+   */
+  deliveries: webhooksProcedure
+    .input(
+      paginationSchema.extend({
+        endpointId: z.string().uuid().optional(),
+        status: z.enum(["pending", "succeeded", "failed"]).optional(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const items = await ctx.db
+        .select({
+          id: webhookDeliveries.id,
+          endpointId: webhookDeliveries.endpointId,
+          eventId: webhookDeliveries.eventId,
+          eventType: webhookDeliveries.eventType,
+          status: webhookDeliveries.status,
+          attempts: webhookDeliveries.attempts,
+          nextAttemptAt: webhookDeliveries.nextAttemptAt,
+          responseStatus: webhookDeliveries.responseStatus,
+          durationMs: webhookDeliveries.durationMs,
+          lastError: webhookDeliveries.lastError,
+          replayOf: webhookDeliveries.replayOf,
+          deliveredAt: webhookDeliveries.deliveredAt,
+          createdAt: webhookDeliveries.createdAt,
+        })
+        .from(webhookDeliveries)
+        .where(
+          and(
+            eq(webhookDeliveries.tenantId, ctx.tenantId),
+            input.endpointId
+              ? eq(webhookDeliveries.endpointId, input.endpointId)
+              : undefined,
+            input.status ? eq(webhookDeliveries.status, input.status) : undefined,
+            input.cursor
+              ? lt(
+                  webhookDeliveries.createdAt,
+                  sql`(SELECT created_at FROM webhook_deliveries WHERE id = ${input.cursor})`
+                )
+              : undefined
+          )
+        )
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(input.limit + 1);
+
+      return paginatedResult(items, input.limit);
+    }),
+
+  /**
+   * Re-send a delivery (typically a failed one) as a new delivery.
+   */
+  replay: webhooksProcedure
+    .input(z.object({ deliveryId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const replay = await replayWebhookDelivery(
+        ctx.tenantId,
+        input.deliveryId,
+        ctx.db
+      );
+
+      if (!replay) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Delivery not found",
+        });
+      }
+
+      await ctx.audit(
+        "webhook:delivery:replayed",
+        { type: "webhook_delivery", id: replay.id },
+        { after: { replayOf: input.deliveryId } }
+      );
+
+      return { deliveryId: replay.id };
+    }),
+});
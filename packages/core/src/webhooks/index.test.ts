@@ -0,0 +1,105 @@
+import { createHmac } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { assertWebhookUrlAllowed, signWebhookPayload } from "./index";
+
+vi.mock("node:dns/promises", () => ({ lookup: vi.fn() }));
+
+const lookupMock = vi.mocked(lookup);
+
+/** Make every lookup resolve to these addresses ({ all: true } result) */
+function resolvesTo(...addresses: string[]) {
+  const results = addresses.map((address) => ({
+    address,
+    family: address.includes(":") ? 6 : 4,
+  }));
+  lookupMock.mockResolvedValue(results as never);
+}
+
+describe("signWebhookPayload", () => {
+  it("signs '<t>.<body>' with HMAC-SHA256", () => {
+    const body = JSON.stringify({ id: "evt_1", type: "core:users:invited" });
+    const expected = createHmac("sha256", "whsec_test")
+      .update(`1700000000.${body}`)
+      .digest("hex");
+
+    expect(signWebhookPayload("whsec_test", body, 1700000000)).toBe(
+      `t=1700000000,v1=${expected}`
+    );
+  });
+
+  it("changes with the timestamp and the secret", () => {
+    const signature = signWebhookPayload("whsec_test", "{}", 1700000000);
+
+    expect(signWebhookPayload("whsec_test", "{}", 1700000001)).not.toBe(signature);
+    expect(signWebhookPayload("whsec_other", "{}", 1700000000).split(",")[1]).not.toBe(
+      signature.split(",")[1]
+    );
+  });
+});
+
+describe("assertWebhookUrlAllowed", () => {
+  beforeEach(() => {
+    lookupMock.mockReset();
+  });
+
+  it("allows a host with only public addresses", async () => {
+    resolvesTo("93.184.216.34", "2606:2800:220:1:248:1893:25c8:1946");
+
+    await expect(assertWebhookUrlAllowed("https://example.com/hook")).resolves.toBeUndefined();
+    expect(lookupMock).toHaveBeenCalledWith("example.com", { all: true, verbatim: true });
+  });
+
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "100.64.0.1",
+    "169.254.169.254",
+    "0.0.0.0",
+    "::1",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::ffff:169.254.169.254",
+  ])("rejects a host resolving to %s", async (address) => {
+    resolvesTo(address);
+
+    await expect(assertWebhookUrlAllowed("https://internal.example/hook")).rejects.toThrow(
+      /public address/
+    );
+  });
+
+  it("rejects a host with any blocked address", async () => {
+    resolvesTo("93.184.216.34", "10.0.0.1");
+
+    await expect(assertWebhookUrlAllowed("https://example.com/hook")).rejects.toThrow(
+      /public address/
+    );
+  });
+
+  it("strips the brackets from IPv6 literals", async () => {
+    resolvesTo("::1");
+
+    await expect(assertWebhookUrlAllowed("http://[::1]:8080/hook")).rejects.toThrow(
+      /public address/
+    );
+    expect(lookupMock).toHaveBeenCalledWith("::1", { all: true, verbatim: true });
+  });
+
+  it("rejects hosts that don't resolve", async () => {
+    lookupMock.mockRejectedValue(new Error("getaddrinfo ENOTFOUND"));
+
+    await expect(assertWebhookUrlAllowed("https://missing.example/hook")).rejects.toThrow(
+      /Could not resolve missing.example/
+    );
+  });
+
+  it("rejects schemes other than http and https", async () => {
+    await expect(assertWebhookUrlAllowed("ftp://example.com/hook")).rejects.toThrow(
+      /http or https/
+    );
+    expect(lookupMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,423 @@
+import { createHmac } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList } from "node:net";
+import { eq, and, lte, asc, sql } from "drizzle-orm";
+import { generateToken, hasPermission } from "@sme/shared";
+import { db, type Database, type Transaction } from "../db/index";
+import {
+  webhookEndpoints,
+  webhookDeliveries,
+  type WebhookDelivery,
+} from "../db/schema/index";
+import { subscribeToAllEvents, type DomainEvent } from "../events/index";
+
+// ============================================
+// Webhooks — signed outbound deliveries of domain events
+// ============================================
+// A platform event subscriber queues one webhook_deliveries row per matching
+// active endpoint (patterns use the permission wildcard grammar). The
+// delivery worker POSTs them with an HMAC signature and retries failures
+// with exponential backoff. Every row doubles as the delivery log.
+//
+// Receivers verify:
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>
+//
+// Endpoints must resolve to public addresses — checked when an endpoint is
+// saved and again before every delivery (see assertWebhookUrlAllowed). Only
+// the response status is logged, never the body.
+// ============================================
+
+const MAX_ATTEMPTS = 10;
+const REQUEST_TIMEOUT_MS = 10_000;
+/** Claim lease — a crashed worker's deliveries become available again after this */
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Addresses a webhook may never reach: loopback, private, link-local (which
+ * includes cloud metadata at 169.254.169.254), shared/CGNAT, multicast and
+ * reserved ranges. IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/** Body POSTed to the endpoint */
+export interface WebhookPayload {
+  id: string;
+  type: string;
+  tenantId: string;
+  occurredAt: string;
+  data: unknown;
+}
+
+export interface WebhookDeliveryRunResult {
+  succeeded: number;
+  retried: number;
+  failed: number;
+}
+
+/** New random signing secret (shown to the user once) */
+export function generateWebhookSecret(): string {
+  return `whsec_${generateToken(24)}`;
+}
+
+/** Signature header value for a request body */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Resolve a webhook URL's host and throw unless every address it resolves
+ * to is public. Called when an endpoint is saved and before each delivery,
+ * since DNS can change in between.
+ */
+export async function assertWebhookUrlAllowed(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "https:" && protocol !== "http:") {
+    throw new Error("Webhook URL must use http or https");
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Could not resolve ${host}`);
+  }
+
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address, family }) =>
+      BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+    )
+  ) {
+    throw new Error(
+      "Webhook URL must resolve to a public address (not loopback, private or link-local)"
+    );
+  }
+}
+
+/** Whether an endpoint's event patterns match an event type */
+export function matchesWebhookEvents(patterns: string[], eventType: string): boolean {
+  return hasPermission(patterns, eventType);
+}
+
+// ------------------------------------------
+// Queueing (event bus subscriber)
+// ------------------------------------------
+
+subscribeToAllEvents("core:webhooks", async (event: DomainEvent, { db: tx }) => {
+  const endpoints = await tx
+    .select({ id: webhookEndpoints.id, events: webhookEndpoints.events })
+    .from(webhookEndpoints)
+    .where(
+      and(
+        eq(webhookEndpoints.tenantId, event.tenantId),
+        eq(webhookEndpoints.isActive, true)
+      )
+    );
+
+  const matching = endpoints.filter((e) => matchesWebhookEvents(e.events, event.type));
+  if (matching.length === 0) return;
+
+  const payload: WebhookPayload = {
+    id: event.id,
+    type: event.type,
+    tenantId: event.tenantId,
+    occurredAt: event.occurredAt.toISOString(),
+    data: event.payload,
+  };
+
+  await tx.insert(webhookDeliveries).values(
+    matching.map((endpoint) => ({
+      tenantId: event.tenantId,
+      endpointId: endpoint.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload,
+    }))
+  );
+
+  scheduleWebhookDelivery();
+});
+
+/**
+ * Queue a test delivery ("webhook:ping") to one endpoint.
+ *
+ * @returns The delivery ID
+ */
+export async function queueWebhookPing(
+  tenantId: string,
+  endpointId: string,
+  database: Database | Transaction = db
+): Promise<string> {
+  const payload: WebhookPayload = {
+    id: crypto.randomUUID(),
+    type: "webhook:ping",
+    tenantId,
+    occurredAt: new Date().toISOString(),
+    data: {},
+  };
+
+  const [delivery] = await database
+    .insert(webhookDeliveries)
+    .values({
+      tenantId,
+      endpointId,
+      eventType: payload.type,
+      payload,
+    })
+    .returning({ id: webhookDeliveries.id });
+
+  scheduleWebhookDelivery();
+  return delivery!.id;
+}
+
+/**
+ * Re-send a delivery's payload as a new delivery. The original row is kept
+ * in the log; the replay references it via replay_of.
+ *
+ * @returns The new delivery, or null if the original doesn't exist in the tenant
+ */
+export async function replayWebhookDelivery(
+  tenantId: string,
+  deliveryId: string,
+  database: Database | Transaction = db
+): Promise<WebhookDelivery | null> {
+  const [original] = await database
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.id, deliveryId),
+        eq(webhookDeliveries.tenantId, tenantId)
+      )
+    )
+    .limit(1);
+
+  if (!original) return null;
+
+  const [replay] = await database
+    .insert(webhookDeliveries)
+    .values({
+      tenantId,
+      endpointId: original.endpointId,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload,
+      replayOf: original.id,
+    })
+    .returning();
+
+  scheduleWebhookDelivery();
+  return replay ?? null;
+}
+
+// ------------------------------------------
+// Delivery worker
+// ------------------------------------------
+
+function backoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Claim due deliveries and POST them.
+ * Safe to call concurrently — claimed rows are skipped by other workers.
+ */
+export async function deliverPendingWebhooks(
+  limit = 25,
+  database: Database = db
+): Promise<WebhookDeliveryRunResult> {
+  const result: WebhookDeliveryRunResult = { succeeded: 0, retried: 0, failed: 0 };
+
+  const claimed = await database.transaction(async (tx) => {
+    const due = await tx
+      .select({
+        delivery: webhookDeliveries,
+        url: webhookEndpoints.url,
+        secret: webhookEndpoints.secret,
+        isActive: webhookEndpoints.isActive,
+      })
+      .from(webhookDeliveries)
+      .innerJoin(webhookEndpoints, eq(webhookEndpoints.id, webhookDeliveries.endpointId))
+      .where(
+        and(
+          eq(webhookDeliveries.status, "pending"),
+          lte(webhookDeliveries.nextAttemptAt, new Date())
+        )
+      )
+      .orderBy(asc(webhookDeliveries.createdAt))
+      .limit(limit)
+      .for("update", { of: webhookDeliveries, skipLocked: true });
+
+    for (const row of due) {
+      await tx
+        .update(webhookDeliveries)
+        .set({
+          attempts: sql`${webhookDeliveries.attempts} + 1`,
+          nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS),
+        })
+        .where(eq(webhookDeliveries.id, row.delivery.id));
+    }
+    return due;
+  });
+
+  for (const { delivery, url, secret, isActive } of claimed) {
+    const attempts = delivery.attempts + 1;
+
+    if (!isActive) {
+      await database
+        .update(webhookDeliveries)
+        .set({ status: "failed", lastError: "Endpoint is disabled" })
+        .where(eq(webhookDeliveries.id, delivery.id));
+      result.failed++;
+      continue;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      await assertWebhookUrlAllowed(url);
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "SME-Platform-Webhooks/1.0",
+          "X-Webhook-Id": delivery.id,
+          "X-Webhook-Event": delivery.eventType,
+          "X-Webhook-Signature": signWebhookPayload(secret, body),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      // The body is never read — only the status is logged
+      await response.body?.cancel();
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const durationMs = Date.now() - startedAt;
+
+    if (!error) {
+      await database
+        .update(webhookDeliveries)
+        .set({
+          status: "succeeded",
+          responseStatus,
+          durationMs,
+          lastError: null,
+          deliveredAt: new Date(),
+        })
+        .where(eq(webhookDeliveries.id, delivery.id));
+      result.succeeded++;
+      continue;
+    }
+
+    const exhausted = attempts >= MAX_ATTEMPTS;
+    await database
+      .update(webhookDeliveries)
+      .set({
+        status: exhausted ? "failed" : "pending",
+        responseStatus,
+        durationMs,
+        lastError: error,
+        nextAttemptAt: new Date(Date.now() + backoffMs(attempts)),
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    if (exhausted) result.failed++;
+    else result.retried++;
+  }
+
+  return result;
+}
+
+// ------------------------------------------
+// Scheduling
+// ------------------------------------------
+
+let deliveryTimer: ReturnType<typeof setTimeout> | null = null;
+let delivering = false;
+
+function scheduleWebhookDelivery(): void {
+  if (deliveryTimer) return;
+  deliveryTimer = setTimeout(() => {
+    deliveryTimer = null;
+    void runDelivery();
+  }, 100);
+  deliveryTimer.unref?.();
+}
+
+async function runDelivery(): Promise<void> {
+  if (delivering) return;
+  delivering = true;
+  try {
+    for (;;) {
+      const { succeeded, retried, failed } = await deliverPendingWebhooks();
+      if (succeeded + retried + failed === 0) break;
+    }
+  } catch (err) {
+    console.error("[webhooks] Delivery run failed:", err);
+  } finally {
+    delivering = false;
+  }
+}
+
+/**
+ * Poll for due webhook deliveries (retries, and rows queued by other
+ * processes). Call once per server process (see apps/web/instrumentation.ts).
+ *
+ * @returns A function that stops the worker
+ */
+export function startWebhookWorker(intervalMs = 10_000): () => void {
+  const timer = setInterval(() => void runDelivery(), intervalMs);
+  timer.unref?.();
+  void runDelivery();
+  return () => clearInterval(timer);
+}
@@ -31,7 +31,12 @@ export interface AppError {
 }
 
 /** Auth method types */
-export type AuthMethod = "password" | "pin" | "oauth";
+export type AuthMethod =
+  | "password"
+  | "pin"
+  | "oauth"
+  | "impersonation"
+  | "api_key";
 
 /** Session context available in all authenticated requests */
 export interface SessionContext {
@@ -54,6 +59,15 @@ export interface ModuleNavItem {
   children?: ModuleNavItem[];
 }
 
+/** A permission declared by core or a module, shown in the permission catalog */
+export interface PermissionDefinition {
+  /** module:resource:action (or module:action) */
+  key: string;
+  description: string;
+  /** Catalog heading — module permissions default to the module name */
+  group?: string;
+}
+
 /** Module definition shape */
 export interface ModuleDefinition {
   id: string;
@@ -61,7 +75,7 @@ export interface ModuleDefinition {
   version: string;
   description?: string;
   dependencies: string[];
-  permissions: string[];
+  permissions: PermissionDefinition[];
   roleDefaults: Record<string, string[]>;
   navigation: ModuleNavItem[];
 }
@@ -72,9 +86,25 @@ export interface TenantSettings {
   currency?: string;
   locale?: string;
   dateFormat?: string;
+  /** Days audit entries stay in audit_logs before monthly archival (unset = forever) */
+  auditRetentionDays?: number | null;
+  /** Role slugs whose members must sign in with a second factor (PIN
+   *  sessions can't satisfy it) */
+  mfaRequiredRoles?: string[];
+  /** Role given to auto-provisioned members of the tenant's verified SSO
+   *  domains (unset = no auto-provisioning) */
+  ssoAutoProvisionRoleId?: string | null;
   [key: string]: unknown;
 }
 
+/** Plan limits stored in JSONB — omitted keys mean unlimited */
+export interface PlanLimits {
+  /** Active tenant members */
+  maxMembers?: number;
+  /** Modules enabled at once */
+  maxModules?: number;
+}
+
 /** Built-in system role slugs */
 export const SYSTEM_ROLES = ["owner", "admin", "manager", "operator", "viewer"] as const;
 export type SystemRole = (typeof SYSTEM_ROLES)[number];
@@ -12,39 +12,52 @@ export function slugify(text: string): string {
     .replace(/^-+|-+$/g, "");
 }
 
-/** Check if a permission matches against a set of granted permissions.
- *  Supports wildcards: `*` matches everything, `module:*` matches all in module,
- *  `module:resource:*` matches all actions on a resource.
+/** Check if one permission pattern (without a leading `!`) covers a
+ *  required permission: `*`, exact match, `module:*` or `module:resource:*`.
  */
-export function hasPermission(
-  grantedPermissions: string[],
+export function permissionMatches(
+  pattern: string,
   requiredPermission: string
 ): boolean {
-  // Full wildcard — superadmin
-  if (grantedPermissions.includes("*")) return true;
+  if (pattern === "*" || pattern === requiredPermission) return true;
 
-  // Direct match
-  if (grantedPermissions.includes(requiredPermission)) return true;
-
-  // Check wildcard matches
   const parts = requiredPermission.split(":");
 
   // module:* — matches anything in that module
-  if (parts.length >= 2 && grantedPermissions.includes(`${parts[0]}:*`)) {
-    return true;
-  }
+  if (parts.length >= 2 && pattern === `${parts[0]}:*`) return true;
 
   // module:resource:* — matches any action on that resource
-  if (
-    parts.length === 3 &&
-    grantedPermissions.includes(`${parts[0]}:${parts[1]}:*`)
-  ) {
+  if (parts.length === 3 && pattern === `${parts[0]}:${parts[1]}:*`) {
     return true;
   }
 
   return false;
 }
 
+/** Check if a permission matches against a set of granted permissions.
+ *  Supports wildcards: `*` matches everything, `module:*` matches all in module,
+ *  `module:resource:*` matches all actions on a resource.
+ *  Denies (`!catalog:products:delete`, `!catalog:*`) override any grant.
+ */
+export function hasPermission(
+  grantedPermissions: string[],
+  requiredPermission: string
+): boolean {
+  let granted = false;
+
+  for (const permission of grantedPermissions) {
+    if (permission.startsWith("!")) {
+      if (permissionMatches(permission.slice(1), requiredPermission)) {
+        return false;
+      }
+    } else if (!granted && permissionMatches(permission, requiredPermission)) {
+      granted = true;
+    }
+  }
+
+  return granted;
+}
+
 /** Format a date for display (ISO string or Date → readable) */
 export function formatDate(date: Date | string, locale = "en-PH"): string {
   const d = typeof date === "string" ? new Date(date) : date;
@@ -102,3 +115,77 @@ export function paginatedResult<T extends { id: string }>(
   const nextCursor = hasMore && data.length > 0 ? data[data.length - 1]!.id : null;
   return { data, nextCursor, hasMore };
 }
+
+export interface AuditChangeDiff {
+  key: string;
+  kind: "added" | "removed" | "changed" | "unchanged";
+  before: unknown;
+  after: unknown;
+}
+
+/** Field-by-field diff of an audit entry's `changes` ({ before, after }).
+ *  Values are compared structurally; keys keep first-seen order.
+ */
+export function diffAuditChanges(
+  changes: { before?: Record<string, unknown>; after?: Record<string, unknown> } | null | undefined
+): AuditChangeDiff[] {
+  const before = changes?.before ?? {};
+  const after = changes?.after ?? {};
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return keys.map((key) => {
+    const inBefore = key in before;
+    const inAfter = key in after;
+    const kind: AuditChangeDiff["kind"] = !inBefore
+      ? "added"
+      : !inAfter
+        ? "removed"
+        : JSON.stringify(before[key]) === JSON.stringify(after[key])
+          ? "unchanged"
+          : "changed";
+    return { key, kind, before: before[key], after: after[key] };
+  });
+}
+
+export interface UserAgentInfo {
+  browser: string | null;
+  os: string | null;
+  device: "desktop" | "mobile" | "tablet";
+}
+
+// Order matters: Edge and Opera also claim Chrome, Chrome also claims Safari
+const UA_BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const UA_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/** Best-effort browser, OS and device type from a User-Agent header —
+ *  for showing sessions to people, not for feature detection.
+ */
+export function parseUserAgent(userAgent: string | null | undefined): UserAgentInfo {
+  const ua = userAgent ?? "";
+  const match = (table: [RegExp, string][]) =>
+    table.find(([pattern]) => pattern.test(ua))?.[1] ?? null;
+
+  let device: UserAgentInfo["device"] = "desktop";
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    device = "tablet";
+  } else if (/Mobi|iPhone|iPod/.test(ua)) {
+    device = "mobile";
+  }
+
+  return { browser: match(UA_BROWSERS), os: match(UA_SYSTEMS), device };
+}
@@ -54,12 +54,12 @@ export const paginationSchema = z.object({
 /** Sort direction */
 export const sortDirectionSchema = z.enum(["asc", "desc"]);
 
-/** Permission string format: module:resource:action or wildcard (allows hyphens and numbers) */
+/** Permission string format: module:resource:action or wildcard (allows hyphens and numbers); a leading `!` denies */
 export const permissionSchema = z
   .string()
   .regex(
-    /^(\*|[a-z][a-z0-9-]*:\*|[a-z][a-z0-9-]*:[a-z][a-z0-9-]*:\*|[a-z][a-z0-9-]*:[a-z][a-z0-9-]*:[a-z][a-z0-9-]*)$/,
-    "Permission must be in format module:resource:action (wildcards allowed)"
+    /^(\*|!?([a-z][a-z0-9-]*:\*|[a-z][a-z0-9-]*:[a-z][a-z0-9-]*:\*|[a-z][a-z0-9-]*:[a-z][a-z0-9-]*(:[a-z][a-z0-9-]*)?))$/,
+    "Permission must be in format module:resource:action (wildcards allowed, ! prefix denies)"
   );
 
 // ============================================
@@ -87,10 +87,40 @@ export const pinLoginSchema = z.object({
 // Tenant Schemas
 // ============================================
 
+export const MIN_AUDIT_RETENTION_DAYS = 90;
+export const MAX_AUDIT_RETENTION_DAYS = 3650;
+
+/** Email domain for SSO auto-provisioning (verified through DNS before use) */
+export const ssoDomainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(253)
+  .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Invalid domain");
+
+/** TenantSettings — known keys are validated, others pass through */
+export const tenantSettingsSchema = z
+  .object({
+    timezone: z.string().max(100).optional(),
+    currency: z.string().max(10).optional(),
+    locale: z.string().max(20).optional(),
+    dateFormat: z.string().max(50).optional(),
+    auditRetentionDays: z
+      .number()
+      .int()
+      .min(MIN_AUDIT_RETENTION_DAYS)
+      .max(MAX_AUDIT_RETENTION_DAYS)
+      .nullable()
+      .optional(),
+    mfaRequiredRoles: z.array(z.string().max(100)).max(50).optional(),
+    ssoAutoProvisionRoleId: z.string().uuid().nullable().optional(),
+  })
+  .passthrough();
+
 export const createTenantSchema = z.object({
   name: tenantNameSchema,
   slug: tenantSlugSchema,
-  settings: z.record(z.unknown()).optional(),
+  settings: tenantSettingsSchema.optional(),
 });
 
 /**
@@ -100,7 +130,7 @@ export const createTenantSchema = z.object({
  */
 export const updateTenantSchema = z.object({
   name: tenantNameSchema.optional(),
-  settings: z.record(z.unknown()).optional(),
+  settings: tenantSettingsSchema.optional(),
 });
 
 // ============================================
@@ -121,6 +151,41 @@ export const updateRoleSchema = z.object({
   permissions: z.array(permissionSchema).optional(),
 });
 
+export const createRoleTemplateSchema = z.object({
+  name: z.string().min(1).max(50).trim(),
+  slug: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/),
+  description: z.string().max(500).optional(),
+  permissions: z.array(permissionSchema),
+});
+
+export const updateRoleTemplateSchema = z.object({
+  templateId: uuidSchema,
+  name: z.string().min(1).max(50).trim().optional(),
+  description: z.string().max(500).nullable().optional(),
+  permissions: z.array(permissionSchema).optional(),
+});
+
+export const roleTemplateFromRoleSchema = z.object({
+  /** Any tenant's role to copy */
+  roleId: uuidSchema,
+  slug: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/).optional(),
+  name: z.string().min(1).max(50).trim().optional(),
+});
+
+export const applyRoleTemplateSchema = z.object({
+  templateId: uuidSchema,
+  /** Omit to apply to every active tenant */
+  tenantId: uuidSchema.optional(),
+});
+
+export const explainPermissionSchema = z.object({
+  /** Member to explain — defaults to the caller */
+  membershipId: uuidSchema.optional(),
+  permission: permissionSchema,
+  /** Evaluate with the member's role at this location */
+  locationId: uuidSchema.optional(),
+});
+
 // ============================================
 // User Schemas
 // ============================================
@@ -132,6 +197,12 @@ export const inviteUserSchema = z.object({
   pin: pinSchema.optional(),
 });
 
+/** Accept an invitation — a password is only needed for a new account */
+export const acceptInvitationSchema = z.object({
+  token: z.string().trim().min(1).max(200),
+  password: passwordSchema.optional(),
+});
+
 export const updateMembershipSchema = z.object({
   membershipId: uuidSchema,
   roleId: uuidSchema.optional(),
@@ -139,6 +210,55 @@ export const updateMembershipSchema = z.object({
   isActive: z.boolean().optional(),
 });
 
+/** Longest a temporary permission grant may last */
+export const MAX_PERMISSION_GRANT_DAYS = 365;
+
+export const grantPermissionSchema = z.object({
+  membershipId: uuidSchema,
+  /** Permission to add, or a deny (`!module:resource:action`) */
+  permission: permissionSchema,
+  expiresAt: z.coerce
+    .date()
+    .refine((d) => d.getTime() > Date.now(), "Expiry must be in the future")
+    .refine(
+      (d) => d.getTime() <= Date.now() + MAX_PERMISSION_GRANT_DAYS * 24 * 60 * 60 * 1000,
+      `Grants can last at most ${MAX_PERMISSION_GRANT_DAYS} days`
+    ),
+  reason: z.string().max(500).optional(),
+});
+
+// ============================================
+// Location Schemas
+// ============================================
+
+export const locationCodeSchema = z
+  .string()
+  .min(1)
+  .max(20)
+  .regex(/^[A-Za-z0-9-]+$/, "Code must be letters, numbers, and hyphens")
+  .transform((v) => v.toUpperCase());
+
+export const createLocationSchema = z.object({
+  name: z.string().min(1).max(100).trim(),
+  code: locationCodeSchema.optional(),
+  address: z.string().max(500).optional(),
+});
+
+export const updateLocationSchema = z.object({
+  id: uuidSchema,
+  name: z.string().min(1).max(100).trim().optional(),
+  code: locationCodeSchema.nullable().optional(),
+  address: z.string().max(500).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const assignLocationSchema = z.object({
+  membershipId: uuidSchema,
+  locationId: uuidSchema,
+  /** Role at this location — null uses the member's tenant role */
+  roleId: uuidSchema.nullable().optional(),
+});
+
 // ============================================
 // Module Schemas
 // ============================================
@@ -150,6 +270,197 @@ export const enableModuleSchema = z.object({
 
 export const disableModuleSchema = z.object({
   moduleId: z.string().min(1).max(50),
+  mode: z.enum(["keep", "archive", "purge"]).default("keep"),
+  /** Required for mode "purge" — issued by requestModulePurge */
+  confirmationToken: z.string().min(1).max(200).optional(),
+});
+
+export const updateModuleConfigSchema = z.object({
+  moduleId: z.string().min(1).max(50),
+  config: z.record(z.unknown()),
+});
+
+// ============================================
+// Plan Schemas
+// ============================================
+
+export const planSlugSchema = z
+  .string()
+  .min(2)
+  .max(50)
+  .regex(/^[a-z0-9-]+$/, "Slug can only contain lowercase letters, numbers, and hyphens");
+
+export const planLimitsSchema = z.object({
+  maxMembers: z.number().int().min(1).optional(),
+  maxModules: z.number().int().min(0).optional(),
+});
+
+export const createPlanSchema = z.object({
+  slug: planSlugSchema,
+  name: z.string().min(1).max(100).trim(),
+  description: z.string().max(500).optional(),
+  modules: z.array(z.string().min(1).max(50)).default([]),
+  limits: planLimitsSchema.default({}),
+});
+
+export const updatePlanSchema = z.object({
+  planId: z.string().uuid(),
+  name: z.string().min(1).max(100).trim().optional(),
+  description: z.string().max(500).nullable().optional(),
+  modules: z.array(z.string().min(1).max(50)).optional(),
+  limits: planLimitsSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const setTenantPlanSchema = z.object({
+  tenantId: z.string().uuid(),
+  /** null removes the plan — the tenant's modules become super-admin managed only */
+  planId: z.string().uuid().nullable(),
+});
+
+// ============================================
+// Webhook Schemas
+// ============================================
+
+/** Event pattern: module:resource:action, same wildcards as permissions */
+export const webhookEventPatternSchema = z
+  .string()
+  .regex(
+    /^(\*|[a-z][a-z0-9_-]*:\*|[a-z][a-z0-9_-]*:[a-z][a-z0-9_-]*:\*|[a-z][a-z0-9_-]*:[a-z][a-z0-9_-]*:[a-z][a-z0-9_-]*)$/,
+    "Event must be in format module:resource:action (wildcards allowed)"
+  );
+
+export const webhookUrlSchema = z
+  .string()
+  .url()
+  .max(2000)
+  .refine((url) => /^https?:\/\//.test(url), "URL must use http or https")
+  // Early feedback only — the server resolves the host and rejects
+  // private and link-local addresses (assertWebhookUrlAllowed in core)
+  .refine(
+    (url) => !/^https?:\/\/(?:[^@/?#]*@)?(?:[^/?#:@]*\.)?localhost\.?(?:[:/?#]|$)/i.test(url),
+    "URL must point to a public host"
+  );
+
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().max(200).optional(),
+  events: z.array(webhookEventPatternSchema).min(1).max(50),
+});
+
+export const updateWebhookEndpointSchema = z.object({
+  endpointId: z.string().uuid(),
+  url: webhookUrlSchema.optional(),
+  description: z.string().max(200).nullable().optional(),
+  events: z.array(webhookEventPatternSchema).min(1).max(50).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// ============================================
+// API Key Schemas
+// ============================================
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  /** Must be covered by the creator's own permissions */
+  permissions: z.array(permissionSchema).min(1).max(100),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+});
+
+export const revokeApiKeySchema = z.object({
+  keyId: z.string().uuid(),
+});
+
+// ============================================
+// Audit Log
+// ============================================
+
+export const auditLogFilterSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  action: z.string().max(100).optional(),
+  /** e.g. "costing:" or "role:" — matches every action starting with it */
+  actionPrefix: z.string().max(100).optional(),
+  resourceType: z.string().max(50).optional(),
+  userId: uuidSchema.optional(),
+  /** Every entry written by one request */
+  requestId: z.string().max(64).optional(),
+  /** Full-text search over keys and values in `changes` */
+  search: z.string().trim().min(1).max(200).optional(),
+});
+
+/** Cursor is the id of the last entry of the previous page */
+export const listAuditLogsSchema = paginationSchema.merge(auditLogFilterSchema);
+
+export const AUDIT_EXPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export const exportAuditLogsSchema = auditLogFilterSchema
+  .extend({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    format: z.enum(AUDIT_EXPORT_FORMATS).default("csv"),
+  })
+  .refine((input) => input.from <= input.to, {
+    message: "Start date must be before end date",
+    path: ["to"],
+  });
+
+// ============================================
+// Impersonation Validators
+// ============================================
+
+export const MAX_IMPERSONATION_MINUTES = 120;
+
+export const impersonateSchema = z.object({
+  tenantId: uuidSchema,
+  /** Member to act as — sees exactly what they see */
+  userId: uuidSchema,
+  /** Recorded in the audit log, e.g. a support ticket reference */
+  reason: z.string().trim().min(3).max(500),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(5)
+    .max(MAX_IMPERSONATION_MINUTES)
+    .default(30),
+  /** Sessions are read-only unless writes are explicitly allowed */
+  allowWrites: z.boolean().default(false),
+});
+
+// ============================================
+// MFA Validators
+// ============================================
+
+/** A 6-digit authenticator code, or a recovery code (xxxxx-xxxxx) */
+export const mfaCodeSchema = z.string().trim().min(6).max(32);
+
+export const verifyMfaSchema = z.object({
+  code: mfaCodeSchema,
+});
+
+export const disableMfaSchema = z.object({
+  password: z.string().min(1),
+  code: mfaCodeSchema,
+});
+
+// ============================================
+// Password Reset & Email Verification Validators
+// ============================================
+
+/** Raw token from an emailed link */
+export const userTokenSchema = z.string().trim().min(1).max(200);
+
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: userTokenSchema,
+  password: passwordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: userTokenSchema,
 });
 
 // ============================================
@@ -161,10 +472,38 @@ export type RegisterInput = z.infer<typeof registerSchema>;
 export type PinLoginInput = z.infer<typeof pinLoginSchema>;
 export type CreateTenantInput = z.infer<typeof createTenantSchema>;
 export type UpdateTenantInput = z.infer<typeof updateTenantSchema>;
+export type TenantSettingsInput = z.infer<typeof tenantSettingsSchema>;
 export type CreateRoleInput = z.infer<typeof createRoleSchema>;
 export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type CreateRoleTemplateInput = z.infer<typeof createRoleTemplateSchema>;
+export type UpdateRoleTemplateInput = z.infer<typeof updateRoleTemplateSchema>;
+export type RoleTemplateFromRoleInput = z.infer<typeof roleTemplateFromRoleSchema>;
+export type ApplyRoleTemplateInput = z.infer<typeof applyRoleTemplateSchema>;
+export type ExplainPermissionInput = z.infer<typeof explainPermissionSchema>;
 export type InviteUserInput = z.infer<typeof inviteUserSchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
 export type UpdateMembershipInput = z.infer<typeof updateMembershipSchema>;
+export type GrantPermissionInput = z.infer<typeof grantPermissionSchema>;
+export type CreateLocationInput = z.infer<typeof createLocationSchema>;
+export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
+export type AssignLocationInput = z.infer<typeof assignLocationSchema>;
 export type EnableModuleInput = z.infer<typeof enableModuleSchema>;
 export type DisableModuleInput = z.infer<typeof disableModuleSchema>;
+export type UpdateModuleConfigInput = z.infer<typeof updateModuleConfigSchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
+export type CreatePlanInput = z.infer<typeof createPlanSchema>;
+export type UpdatePlanInput = z.infer<typeof updatePlanSchema>;
+export type SetTenantPlanInput = z.infer<typeof setTenantPlanSchema>;
+export type CreateWebhookEndpointInput = z.infer<typeof createWebhookEndpointSchema>;
+export type UpdateWebhookEndpointInput = z.infer<typeof updateWebhookEndpointSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type RevokeApiKeyInput = z.infer<typeof revokeApiKeySchema>;
+export type AuditLogFilterInput = z.infer<typeof auditLogFilterSchema>;
+export type ListAuditLogsInput = z.infer<typeof listAuditLogsSchema>;
+export type ExportAuditLogsInput = z.infer<typeof exportAuditLogsSchema>;
+export type ImpersonateInput = z.infer<typeof impersonateSchema>;
+export type VerifyMfaInput = z.infer<typeof verifyMfaSchema>;
+export type DisableMfaInput = z.infer<typeof disableMfaSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;